@@ -11,6 +11,7 @@ import { config } from './config';
 import { apiKeyAuth, optionalAuth } from './middleware/auth';
 import { errorHandler, notFoundHandler } from './middleware/errorHandler';
 import routes from './routes/index';
+import authRoutes from './routes/auth';
 
 export function createApp(): Express {
   const app = express();
@@ -29,7 +30,7 @@ export function createApp(): Express {
   // Rate limiting
   const limiter = rateLimit({
     windowMs: 60 * 1000, // 1 minute
-    max: config.isDev ? 1000 : 100, // Higher limit in dev
+    max: config.isDev || config.isTest ? 1000 : 100, // Higher limit in dev and tests
     message: { error: 'Too many requests', message: 'Please try again later' },
   });
   app.use('/api', limiter);
@@ -51,6 +52,9 @@ export function createApp(): Express {
     res.json({ status: 'ok', timestamp: new Date().toISOString() });
   });
 
+  // Operator sign-in (no auth), ahead of the key check so it works when the key is required
+  app.use('/api/auth', authRoutes);
+
   // API routes
   // By default, use optional auth. API key auth can be enabled via REQUIRE_API_KEY=true
   const requireAuth = process.env.REQUIRE_API_KEY === 'true';
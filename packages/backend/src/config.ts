@@ -9,6 +9,9 @@ import { z } from 'zod';
 // Load .env file
 dotenvConfig();
 
+// Placeholder key; contract routes stay closed while it is in use
+export const DEFAULT_API_KEY = 'demo-api-key-change-in-production';
+
 // Configuration schema with validation
 const configSchema = z.object({
   // Server
@@ -17,10 +20,11 @@ const configSchema = z.object({
   NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
   
   // Security
-  API_KEY: z.string().default('demo-api-key-change-in-production'),
+  API_KEY: z.string().default(DEFAULT_API_KEY),
   CORS_ORIGIN: z.string().default('*'),
   
   // Database
+  DB_DRIVER: z.enum(['sqlite', 'memory']).default('sqlite'),
   DB_PATH: z.string().default('./data/sentinel.db'),
   
   // Simulation
@@ -29,6 +33,11 @@ const configSchema = z.object({
   TICK_INTERVAL_MS: z.string().default('3000'),
   PREDICTION_INTERVAL_MS: z.string().default('10000'),
   
+  // Prediction model
+  PREDICTION_PROVIDER: z.enum(['heuristic', 'http', 'shadow']).default('heuristic'),
+  PREDICTION_MODEL_URL: z.string().url().optional(),
+  PREDICTION_MODEL_TIMEOUT_MS: z.string().default('5000'),
+  
   // IPFS / Web3.Storage
   WEB3STORAGE_TOKEN: z.string().optional(),
   IPFS_LOCAL: z.string().default('false'),
@@ -36,19 +45,36 @@ const configSchema = z.object({
   
   // Blockchain
   ENABLE_BLOCKCHAIN: z.string().default('false'),
+  ANCHOR_CHAIN: z.enum(['local', 'base', 'optimism']).default('local'),
   HARDHAT_RPC: z.string().default('http://localhost:8545'),
   BASE_RPC_URL: z.string().optional(),
   OPTIMISM_RPC_URL: z.string().optional(),
   PRIVATE_KEY: z.string().optional(),
   CONTRACT_ADDRESS: z.string().optional(),
+  ANCHOR_CONFIRMATIONS: z.string().default('1'),
+  RECEIPT_POLL_MS: z.string().default('5000'),
+  ANCHOR_RECEIPT_TIMEOUT_MS: z.string().default('600000'),
   
   // Integrity
   PIN_HMAC_KEY: z.string().default('demo-hmac-key-change-in-production'),
   
+  // Alert delivery
+  SMTP_HOST: z.string().optional(),
+  SMTP_PORT: z.string().default('587'),
+  SMTP_SECURE: z.string().default('false'),
+  SMTP_USER: z.string().optional(),
+  SMTP_PASS: z.string().optional(),
+  ALERT_EMAIL_FROM: z.string().default('sentinel-grid@localhost'),
+  ALERT_DELIVERY_ATTEMPTS: z.string().default('3'),
+  ALERT_RETRY_BACKOFF_MS: z.string().default('1000'),
+  
   // Scheduler
   ANCHOR_CRON: z.string().default('*/5 * * * *'), // Every 5 minutes
   AUTO_ANCHOR: z.string().default('false'),
-});
+}).refine(
+  (env) => env.PREDICTION_PROVIDER === 'heuristic' || !!env.PREDICTION_MODEL_URL,
+  { message: 'PREDICTION_MODEL_URL is required for the http and shadow providers', path: ['PREDICTION_MODEL_URL'] }
+);
 
 // Parse and validate
 const parsed = configSchema.safeParse(process.env);
@@ -73,9 +99,12 @@ export const config = {
   
   // Security
   apiKey: env.API_KEY,
+  // The placeholder key disables key auth
+  apiKeyConfigured: env.API_KEY !== '' && env.API_KEY !== DEFAULT_API_KEY,
   corsOrigin: env.CORS_ORIGIN,
   
   // Database
+  dbDriver: env.DB_DRIVER,
   dbPath: env.DB_PATH,
   
   // Simulation
@@ -86,6 +115,13 @@ export const config = {
     predictionIntervalMs: parseInt(env.PREDICTION_INTERVAL_MS, 10),
   },
   
+  // Prediction model (the URL is only read by the http and shadow providers)
+  predictions: {
+    provider: env.PREDICTION_PROVIDER,
+    modelUrl: env.PREDICTION_MODEL_URL,
+    modelTimeoutMs: parseInt(env.PREDICTION_MODEL_TIMEOUT_MS, 10),
+  },
+  
   // IPFS
   ipfs: {
     web3StorageToken: env.WEB3STORAGE_TOKEN,
@@ -96,11 +132,15 @@ export const config = {
   // Blockchain
   blockchainEnabled: env.ENABLE_BLOCKCHAIN === 'true',
   blockchain: {
+    chain: env.ANCHOR_CHAIN,
     hardhatRpc: env.HARDHAT_RPC,
     baseRpcUrl: env.BASE_RPC_URL,
     optimismRpcUrl: env.OPTIMISM_RPC_URL,
     privateKey: env.PRIVATE_KEY,
     contractAddress: env.CONTRACT_ADDRESS,
+    confirmations: Math.max(1, parseInt(env.ANCHOR_CONFIRMATIONS, 10)),
+    receiptPollMs: parseInt(env.RECEIPT_POLL_MS, 10),
+    receiptTimeoutMs: parseInt(env.ANCHOR_RECEIPT_TIMEOUT_MS, 10),
   },
   
   // Alias for contract service
@@ -114,6 +154,20 @@ export const config = {
   // Integrity
   hmacKey: env.PIN_HMAC_KEY,
   
+  // Alert delivery (email is only enabled when SMTP_HOST is set)
+  alerts: {
+    smtp: env.SMTP_HOST ? {
+      host: env.SMTP_HOST,
+      port: parseInt(env.SMTP_PORT, 10),
+      secure: env.SMTP_SECURE === 'true',
+      user: env.SMTP_USER,
+      pass: env.SMTP_PASS,
+      from: env.ALERT_EMAIL_FROM,
+    } : null,
+    maxAttempts: parseInt(env.ALERT_DELIVERY_ATTEMPTS, 10),
+    backoffMs: parseInt(env.ALERT_RETRY_BACKOFF_MS, 10),
+  },
+  
   // Scheduler
   scheduler: {
     anchorCron: env.ANCHOR_CRON,
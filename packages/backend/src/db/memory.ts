@@ -0,0 +1,536 @@
+/**
+ * Sentinel Grid Backend - In-Memory Repositories
+ * Map-backed tables used for tests and throwaway demos (DB_DRIVER=memory)
+ */
+
+import { AUDIT_CHAIN_GENESIS, hashAuditChainEntry } from '@sentinel-grid/predictive-engine';
+import type {
+  PredictionRecord,
+  AuditRecord,
+  AnchorRecord,
+  CascadeRecord,
+  MitigationRecord,
+  SnapshotRecord,
+  IncidentRecord,
+  LogRecord,
+  TopologyRecord,
+  AlertConfigRecord,
+  MerkleBatchRecord,
+  MerkleProofRecord,
+} from './types.js';
+
+// ============================================================================
+// In-Memory Storage
+// ============================================================================
+
+interface StorageTable<T> {
+  data: Map<string, T>;
+  insert: (item: T & { id: string }) => void;
+  getAll: () => T[];
+  getById: (id: string) => T | undefined;
+  update: (id: string, updates: Partial<T>) => boolean;
+  delete: (id: string) => boolean;
+  query: (predicate: (item: T) => boolean) => T[];
+}
+
+function createTable<T>(): StorageTable<T> {
+  const data = new Map<string, T>();
+  
+  return {
+    data,
+    insert: (item: T & { id: string }) => {
+      data.set(item.id, item);
+    },
+    getAll: () => Array.from(data.values()),
+    getById: (id: string) => data.get(id),
+    update: (id: string, updates: Partial<T>) => {
+      const existing = data.get(id);
+      if (!existing) return false;
+      data.set(id, { ...existing, ...updates });
+      return true;
+    },
+    delete: (id: string) => data.delete(id),
+    query: (predicate: (item: T) => boolean) => 
+      Array.from(data.values()).filter(predicate),
+  };
+}
+
+// ============================================================================
+// Repositories
+// ============================================================================
+
+export function createMemoryRepositories() {
+  const predictions = createTable<PredictionRecord>();
+  const auditLog = createTable<AuditRecord>();
+  const anchors = createTable<AnchorRecord>();
+  const cascades = createTable<CascadeRecord>();
+  const mitigations = createTable<MitigationRecord>();
+  const snapshots = createTable<SnapshotRecord>();
+  const incidents = createTable<IncidentRecord>();
+  const alertConfigs = createTable<AlertConfigRecord>();
+  const merkleBatches = createTable<MerkleBatchRecord>();
+  const merkleProofs: Map<string, MerkleProofRecord> = new Map();
+  let auditHead = { seq: 0, chainHash: AUDIT_CHAIN_GENESIS };
+  const logs: LogRecord[] = [];
+  let topology: TopologyRecord | undefined;
+
+  const predictionsRepo = {
+    insert: {
+      run: (data: {
+        id: string;
+        nodeId: string;
+        nodeName: string;
+        type: string;
+        probability: number;
+        confidence: number;
+        hoursToEvent: number;
+        predictedTime: string;
+        severity: string;
+        reasoning: string;
+        contributingFactors: string;
+        suggestedActions: string;
+        status: string;
+        createdAt: string;
+      }) => {
+        predictions.insert({ ...data, resolvedAt: undefined, wasAccurate: undefined });
+      },
+    },
+
+    getAll: {
+      all: () => predictions.getAll()
+        .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+        .slice(0, 100),
+    },
+
+    getActive: {
+      all: () => predictions.query((p) => p.status === 'active')
+        .sort((a, b) => b.probability - a.probability),
+    },
+
+    getById: {
+      get: (id: string) => predictions.getById(id),
+    },
+
+    updateStatus: {
+      run: (status: string, resolvedAt: string, wasAccurate: number, id: string) => {
+        predictions.update(id, { status, resolvedAt, wasAccurate: wasAccurate === 1 });
+      },
+    },
+
+    deleteOld: {
+      run: () => {
+        const cutoff = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+        predictions.query((p) => p.createdAt < cutoff && p.status !== 'active')
+          .forEach((p) => predictions.delete(p.id));
+      },
+    },
+  };
+
+  // Append-only: entries are chained on insert, frozen, and never replaced
+  const auditRepo = {
+    insert: {
+      run: (data: {
+        id: string;
+        timestamp: string;
+        type: string;
+        hash: string;
+        actor?: string;
+        dataSummary?: string;
+      }) => {
+        if (auditLog.getById(data.id)) {
+          throw new Error(`audit_log is append-only; entry ${data.id} already exists`);
+        }
+
+        const link = { ...data, seq: auditHead.seq + 1, prevHash: auditHead.chainHash };
+        const chainHash = hashAuditChainEntry(link);
+        auditLog.insert(Object.freeze({ ...link, chainHash, createdAt: new Date().toISOString() }));
+        auditHead = { seq: link.seq, chainHash };
+      },
+    },
+
+    getAll: {
+      all: () => auditLog.getAll()
+        .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+        .slice(0, 200),
+    },
+
+    getByType: {
+      all: (type: string) => auditLog.query((e) => e.type === type)
+        .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+        .slice(0, 50),
+    },
+
+    getRecent: {
+      all: (limit: number) => auditLog.getAll()
+        .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+        .slice(0, limit),
+    },
+
+    getById: {
+      get: (id: string) => auditLog.getById(id),
+    },
+
+    getChain: {
+      all: () => auditLog.query((e) => e.seq !== undefined),
+    },
+
+    countUnchained: {
+      get: () => auditLog.query((e) => e.seq === undefined).length,
+    },
+  };
+
+  const anchorsRepo = {
+    insert: {
+      run: (data: {
+        id: string;
+        payloadHash: string;
+        ipfsCid?: string;
+        chain: string;
+        txHash?: string;
+        status: string;
+        metadata?: string;
+      }) => {
+        anchors.insert({ ...data, createdAt: new Date().toISOString() });
+      },
+    },
+
+    getAll: {
+      all: () => anchors.getAll()
+        .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+        .slice(0, 100),
+    },
+
+    getPending: {
+      all: () => anchors.query((a) => a.status === 'pending')
+        .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()),
+    },
+
+    getSubmitted: {
+      all: () => anchors.query((a) => a.status === 'submitted')
+        .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()),
+    },
+
+    getLastConfirmed: {
+      get: (): AnchorRecord | undefined => anchors.query((a) => a.status === 'confirmed' && a.confirmedAt !== undefined)
+        .sort((a, b) => new Date(b.confirmedAt!).getTime() - new Date(a.confirmedAt!).getTime())[0],
+    },
+
+    getById: {
+      get: (id: string) => anchors.getById(id),
+    },
+
+    updateStatus: {
+      run: (status: string, txHash: string | null, confirmedAt: string | null, id: string) => {
+        anchors.update(id, { status, txHash: txHash ?? undefined, confirmedAt: confirmedAt ?? undefined });
+      },
+    },
+  };
+
+  const cascadeRepo = {
+    insert: {
+      run: (data: {
+        id: string;
+        originNode: string;
+        affectedNodes: string;
+        impactScore: number;
+        totalDamage: number;
+        propagationPath?: string;
+        startTime: string;
+        endTime?: string;
+      }) => {
+        cascades.insert({ ...data, createdAt: new Date().toISOString() });
+      },
+    },
+
+    getAll: {
+      all: () => cascades.getAll()
+        .sort((a, b) => new Date(b.startTime).getTime() - new Date(a.startTime).getTime())
+        .slice(0, 50),
+    },
+
+    getById: {
+      get: (id: string) => cascades.getById(id),
+    },
+  };
+
+  const mitigationsRepo = {
+    insert: {
+      run: (data: {
+        id: string;
+        nodeId: string;
+        nodeName: string;
+        actions: string;
+        riskBefore: number;
+        riskAfter: number;
+        riskReduction: number;
+        success: number;
+        triggeredBy: string;
+      }) => {
+        mitigations.insert({ 
+          ...data, 
+          success: data.success === 1,
+          createdAt: new Date().toISOString(),
+        });
+      },
+    },
+
+    getAll: {
+      all: () => mitigations.getAll()
+        .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+        .slice(0, 100),
+    },
+
+    getByNode: {
+      all: (nodeId: string) => mitigations.query((m) => m.nodeId === nodeId)
+        .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+        .slice(0, 20),
+    },
+  };
+
+  const snapshotsRepo = {
+    insert: {
+      run: (data: {
+        id: string;
+        timestamp: string;
+        maxRisk: number;
+        avgHealth: number;
+        loadRatio: number;
+        criticalCount: number;
+        warningCount: number;
+        totalNodes: number;
+        nodeStates?: string;
+      }) => {
+        snapshots.insert({ ...data, createdAt: new Date().toISOString() });
+      },
+    },
+
+    getLatest: {
+      get: (): SnapshotRecord | undefined => snapshots.getAll()
+        .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())[0],
+    },
+
+    getRecent: {
+      all: (limit: number) => snapshots.getAll()
+        .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+        .slice(0, limit),
+    },
+  };
+
+  const incidentsRepo = {
+    upsert: {
+      run: (data: Omit<IncidentRecord, 'archivedAt'>) => {
+        const existing = incidents.getById(data.id);
+        incidents.insert({ ...data, archivedAt: existing?.archivedAt });
+      },
+    },
+
+    getActive: {
+      all: () => incidents.query((i) => !i.archivedAt)
+        .sort((a, b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime()),
+    },
+
+    getArchived: {
+      all: (limit: number) => incidents.query((i) => !!i.archivedAt)
+        .sort((a, b) => new Date(b.archivedAt!).getTime() - new Date(a.archivedAt!).getTime())
+        .slice(0, limit),
+    },
+
+    getById: {
+      get: (id: string) => incidents.getById(id),
+    },
+
+    getByCascadeEvent: {
+      get: (cascadeEventId: string) =>
+        incidents.getAll().find((i) => i.cascadeEventId === cascadeEventId),
+    },
+
+    archive: {
+      run: (archivedAt: string, id: string): number => {
+        const incident = incidents.getById(id);
+        if (!incident || incident.archivedAt || incident.status !== 'closed') return 0;
+        incidents.update(id, { archivedAt });
+        return 1;
+      },
+    },
+
+    archiveClosedBefore: {
+      run: (cutoff: string, archivedAt: string): number => {
+        const closed = incidents.query((i) =>
+          !i.archivedAt && i.status === 'closed' && !!i.endedAt && i.endedAt < cutoff
+        );
+        closed.forEach((i) => incidents.update(i.id, { archivedAt }));
+        return closed.length;
+      },
+    },
+
+    deleteActive: {
+      run: () => {
+        incidents.query((i) => !i.archivedAt).forEach((i) => incidents.delete(i.id));
+      },
+    },
+
+    countActive: {
+      get: () => incidents.query((i) => !i.archivedAt).length,
+    },
+  };
+
+  const logsRepo = {
+    insert: {
+      run: (data: LogRecord) => {
+        logs.push(data);
+      },
+    },
+
+    getAll: {
+      all: () => [...logs],
+    },
+
+    query: {
+      all: (filter: {
+        source?: string;
+        category?: string;
+        severity?: string;
+        startTime?: string;
+        endTime?: string;
+        limit?: number;
+      }) => {
+        const result = logs.filter((l) =>
+          (!filter.source || l.source === filter.source) &&
+          (!filter.category || l.category === filter.category) &&
+          (!filter.severity || l.severity === filter.severity) &&
+          (!filter.startTime || l.timestamp >= filter.startTime) &&
+          (!filter.endTime || l.timestamp <= filter.endTime)
+        );
+        return filter.limit ? result.slice(-filter.limit) : result;
+      },
+    },
+
+    pruneCategory: {
+      run: (category: string, cutoff: string, maxEntries: number): number => {
+        const inCategory = logs.filter((l) => l.category === category);
+        const keep = new Set(
+          inCategory.filter((l) => l.timestamp >= cutoff).slice(-maxEntries)
+        );
+        const before = logs.length;
+        const retained = logs.filter((l) => l.category !== category || keep.has(l));
+        logs.splice(0, logs.length, ...retained);
+        return before - logs.length;
+      },
+    },
+
+    clear: {
+      run: () => {
+        logs.length = 0;
+      },
+    },
+
+    count: {
+      get: () => logs.length,
+    },
+  };
+
+  const topologyRepo = {
+    get: {
+      get: () => topology,
+    },
+
+    set: {
+      run: (data: string, importedAt: string) => {
+        topology = { data, importedAt };
+      },
+    },
+
+    clear: {
+      run: () => {
+        topology = undefined;
+      },
+    },
+  };
+
+  // Removed configs are tombstoned so an emptied set is not re-seeded
+  const alertConfigsRepo = {
+    getAll: {
+      all: () => alertConfigs.query((c) => !c.deletedAt),
+    },
+
+    count: {
+      get: () => alertConfigs.data.size,
+    },
+
+    upsert: {
+      run: (id: string, data: string, updatedAt: string) => {
+        alertConfigs.insert({ id, data, updatedAt, deletedAt: undefined });
+      },
+    },
+
+    remove: {
+      run: (id: string, deletedAt: string): number => {
+        const config = alertConfigs.getById(id);
+        if (!config || config.deletedAt) return 0;
+        alertConfigs.update(id, { deletedAt });
+        return 1;
+      },
+    },
+  };
+
+  // Proofs are keyed by record type and id; a record is batched at most once
+  const merkleRepo = {
+    insertBatch: {
+      run: (batch: Omit<MerkleBatchRecord, 'createdAt'>, proofs: MerkleProofRecord[]) => {
+        merkleBatches.insert({ ...batch, createdAt: new Date().toISOString() });
+        proofs.forEach((p) => merkleProofs.set(`${p.itemType}:${p.itemId}`, p));
+      },
+    },
+
+    setBatchAnchor: {
+      run: (anchorId: string, batchId: string) => {
+        merkleBatches.update(batchId, { anchorId });
+      },
+    },
+
+    getBatch: {
+      get: (id: string) => merkleBatches.getById(id),
+    },
+
+    getRecentBatches: {
+      all: (limit: number) => merkleBatches.getAll()
+        .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+        .slice(0, limit),
+    },
+
+    getProof: {
+      get: (itemType: string, itemId: string) => merkleProofs.get(`${itemType}:${itemId}`),
+    },
+  };
+
+  return {
+    predictionsRepo,
+    auditRepo,
+    anchorsRepo,
+    cascadeRepo,
+    mitigationsRepo,
+    snapshotsRepo,
+    incidentsRepo,
+    logsRepo,
+    topologyRepo,
+    alertConfigsRepo,
+    merkleRepo,
+    reset: () => {
+      predictions.data.clear();
+      auditLog.data.clear();
+      anchors.data.clear();
+      cascades.data.clear();
+      mitigations.data.clear();
+      snapshots.data.clear();
+      incidents.data.clear();
+      alertConfigs.data.clear();
+      merkleBatches.data.clear();
+      merkleProofs.clear();
+      auditHead = { seq: 0, chainHash: AUDIT_CHAIN_GENESIS };
+      logs.length = 0;
+      topology = undefined;
+    },
+  };
+}
+
+export type Repositories = Omit<ReturnType<typeof createMemoryRepositories>, 'reset'>;
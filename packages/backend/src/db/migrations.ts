@@ -0,0 +1,268 @@
+/**
+ * Sentinel Grid Backend - Schema Migrations
+ * Ordered, versioned SQLite migrations applied by initializeSchema
+ */
+
+import type Database from 'better-sqlite3';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+}
+
+// ============================================================================
+// Migrations (append only - never edit a released migration)
+// ============================================================================
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'initial_schema',
+    up: `
+      CREATE TABLE predictions (
+        id TEXT PRIMARY KEY,
+        node_id TEXT NOT NULL,
+        node_name TEXT NOT NULL,
+        type TEXT NOT NULL,
+        probability REAL NOT NULL,
+        confidence REAL NOT NULL,
+        hours_to_event REAL NOT NULL,
+        predicted_time TEXT NOT NULL,
+        severity TEXT NOT NULL,
+        reasoning TEXT NOT NULL,
+        contributing_factors TEXT NOT NULL,
+        suggested_actions TEXT NOT NULL,
+        status TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        resolved_at TEXT,
+        was_accurate INTEGER
+      );
+      CREATE INDEX idx_predictions_status ON predictions(status);
+      CREATE INDEX idx_predictions_created_at ON predictions(created_at);
+
+      CREATE TABLE audit_log (
+        id TEXT PRIMARY KEY,
+        timestamp TEXT NOT NULL,
+        type TEXT NOT NULL,
+        hash TEXT NOT NULL,
+        actor TEXT,
+        data_summary TEXT,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX idx_audit_log_timestamp ON audit_log(timestamp);
+      CREATE INDEX idx_audit_log_type ON audit_log(type);
+
+      CREATE TABLE anchors (
+        id TEXT PRIMARY KEY,
+        payload_hash TEXT NOT NULL,
+        ipfs_cid TEXT,
+        chain TEXT NOT NULL,
+        tx_hash TEXT,
+        status TEXT NOT NULL,
+        metadata TEXT,
+        created_at TEXT NOT NULL,
+        confirmed_at TEXT
+      );
+      CREATE INDEX idx_anchors_status ON anchors(status);
+
+      CREATE TABLE cascades (
+        id TEXT PRIMARY KEY,
+        origin_node TEXT NOT NULL,
+        affected_nodes TEXT NOT NULL,
+        impact_score REAL NOT NULL,
+        total_damage REAL NOT NULL,
+        propagation_path TEXT,
+        start_time TEXT NOT NULL,
+        end_time TEXT,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX idx_cascades_start_time ON cascades(start_time);
+
+      CREATE TABLE mitigations (
+        id TEXT PRIMARY KEY,
+        node_id TEXT NOT NULL,
+        node_name TEXT NOT NULL,
+        actions TEXT NOT NULL,
+        risk_before REAL NOT NULL,
+        risk_after REAL NOT NULL,
+        risk_reduction REAL NOT NULL,
+        success INTEGER NOT NULL,
+        triggered_by TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX idx_mitigations_node_id ON mitigations(node_id);
+
+      CREATE TABLE snapshots (
+        id TEXT PRIMARY KEY,
+        timestamp TEXT NOT NULL,
+        max_risk REAL NOT NULL,
+        avg_health REAL NOT NULL,
+        load_ratio REAL NOT NULL,
+        critical_count INTEGER NOT NULL,
+        warning_count INTEGER NOT NULL,
+        total_nodes INTEGER NOT NULL,
+        node_states TEXT,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX idx_snapshots_timestamp ON snapshots(timestamp);
+    `,
+  },
+  {
+    version: 2,
+    name: 'operational_stores',
+    up: `
+      CREATE TABLE incidents (
+        id TEXT PRIMARY KEY,
+        started_at TEXT NOT NULL,
+        ended_at TEXT,
+        status TEXT NOT NULL,
+        severity TEXT NOT NULL,
+        cascade_event_id TEXT,
+        data TEXT NOT NULL,
+        archived_at TEXT
+      );
+      CREATE INDEX idx_incidents_started_at ON incidents(started_at);
+      CREATE INDEX idx_incidents_archived_at ON incidents(archived_at, status);
+      CREATE INDEX idx_incidents_cascade_event_id ON incidents(cascade_event_id);
+
+      CREATE TABLE operator_logs (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        id TEXT NOT NULL UNIQUE,
+        timestamp TEXT NOT NULL,
+        source TEXT NOT NULL,
+        category TEXT NOT NULL,
+        severity TEXT,
+        user TEXT,
+        message TEXT NOT NULL,
+        metadata TEXT
+      );
+      CREATE INDEX idx_operator_logs_category ON operator_logs(category, timestamp);
+
+      CREATE TABLE topology (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        data TEXT NOT NULL,
+        imported_at TEXT NOT NULL
+      );
+    `,
+  },
+  {
+    version: 3,
+    name: 'alert_configs',
+    up: `
+      CREATE TABLE alert_configs (
+        id TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        deleted_at TEXT
+      );
+    `,
+  },
+  {
+    version: 4,
+    name: 'merkle_batches',
+    up: `
+      CREATE TABLE merkle_batches (
+        id TEXT PRIMARY KEY,
+        root TEXT NOT NULL,
+        leaf_count INTEGER NOT NULL,
+        anchor_id TEXT,
+        created_at TEXT NOT NULL
+      );
+
+      CREATE TABLE merkle_proofs (
+        item_type TEXT NOT NULL,
+        item_id TEXT NOT NULL,
+        batch_id TEXT NOT NULL,
+        leaf_index INTEGER NOT NULL,
+        leaf_hash TEXT NOT NULL,
+        leaf_data TEXT NOT NULL,
+        proof TEXT NOT NULL,
+        PRIMARY KEY (item_type, item_id)
+      );
+      CREATE INDEX idx_merkle_proofs_batch_id ON merkle_proofs(batch_id);
+    `,
+  },
+  {
+    version: 5,
+    name: 'audit_hash_chain',
+    up: `
+      ALTER TABLE audit_log ADD COLUMN seq INTEGER;
+      ALTER TABLE audit_log ADD COLUMN prev_hash TEXT;
+      ALTER TABLE audit_log ADD COLUMN chain_hash TEXT;
+      CREATE UNIQUE INDEX idx_audit_log_seq ON audit_log(seq);
+
+      CREATE TRIGGER audit_log_no_update BEFORE UPDATE ON audit_log
+      BEGIN
+        SELECT RAISE(ABORT, 'audit_log is append-only');
+      END;
+
+      CREATE TRIGGER audit_log_no_delete BEFORE DELETE ON audit_log
+      BEGIN
+        SELECT RAISE(ABORT, 'audit_log is append-only');
+      END;
+    `,
+  },
+  {
+    version: 6,
+    name: 'default_alert_webhooks',
+    // The seeded rules shipped webhook actions with relative targets that
+    // are not URLs; drop them so stored rules validate and deliver
+    up: `
+      UPDATE alert_configs
+      SET data = json_set(data, '$.actions', (
+            SELECT json_group_array(json(action.value))
+            FROM json_each(alert_configs.data, '$.actions') AS action
+            WHERE NOT (
+              json_extract(action.value, '$.type') = 'webhook'
+              AND json_extract(action.value, '$.target') IN ('/api/alerts', '/api/cascade-alert')
+            )
+          )),
+          updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+      WHERE EXISTS (
+        SELECT 1 FROM json_each(alert_configs.data, '$.actions') AS action
+        WHERE json_extract(action.value, '$.type') = 'webhook'
+          AND json_extract(action.value, '$.target') IN ('/api/alerts', '/api/cascade-alert')
+      );
+    `,
+  },
+];
+
+// ============================================================================
+// Runner
+// ============================================================================
+
+/**
+ * Apply every migration newer than the recorded schema version.
+ * Each migration runs in its own transaction; returns the resulting version.
+ */
+export function runMigrations(db: Database.Database, migrations: Migration[] = MIGRATIONS): number {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )
+  `);
+
+  const row = db.prepare('SELECT MAX(version) AS version FROM schema_migrations').get() as
+    { version: number | null };
+  let current = row.version ?? 0;
+
+  const record = db.prepare(
+    'INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)'
+  );
+
+  [...migrations]
+    .sort((a, b) => a.version - b.version)
+    .filter((m) => m.version > current)
+    .forEach((migration) => {
+      db.transaction(() => {
+        db.exec(migration.up);
+        record.run(migration.version, migration.name, new Date().toISOString());
+      })();
+      current = migration.version;
+    });
+
+  return current;
+}
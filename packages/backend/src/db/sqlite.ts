@@ -0,0 +1,627 @@
+/**
+ * Sentinel Grid Backend - SQLite Repositories
+ * Durable storage backed by better-sqlite3 (DB_DRIVER=sqlite)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { AUDIT_CHAIN_GENESIS, hashAuditChainEntry } from '@sentinel-grid/predictive-engine';
+import type { Repositories } from './memory.js';
+import type {
+  PredictionRecord,
+  AuditRecord,
+  AnchorRecord,
+  CascadeRecord,
+  MitigationRecord,
+  SnapshotRecord,
+  IncidentRecord,
+  LogRecord,
+  TopologyRecord,
+  AlertConfigRecord,
+  MerkleBatchRecord,
+  MerkleProofRecord,
+} from './types.js';
+
+// ============================================================================
+// Connection Helpers
+// ============================================================================
+
+export function openDatabase(dbPath: string): Database.Database {
+  if (dbPath !== ':memory:') {
+    fs.mkdirSync(path.dirname(path.resolve(dbPath)), { recursive: true });
+  }
+
+  const db = new Database(dbPath);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  return db;
+}
+
+// Prepared statements are cached per connection so a reopened database
+// never reuses statements from a closed handle
+const statementCache = new WeakMap<Database.Database, Map<string, Database.Statement>>();
+
+function prepare(db: Database.Database, sql: string): Database.Statement {
+  let statements = statementCache.get(db);
+  if (!statements) {
+    statements = new Map();
+    statementCache.set(db, statements);
+  }
+
+  let statement = statements.get(sql);
+  if (!statement) {
+    statement = db.prepare(sql);
+    statements.set(sql, statement);
+  }
+  return statement;
+}
+
+/**
+ * Convert a snake_case row into the camelCase record shape used by the
+ * in-memory tables (NULL columns become undefined, flags become booleans)
+ */
+function fromRow<T>(row: unknown, booleanFields: string[] = []): T {
+  const record: Record<string, unknown> = {};
+  Object.entries(row as Record<string, unknown>).forEach(([column, value]) => {
+    const key = column.replace(/_([a-z])/g, (_, c: string) => c.toUpperCase());
+    if (value === null) return;
+    record[key] = booleanFields.includes(key) ? value === 1 : value;
+  });
+  return record as T;
+}
+
+/**
+ * Named parameters must all be bound; optional fields default to NULL
+ */
+function bind(data: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(data).map(([key, value]) => [key, value ?? null]));
+}
+
+function fromRows<T>(rows: unknown[], booleanFields: string[] = []): T[] {
+  return rows.map((row) => fromRow<T>(row, booleanFields));
+}
+
+// ============================================================================
+// Repositories
+// ============================================================================
+
+export function createSqliteRepositories(getDb: () => Database.Database): Repositories {
+  const stmt = (sql: string) => prepare(getDb(), sql);
+
+  const predictionsRepo: Repositories['predictionsRepo'] = {
+    insert: {
+      run: (data) => {
+        stmt(`
+          INSERT INTO predictions (
+            id, node_id, node_name, type, probability, confidence, hours_to_event,
+            predicted_time, severity, reasoning, contributing_factors, suggested_actions,
+            status, created_at
+          ) VALUES (
+            @id, @nodeId, @nodeName, @type, @probability, @confidence, @hoursToEvent,
+            @predictedTime, @severity, @reasoning, @contributingFactors, @suggestedActions,
+            @status, @createdAt
+          )
+        `).run(data);
+      },
+    },
+
+    getAll: {
+      all: () => fromRows<PredictionRecord>(
+        stmt('SELECT * FROM predictions ORDER BY created_at DESC LIMIT 100').all(),
+        ['wasAccurate']
+      ),
+    },
+
+    getActive: {
+      all: () => fromRows<PredictionRecord>(
+        stmt("SELECT * FROM predictions WHERE status = 'active' ORDER BY probability DESC").all(),
+        ['wasAccurate']
+      ),
+    },
+
+    getById: {
+      get: (id) => {
+        const row = stmt('SELECT * FROM predictions WHERE id = ?').get(id);
+        return row ? fromRow<PredictionRecord>(row, ['wasAccurate']) : undefined;
+      },
+    },
+
+    updateStatus: {
+      run: (status, resolvedAt, wasAccurate, id) => {
+        stmt('UPDATE predictions SET status = ?, resolved_at = ?, was_accurate = ? WHERE id = ?')
+          .run(status, resolvedAt, wasAccurate === 1 ? 1 : 0, id);
+      },
+    },
+
+    deleteOld: {
+      run: () => {
+        const cutoff = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+        stmt("DELETE FROM predictions WHERE created_at < ? AND status != 'active'").run(cutoff);
+      },
+    },
+  };
+
+  // Append-only: triggers from the audit_hash_chain migration reject UPDATE and DELETE
+  const auditRepo: Repositories['auditRepo'] = {
+    insert: {
+      run: (data) => {
+        getDb().transaction(() => {
+          const head = stmt('SELECT seq, chain_hash FROM audit_log WHERE seq IS NOT NULL ORDER BY seq DESC LIMIT 1')
+            .get() as { seq: number; chain_hash: string } | undefined;
+          const link = {
+            ...data,
+            seq: (head?.seq ?? 0) + 1,
+            prevHash: head?.chain_hash ?? AUDIT_CHAIN_GENESIS,
+          };
+
+          stmt(`
+            INSERT INTO audit_log (id, timestamp, type, hash, actor, data_summary, created_at, seq, prev_hash, chain_hash)
+            VALUES (@id, @timestamp, @type, @hash, @actor, @dataSummary, @createdAt, @seq, @prevHash, @chainHash)
+          `).run(bind({
+            actor: null,
+            dataSummary: null,
+            ...link,
+            chainHash: hashAuditChainEntry(link),
+            createdAt: new Date().toISOString(),
+          }));
+        })();
+      },
+    },
+
+    getAll: {
+      all: () => fromRows<AuditRecord>(
+        stmt('SELECT * FROM audit_log ORDER BY timestamp DESC LIMIT 200').all()
+      ),
+    },
+
+    getByType: {
+      all: (type) => fromRows<AuditRecord>(
+        stmt('SELECT * FROM audit_log WHERE type = ? ORDER BY timestamp DESC LIMIT 50').all(type)
+      ),
+    },
+
+    getRecent: {
+      all: (limit) => fromRows<AuditRecord>(
+        stmt('SELECT * FROM audit_log ORDER BY timestamp DESC LIMIT ?').all(limit)
+      ),
+    },
+
+    getById: {
+      get: (id) => {
+        const row = stmt('SELECT * FROM audit_log WHERE id = ?').get(id);
+        return row ? fromRow<AuditRecord>(row) : undefined;
+      },
+    },
+
+    getChain: {
+      all: () => fromRows<AuditRecord>(
+        stmt('SELECT * FROM audit_log WHERE seq IS NOT NULL ORDER BY rowid').all()
+      ),
+    },
+
+    countUnchained: {
+      get: () => (stmt('SELECT COUNT(*) AS count FROM audit_log WHERE seq IS NULL').get() as { count: number }).count,
+    },
+  };
+
+  const anchorsRepo: Repositories['anchorsRepo'] = {
+    insert: {
+      run: (data) => {
+        stmt(`
+          INSERT INTO anchors (id, payload_hash, ipfs_cid, chain, tx_hash, status, metadata, created_at)
+          VALUES (@id, @payloadHash, @ipfsCid, @chain, @txHash, @status, @metadata, @createdAt)
+        `).run(bind({
+          ipfsCid: null,
+          txHash: null,
+          metadata: null,
+          ...data,
+          createdAt: new Date().toISOString(),
+        }));
+      },
+    },
+
+    getAll: {
+      all: () => fromRows<AnchorRecord>(
+        stmt('SELECT * FROM anchors ORDER BY created_at DESC LIMIT 100').all()
+      ),
+    },
+
+    getPending: {
+      all: () => fromRows<AnchorRecord>(
+        stmt("SELECT * FROM anchors WHERE status = 'pending' ORDER BY created_at ASC").all()
+      ),
+    },
+
+    getSubmitted: {
+      all: () => fromRows<AnchorRecord>(
+        stmt("SELECT * FROM anchors WHERE status = 'submitted' ORDER BY created_at ASC").all()
+      ),
+    },
+
+    getLastConfirmed: {
+      get: () => {
+        const row = stmt(`
+          SELECT * FROM anchors WHERE status = 'confirmed' AND confirmed_at IS NOT NULL
+          ORDER BY confirmed_at DESC LIMIT 1
+        `).get();
+        return row ? fromRow<AnchorRecord>(row) : undefined;
+      },
+    },
+
+    getById: {
+      get: (id) => {
+        const row = stmt('SELECT * FROM anchors WHERE id = ?').get(id);
+        return row ? fromRow<AnchorRecord>(row) : undefined;
+      },
+    },
+
+    updateStatus: {
+      run: (status, txHash, confirmedAt, id) => {
+        stmt('UPDATE anchors SET status = ?, tx_hash = ?, confirmed_at = ? WHERE id = ?')
+          .run(status, txHash, confirmedAt, id);
+      },
+    },
+  };
+
+  const cascadeRepo: Repositories['cascadeRepo'] = {
+    insert: {
+      run: (data) => {
+        stmt(`
+          INSERT INTO cascades (
+            id, origin_node, affected_nodes, impact_score, total_damage,
+            propagation_path, start_time, end_time, created_at
+          ) VALUES (
+            @id, @originNode, @affectedNodes, @impactScore, @totalDamage,
+            @propagationPath, @startTime, @endTime, @createdAt
+          )
+        `).run(bind({
+          propagationPath: null,
+          endTime: null,
+          ...data,
+          createdAt: new Date().toISOString(),
+        }));
+      },
+    },
+
+    getAll: {
+      all: () => fromRows<CascadeRecord>(
+        stmt('SELECT * FROM cascades ORDER BY start_time DESC LIMIT 50').all()
+      ),
+    },
+
+    getById: {
+      get: (id) => {
+        const row = stmt('SELECT * FROM cascades WHERE id = ?').get(id);
+        return row ? fromRow<CascadeRecord>(row) : undefined;
+      },
+    },
+  };
+
+  const mitigationsRepo: Repositories['mitigationsRepo'] = {
+    insert: {
+      run: (data) => {
+        stmt(`
+          INSERT INTO mitigations (
+            id, node_id, node_name, actions, risk_before, risk_after,
+            risk_reduction, success, triggered_by, created_at
+          ) VALUES (
+            @id, @nodeId, @nodeName, @actions, @riskBefore, @riskAfter,
+            @riskReduction, @success, @triggeredBy, @createdAt
+          )
+        `).run(bind({
+          ...data,
+          success: data.success === 1 ? 1 : 0,
+          createdAt: new Date().toISOString(),
+        }));
+      },
+    },
+
+    getAll: {
+      all: () => fromRows<MitigationRecord>(
+        stmt('SELECT * FROM mitigations ORDER BY created_at DESC LIMIT 100').all(),
+        ['success']
+      ),
+    },
+
+    getByNode: {
+      all: (nodeId) => fromRows<MitigationRecord>(
+        stmt('SELECT * FROM mitigations WHERE node_id = ? ORDER BY created_at DESC LIMIT 20').all(nodeId),
+        ['success']
+      ),
+    },
+  };
+
+  const snapshotsRepo: Repositories['snapshotsRepo'] = {
+    insert: {
+      run: (data) => {
+        stmt(`
+          INSERT INTO snapshots (
+            id, timestamp, max_risk, avg_health, load_ratio, critical_count,
+            warning_count, total_nodes, node_states, created_at
+          ) VALUES (
+            @id, @timestamp, @maxRisk, @avgHealth, @loadRatio, @criticalCount,
+            @warningCount, @totalNodes, @nodeStates, @createdAt
+          )
+        `).run(bind({
+          nodeStates: null,
+          ...data,
+          createdAt: new Date().toISOString(),
+        }));
+      },
+    },
+
+    getLatest: {
+      get: () => {
+        const row = stmt('SELECT * FROM snapshots ORDER BY timestamp DESC LIMIT 1').get();
+        return row ? fromRow<SnapshotRecord>(row) : undefined;
+      },
+    },
+
+    getRecent: {
+      all: (limit) => fromRows<SnapshotRecord>(
+        stmt('SELECT * FROM snapshots ORDER BY timestamp DESC LIMIT ?').all(limit)
+      ),
+    },
+  };
+
+  const incidentsRepo: Repositories['incidentsRepo'] = {
+    upsert: {
+      run: (data) => {
+        stmt(`
+          INSERT INTO incidents (id, started_at, ended_at, status, severity, cascade_event_id, data)
+          VALUES (@id, @startedAt, @endedAt, @status, @severity, @cascadeEventId, @data)
+          ON CONFLICT(id) DO UPDATE SET
+            ended_at = excluded.ended_at,
+            status = excluded.status,
+            severity = excluded.severity,
+            cascade_event_id = excluded.cascade_event_id,
+            data = excluded.data
+        `).run(bind({
+          endedAt: null,
+          cascadeEventId: null,
+          ...data,
+        }));
+      },
+    },
+
+    getActive: {
+      all: () => fromRows<IncidentRecord>(
+        stmt('SELECT * FROM incidents WHERE archived_at IS NULL ORDER BY started_at DESC').all()
+      ),
+    },
+
+    getArchived: {
+      all: (limit) => fromRows<IncidentRecord>(
+        stmt('SELECT * FROM incidents WHERE archived_at IS NOT NULL ORDER BY archived_at DESC LIMIT ?')
+          .all(limit)
+      ),
+    },
+
+    getById: {
+      get: (id) => {
+        const row = stmt('SELECT * FROM incidents WHERE id = ?').get(id);
+        return row ? fromRow<IncidentRecord>(row) : undefined;
+      },
+    },
+
+    getByCascadeEvent: {
+      get: (cascadeEventId) => {
+        const row = stmt('SELECT * FROM incidents WHERE cascade_event_id = ? LIMIT 1').get(cascadeEventId);
+        return row ? fromRow<IncidentRecord>(row) : undefined;
+      },
+    },
+
+    archive: {
+      run: (archivedAt, id) => stmt(`
+        UPDATE incidents SET archived_at = ?
+        WHERE id = ? AND archived_at IS NULL AND status = 'closed'
+      `).run(archivedAt, id).changes,
+    },
+
+    archiveClosedBefore: {
+      run: (cutoff, archivedAt) => stmt(`
+        UPDATE incidents SET archived_at = ?
+        WHERE archived_at IS NULL AND status = 'closed' AND ended_at < ?
+      `).run(archivedAt, cutoff).changes,
+    },
+
+    deleteActive: {
+      run: () => {
+        stmt('DELETE FROM incidents WHERE archived_at IS NULL').run();
+      },
+    },
+
+    countActive: {
+      get: () => (stmt('SELECT COUNT(*) AS count FROM incidents WHERE archived_at IS NULL')
+        .get() as { count: number }).count,
+    },
+  };
+
+  // seq is an internal ordering key and is not part of LogRecord
+  const logColumns = 'id, timestamp, source, category, severity, user, message, metadata';
+
+  const logsRepo: Repositories['logsRepo'] = {
+    insert: {
+      run: (data) => {
+        stmt(`
+          INSERT INTO operator_logs (${logColumns})
+          VALUES (@id, @timestamp, @source, @category, @severity, @user, @message, @metadata)
+        `).run(bind({
+          severity: null,
+          user: null,
+          metadata: null,
+          ...data,
+        }));
+      },
+    },
+
+    getAll: {
+      all: () => fromRows<LogRecord>(
+        stmt(`SELECT ${logColumns} FROM operator_logs ORDER BY seq ASC`).all()
+      ),
+    },
+
+    query: {
+      all: (filter) => {
+        const clauses: string[] = [];
+        const params: Record<string, unknown> = {};
+        (['source', 'category', 'severity'] as const).forEach((field) => {
+          if (filter[field]) {
+            clauses.push(`${field} = @${field}`);
+            params[field] = filter[field];
+          }
+        });
+        if (filter.startTime) {
+          clauses.push('timestamp >= @startTime');
+          params.startTime = filter.startTime;
+        }
+        if (filter.endTime) {
+          clauses.push('timestamp <= @endTime');
+          params.endTime = filter.endTime;
+        }
+
+        const where = clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
+        const limit = filter.limit ? `LIMIT ${Math.floor(filter.limit)}` : '';
+
+        // Newest rows are selected for the limit, then returned oldest first
+        return fromRows<LogRecord>(stmt(`
+          SELECT ${logColumns} FROM (
+            SELECT * FROM operator_logs ${where} ORDER BY seq DESC ${limit}
+          ) ORDER BY seq ASC
+        `).all(params));
+      },
+    },
+
+    pruneCategory: {
+      run: (category, cutoff, maxEntries) => stmt(`
+        DELETE FROM operator_logs
+        WHERE category = @category AND (
+          timestamp < @cutoff OR seq NOT IN (
+            SELECT seq FROM operator_logs WHERE category = @category ORDER BY seq DESC LIMIT @maxEntries
+          )
+        )
+      `).run({ category, cutoff, maxEntries }).changes,
+    },
+
+    clear: {
+      run: () => {
+        stmt('DELETE FROM operator_logs').run();
+      },
+    },
+
+    count: {
+      get: () => (stmt('SELECT COUNT(*) AS count FROM operator_logs').get() as { count: number }).count,
+    },
+  };
+
+  const topologyRepo: Repositories['topologyRepo'] = {
+    get: {
+      get: () => {
+        const row = stmt('SELECT data, imported_at FROM topology WHERE id = 1').get();
+        return row ? fromRow<TopologyRecord>(row) : undefined;
+      },
+    },
+
+    set: {
+      run: (data, importedAt) => {
+        stmt(`
+          INSERT INTO topology (id, data, imported_at) VALUES (1, ?, ?)
+          ON CONFLICT(id) DO UPDATE SET data = excluded.data, imported_at = excluded.imported_at
+        `).run(data, importedAt);
+      },
+    },
+
+    clear: {
+      run: () => {
+        stmt('DELETE FROM topology').run();
+      },
+    },
+  };
+
+  const alertConfigsRepo: Repositories['alertConfigsRepo'] = {
+    getAll: {
+      all: () => stmt(
+        'SELECT * FROM alert_configs WHERE deleted_at IS NULL ORDER BY rowid'
+      ).all().map((row) => fromRow<AlertConfigRecord>(row)),
+    },
+
+    count: {
+      get: () => (stmt('SELECT COUNT(*) AS count FROM alert_configs').get() as { count: number }).count,
+    },
+
+    upsert: {
+      run: (id, data, updatedAt) => {
+        stmt(`
+          INSERT INTO alert_configs (id, data, updated_at) VALUES (?, ?, ?)
+          ON CONFLICT(id) DO UPDATE SET
+            data = excluded.data, updated_at = excluded.updated_at, deleted_at = NULL
+        `).run(id, data, updatedAt);
+      },
+    },
+
+    remove: {
+      run: (id, deletedAt) => stmt(
+        'UPDATE alert_configs SET deleted_at = ? WHERE id = ? AND deleted_at IS NULL'
+      ).run(deletedAt, id).changes,
+    },
+  };
+
+  const merkleRepo: Repositories['merkleRepo'] = {
+    insertBatch: {
+      run: (batch, proofs) => {
+        const insertProof = stmt(`
+          INSERT INTO merkle_proofs (item_type, item_id, batch_id, leaf_index, leaf_hash, leaf_data, proof)
+          VALUES (@itemType, @itemId, @batchId, @leafIndex, @leafHash, @leafData, @proof)
+        `);
+        getDb().transaction(() => {
+          stmt(`
+            INSERT INTO merkle_batches (id, root, leaf_count, anchor_id, created_at)
+            VALUES (@id, @root, @leafCount, @anchorId, @createdAt)
+          `).run(bind({ anchorId: null, ...batch, createdAt: new Date().toISOString() }));
+          proofs.forEach((proof) => insertProof.run(proof));
+        })();
+      },
+    },
+
+    setBatchAnchor: {
+      run: (anchorId, batchId) => {
+        stmt('UPDATE merkle_batches SET anchor_id = ? WHERE id = ?').run(anchorId, batchId);
+      },
+    },
+
+    getBatch: {
+      get: (id) => {
+        const row = stmt('SELECT * FROM merkle_batches WHERE id = ?').get(id);
+        return row ? fromRow<MerkleBatchRecord>(row) : undefined;
+      },
+    },
+
+    getRecentBatches: {
+      all: (limit) => fromRows<MerkleBatchRecord>(
+        stmt('SELECT * FROM merkle_batches ORDER BY created_at DESC LIMIT ?').all(limit)
+      ),
+    },
+
+    getProof: {
+      get: (itemType, itemId) => {
+        const row = stmt('SELECT * FROM merkle_proofs WHERE item_type = ? AND item_id = ?').get(itemType, itemId);
+        return row ? fromRow<MerkleProofRecord>(row) : undefined;
+      },
+    },
+  };
+
+  return {
+    predictionsRepo,
+    auditRepo,
+    anchorsRepo,
+    cascadeRepo,
+    mitigationsRepo,
+    snapshotsRepo,
+    incidentsRepo,
+    logsRepo,
+    topologyRepo,
+    alertConfigsRepo,
+    merkleRepo,
+  };
+}
@@ -0,0 +1,142 @@
+/**
+ * Sentinel Grid Backend - Database Record Types
+ * Row shapes shared by the SQLite and in-memory repositories
+ */
+
+export interface PredictionRecord {
+  id: string;
+  nodeId: string;
+  nodeName: string;
+  type: string;
+  probability: number;
+  confidence: number;
+  hoursToEvent: number;
+  predictedTime: string;
+  severity: string;
+  reasoning: string;
+  contributingFactors: string;
+  suggestedActions: string;
+  status: string;
+  createdAt: string;
+  resolvedAt?: string;
+  wasAccurate?: boolean;
+}
+
+export interface AuditRecord {
+  id: string;
+  timestamp: string;
+  type: string;
+  hash: string;
+  actor?: string;
+  dataSummary?: string;
+  createdAt: string;
+  seq?: number;                // Hash chain fields; unset on entries written before the chain
+  prevHash?: string;
+  chainHash?: string;
+}
+
+export interface AnchorRecord {
+  id: string;
+  payloadHash: string;
+  ipfsCid?: string;
+  chain: string;
+  txHash?: string;
+  status: string;
+  metadata?: string;
+  createdAt: string;
+  confirmedAt?: string;
+}
+
+export interface CascadeRecord {
+  id: string;
+  originNode: string;
+  affectedNodes: string;
+  impactScore: number;
+  totalDamage: number;
+  propagationPath?: string;
+  startTime: string;
+  endTime?: string;
+  createdAt: string;
+}
+
+export interface MitigationRecord {
+  id: string;
+  nodeId: string;
+  nodeName: string;
+  actions: string;
+  riskBefore: number;
+  riskAfter: number;
+  riskReduction: number;
+  success: boolean;
+  triggeredBy: string;
+  createdAt: string;
+}
+
+export interface SnapshotRecord {
+  id: string;
+  timestamp: string;
+  maxRisk: number;
+  avgHealth: number;
+  loadRatio: number;
+  criticalCount: number;
+  warningCount: number;
+  totalNodes: number;
+  nodeStates?: string;
+  createdAt: string;
+}
+
+export interface IncidentRecord {
+  id: string;
+  startedAt: string;
+  endedAt?: string;
+  status: string;
+  severity: string;
+  cascadeEventId?: string;
+  data: string;
+  archivedAt?: string;
+}
+
+export interface LogRecord {
+  id: string;
+  timestamp: string;
+  source: string;
+  category: string;
+  severity?: string;
+  user?: string;
+  message: string;
+  metadata?: string;
+}
+
+export interface TopologyRecord {
+  data: string;
+  importedAt: string;
+}
+
+export interface MerkleBatchRecord {
+  id: string;
+  root: string;
+  leafCount: number;
+  anchorId?: string;
+  createdAt: string;
+}
+
+/**
+ * Inclusion proof for one batched record. `leafData` is the canonical JSON
+ * that was hashed, kept so the record can be re-verified after it changes.
+ */
+export interface MerkleProofRecord {
+  itemType: string;
+  itemId: string;
+  batchId: string;
+  leafIndex: number;
+  leafHash: string;
+  leafData: string;
+  proof: string;
+}
+
+export interface AlertConfigRecord {
+  id: string;
+  data: string;
+  updatedAt: string;
+  deletedAt?: string;
+}
@@ -8,6 +8,11 @@ import { createApp } from './app';
 import { initializeSchema, closeDatabase } from './db/index';
 import { WebSocketManager } from './websocket/index';
 import { getSimulation } from './services/simulation';
+import { startAnchorScheduler, stopAnchorScheduler } from './services/AnchorSchedulerService';
+import { startReceiptPoller, stopReceiptPoller } from './services/AnchorReceiptService';
+import { topologyStore, applyRetentionPolicies } from './stores/index';
+
+const RETENTION_INTERVAL_MS = 60 * 60 * 1000;
 
 async function main(): Promise<void> {
   console.log('');
@@ -20,6 +25,16 @@ async function main(): Promise<void> {
   // Initialize database
   initializeSchema();
 
+  const retention = applyRetentionPolicies();
+  console.log(`✓ Retention applied (${retention.logsRemoved} logs pruned, ${retention.incidentsArchived} incidents archived)`);
+  const retentionInterval = setInterval(() => {
+    try {
+      applyRetentionPolicies();
+    } catch (error) {
+      console.error('Retention sweep failed:', error);
+    }
+  }, RETENTION_INTERVAL_MS);
+
   // Create Express app
   const app = createApp();
 
@@ -31,11 +46,25 @@ async function main(): Promise<void> {
 
   // Initialize simulation (lazy - doesn't start automatically)
   const simulation = getSimulation();
+
+  // Restore the last imported topology so the grid survives restarts
+  const savedTopology = topologyStore.get();
+  if (savedTopology) {
+    simulation.loadTopology(savedTopology);
+  }
   console.log(`✓ Simulation ready (${simulation.getSystemState().totalNodes} nodes)`);
 
   // Always auto-start simulation (needed for frontend to work)
   simulation.start();
 
+  if (config.scheduler.autoAnchor && startAnchorScheduler()) {
+    console.log(`✓ Scheduled anchoring on "${config.scheduler.anchorCron}"`);
+  }
+
+  if (config.blockchainEnabled) {
+    startReceiptPoller();
+  }
+
   // Start server
   server.listen(config.port, config.host, () => {
     console.log('');
@@ -53,6 +82,9 @@ async function main(): Promise<void> {
     
     // Stop simulation
     simulation.stop();
+    stopAnchorScheduler();
+    stopReceiptPoller();
+    clearInterval(retentionInterval);
     
     // Close WebSocket
     wsManager.close();
@@ -1,15 +1,23 @@
 /**
  * Sentinel Grid Backend - Authentication Middleware
- * API key validation for protected endpoints
+ * API key validation for protected endpoints, and the operator sessions
+ * that let the browser use them without ever holding the key
  */
 
+import { randomBytes, timingSafeEqual } from 'crypto';
 import { Request, Response, NextFunction } from 'express';
-import { config } from '../config.js';
+import { config, DEFAULT_API_KEY } from '../config.js';
 
 export interface AuthenticatedRequest extends Request {
   apiKeyValid?: boolean;
 }
 
+export const SESSION_COOKIE = 'sentinel_session';
+export const SESSION_TTL_MS = 8 * 60 * 60 * 1000;
+
+// Session token -> expiry (epoch ms); sessions end with the process
+const sessions: Map<string, number> = new Map();
+
 /**
  * API Key authentication middleware
  * Checks x-api-key header against configured key
@@ -20,22 +28,49 @@ export function apiKeyAuth(
   next: NextFunction
 ): void {
   // Skip auth in development if no key set
-  if (config.isDev && config.apiKey === 'demo-api-key-change-in-production') {
+  if (config.isDev && config.apiKey === DEFAULT_API_KEY) {
     req.apiKeyValid = true;
     return next();
   }
   
+  requireApiKey(req, res, next);
+}
+
+/**
+ * Mandatory API key auth - never skipped, whatever the environment.
+ * Guards routes that spend funds or sign transactions. Accepts the key
+ * itself or an operator session opened with it, and answers 503 while
+ * no real key is configured.
+ */
+export function requireApiKey(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): void {
+  if (!config.apiKeyConfigured) {
+    res.status(503).json({
+      error: 'Service Unavailable',
+      message: 'API_KEY is not configured',
+    });
+    return;
+  }
+
   const apiKey = req.header('x-api-key');
   
   if (!apiKey) {
+    if (hasSession(req)) {
+      req.apiKeyValid = true;
+      return next();
+    }
+
     res.status(401).json({
       error: 'Unauthorized',
-      message: 'Missing x-api-key header',
+      message: 'Missing x-api-key header or session',
     });
     return;
   }
   
-  if (apiKey !== config.apiKey) {
+  if (!keysMatch(apiKey, config.apiKey)) {
     res.status(403).json({
       error: 'Forbidden',
       message: 'Invalid API key',
@@ -47,6 +82,15 @@ export function apiKeyAuth(
   next();
 }
 
+/**
+ * Constant-time comparison, so response timing does not leak the key
+ */
+export function keysMatch(provided: string, expected: string): boolean {
+  const a = Buffer.from(provided);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
 /**
  * Optional auth - sets flag but doesn't block
  */
@@ -56,6 +100,68 @@ export function optionalAuth(
   next: NextFunction
 ): void {
   const apiKey = req.header('x-api-key');
-  req.apiKeyValid = apiKey === config.apiKey;
+  req.apiKeyValid = apiKey !== undefined && keysMatch(apiKey, config.apiKey);
   next();
 }
+
+// ============================================================================
+// Operator Sessions
+// ============================================================================
+
+function sessionToken(req: Request): string | undefined {
+  const cookies = req.header('cookie')?.split(';') ?? [];
+  for (const cookie of cookies) {
+    const [name, ...value] = cookie.trim().split('=');
+    if (name === SESSION_COOKIE) return value.join('=');
+  }
+  return undefined;
+}
+
+/**
+ * The request carries an unexpired session cookie
+ */
+export function hasSession(req: Request): boolean {
+  const token = sessionToken(req);
+  if (!token) return false;
+
+  const expiresAt = sessions.get(token);
+  if (expiresAt === undefined) return false;
+  if (expiresAt <= Date.now()) {
+    sessions.delete(token);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Open a session and set its cookie. The cookie is HttpOnly so page
+ * scripts cannot read it, and SameSite=Strict so other sites cannot ride it.
+ */
+export function openSession(res: Response): Date {
+  const now = Date.now();
+  sessions.forEach((expiresAt, token) => {
+    if (expiresAt <= now) sessions.delete(token);
+  });
+
+  const token = randomBytes(32).toString('hex');
+  const expiresAt = now + SESSION_TTL_MS;
+  sessions.set(token, expiresAt);
+
+  res.cookie(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'strict',
+    secure: config.isProd,
+    path: '/api',
+    maxAge: SESSION_TTL_MS,
+  });
+  return new Date(expiresAt);
+}
+
+/**
+ * End the request's session, if any, and clear its cookie
+ */
+export function closeSession(req: Request, res: Response): void {
+  const token = sessionToken(req);
+  if (token) sessions.delete(token);
+  res.clearCookie(SESSION_COOKIE, { path: '/api' });
+}
@@ -9,27 +9,12 @@ import { getSimulation } from '../services/simulation.js';
 import { mitigationsRepo, auditRepo } from '../db/index.js';
 import { logStore, incidentStore } from '../stores/index.js';
 import { asyncHandler, createError } from '../middleware/errorHandler.js';
+import { MitigateRequestSchema, MitigateBatchRequestSchema, AutoMitigationSchema } from '../validation/index.js';
 import { v4 as uuidv4 } from 'uuid';
 import { createAuditHash } from '@sentinel-grid/predictive-engine';
 
 const router = Router();
 
-// Validation schemas
-const mitigateSchema = z.object({
-  nodeId: z.string().min(1),
-  action: z.string().optional(),
-  actionType: z.enum([
-    'isolate', 'load_shed', 'reroute', 'activate_backup',
-    'dispatch_maintenance', 'enable_cooling', 'cyber_lockdown', 'manual_override'
-  ]).optional(),
-  incidentId: z.string().optional(),
-  operator: z.string().optional(),
-});
-
-const autoMitigationSchema = z.object({
-  enabled: z.boolean(),
-});
-
 /**
  * GET /api/actions/recommendations
  * Get current mitigation recommendations
@@ -149,7 +134,7 @@ router.get('/recommendations', asyncHandler(async (req: Request, res: Response)
  * Apply mitigation to a node
  */
 router.post('/mitigate', asyncHandler(async (req: Request, res: Response) => {
-  const { nodeId, incidentId, actionType, operator } = mitigateSchema.parse(req.body);
+  const { nodeId, incidentId, actionType, operator } = MitigateRequestSchema.parse(req.body);
   
   const sim = getSimulation();
   const node = sim.getNode(nodeId);
@@ -240,11 +225,7 @@ router.post('/mitigate', asyncHandler(async (req: Request, res: Response) => {
  * Mitigate multiple nodes
  */
 router.post('/mitigate/batch', asyncHandler(async (req: Request, res: Response) => {
-  const { nodeIds, actionType, operator } = z.object({
-    nodeIds: z.array(z.string()).min(1).max(50),
-    actionType: z.string().optional(),
-    operator: z.string().optional(),
-  }).parse(req.body);
+  const { nodeIds, actionType, operator } = MitigateBatchRequestSchema.parse(req.body);
   
   const sim = getSimulation();
   const results = [];
@@ -368,7 +349,7 @@ router.post('/mitigate/critical', asyncHandler(async (req: Request, res: Respons
  * Enable/disable auto-mitigation
  */
 router.put('/auto-mitigation', asyncHandler(async (req: Request, res: Response) => {
-  const { enabled } = autoMitigationSchema.parse(req.body);
+  const { enabled } = AutoMitigationSchema.parse(req.body);
   
   const sim = getSimulation();
   sim.setAutoMitigation(enabled);
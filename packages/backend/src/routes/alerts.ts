@@ -0,0 +1,246 @@
+/**
+ * Sentinel Grid Backend - Alerts Routes
+ * GET /api/alerts, POST /api/alerts/:id/acknowledge, POST /api/alerts/:id/resolve
+ * GET/POST /api/alerts/configs, GET/PUT/PATCH/DELETE /api/alerts/configs/:id
+ * GET/POST /api/alerts/suppressions, DELETE /api/alerts/suppressions/:id
+ * GET /api/alerts/dead-letters
+ */
+
+import { Router, Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { getSimulation } from '../services/simulation.js';
+import { logStore } from '../stores/index.js';
+import { asyncHandler, createError } from '../middleware/errorHandler.js';
+import {
+  createApiResponse,
+  AlertConfigBodySchema,
+  CreateAlertConfigSchema,
+  ToggleAlertConfigSchema,
+  CreateSuppressionSchema,
+  AcknowledgeAlertSchema,
+} from '../validation/index.js';
+
+const router = Router();
+
+const ALERT_STATUSES = ['active', 'acknowledged', 'resolved'] as const;
+type AlertStatusFilter = typeof ALERT_STATUSES[number];
+
+/**
+ * GET /api/alerts
+ * List alerts, optionally filtered by ?status=
+ */
+router.get('/', asyncHandler(async (req: Request, res: Response) => {
+  const status = req.query.status as string | undefined;
+  if (status && !ALERT_STATUSES.includes(status as AlertStatusFilter)) {
+    throw createError(400, `Invalid alert status: ${status}`);
+  }
+
+  const alerts = getSimulation().getAlerts(status as AlertStatusFilter | undefined);
+
+  res.json({
+    success: true,
+    count: alerts.length,
+    data: alerts,
+  });
+}));
+
+/**
+ * GET /api/alerts/configs
+ * List alert rules
+ */
+router.get('/configs', (_req: Request, res: Response) => {
+  const configs = getSimulation().getAlertConfigurations();
+
+  res.json({
+    success: true,
+    count: configs.length,
+    data: configs,
+  });
+});
+
+/**
+ * GET /api/alerts/configs/:id
+ * Get a single alert rule
+ */
+router.get('/configs/:id', asyncHandler(async (req: Request, res: Response) => {
+  const alertConfig = getSimulation().getAlertConfiguration(req.params.id);
+  if (!alertConfig) {
+    throw createError(404, `Alert config not found: ${req.params.id}`);
+  }
+
+  res.json(createApiResponse(true, alertConfig));
+}));
+
+/**
+ * POST /api/alerts/configs
+ * Create an alert rule
+ */
+router.post('/configs', asyncHandler(async (req: Request, res: Response) => {
+  const sim = getSimulation();
+  const { id = `alert_${uuidv4().slice(0, 8)}`, ...body } = CreateAlertConfigSchema.parse(req.body);
+
+  if (sim.getAlertConfiguration(id)) {
+    throw createError(409, `Alert config already exists: ${id}`);
+  }
+
+  const alertConfig = { id, ...body };
+  sim.setAlertConfiguration(alertConfig);
+
+  logStore.addOperatorLog('config', `Alert rule created: ${alertConfig.name}`, { configId: id });
+
+  res.status(201).json(createApiResponse(true, alertConfig, 'Alert config created'));
+}));
+
+/**
+ * PUT /api/alerts/configs/:id
+ * Replace an alert rule
+ */
+router.put('/configs/:id', asyncHandler(async (req: Request, res: Response) => {
+  const sim = getSimulation();
+  const existing = sim.getAlertConfiguration(req.params.id);
+  if (!existing) {
+    throw createError(404, `Alert config not found: ${req.params.id}`);
+  }
+
+  const alertConfig = {
+    ...AlertConfigBodySchema.parse(req.body),
+    id: existing.id,
+    lastTriggered: existing.lastTriggered,
+  };
+  sim.setAlertConfiguration(alertConfig);
+
+  logStore.addOperatorLog('config', `Alert rule updated: ${alertConfig.name}`, { configId: existing.id });
+
+  res.json(createApiResponse(true, alertConfig, 'Alert config updated'));
+}));
+
+/**
+ * PATCH /api/alerts/configs/:id
+ * Enable or disable an alert rule
+ */
+router.patch('/configs/:id', asyncHandler(async (req: Request, res: Response) => {
+  const sim = getSimulation();
+  const { enabled } = ToggleAlertConfigSchema.parse(req.body);
+
+  if (!sim.toggleAlertConfiguration(req.params.id, enabled)) {
+    throw createError(404, `Alert config not found: ${req.params.id}`);
+  }
+
+  logStore.addOperatorLog('config', `Alert rule ${enabled ? 'enabled' : 'disabled'}: ${req.params.id}`);
+
+  res.json(createApiResponse(true, sim.getAlertConfiguration(req.params.id)));
+}));
+
+/**
+ * DELETE /api/alerts/configs/:id
+ * Remove an alert rule
+ */
+router.delete('/configs/:id', asyncHandler(async (req: Request, res: Response) => {
+  if (!getSimulation().removeAlertConfiguration(req.params.id)) {
+    throw createError(404, `Alert config not found: ${req.params.id}`);
+  }
+
+  logStore.addOperatorLog('config', `Alert rule deleted: ${req.params.id}`);
+
+  res.json(createApiResponse(true, null, 'Alert config deleted'));
+}));
+
+/**
+ * GET /api/alerts/suppressions
+ * Maintenance windows that have not ended
+ */
+router.get('/suppressions', (_req: Request, res: Response) => {
+  const suppressions = getSimulation().getAlertSuppressions();
+
+  res.json({
+    success: true,
+    count: suppressions.length,
+    data: suppressions,
+  });
+});
+
+/**
+ * POST /api/alerts/suppressions
+ * Silence alerts for nodes or a region under planned maintenance
+ */
+router.post('/suppressions', asyncHandler(async (req: Request, res: Response) => {
+  const { startsAt, endsAt, ...body } = CreateSuppressionSchema.parse(req.body);
+
+  const suppression = {
+    id: `maint_${uuidv4().slice(0, 8)}`,
+    ...body,
+    startsAt: startsAt ? new Date(startsAt) : new Date(),
+    endsAt: new Date(endsAt),
+  };
+  getSimulation().addAlertSuppression(suppression);
+
+  logStore.addOperatorLog('config', `Alert suppression scheduled: ${body.region ?? body.nodeIds!.join(', ')}`, {
+    suppressionId: suppression.id,
+    endsAt,
+  });
+
+  res.status(201).json(createApiResponse(true, suppression, 'Suppression window created'));
+}));
+
+/**
+ * DELETE /api/alerts/suppressions/:id
+ * End a maintenance window early
+ */
+router.delete('/suppressions/:id', asyncHandler(async (req: Request, res: Response) => {
+  if (!getSimulation().removeAlertSuppression(req.params.id)) {
+    throw createError(404, `Suppression window not found: ${req.params.id}`);
+  }
+
+  logStore.addOperatorLog('config', `Alert suppression removed: ${req.params.id}`);
+
+  res.json(createApiResponse(true, null, 'Suppression window removed'));
+}));
+
+/**
+ * GET /api/alerts/dead-letters
+ * Alert actions that could not be delivered
+ */
+router.get('/dead-letters', (_req: Request, res: Response) => {
+  const deadLetters = getSimulation().getAlertDeadLetters();
+
+  res.json({
+    success: true,
+    count: deadLetters.length,
+    data: deadLetters,
+  });
+});
+
+/**
+ * POST /api/alerts/:id/acknowledge
+ * Acknowledge an active alert, which stops its escalation
+ */
+router.post('/:id/acknowledge', asyncHandler(async (req: Request, res: Response) => {
+  const sim = getSimulation();
+  const { operator } = AcknowledgeAlertSchema.parse(req.body ?? {});
+
+  if (!sim.acknowledgeAlert(req.params.id, operator)) {
+    throw createError(404, `Active alert not found: ${req.params.id}`);
+  }
+
+  logStore.addOperatorLog('alert', `Alert acknowledged: ${req.params.id}`, undefined, operator);
+
+  res.json(createApiResponse(true, sim.getAlerts().find((a) => a.id === req.params.id)));
+}));
+
+/**
+ * POST /api/alerts/:id/resolve
+ * Resolve an alert
+ */
+router.post('/:id/resolve', asyncHandler(async (req: Request, res: Response) => {
+  const sim = getSimulation();
+
+  if (!sim.resolveAlert(req.params.id)) {
+    throw createError(404, `Open alert not found: ${req.params.id}`);
+  }
+
+  logStore.addOperatorLog('alert', `Alert resolved: ${req.params.id}`);
+
+  res.json(createApiResponse(true, sim.getAlerts().find((a) => a.id === req.params.id)));
+}));
+
+export default router;
@@ -0,0 +1,153 @@
+/**
+ * Sentinel Grid Backend - Analysis Routes
+ * POST /api/analysis/contingency, GET /api/analysis/contingency/:id,
+ * GET /api/analysis/cascade-risk/:nodeId
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { getSimulation } from '../services/simulation.js';
+import * as ContingencyService from '../services/ContingencyService.js';
+import * as CascadeRiskService from '../services/CascadeRiskService.js';
+import { config } from '../config.js';
+import { asyncHandler, createError } from '../middleware/errorHandler.js';
+
+const router = Router();
+
+// Validation schemas
+const contingencySchema = z.object({
+  target: z.enum(['nodes', 'edges']).optional().default('nodes'),
+  k: z.number().int().min(1).max(3).optional().default(1),
+  nodeIds: z.array(z.string().min(1)).optional(),
+  edgeIds: z.array(z.string().min(1)).optional(),
+  regions: z.array(z.string().min(1)).optional(),
+  types: z.array(z.enum([
+    'substation',
+    'transformer',
+    'generator',
+    'datacenter',
+    'telecom_tower',
+    'water_pump',
+    'control_center',
+    'solar_farm',
+    'wind_turbine',
+    'battery_storage',
+    'scada_server',
+    'relay_switch',
+  ])).optional(),
+  severity: z.number().min(0).max(1).optional().default(0.7),
+  seed: z.number().int().optional(),
+  rankBy: z.enum(['affected', 'impact', 'loadShed']).optional().default('affected'),
+});
+
+const cascadeRiskSchema = z.object({
+  realizations: z.coerce.number().int().min(10).max(CascadeRiskService.MAX_REALIZATIONS).optional().default(1000),
+  severity: z.coerce.number().min(0).max(1).optional().default(0.7),
+  seed: z.coerce.number().int().optional(),
+});
+
+/**
+ * POST /api/analysis/contingency
+ * Start an N-1 / N-k study over all nodes or power edges, or a filtered
+ * subset. Runs in the background on a copy of the grid; progress is pushed
+ * on the `contingency` WebSocket channel.
+ */
+router.post('/contingency', asyncHandler(async (req: Request, res: Response) => {
+  const body = contingencySchema.parse(req.body);
+  const sim = getSimulation();
+
+  let job;
+  try {
+    job = ContingencyService.startContingencyAnalysis(
+      { ...body, seed: body.seed ?? config.simulation.seed },
+      sim.getNodes(),
+      sim.getPowerGrid()
+    );
+  } catch (error) {
+    throw createError(400, (error as Error).message);
+  }
+
+  res.status(202).json({
+    success: true,
+    data: job,
+  });
+}));
+
+/**
+ * GET /api/analysis/contingency
+ * List contingency jobs, newest first
+ */
+router.get('/contingency', asyncHandler(async (_req: Request, res: Response) => {
+  const jobs = ContingencyService.listContingencyJobs();
+
+  res.json({
+    success: true,
+    count: jobs.length,
+    data: jobs,
+  });
+}));
+
+/**
+ * GET /api/analysis/contingency/:id
+ * Job status with its worst outages so far (`limit`, default 50; at most
+ * 100 until the job finishes)
+ */
+router.get('/contingency/:id', asyncHandler(async (req: Request, res: Response) => {
+  const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 50;
+  const job = ContingencyService.getContingencyJob(req.params.id, limit);
+
+  if (!job) {
+    throw createError(404, `Contingency job ${req.params.id} not found`);
+  }
+
+  res.json({
+    success: true,
+    data: job,
+  });
+}));
+
+/**
+ * POST /api/analysis/contingency/:id/cancel
+ * Stop a running job; outages studied so far are kept and ranked
+ */
+router.post('/contingency/:id/cancel', asyncHandler(async (req: Request, res: Response) => {
+  const job = ContingencyService.cancelContingencyAnalysis(req.params.id);
+
+  if (!job) {
+    throw createError(404, `Contingency job ${req.params.id} not found`);
+  }
+
+  res.json({
+    success: true,
+    data: job,
+  });
+}));
+
+/**
+ * GET /api/analysis/cascade-risk/:nodeId
+ * Monte Carlo cascade risk for a trip at the node: hit probability per
+ * downstream node, expected damage and a percentile table of outcomes
+ */
+router.get('/cascade-risk/:nodeId', asyncHandler(async (req: Request, res: Response) => {
+  const query = cascadeRiskSchema.parse(req.query);
+  const sim = getSimulation();
+  const nodes = sim.getNodes();
+
+  if (!nodes[req.params.nodeId]) {
+    throw createError(404, `Node ${req.params.nodeId} not found`);
+  }
+
+  const estimate = await CascadeRiskService.estimateCascadeRisk(
+    nodes,
+    req.params.nodeId,
+    sim.getPowerGrid(),
+    { ...query, seed: query.seed ?? config.simulation.seed }
+  );
+
+  res.json({
+    success: true,
+    data: estimate,
+  });
+}));
+
+export default router;
@@ -1,12 +1,13 @@
 /**
  * Sentinel Grid Backend - Anchor Routes
- * POST /api/anchor, GET /api/anchors
+ * POST /api/anchor, GET /api/anchors, GET /api/anchor/status
  */
 
 import { Router, Request, Response } from 'express';
 import { z } from 'zod';
 import { anchorsRepo, auditRepo } from '../db/index.js';
 import { getStorage } from '../services/storage.js';
+import * as AnchorSchedulerService from '../services/AnchorSchedulerService.js';
 import { asyncHandler, createError } from '../middleware/errorHandler.js';
 import { v4 as uuidv4 } from 'uuid';
 import { createAuditHash } from '@sentinel-grid/predictive-engine';
@@ -107,6 +108,17 @@ router.get('/', asyncHandler(async (req: Request, res: Response) => {
   });
 }));
 
+/**
+ * GET /api/anchor/status
+ * Scheduled anchoring: cron, last run, outcome totals and pending backlog
+ */
+router.get('/status', asyncHandler(async (_req: Request, res: Response) => {
+  res.json({
+    success: true,
+    data: AnchorSchedulerService.getAnchorSchedulerStatus(),
+  });
+}));
+
 /**
  * GET /api/anchors/:id
  * Get single anchor
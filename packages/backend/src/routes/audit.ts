@@ -1,11 +1,17 @@
 /**
  * Sentinel Grid Backend - Audit Routes
- * GET /api/audit
+ * GET /api/audit, GET /api/audit/verify, POST /api/audit/batch,
+ * GET /api/audit/:id/proof
  */
 
 import { Router, Request, Response } from 'express';
-import { auditRepo } from '../db/index.js';
-import { asyncHandler } from '../middleware/errorHandler.js';
+import { z } from 'zod';
+import { verifyAuditChain, type AuditChainEntry } from '@sentinel-grid/predictive-engine';
+import { auditRepo, anchorsRepo } from '../db/index.js';
+import { asyncHandler, createError } from '../middleware/errorHandler.js';
+import * as MerkleBatchService from '../services/MerkleBatchService.js';
+import { anchorMerkleBatch } from '../services/AnchorSchedulerService.js';
+import type { MerkleInclusionProof } from '../types/index.js';
 
 const router = Router();
 
@@ -30,7 +36,7 @@ router.get('/', asyncHandler(async (req: Request, res: Response) => {
     count: entries.length,
     data: entries.map((e: any) => ({
       ...e,
-      dataSummary: e.data_summary ? JSON.parse(e.data_summary) : null,
+      dataSummary: e.dataSummary ? JSON.parse(e.dataSummary) : null,
     })),
   });
 }));
@@ -87,4 +93,105 @@ router.get('/stats', asyncHandler(async (_req: Request, res: Response) => {
   });
 }));
 
+/**
+ * GET /api/audit/verify
+ * Walk the hash chain from the first entry and report the first gap,
+ * reorder or modified entry. Entries written before the chain existed are
+ * counted but cannot be verified.
+ */
+router.get('/verify', asyncHandler(async (_req: Request, res: Response) => {
+  const chain = auditRepo.getChain.all() as AuditChainEntry[];
+  const verification = verifyAuditChain(chain);
+
+  res.json({
+    success: true,
+    data: {
+      ...verification,
+      totalEntries: chain.length,
+      unchainedEntries: auditRepo.countUnchained.get(),
+    },
+  });
+}));
+
+// ============================================================================
+// Merkle Batches
+// ============================================================================
+
+/**
+ * GET /api/audit/batches
+ * Most recent Merkle batches, newest first
+ */
+router.get('/batches', asyncHandler(async (req: Request, res: Response) => {
+  const { limit } = z.object({
+    limit: z.coerce.number().int().min(1).max(500).optional().default(20),
+  }).parse(req.query);
+  const batches = MerkleBatchService.getRecentBatches(limit);
+
+  res.json({
+    success: true,
+    count: batches.length,
+    data: batches,
+  });
+}));
+
+/**
+ * POST /api/audit/batch
+ * Batch every audit entry, prediction and closed incident not yet in a
+ * Merkle tree and anchor the root now, without waiting for the scheduler
+ */
+router.post('/batch', asyncHandler(async (_req: Request, res: Response) => {
+  const result = await anchorMerkleBatch();
+
+  res.json({
+    success: result.outcome !== 'failed',
+    data: result,
+  });
+}));
+
+/**
+ * GET /api/audit/:id/proof
+ * Inclusion proof for a batched record, with the anchor that carries its
+ * root. `type` selects audit (default), prediction or incident records.
+ */
+router.get('/:id/proof', asyncHandler(async (req: Request, res: Response) => {
+  const { type } = z.object({
+    type: z.enum(['audit', 'prediction', 'incident']).optional().default('audit'),
+  }).parse(req.query);
+
+  const stored = MerkleBatchService.getProof(type, req.params.id);
+  if (!stored) {
+    throw createError(404, `No Merkle proof for ${type} ${req.params.id}; it may not be batched yet`);
+  }
+
+  const anchor = stored.batch.anchorId ? anchorsRepo.getById.get(stored.batch.anchorId) : undefined;
+  const data: MerkleInclusionProof = {
+    itemType: type,
+    itemId: req.params.id,
+    batchId: stored.batch.id,
+    root: stored.batch.root,
+    leaf: {
+      index: stored.leafIndex,
+      hash: stored.leafHash,
+      data: stored.leafData,
+    },
+    proof: stored.proof,
+    anchor: anchor
+      ? {
+          id: anchor.id,
+          status: anchor.status,
+          chain: anchor.chain,
+          payloadHash: anchor.payloadHash,
+          ipfsCid: anchor.ipfsCid,
+          txHash: anchor.txHash,
+          confirmedAt: anchor.confirmedAt,
+        }
+      : null,
+  };
+
+  res.json({
+    success: true,
+    data,
+  });
+}));
+
 export default router;
@@ -0,0 +1,58 @@
+/**
+ * Sentinel Grid Backend - Auth Routes
+ * Operator sessions, so the dashboard can reach key-protected routes
+ * without the API key ever being shipped to the browser
+ */
+
+import { Router, Request, Response } from 'express';
+import { asyncHandler, createError } from '../middleware/errorHandler.js';
+import { closeSession, hasSession, keysMatch, openSession } from '../middleware/auth.js';
+import { logStore } from '../stores/index.js';
+import { OpenSessionSchema } from '../validation/index.js';
+import { config } from '../config.js';
+
+const router = Router();
+
+/**
+ * GET /api/auth/session
+ * Whether the request carries a live operator session
+ */
+router.get('/session', (req: Request, res: Response) => {
+  res.json({
+    success: true,
+    data: { authenticated: hasSession(req), configured: config.apiKeyConfigured },
+  });
+});
+
+/**
+ * POST /api/auth/session
+ * Exchange the API key for an HttpOnly session cookie
+ */
+router.post('/session', asyncHandler(async (req: Request, res: Response) => {
+  if (!config.apiKeyConfigured) {
+    throw createError(503, 'API_KEY is not configured');
+  }
+
+  const { apiKey } = OpenSessionSchema.parse(req.body ?? {});
+  if (!keysMatch(apiKey, config.apiKey)) {
+    logStore.addSystemLog('api', 'Rejected operator session request', {}, 'medium');
+    throw createError(403, 'Invalid API key');
+  }
+
+  const expiresAt = openSession(res);
+  res.json({
+    success: true,
+    data: { authenticated: true, expiresAt: expiresAt.toISOString() },
+  });
+}));
+
+/**
+ * DELETE /api/auth/session
+ * End the operator session
+ */
+router.delete('/session', (req: Request, res: Response) => {
+  closeSession(req, res);
+  res.json({ success: true, message: 'Signed out' });
+});
+
+export default router;
@@ -1,12 +1,14 @@
 /**
  * Sentinel Grid Backend - Contract Routes
- * Blockchain interaction endpoints
+ * Blockchain interaction endpoints, mounted at /api/contract behind
+ * mandatory API-key or operator-session auth
  */
 
 import { Router, Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
 import { asyncHandler, createError } from '../middleware/errorHandler.js';
 import { getContract, initializeContract } from '../services/contract.js';
+import { submitAnchorRecord, pollReceipts } from '../services/AnchorReceiptService.js';
 import { anchorsRepo } from '../db/index.js';
 import { config } from '../config.js';
 
@@ -28,17 +30,32 @@ const requireBlockchain = (req: Request, res: Response, next: NextFunction) => {
 // Apply blockchain check to all routes in this router
 router.use(requireBlockchain);
 
+function requireConnection() {
+  const contract = getContract();
+  if (!contract.isConnected()) {
+    throw createError(400, 'Not connected to blockchain. Call POST /api/contract/connect first.');
+  }
+  return contract;
+}
+
 // Validation schemas
 const connectSchema = z.object({
-  chain: z.enum(['local', 'base', 'optimism']).default('local'),
+  chain: z.enum(['local', 'base', 'optimism']).default(config.blockchain.chain),
 });
 
 const submitAnchorSchema = z.object({
   anchorId: z.string().uuid(),
 });
 
+const payloadHashSchema = z.string().regex(/^(0x)?[a-fA-F0-9]{64}$/, 'Expected a 32-byte hex hash');
+
 const verifyHashSchema = z.object({
-  payloadHash: z.string().min(64).max(66),
+  payloadHash: payloadHashSchema,
+});
+
+const estimateSchema = z.object({
+  payloadHash: payloadHashSchema,
+  ipfsCid: z.string().max(200).default(''),
 });
 
 const mintSchema = z.object({
@@ -52,19 +69,26 @@ const mintSchema = z.object({
 
 /**
  * POST /api/contract/connect
- * Connect to a blockchain
+ * Connect to a blockchain. 502 if the RPC endpoint is unreachable or on
+ * the wrong chain.
  */
 router.post('/connect', asyncHandler(async (req: Request, res: Response) => {
-  const { chain } = connectSchema.parse(req.body);
-  
-  const contract = await initializeContract(chain);
-  
+  const { chain } = connectSchema.parse(req.body || {});
+
+  let contract;
+  try {
+    contract = await initializeContract(chain);
+  } catch (error) {
+    throw createError(502, (error as Error).message);
+  }
+
   res.json({
     success: true,
     data: {
       chain: contract.getChain()?.name,
       chainId: contract.getChain()?.chainId,
       address: contract.getAddress(),
+      contractAddress: contract.getChain()?.dataAnchorAddress ?? null,
       connected: contract.isConnected(),
     },
   });
@@ -72,14 +96,14 @@ router.post('/connect', asyncHandler(async (req: Request, res: Response) => {
 
 /**
  * GET /api/contract/status
- * Get connection status
+ * Get connection status and anchor queue sizes
  */
 router.get('/status', asyncHandler(async (_req: Request, res: Response) => {
   const contract = getContract();
-  
+
   let balance: string | null = null;
   let gasPrice: string | null = null;
-  
+
   if (contract.isConnected() && contract.getAddress()) {
     try {
       balance = await contract.getBalance();
@@ -88,15 +112,22 @@ router.get('/status', asyncHandler(async (_req: Request, res: Response) => {
       // Ignore errors, just report null
     }
   }
-  
+
+  const lastConfirmed = anchorsRepo.getLastConfirmed.get();
+
   res.json({
     success: true,
     data: {
       connected: contract.isConnected(),
-      chain: contract.getChain(),
+      chain: contract.getChain()?.name ?? null,
+      chainId: contract.getChain()?.chainId ?? null,
       address: contract.getAddress(),
+      contractAddress: contract.getChain()?.dataAnchorAddress ?? null,
       balance: balance ? `${balance} ETH` : null,
       gasPrice: gasPrice ? `${gasPrice} gwei` : null,
+      pendingAnchors: anchorsRepo.getPending.all().length,
+      submittedAnchors: anchorsRepo.getSubmitted.all().length,
+      lastAnchor: lastConfirmed?.txHash ?? null,
     },
   });
 }));
@@ -108,7 +139,7 @@ router.get('/status', asyncHandler(async (_req: Request, res: Response) => {
 router.post('/disconnect', asyncHandler(async (_req: Request, res: Response) => {
   const contract = getContract();
   contract.disconnect();
-  
+
   res.json({
     success: true,
     message: 'Disconnected from blockchain',
@@ -121,66 +152,60 @@ router.post('/disconnect', asyncHandler(async (_req: Request, res: Response) =>
 
 /**
  * POST /api/contract/anchor/submit
- * Submit a pending anchor to the blockchain
+ * Send a pending or failed anchor's transaction. The anchor is marked
+ * submitted; POST /api/contract/anchor/confirm (or the receipt poller)
+ * confirms it once mined.
  */
 router.post('/anchor/submit', asyncHandler(async (req: Request, res: Response) => {
   const { anchorId } = submitAnchorSchema.parse(req.body);
-  
-  const contract = getContract();
-  if (!contract.isConnected()) {
-    throw createError(400, 'Not connected to blockchain. Call POST /api/contract/connect first.');
-  }
-  
-  // Get anchor from database
-  const anchor = anchorsRepo.getById.get(anchorId) as any;
+  requireConnection();
+
+  const anchor = anchorsRepo.getById.get(anchorId);
   if (!anchor) {
     throw createError(404, `Anchor ${anchorId} not found`);
   }
-  
-  if (anchor.status === 'confirmed') {
-    throw createError(400, `Anchor ${anchorId} already confirmed with tx: ${anchor.txHash}`);
+
+  if (anchor.status === 'confirmed' || anchor.status === 'submitted') {
+    throw createError(409, `Anchor ${anchorId} already ${anchor.status} with tx: ${anchor.txHash}`);
   }
-  
-  // Submit to blockchain
-  const result = await contract.anchor(
-    anchor.payloadHash,
-    anchor.ipfsCid || ''
-  );
-  
-  // Update anchor record
-  anchorsRepo.updateStatus.run(
-    'confirmed',
-    result.txHash,
-    result.timestamp.toISOString(),
-    anchorId
-  );
-  
-  res.json({
+
+  const result = await submitAnchorRecord(anchor);
+
+  res.status(202).json({
     success: true,
     message: 'Anchor submitted to blockchain',
     data: {
-      anchorId,
-      txHash: result.txHash,
-      blockNumber: result.blockNumber,
-      gasUsed: result.gasUsed,
+      ...result,
+      status: 'submitted',
     },
   });
 }));
 
+/**
+ * POST /api/contract/anchor/confirm
+ * Check receipts of submitted anchors now instead of waiting for the poller
+ */
+router.post('/anchor/confirm', asyncHandler(async (_req: Request, res: Response) => {
+  requireConnection();
+  const result = await pollReceipts();
+
+  res.json({
+    success: true,
+    message: `Confirmed ${result.confirmed.length}/${result.checked} submitted anchors`,
+    data: result,
+  });
+}));
+
 /**
  * POST /api/contract/anchor/verify
  * Verify an anchor exists on-chain
  */
 router.post('/anchor/verify', asyncHandler(async (req: Request, res: Response) => {
   const { payloadHash } = verifyHashSchema.parse(req.body);
-  
-  const contract = getContract();
-  if (!contract.isConnected()) {
-    throw createError(400, 'Not connected to blockchain');
-  }
-  
+  const contract = requireConnection();
+
   const result = await contract.verify(payloadHash);
-  
+
   res.json({
     success: true,
     data: {
@@ -197,17 +222,15 @@ router.post('/anchor/verify', asyncHandler(async (req: Request, res: Response) =
  * Get anchor details from blockchain
  */
 router.get('/anchor/:hash', asyncHandler(async (req: Request, res: Response) => {
-  const contract = getContract();
-  if (!contract.isConnected()) {
-    throw createError(400, 'Not connected to blockchain');
-  }
-  
-  const anchor = await contract.getAnchor(req.params.hash);
-  
+  const payloadHash = payloadHashSchema.parse(req.params.hash);
+  const contract = requireConnection();
+
+  const anchor = await contract.getAnchor(payloadHash);
+
   if (!anchor) {
     throw createError(404, 'Anchor not found on chain');
   }
-  
+
   res.json({
     success: true,
     data: {
@@ -224,22 +247,17 @@ router.get('/anchor/:hash', asyncHandler(async (req: Request, res: Response) =>
  * Estimate gas for anchor submission
  */
 router.post('/anchor/estimate', asyncHandler(async (req: Request, res: Response) => {
-  const { payloadHash } = verifyHashSchema.parse(req.body);
-  const ipfsCid = (req.body.ipfsCid as string) || '';
-  
-  const contract = getContract();
-  if (!contract.isConnected()) {
-    throw createError(400, 'Not connected to blockchain');
-  }
-  
+  const { payloadHash, ipfsCid } = estimateSchema.parse(req.body);
+  const contract = requireConnection();
+
   const gasEstimate = await contract.estimateAnchorGas(payloadHash, ipfsCid);
   const gasPrice = await contract.getGasPrice();
-  
+
   // Calculate cost in ETH (estimate)
   const gasPriceWei = parseFloat(gasPrice) * 1e9;
   const costWei = parseInt(gasEstimate) * gasPriceWei;
   const costEth = costWei / 1e18;
-  
+
   res.json({
     success: true,
     data: {
@@ -260,14 +278,10 @@ router.post('/anchor/estimate', asyncHandler(async (req: Request, res: Response)
  */
 router.post('/nft/mint', asyncHandler(async (req: Request, res: Response) => {
   const { to, tokenURI } = mintSchema.parse(req.body);
-  
-  const contract = getContract();
-  if (!contract.isConnected()) {
-    throw createError(400, 'Not connected to blockchain');
-  }
-  
+  const contract = requireConnection();
+
   const result = await contract.mintSensorAsset(to, tokenURI);
-  
+
   res.json({
     success: true,
     message: 'NFT minted successfully',
@@ -285,17 +299,15 @@ router.post('/nft/mint', asyncHandler(async (req: Request, res: Response) => {
  * Get NFT details
  */
 router.get('/nft/:tokenId', asyncHandler(async (req: Request, res: Response) => {
-  const contract = getContract();
-  if (!contract.isConnected()) {
-    throw createError(400, 'Not connected to blockchain');
-  }
-  
-  const tokenURI = await contract.getTokenURI(req.params.tokenId);
-  
+  const tokenId = z.string().regex(/^\d+$/, 'Expected a numeric token id').parse(req.params.tokenId);
+  const contract = requireConnection();
+
+  const tokenURI = await contract.getTokenURI(tokenId);
+
   res.json({
     success: true,
     data: {
-      tokenId: req.params.tokenId,
+      tokenId,
       tokenURI,
     },
   });
@@ -307,54 +319,41 @@ router.get('/nft/:tokenId', asyncHandler(async (req: Request, res: Response) =>
 
 /**
  * POST /api/contract/anchor/submit-pending
- * Submit all pending anchors to blockchain
+ * Send every pending anchor's transaction; each is marked submitted and
+ * confirmed by the receipt poller
  */
-router.post('/anchor/submit-pending', asyncHandler(async (req: Request, res: Response): Promise<void> => {
-  const contract = getContract();
-  if (!contract.isConnected()) {
-    throw createError(400, 'Not connected to blockchain');
-  }
-  
-  const pending = anchorsRepo.getPending.all() as any[];
-  
+router.post('/anchor/submit-pending', asyncHandler(async (_req: Request, res: Response): Promise<void> => {
+  requireConnection();
+
+  const pending = anchorsRepo.getPending.all();
+
   if (pending.length === 0) {
     res.json({
       success: true,
       message: 'No pending anchors',
-      data: { submitted: 0 },
+      data: { submitted: 0, failed: 0, results: [] },
     });
     return;
   }
-  
+
   const results: Array<{ anchorId: string; txHash?: string; error?: string }> = [];
-  
+
+  // Sequential so each transaction gets the next nonce
   for (const anchor of pending) {
     try {
-      const result = await contract.anchor(
-        anchor.payloadHash,
-        anchor.ipfsCid || ''
-      );
-      
-      anchorsRepo.updateStatus.run(
-        'confirmed',
-        result.txHash,
-        result.timestamp.toISOString(),
-        anchor.id
-      );
-      
-      results.push({ anchorId: anchor.id, txHash: result.txHash });
+      results.push(await submitAnchorRecord(anchor));
     } catch (error) {
-      results.push({ 
-        anchorId: anchor.id, 
-        error: error instanceof Error ? error.message : 'Unknown error' 
+      results.push({
+        anchorId: anchor.id,
+        error: error instanceof Error ? error.message : 'Unknown error'
       });
     }
   }
-  
+
   const submitted = results.filter(r => r.txHash).length;
   const failed = results.filter(r => r.error).length;
-  
-  res.json({
+
+  res.status(202).json({
     success: true,
     message: `Submitted ${submitted}/${pending.length} anchors`,
     data: {
@@ -1,6 +1,7 @@
 /**
  * Sentinel Grid Backend - Incidents Routes
  * GET /api/incidents, GET /api/incidents/:id, POST /api/incidents/:id/anchor
+ * GET /api/incidents/archive, POST /api/incidents/:id/archive
  */
 
 import { Router, Request, Response } from 'express';
@@ -55,6 +56,21 @@ router.get('/', asyncHandler(async (req: Request, res: Response) => {
   });
 }));
 
+/**
+ * GET /api/incidents/archive
+ * List archived incidents, most recently archived first
+ */
+router.get('/archive', asyncHandler(async (req: Request, res: Response) => {
+  const limit = parseInt(req.query.limit as string) || 100;
+  const incidents = incidentStore.getArchived(limit);
+
+  res.json({
+    success: true,
+    count: incidents.length,
+    data: incidents,
+  });
+}));
+
 /**
  * GET /api/incidents/:id
  * Get a specific incident
@@ -157,6 +173,32 @@ router.post('/:id/close', asyncHandler(async (req: Request, res: Response) => {
   });
 }));
 
+/**
+ * POST /api/incidents/:id/archive
+ * Move a closed incident into the archive
+ */
+router.post('/:id/archive', asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  const existing = incidentStore.getById(id);
+  if (!existing) {
+    throw createError(404, `Incident ${id} not found`);
+  }
+  if (existing.status !== 'closed') {
+    throw createError(409, `Incident ${id} must be closed before it can be archived`);
+  }
+
+  const incident = incidentStore.archive(id);
+
+  logStore.addOperatorLog('incident', `Incident ${id} archived`, { incidentId: id });
+
+  res.json({
+    success: true,
+    message: `Incident ${id} archived`,
+    data: incident,
+  });
+}));
+
 /**
  * POST /api/incidents/:id/anchor
  * Anchor incident record on Optimism blockchain
@@ -16,6 +16,11 @@ import incidentsRoutes from './incidents';
 import topologyRoutes from './topology';
 import reportRoutes from './report';
 import demoRoutes from './demo';
+import alertsRoutes from './alerts';
+import analysisRoutes from './analysis';
+import sandboxesRoutes from './sandboxes';
+import contractRoutes from './contract';
+import { requireApiKey } from '../middleware/auth';
 
 const router = Router();
 
@@ -34,6 +39,11 @@ router.use('/incidents', incidentsRoutes);
 router.use('/topology', topologyRoutes);
 router.use('/report', reportRoutes);
 router.use('/demo', demoRoutes);
+router.use('/alerts', alertsRoutes);
+router.use('/analysis', analysisRoutes);
+router.use('/sandboxes', sandboxesRoutes);
+// Contract calls sign transactions, so they always need the API key or a session
+router.use('/contract', requireApiKey, contractRoutes);
 
 // Import pin and verify handlers directly for top-level routes
 import { pinHandler, verifyHandler } from './anchor';
@@ -55,17 +65,22 @@ router.get('/', (_req, res) => {
         'POST /api/system/start',
         'POST /api/system/stop',
         'POST /api/system/reset',
+        'GET  /api/system/run',
+        'POST /api/system/replay',
       ],
       nodes: [
         'GET  /api/nodes',
         'GET  /api/nodes/summary',
         'GET  /api/nodes/critical',
+        'GET  /api/nodes/edges',
         'GET  /api/nodes/:id',
+        'GET  /api/nodes/:id/forecast',
       ],
       predictions: [
         'GET  /api/predictions',
         'GET  /api/predictions/patterns',
         'GET  /api/predictions/accuracy',
+        'GET  /api/predictions/model',
       ],
       simulate: [
         'POST /api/simulate/cascade',
@@ -73,6 +88,33 @@ router.get('/', (_req, res) => {
         'DELETE /api/simulate/threat',
         'POST /api/simulate/scenario',
       ],
+      analysis: [
+        'POST /api/analysis/contingency',
+        'GET  /api/analysis/contingency',
+        'GET  /api/analysis/contingency/:id',
+        'POST /api/analysis/contingency/:id/cancel',
+        'GET  /api/analysis/cascade-risk/:nodeId',
+      ],
+      sandboxes: [
+        'POST /api/sandboxes',
+        'GET  /api/sandboxes',
+        'GET  /api/sandboxes/:id',
+        'DELETE /api/sandboxes/:id',
+        'GET  /api/sandboxes/:id/nodes',
+        'GET  /api/sandboxes/:id/predictions',
+        'GET  /api/sandboxes/:id/diff',
+        'POST /api/sandboxes/:id/start',
+        'POST /api/sandboxes/:id/stop',
+        'POST /api/sandboxes/:id/step',
+        'POST /api/sandboxes/:id/simulate/cascade',
+        'POST /api/sandboxes/:id/simulate/threat',
+        'DELETE /api/sandboxes/:id/simulate/threat',
+        'POST /api/sandboxes/:id/simulate/scenario',
+        'POST /api/sandboxes/:id/actions/mitigate',
+        'POST /api/sandboxes/:id/actions/mitigate/batch',
+        'POST /api/sandboxes/:id/actions/mitigate/critical',
+        'PUT  /api/sandboxes/:id/actions/auto-mitigation',
+      ],
       actions: [
         'GET  /api/actions/recommendations',
         'POST /api/actions/mitigate',
@@ -81,10 +123,12 @@ router.get('/', (_req, res) => {
       ],
       incidents: [
         'GET  /api/incidents',
+        'GET  /api/incidents/archive',
         'GET  /api/incidents/:id',
         'PATCH /api/incidents/:id',
         'POST /api/incidents/:id/mitigation',
         'POST /api/incidents/:id/close',
+        'POST /api/incidents/:id/archive',
         'POST /api/incidents/:id/anchor',
       ],
       scenarios: [
@@ -115,12 +159,49 @@ router.get('/', (_req, res) => {
         'GET  /api/anchor/status',
         'POST /api/pin',
       ],
+      auth: [
+        'GET  /api/auth/session',
+        'POST /api/auth/session',
+        'DELETE /api/auth/session',
+      ],
+      contract: [
+        'POST /api/contract/connect',
+        'GET  /api/contract/status',
+        'POST /api/contract/disconnect',
+        'POST /api/contract/anchor/submit',
+        'POST /api/contract/anchor/submit-pending',
+        'POST /api/contract/anchor/confirm',
+        'POST /api/contract/anchor/verify',
+        'POST /api/contract/anchor/estimate',
+        'GET  /api/contract/anchor/:hash',
+        'POST /api/contract/nft/mint',
+        'GET  /api/contract/nft/:tokenId',
+      ],
+      alerts: [
+        'GET  /api/alerts',
+        'POST /api/alerts/:id/acknowledge',
+        'POST /api/alerts/:id/resolve',
+        'GET  /api/alerts/configs',
+        'POST /api/alerts/configs',
+        'GET  /api/alerts/configs/:id',
+        'PUT  /api/alerts/configs/:id',
+        'PATCH /api/alerts/configs/:id',
+        'DELETE /api/alerts/configs/:id',
+        'GET  /api/alerts/suppressions',
+        'POST /api/alerts/suppressions',
+        'DELETE /api/alerts/suppressions/:id',
+        'GET  /api/alerts/dead-letters',
+      ],
       logs: [
         'GET  /api/logs',
         'GET  /api/logs/export',
       ],
       audit: [
         'GET  /api/audit',
+        'GET  /api/audit/verify',
+        'GET  /api/audit/batches',
+        'POST /api/audit/batch',
+        'GET  /api/audit/:id/proof',
       ],
     },
   });
@@ -1,10 +1,11 @@
 /**
  * Sentinel Grid Backend - Nodes Routes
- * GET /api/nodes, /api/nodes/:id
+ * GET /api/nodes, /api/nodes/edges, /api/nodes/:id, /api/nodes/:id/forecast
  */
 
 import { Router, Request, Response } from 'express';
 import { getSimulation } from '../services/simulation.js';
+import * as DigitalTwinService from '../services/DigitalTwinService.js';
 import { asyncHandler, createError } from '../middleware/errorHandler.js';
 
 const router = Router();
@@ -136,6 +137,20 @@ router.get('/critical', asyncHandler(async (_req: Request, res: Response) => {
   });
 }));
 
+/**
+ * GET /api/nodes/edges
+ * Typed dependency edges between nodes, for drawing the topology
+ */
+router.get('/edges', asyncHandler(async (_req: Request, res: Response) => {
+  const edges = DigitalTwinService.getAllEdges();
+
+  res.json({
+    success: true,
+    count: edges.length,
+    data: edges,
+  });
+}));
+
 /**
  * GET /api/nodes/:id
  * Get single node by ID
@@ -179,4 +194,22 @@ router.get('/:id/connections', asyncHandler(async (req: Request, res: Response)
   });
 }));
 
+/**
+ * GET /api/nodes/:id/forecast
+ * Risk, temperature and load trajectories with prediction intervals and
+ * estimated time to failure. Data is null until the node has enough history.
+ */
+router.get('/:id/forecast', asyncHandler(async (req: Request, res: Response) => {
+  const sim = getSimulation();
+
+  if (!sim.getNode(req.params.id)) {
+    throw createError(404, `Node ${req.params.id} not found`);
+  }
+
+  res.json({
+    success: true,
+    data: sim.getForecast(req.params.id),
+  });
+}));
+
 export default router;
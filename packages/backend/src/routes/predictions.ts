@@ -81,6 +81,19 @@ router.get('/accuracy', asyncHandler(async (_req: Request, res: Response) => {
   });
 }));
 
+/**
+ * GET /api/predictions/model
+ * Get the active prediction provider, fallbacks and shadow comparisons
+ */
+router.get('/model', asyncHandler(async (_req: Request, res: Response) => {
+  const sim = getSimulation();
+
+  res.json({
+    success: true,
+    data: sim.getPredictionModelStatus(),
+  });
+}));
+
 /**
  * GET /api/predictions/history
  * Get historical predictions from database
@@ -174,12 +187,16 @@ router.put('/:id/resolve', asyncHandler(async (req: Request, res: Response) => {
     throw createError(404, `Prediction ${req.params.id} not found`);
   }
   
-  predictionsRepo.updateStatus.run(
-    'resolved',
-    new Date().toISOString(),
-    wasAccurate ? 1 : 0,
-    req.params.id
-  );
+  // Live predictions resolve through the engine so accuracy metrics and
+  // the stored record stay in agreement
+  if (!getSimulation().resolvePrediction(req.params.id, !!wasAccurate)) {
+    predictionsRepo.updateStatus.run(
+      'resolved',
+      new Date().toISOString(),
+      wasAccurate ? 1 : 0,
+      req.params.id
+    );
+  }
   
   res.json({
     success: true,
@@ -87,18 +87,4 @@ router.get('/operator-log', (req: Request, res: Response) => {
   }
 });
 
-/**
- * POST /api/report/seed-demo-data
- * Seed demo data for reports (for demos)
- */
-router.post('/seed-demo-data', (_req: Request, res: Response) => {
-  try {
-    ReportService.seedDemoReportData();
-    res.json(createApiResponse(true, { seeded: true }, 'Demo data seeded successfully'));
-  } catch (error) {
-    console.error('Error seeding demo data:', error);
-    res.status(500).json(createApiResponse(false, null, 'Failed to seed demo data'));
-  }
-});
-
 export default router;
@@ -0,0 +1,369 @@
+/**
+ * Sentinel Grid Backend - Sandbox Routes
+ * POST /api/sandboxes, POST /api/sandboxes/:id/step, GET /api/sandboxes/:id/diff,
+ * plus the /simulate and /actions calls under /api/sandboxes/:id
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { getSimulation } from '../services/simulation.js';
+import * as SandboxService from '../services/SandboxService.js';
+import { asyncHandler, createError } from '../middleware/errorHandler.js';
+import {
+  CreateSandboxSchema,
+  StepSandboxSchema,
+  SimulateCascadeSchema,
+  SimulateThreatSchema,
+  SimulateScenarioSchema,
+  MitigateRequestSchema,
+  MitigateBatchRequestSchema,
+  AutoMitigationSchema,
+} from '../validation/index.js';
+import { runScenario } from './simulate.js';
+
+const router = Router();
+
+function findSandbox(id: string): SandboxService.Sandbox {
+  const sandbox = SandboxService.getSandbox(id);
+  if (!sandbox) {
+    throw createError(404, `Sandbox ${id} not found`);
+  }
+  return sandbox;
+}
+
+// ============================================================================
+// Sandbox Lifecycle
+// ============================================================================
+
+/**
+ * POST /api/sandboxes
+ * Fork the live nodes, weather, threats and predictive histories into a
+ * new sandbox. The sandbox is paused until started or stepped.
+ */
+router.post('/', asyncHandler(async (req: Request, res: Response) => {
+  const { name } = CreateSandboxSchema.parse(req.body || {});
+
+  let sandbox;
+  try {
+    sandbox = SandboxService.createSandbox(getSimulation(), name);
+  } catch (error) {
+    throw createError(409, (error as Error).message);
+  }
+
+  res.status(201).json({
+    success: true,
+    data: sandbox.getSummary(),
+  });
+}));
+
+/**
+ * GET /api/sandboxes
+ * List sandboxes
+ */
+router.get('/', asyncHandler(async (_req: Request, res: Response) => {
+  const sandboxes = SandboxService.listSandboxes().map((s) => s.getSummary());
+
+  res.json({
+    success: true,
+    count: sandboxes.length,
+    data: sandboxes,
+  });
+}));
+
+/**
+ * GET /api/sandboxes/:id
+ * Sandbox clock, tick count, system summary and active threats
+ */
+router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
+  res.json({
+    success: true,
+    data: findSandbox(req.params.id).getSummary(),
+  });
+}));
+
+/**
+ * DELETE /api/sandboxes/:id
+ * Stop and discard a sandbox
+ */
+router.delete('/:id', asyncHandler(async (req: Request, res: Response) => {
+  if (!SandboxService.deleteSandbox(req.params.id)) {
+    throw createError(404, `Sandbox ${req.params.id} not found`);
+  }
+
+  res.json({
+    success: true,
+    message: `Sandbox ${req.params.id} deleted`,
+  });
+}));
+
+/**
+ * GET /api/sandboxes/:id/nodes
+ * Node states in the sandbox
+ */
+router.get('/:id/nodes', asyncHandler(async (req: Request, res: Response) => {
+  const nodes = Object.values(findSandbox(req.params.id).getNodes());
+
+  res.json({
+    success: true,
+    count: nodes.length,
+    data: nodes,
+  });
+}));
+
+/**
+ * GET /api/sandboxes/:id/predictions
+ * Predictions from the sandbox's copy of the predictive engine
+ */
+router.get('/:id/predictions', asyncHandler(async (req: Request, res: Response) => {
+  const predictions = findSandbox(req.params.id).getPredictions();
+
+  res.json({
+    success: true,
+    count: predictions.length,
+    data: predictions,
+  });
+}));
+
+/**
+ * GET /api/sandboxes/:id/diff
+ * Compare the sandbox with the live grid; lists the `limit` nodes
+ * (default 50) whose risk moved most
+ */
+router.get('/:id/diff', asyncHandler(async (req: Request, res: Response) => {
+  const { limit } = z.object({
+    limit: z.coerce.number().int().min(1).optional().default(50),
+  }).parse(req.query);
+  const diff = findSandbox(req.params.id).diff(getSimulation());
+
+  res.json({
+    success: true,
+    data: { ...diff, nodes: diff.nodes.slice(0, limit) },
+  });
+}));
+
+// ============================================================================
+// Tick Loop
+// ============================================================================
+
+/**
+ * POST /api/sandboxes/:id/start
+ * Tick the sandbox on its own loop at the live tick interval
+ */
+router.post('/:id/start', asyncHandler(async (req: Request, res: Response) => {
+  const sandbox = findSandbox(req.params.id);
+  sandbox.start();
+
+  res.json({
+    success: true,
+    data: sandbox.getSummary(),
+  });
+}));
+
+/**
+ * POST /api/sandboxes/:id/stop
+ * Pause the sandbox's tick loop
+ */
+router.post('/:id/stop', asyncHandler(async (req: Request, res: Response) => {
+  const sandbox = findSandbox(req.params.id);
+  sandbox.stop();
+
+  res.json({
+    success: true,
+    data: sandbox.getSummary(),
+  });
+}));
+
+/**
+ * POST /api/sandboxes/:id/step
+ * Advance the sandbox `ticks` ticks (1-1000) immediately
+ */
+router.post('/:id/step', asyncHandler(async (req: Request, res: Response) => {
+  const { ticks } = StepSandboxSchema.parse(req.body || {});
+  const sandbox = findSandbox(req.params.id);
+
+  await sandbox.step(ticks);
+
+  res.json({
+    success: true,
+    message: `Stepped ${ticks} tick${ticks === 1 ? '' : 's'}`,
+    data: sandbox.getSummary(),
+  });
+}));
+
+// ============================================================================
+// Simulation Calls
+// ============================================================================
+
+/**
+ * POST /api/sandboxes/:id/simulate/cascade
+ */
+router.post('/:id/simulate/cascade', asyncHandler(async (req: Request, res: Response) => {
+  const { originId, severity } = SimulateCascadeSchema.parse(req.body);
+  const sandbox = findSandbox(req.params.id);
+  const node = sandbox.getNode(originId);
+
+  if (!node) {
+    throw createError(404, `Origin node ${originId} not found`);
+  }
+
+  const event = sandbox.triggerCascade(originId, severity);
+
+  res.json({
+    success: true,
+    message: `Cascade triggered from ${node.name}`,
+    data: {
+      id: event.id,
+      originNode: event.originNode,
+      affectedNodes: event.affectedNodes.length,
+      impactScore: event.impactScore,
+      totalDamage: event.totalDamage,
+      propagationDepth: event.propagationPath.length,
+    },
+  });
+}));
+
+/**
+ * POST /api/sandboxes/:id/simulate/threat
+ */
+router.post('/:id/simulate/threat', asyncHandler(async (req: Request, res: Response) => {
+  const threatData = SimulateThreatSchema.parse(req.body);
+  const sandbox = findSandbox(req.params.id);
+
+  if (threatData.target && !sandbox.getNode(threatData.target)) {
+    throw createError(404, `Target node ${threatData.target} not found`);
+  }
+
+  const threat = sandbox.deployThreat({
+    type: threatData.type,
+    severity: threatData.severity,
+    target: threatData.target || null,
+    region: threatData.region,
+    active: true,
+    until: new Date(Date.now() + threatData.duration * 1000),
+    duration: threatData.duration,
+  });
+
+  res.json({
+    success: true,
+    message: `Threat ${threat.type} deployed`,
+    data: threat,
+  });
+}));
+
+/**
+ * DELETE /api/sandboxes/:id/simulate/threat
+ */
+router.delete('/:id/simulate/threat', asyncHandler(async (req: Request, res: Response) => {
+  findSandbox(req.params.id).clearThreat();
+
+  res.json({
+    success: true,
+    message: 'Threat cleared',
+  });
+}));
+
+/**
+ * POST /api/sandboxes/:id/simulate/scenario
+ */
+router.post('/:id/simulate/scenario', asyncHandler(async (req: Request, res: Response) => {
+  const { scenario, severity } = SimulateScenarioSchema.parse(req.body);
+
+  runScenario(findSandbox(req.params.id), scenario, severity);
+
+  res.json({
+    success: true,
+    message: `Scenario '${scenario}' started with ${severity} severity`,
+    scenario,
+    severity,
+  });
+}));
+
+// ============================================================================
+// Action Calls
+// ============================================================================
+
+/**
+ * POST /api/sandboxes/:id/actions/mitigate
+ */
+router.post('/:id/actions/mitigate', asyncHandler(async (req: Request, res: Response) => {
+  const { nodeId, actionType } = MitigateRequestSchema.parse(req.body);
+  const sandbox = findSandbox(req.params.id);
+  const node = sandbox.getNode(nodeId);
+
+  if (!node) {
+    throw createError(404, `Node ${nodeId} not found`);
+  }
+
+  const riskBefore = node.riskScore;
+  const result = sandbox.mitigate(nodeId, actionType || 'manual');
+
+  res.json({
+    success: true,
+    data: {
+      nodeId,
+      nodeName: result.node,
+      actionType: actionType || 'manual',
+      mitigationSuccess: result.success,
+      riskBefore,
+      riskAfter: result.updatedNode.riskScore,
+      riskReduction: result.riskReduction,
+      actions: result.actions,
+      updatedNode: result.updatedNode,
+    },
+  });
+}));
+
+/**
+ * POST /api/sandboxes/:id/actions/mitigate/batch
+ */
+router.post('/:id/actions/mitigate/batch', asyncHandler(async (req: Request, res: Response) => {
+  const { nodeIds, actionType } = MitigateBatchRequestSchema.parse(req.body);
+  const sandbox = findSandbox(req.params.id);
+
+  const results = nodeIds
+    .filter((nodeId) => sandbox.getNode(nodeId))
+    .map((nodeId) => {
+      const result = sandbox.mitigate(nodeId, actionType || 'batch');
+      return { nodeId, success: result.success, riskReduction: result.riskReduction };
+    });
+
+  res.json({
+    success: true,
+    message: `Mitigated ${results.filter((r) => r.success).length}/${nodeIds.length} nodes`,
+    data: results,
+  });
+}));
+
+/**
+ * POST /api/sandboxes/:id/actions/mitigate/critical
+ */
+router.post('/:id/actions/mitigate/critical', asyncHandler(async (req: Request, res: Response) => {
+  const sandbox = findSandbox(req.params.id);
+
+  const results = sandbox.getSystemState().criticalNodes.map((nodeId) => {
+    const result = sandbox.mitigate(nodeId, 'auto-critical');
+    return { nodeId, nodeName: result.node, success: result.success, riskReduction: result.riskReduction };
+  });
+
+  res.json({
+    success: true,
+    message: `Mitigated ${results.length} critical nodes`,
+    data: results,
+  });
+}));
+
+/**
+ * PUT /api/sandboxes/:id/actions/auto-mitigation
+ */
+router.put('/:id/actions/auto-mitigation', asyncHandler(async (req: Request, res: Response) => {
+  const { enabled } = AutoMitigationSchema.parse(req.body);
+  findSandbox(req.params.id).setAutoMitigation(enabled);
+
+  res.json({
+    success: true,
+    message: `Auto-mitigation ${enabled ? 'enabled' : 'disabled'}`,
+    autoMitigation: enabled,
+  });
+}));
+
+export default router;
@@ -5,41 +5,29 @@
 
 import { Router, Request, Response } from 'express';
 import { z } from 'zod';
-import { getSimulation } from '../services/simulation.js';
+import { getSimulation, type SimulationService } from '../services/simulation.js';
 import { cascadeRepo, auditRepo } from '../db/index.js';
 import { asyncHandler, createError } from '../middleware/errorHandler.js';
+import { SimulateCascadeSchema, SimulateThreatSchema, SimulateScenarioSchema } from '../validation/index.js';
 import { v4 as uuidv4 } from 'uuid';
 import { createAuditHash } from '@sentinel-grid/predictive-engine';
 
 const router = Router();
 
-// Validation schemas
-const cascadeSchema = z.object({
-  originId: z.string().min(1),
-  severity: z.number().min(0).max(1).optional().default(0.7),
-});
-
-const threatSchema = z.object({
-  type: z.enum([
-    'cyber_attack',
-    'physical_intrusion',
-    'equipment_failure',
-    'overload',
-    'weather_stress',
-    'cascade_origin',
-  ]),
-  severity: z.number().min(0).max(1).optional().default(0.5),
-  target: z.string().optional().nullable(),
-  region: z.string().optional(),
-  duration: z.number().optional().default(60), // seconds
-});
+/**
+ * What a predefined scenario drives: the live simulation or a sandbox
+ */
+export type ScenarioTarget = Pick<
+  SimulationService,
+  'getSystemState' | 'getNodes' | 'deployThreat' | 'triggerCascade' | 'isSimulationRunning' | 'start'
+>;
 
 /**
  * POST /api/simulate/cascade
  * Trigger a cascade failure from origin node
  */
 router.post('/cascade', asyncHandler(async (req: Request, res: Response) => {
-  const { originId, severity } = cascadeSchema.parse(req.body);
+  const { originId, severity } = SimulateCascadeSchema.parse(req.body);
   
   const sim = getSimulation();
   const node = sim.getNode(originId);
@@ -107,8 +95,8 @@ router.get('/cascades', asyncHandler(async (_req: Request, res: Response) => {
     count: cascades.length,
     data: cascades.map((c: any) => ({
       ...c,
-      affectedNodes: JSON.parse(c.affected_nodes),
-      propagationPath: JSON.parse(c.propagation_path || '[]'),
+      affectedNodes: JSON.parse(c.affectedNodes),
+      propagationPath: JSON.parse(c.propagationPath || '[]'),
     })),
   });
 }));
@@ -118,7 +106,7 @@ router.get('/cascades', asyncHandler(async (_req: Request, res: Response) => {
  * Deploy a threat scenario
  */
 router.post('/threat', asyncHandler(async (req: Request, res: Response) => {
-  const threatData = threatSchema.parse(req.body);
+  const threatData = SimulateThreatSchema.parse(req.body);
   
   const sim = getSimulation();
   
@@ -185,13 +173,26 @@ router.delete('/threat', asyncHandler(async (_req: Request, res: Response) => {
  * Run a predefined scenario with optional severity
  */
 router.post('/scenario', asyncHandler(async (req: Request, res: Response) => {
-  const { scenario, severity } = z.object({
-    scenario: z.enum(['cyber_attack', 'storm', 'cascade', 'overload', 'demo']),
-    severity: z.enum(['low', 'medium', 'high']).optional().default('medium'),
-  }).parse(req.body);
-  
-  const sim = getSimulation();
-  
+  const { scenario, severity } = SimulateScenarioSchema.parse(req.body);
+
+  runScenario(getSimulation(), scenario, severity);
+
+  res.json({
+    success: true,
+    message: `Scenario '${scenario}' started with ${severity} severity`,
+    scenario,
+    severity,
+  });
+}));
+
+/**
+ * Start the target if needed and apply a predefined scenario to it
+ */
+export function runScenario(
+  sim: ScenarioTarget,
+  scenario: z.infer<typeof SimulateScenarioSchema>['scenario'],
+  severity: z.infer<typeof SimulateScenarioSchema>['severity']
+): void {
   // Start simulation if not running
   if (!sim.isSimulationRunning()) {
     sim.start();
@@ -271,13 +272,6 @@ router.post('/scenario', asyncHandler(async (req: Request, res: Response) => {
       break;
     }
   }
-  
-  res.json({
-    success: true,
-    message: `Scenario '${scenario}' started with ${severity} severity`,
-    scenario,
-    severity,
-  });
-}));
+}
 
 export default router;
@@ -1,13 +1,16 @@
 /**
  * Sentinel Grid Backend - System Routes
- * GET /api/system/state, /api/system/health, /api/system/metrics
+ * GET /api/system/state, /api/system/health, /api/system/metrics,
+ * GET /api/system/run, POST /api/system/replay
  */
 
 import { Router, Request, Response } from 'express';
-import { getSimulation } from '../services/simulation.js';
+import { getSimulation, replayRun } from '../services/simulation.js';
+import { ThreatService } from '../services/index.js';
 import { logStore, incidentStore } from '../stores/index.js';
-import { asyncHandler } from '../middleware/errorHandler.js';
-import { createApiResponse, API_VERSION } from '../validation/index.js';
+import { asyncHandler, createError } from '../middleware/errorHandler.js';
+import { createApiResponse, API_VERSION, ReplayRunSchema } from '../validation/index.js';
+import type { RunRecord } from '../types/index.js';
 
 const router = Router();
 
@@ -61,7 +64,7 @@ router.get('/state', asyncHandler(async (_req: Request, res: Response) => {
     cyberHealth,
     avgLatency,
     isolatedNodes,
-    activeThreats: 0, // Would come from ThreatService
+    activeThreats: ThreatService.getAllActiveThreats().length,
     pendingMitigations: 0,
     openIncidents,
     
@@ -243,4 +246,39 @@ router.post('/reset', (_req: Request, res: Response) => {
   res.json(createApiResponse(true, null, 'Simulation reset'));
 });
 
+/**
+ * GET /api/system/run
+ * Seed, starting conditions and input journal of the current run
+ */
+router.get('/run', (_req: Request, res: Response) => {
+  res.json(createApiResponse(true, getSimulation().getRunRecord()));
+});
+
+/**
+ * POST /api/system/replay
+ * Re-execute a recorded run (defaults to the current one) on an isolated
+ * simulation and report the first journal entry whose state digest differs.
+ * The live run keeps going undisturbed.
+ */
+router.post('/replay', asyncHandler(async (req: Request, res: Response) => {
+  const sim = getSimulation();
+  const { run } = ReplayRunSchema.parse(req.body || {});
+  const record = (run as RunRecord | undefined) ?? sim.getRunRecord();
+
+  if (record.truncated) {
+    throw createError(409, 'Run journal was truncated and cannot be replayed');
+  }
+
+  const result = await replayRun(record);
+
+  logStore.addOperatorLog('config', `Run ${result.runId} replayed: ${result.matches ? 'identical' : 'diverged'}`, {
+    entriesReplayed: result.entriesReplayed,
+    divergence: result.divergence,
+  });
+
+  res.json(createApiResponse(true, result, result.matches
+    ? 'Replay matches the recorded run'
+    : `Replay diverged at entry ${result.divergence!.seq}`));
+}));
+
 export default router;
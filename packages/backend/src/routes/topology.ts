@@ -1,35 +1,17 @@
 /**
  * Sentinel Grid Backend - Topology Routes
  * GET /api/topology, POST /api/topology/import
+ * Imported topologies replace the synthetic grid in the live simulation
  */
 
 import { Router, Request, Response } from 'express';
-import { z } from 'zod';
 import { topologyStore, logStore } from '../stores/index.js';
+import { getSimulation } from '../services/simulation.js';
+import { ImportTopologySchema } from '../validation/index.js';
 import { asyncHandler, createError } from '../middleware/errorHandler.js';
 
 const router = Router();
 
-// Validation schemas
-const topologyNodeSchema = z.object({
-  id: z.string().min(1),
-  name: z.string().min(1),
-  region: z.string().min(1),
-  voltage: z.string().optional(),
-  type: z.string().min(1),
-});
-
-const topologyEdgeSchema = z.object({
-  from: z.string().min(1),
-  to: z.string().min(1),
-  capacity: z.number().min(0),
-});
-
-const importTopologySchema = z.object({
-  nodes: z.array(topologyNodeSchema).min(1),
-  edges: z.array(topologyEdgeSchema),
-});
-
 /**
  * GET /api/topology
  * Get the active topology
@@ -63,10 +45,13 @@ router.get('/', asyncHandler(async (_req: Request, res: Response) => {
  * Import a new topology
  */
 router.post('/import', asyncHandler(async (req: Request, res: Response) => {
-  const { nodes, edges } = importTopologySchema.parse(req.body);
+  const { nodes, edges } = ImportTopologySchema.parse(req.body);
 
   // Validate that all edge endpoints exist in nodes
   const nodeIds = new Set(nodes.map((n) => n.id));
+  if (nodeIds.size !== nodes.length) {
+    throw createError(400, 'Topology contains duplicate node IDs');
+  }
   for (const edge of edges) {
     if (!nodeIds.has(edge.from)) {
       throw createError(400, `Edge references non-existent node: ${edge.from}`);
@@ -76,8 +61,9 @@ router.post('/import', asyncHandler(async (req: Request, res: Response) => {
     }
   }
 
-  // Store the topology
+  // Store the topology and rebuild the live grid from it
   topologyStore.set({ nodes, edges });
+  getSimulation().loadTopology(topologyStore.get());
 
   // Log the import
   logStore.addOperatorLog('config', `Topology imported: ${nodes.length} nodes, ${edges.length} edges`, {
@@ -103,6 +89,7 @@ router.post('/import', asyncHandler(async (req: Request, res: Response) => {
  */
 router.delete('/', asyncHandler(async (_req: Request, res: Response) => {
   topologyStore.clear();
+  getSimulation().loadTopology(null);
 
   logStore.addOperatorLog('config', 'Custom topology cleared, reverted to default');
 
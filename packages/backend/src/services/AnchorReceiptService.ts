@@ -0,0 +1,140 @@
+/**
+ * Anchor Receipt Service
+ * Sends anchor records on-chain without blocking on the transaction, then
+ * polls receipts to move them submitted -> confirmed (with the block's
+ * timestamp as confirmedAt) or failed. A transaction still unconfirmed
+ * receiptTimeoutMs after it was sent has been dropped or replaced, or will
+ * never be mined, and is failed too so the anchor can be submitted again.
+ */
+
+import { config } from '../config.js';
+import { anchorsRepo, type AnchorRecord } from '../db/index.js';
+import { logStore } from '../stores/index.js';
+import { getContract, type AnchorReceipt } from './contract.js';
+import type { AnchorReceiptPollResult } from '../types/index.js';
+
+// ============================================================================
+// Poller State
+// ============================================================================
+
+let timer: NodeJS.Timeout | null = null;
+let polling = false;
+
+/** When each anchor's current transaction was sent (or first polled, after a restart) */
+const sentAt = new Map<string, { txHash: string; at: number }>();
+
+// ============================================================================
+// Submission
+// ============================================================================
+
+/**
+ * Send a pending (or failed) anchor's transaction and mark it submitted.
+ * The receipt is picked up by the next poll.
+ */
+export async function submitAnchorRecord(anchor: AnchorRecord): Promise<{ anchorId: string; txHash: string }> {
+  const { txHash } = await getContract().submitAnchor(anchor.payloadHash, anchor.ipfsCid ?? '');
+  anchorsRepo.updateStatus.run('submitted', txHash, null, anchor.id);
+  sentAt.set(anchor.id, { txHash, at: Date.now() });
+
+  return { anchorId: anchor.id, txHash };
+}
+
+// ============================================================================
+// Receipt Polling
+// ============================================================================
+
+/**
+ * Milliseconds since an anchor's transaction was sent. Submissions made
+ * before a restart are timed from the first poll that sees them.
+ */
+function pendingFor(anchorId: string, txHash: string, now: number): number {
+  const sent = sentAt.get(anchorId);
+  if (sent?.txHash === txHash) return now - sent.at;
+
+  sentAt.set(anchorId, { txHash, at: now });
+  return 0;
+}
+
+/**
+ * Check the receipt of every submitted anchor once. Anchors without a tx
+ * hash are still being sent by the scheduler and are left alone.
+ */
+export async function pollReceipts(): Promise<AnchorReceiptPollResult> {
+  const result: AnchorReceiptPollResult = { checked: 0, confirmed: [], failed: [], pending: [] };
+  const contract = getContract();
+
+  if (polling || !contract.isConnected()) return result;
+
+  polling = true;
+  try {
+    for (const anchor of anchorsRepo.getSubmitted.all()) {
+      const { txHash } = anchor;
+      if (!txHash) continue;
+      result.checked++;
+
+      let receipt: AnchorReceipt;
+      try {
+        receipt = await contract.getAnchorReceipt(txHash, config.blockchain.confirmations);
+      } catch {
+        // RPC hiccup; try again next poll unless the deadline has passed
+        receipt = { status: 'pending' };
+      }
+
+      if (receipt.status === 'pending') {
+        const elapsedMs = pendingFor(anchor.id, txHash, Date.now());
+        if (elapsedMs < config.blockchain.receiptTimeoutMs) {
+          result.pending.push(anchor.id);
+          continue;
+        }
+
+        anchorsRepo.updateStatus.run('failed', txHash, null, anchor.id);
+        sentAt.delete(anchor.id);
+        logStore.addSystemLog('anchor', 'Anchor transaction not confirmed before deadline', {
+          anchorId: anchor.id,
+          txHash,
+          elapsedMs,
+        }, 'high');
+        result.failed.push(anchor.id);
+        continue;
+      }
+
+      sentAt.delete(anchor.id);
+      if (receipt.status === 'confirmed') {
+        anchorsRepo.updateStatus.run('confirmed', txHash, receipt.confirmedAt.toISOString(), anchor.id);
+        logStore.addSystemLog('anchor', 'Anchor confirmed on-chain', {
+          anchorId: anchor.id,
+          txHash,
+          blockNumber: receipt.blockNumber,
+        });
+        result.confirmed.push(anchor.id);
+      } else {
+        anchorsRepo.updateStatus.run('failed', txHash, null, anchor.id);
+        logStore.addSystemLog('anchor', 'Anchor transaction reverted', {
+          anchorId: anchor.id,
+          txHash,
+          blockNumber: receipt.blockNumber,
+        }, 'high');
+        result.failed.push(anchor.id);
+      }
+    }
+  } finally {
+    polling = false;
+  }
+
+  return result;
+}
+
+/**
+ * Poll receipts every `intervalMs` until stopped
+ */
+export function startReceiptPoller(intervalMs: number = config.blockchain.receiptPollMs): void {
+  stopReceiptPoller();
+  timer = setInterval(() => {
+    pollReceipts().catch((error) => console.error('Receipt poll failed:', error));
+  }, intervalMs);
+}
+
+export function stopReceiptPoller(): void {
+  if (timer) clearInterval(timer);
+  timer = null;
+}
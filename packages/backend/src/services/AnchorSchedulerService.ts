@@ -0,0 +1,338 @@
+/**
+ * Anchor Scheduler Service
+ * Anchors simulation snapshots on the ANCHOR_CRON schedule: each run pins a
+ * snapshot, records it in the anchors table and, with blockchain enabled,
+ * submits it on-chain with retries. Each tick then anchors the Merkle root
+ * of any audit entries, predictions and closed incidents not yet batched.
+ */
+
+import { createHash } from 'crypto';
+import * as cron from 'node-cron';
+import { v4 as uuidv4 } from 'uuid';
+import { createAuditHash } from '@sentinel-grid/predictive-engine';
+import { config } from '../config.js';
+import { anchorsRepo, auditRepo } from '../db/index.js';
+import { logStore } from '../stores/index.js';
+import { getSimulation } from './simulation.js';
+import { getStorage } from './storage.js';
+import { getContract } from './contract.js';
+import { submitAnchorRecord } from './AnchorReceiptService.js';
+import * as MerkleBatchService from './MerkleBatchService.js';
+import type {
+  AnchorCycleOutcome,
+  AnchorCycleResult,
+  AnchorSchedulerStatus,
+} from '../types/index.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const MAX_SUBMIT_ATTEMPTS = 3;
+const RETRY_BACKOFF_MS = 2000;       // Doubles after each failed submit
+
+// ============================================================================
+// Scheduler State
+// ============================================================================
+
+let task: cron.ScheduledTask | null = null;
+let cronExpression: string = config.scheduler.anchorCron;
+let inProgress = false;
+let batchInProgress = false;
+let lastFingerprint: string | null = null;
+let lastRun: AnchorCycleResult | null = null;
+let lastBatch: AnchorCycleResult | null = null;
+let lastAnchoredAt: string | null = null;
+const totals: Record<AnchorCycleOutcome, number> = { anchored: 0, pinned: 0, skipped: 0, failed: 0 };
+
+// ============================================================================
+// Scheduling
+// ============================================================================
+
+/**
+ * Run an anchor cycle, then a Merkle batch, on every cron tick. Returns
+ * false, and schedules nothing, if the expression is invalid.
+ */
+export function startAnchorScheduler(expression: string = config.scheduler.anchorCron): boolean {
+  if (!cron.validate(expression)) {
+    console.warn(`⚠ Invalid ANCHOR_CRON expression "${expression}", scheduled anchoring disabled`);
+    return false;
+  }
+
+  stopAnchorScheduler();
+  cronExpression = expression;
+  task = cron.schedule(expression, () => {
+    runAnchorCycle()
+      .then(() => anchorMerkleBatch())
+      .catch((error) => console.error('Scheduled anchor failed:', error));
+  });
+  return true;
+}
+
+export function stopAnchorScheduler(): void {
+  task?.stop();
+  task = null;
+}
+
+export function isAnchorSchedulerRunning(): boolean {
+  return task !== null;
+}
+
+// ============================================================================
+// Anchor Cycle
+// ============================================================================
+
+/**
+ * Snapshot, pin, record and (with blockchain enabled) submit one anchor.
+ * Skips when a run is already in progress or node states are unchanged
+ * since the last anchor, unless `force` is set.
+ */
+export async function runAnchorCycle(options: { force?: boolean } = {}): Promise<AnchorCycleResult> {
+  const startedAt = new Date().toISOString();
+
+  if (inProgress) {
+    return finish({ outcome: 'skipped', startedAt, attempts: 0, reason: 'Previous run still in progress' });
+  }
+
+  inProgress = true;
+  try {
+    const snapshot = getSimulation().createSnapshot();
+    const fingerprint = createHash('sha256').update(JSON.stringify(snapshot.state.nodes)).digest('hex');
+
+    if (!options.force && fingerprint === lastFingerprint) {
+      return finish({ outcome: 'skipped', startedAt, attempts: 0, reason: 'Grid unchanged since last anchor' });
+    }
+
+    // Round-trip through JSON so dates pin as strings
+    let pin;
+    try {
+      pin = await getStorage().pin(JSON.parse(JSON.stringify(snapshot)));
+    } catch (error) {
+      return finish({ outcome: 'failed', startedAt, attempts: 0, reason: `Pin failed: ${errorMessage(error)}` });
+    }
+
+    // Anchor the pinned payload's hash, which is what an offline verifier recomputes
+    const anchorId = recordAnchor(pin.sha256, pin.cid, {
+      source: 'scheduler',
+      tickCount: snapshot.state.tickCount,
+      snapshotAt: snapshot.timestamp,
+      snapshotHash: snapshot.hash,
+      signature: snapshot.signature,
+      size: pin.size,
+    });
+    lastFingerprint = fingerprint;
+
+    const base = { startedAt, anchorId, payloadHash: pin.sha256, ipfsCid: pin.cid };
+
+    if (!config.blockchainEnabled) {
+      return finish({ ...base, outcome: 'pinned', attempts: 0, reason: 'Blockchain disabled; anchor left pending' });
+    }
+
+    const submitted = await submitWithRetry(anchorId);
+    if (submitted.outcome === 'failed') {
+      // Anchor the grid afresh next run even if nothing has changed
+      lastFingerprint = null;
+    }
+    return finish({ ...base, ...submitted });
+  } finally {
+    inProgress = false;
+  }
+}
+
+// ============================================================================
+// Merkle Batches
+// ============================================================================
+
+/**
+ * Batch every record not yet in a Merkle tree, pin the batch manifest and
+ * anchor its root. Skips when a batch is already running or nothing new
+ * has been written since the last one.
+ */
+export async function anchorMerkleBatch(): Promise<AnchorCycleResult> {
+  const startedAt = new Date().toISOString();
+
+  if (batchInProgress) {
+    return finishBatch({ outcome: 'skipped', startedAt, attempts: 0, reason: 'Previous batch still in progress' });
+  }
+
+  batchInProgress = true;
+  try {
+    const created = MerkleBatchService.createBatch();
+    if (!created) {
+      return finishBatch({ outcome: 'skipped', startedAt, attempts: 0, reason: 'No new records to batch' });
+    }
+
+    const { batch, leaves } = created;
+    const base = { startedAt, batchId: batch.id, leafCount: batch.leafCount, root: batch.root };
+
+    // The manifest lets anyone holding the CID rebuild the tree
+    let pin;
+    try {
+      pin = await getStorage().pin({
+        batchId: batch.id,
+        root: batch.root,
+        createdAt: batch.createdAt,
+        leaves: leaves.map((leaf) => ({ itemType: leaf.itemType, itemId: leaf.itemId, hash: leaf.leafHash })),
+      });
+    } catch (error) {
+      return finishBatch({ ...base, outcome: 'failed', attempts: 0, reason: `Pin failed: ${errorMessage(error)}` });
+    }
+
+    // The manifest's hash is anchored rather than the bare root, so the
+    // pinned bundle verifies offline; the manifest carries the root
+    const anchorId = recordAnchor(pin.sha256, pin.cid, {
+      source: 'merkle-batch',
+      batchId: batch.id,
+      merkleRoot: batch.root,
+      leafCount: batch.leafCount,
+      size: pin.size,
+    });
+    MerkleBatchService.setBatchAnchor(batch.id, anchorId);
+
+    const anchored = { ...base, anchorId, payloadHash: pin.sha256, ipfsCid: pin.cid };
+
+    if (!config.blockchainEnabled) {
+      return finishBatch({ ...anchored, outcome: 'pinned', attempts: 0, reason: 'Blockchain disabled; anchor left pending' });
+    }
+
+    return finishBatch({ ...anchored, ...await submitWithRetry(anchorId) });
+  } finally {
+    batchInProgress = false;
+  }
+}
+
+// ============================================================================
+// Anchor Records
+// ============================================================================
+
+/**
+ * Insert a pending anchor and its audit entry; returns the anchor id
+ */
+function recordAnchor(payloadHash: string, ipfsCid: string, metadata: Record<string, unknown>): string {
+  const anchorId = uuidv4();
+  const chain = getContract().getChainName() ?? config.blockchain.chain;
+
+  anchorsRepo.insert.run({
+    id: anchorId,
+    payloadHash,
+    ipfsCid,
+    chain,
+    txHash: undefined,
+    status: 'pending',
+    metadata: JSON.stringify(metadata),
+  });
+
+  const auditData = {
+    type: 'anchor_created',
+    anchorId,
+    chain,
+    payloadHash: payloadHash.slice(0, 16) + '...',
+    hasCid: true,
+    scheduled: true,
+  };
+  auditRepo.insert.run({
+    id: uuidv4(),
+    timestamp: new Date().toISOString(),
+    type: 'anchor_created',
+    hash: createAuditHash(auditData),
+    actor: 'scheduler',
+    dataSummary: JSON.stringify(auditData),
+  });
+
+  return anchorId;
+}
+
+/**
+ * Send an anchor's transaction to the configured chain, retrying with
+ * backoff. A sent anchor is left submitted for the receipt poller to
+ * confirm or fail; one that cannot be sent is failed once attempts run out.
+ */
+async function submitWithRetry(
+  anchorId: string
+): Promise<Pick<AnchorCycleResult, 'outcome' | 'attempts' | 'txHash' | 'reason'>> {
+  const contract = getContract();
+  const anchor = anchorsRepo.getById.get(anchorId);
+  let lastError = 'Unknown error';
+
+  if (!anchor) {
+    return { outcome: 'failed', attempts: 0, reason: `Anchor ${anchorId} not found` };
+  }
+
+  // Marked in flight without a tx hash so the poller and submit-pending leave it alone
+  anchorsRepo.updateStatus.run('submitted', null, null, anchorId);
+
+  for (let attempt = 1; attempt <= MAX_SUBMIT_ATTEMPTS; attempt++) {
+    try {
+      if (!contract.isConnected()) {
+        await contract.connect(config.blockchain.chain);
+      }
+
+      const { txHash } = await submitAnchorRecord(anchor);
+      logStore.addSystemLog('anchor', 'Scheduled anchor submitted on-chain', {
+        anchorId,
+        txHash,
+        attempts: attempt,
+      });
+
+      return { outcome: 'anchored', attempts: attempt, txHash };
+    } catch (error) {
+      lastError = errorMessage(error);
+      if (attempt < MAX_SUBMIT_ATTEMPTS) {
+        await new Promise((resolve) => setTimeout(resolve, RETRY_BACKOFF_MS * 2 ** (attempt - 1)));
+      }
+    }
+  }
+
+  anchorsRepo.updateStatus.run('failed', null, null, anchorId);
+  logStore.addSystemLog('anchor', `Scheduled anchor failed after ${MAX_SUBMIT_ATTEMPTS} attempts`, {
+    anchorId,
+    error: lastError,
+  }, 'high');
+
+  return { outcome: 'failed', attempts: MAX_SUBMIT_ATTEMPTS, reason: lastError };
+}
+
+function finish(result: Omit<AnchorCycleResult, 'finishedAt'>): AnchorCycleResult {
+  const finished: AnchorCycleResult = { ...result, finishedAt: new Date().toISOString() };
+
+  totals[finished.outcome]++;
+  lastRun = finished;
+  if (finished.outcome === 'anchored' || finished.outcome === 'pinned') {
+    lastAnchoredAt = finished.finishedAt;
+  }
+
+  return finished;
+}
+
+function finishBatch(result: Omit<AnchorCycleResult, 'finishedAt'>): AnchorCycleResult {
+  const finished: AnchorCycleResult = { ...result, finishedAt: new Date().toISOString() };
+
+  lastBatch = finished;
+  if (finished.outcome === 'anchored' || finished.outcome === 'pinned') {
+    lastAnchoredAt = finished.finishedAt;
+  }
+
+  return finished;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+// ============================================================================
+// Status
+// ============================================================================
+
+export function getAnchorSchedulerStatus(): AnchorSchedulerStatus {
+  return {
+    enabled: isAnchorSchedulerRunning(),
+    cron: cronExpression,
+    blockchainEnabled: config.blockchainEnabled,
+    inProgress,
+    pendingAnchors: anchorsRepo.getPending.all().length,
+    lastRun,
+    lastBatch,
+    lastAnchoredAt,
+    totals: { ...totals },
+  };
+}
@@ -0,0 +1,56 @@
+/**
+ * Cascade Risk Service
+ * Monte Carlo cascade estimates for one origin, run on a copy of the grid
+ * a batch of realizations at a time so ticks and requests keep flowing
+ */
+
+import {
+  CascadeRiskSampler,
+  type CascadeRiskEstimate,
+  type CascadeRiskOptions,
+  type Node,
+  type PowerGrid,
+} from '@sentinel-grid/predictive-engine';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const MAX_REALIZATIONS = 10000;
+const BATCH_SIZE = 25;               // Realizations per event-loop turn
+
+// ============================================================================
+// Estimation
+// ============================================================================
+
+/**
+ * Estimate how far a trip at `originId` cascades. Node states are copied
+ * first, so the estimate reflects the grid as it was when requested.
+ */
+export function estimateCascadeRisk(
+  nodes: Record<string, Node>,
+  originId: string,
+  grid: PowerGrid,
+  options: Partial<CascadeRiskOptions> = {}
+): Promise<CascadeRiskEstimate> {
+  const sampler = new CascadeRiskSampler(structuredClone(nodes), originId, options, grid);
+
+  return new Promise((resolve, reject) => {
+    const runBatch = () => {
+      try {
+        sampler.sample(BATCH_SIZE);
+      } catch (error) {
+        reject(error);
+        return;
+      }
+
+      if (sampler.done) {
+        resolve(sampler.result());
+      } else {
+        setImmediate(runBatch);
+      }
+    };
+
+    setImmediate(runBatch);
+  });
+}
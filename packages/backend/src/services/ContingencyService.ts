@@ -0,0 +1,316 @@
+/**
+ * Contingency Analysis Service
+ * Runs N-1 / N-k outage studies as cancellable background jobs on a copy
+ * of the grid, ranking outages by how far they cascade
+ */
+
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  simulateContingency,
+  edgeId,
+  SeededRandom,
+  type Contingency,
+  type Node,
+  type PowerGrid,
+} from '@sentinel-grid/predictive-engine';
+import type {
+  ContingencyJob,
+  ContingencyRequest,
+  ContingencyResult,
+  ContingencyRankBy,
+} from '../types/index.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const MAX_CONTINGENCIES = 50000;
+const BATCH_SIZE = 20;               // Contingencies per event-loop turn
+const PROGRESS_INTERVAL_MS = 250;
+const PROGRESS_TOP_RESULTS = 5;
+const LIVE_TOP_RESULTS = 100;        // Worst outages kept ranked while a job runs
+const MAX_FINISHED_JOBS = 20;
+
+// ============================================================================
+// Job Store
+// ============================================================================
+
+interface JobState {
+  job: ContingencyJob;
+  cancelRequested: boolean;
+  // Worst outages so far, kept in rank order so a running job never re-sorts
+  top: ContingencyResult[];
+}
+
+const jobs: Map<string, JobState> = new Map();
+
+/**
+ * Emits `progress` with a job summary and its worst outages so far, and once
+ * more when the job finishes
+ */
+export const contingencyEvents = new EventEmitter();
+
+// ============================================================================
+// Outage Enumeration
+// ============================================================================
+
+/**
+ * Elements a request studies: node ids, or the ids of power edges
+ */
+export function selectElements(
+  request: ContingencyRequest,
+  nodes: Record<string, Node>,
+  grid: PowerGrid
+): string[] {
+  const matches = (node: Node | undefined) =>
+    !!node &&
+    (!request.regions?.length || request.regions.includes(node.region)) &&
+    (!request.types?.length || request.types.includes(node.type));
+
+  if (request.target === 'nodes') {
+    return Object.keys(nodes).filter((id) =>
+      (!request.nodeIds?.length || request.nodeIds.includes(id)) && matches(nodes[id]));
+  }
+
+  return grid.edges
+    .filter((e) =>
+      (!request.edgeIds?.length || request.edgeIds.includes(edgeId(e))) &&
+      (!request.nodeIds?.length || request.nodeIds.includes(e.from) || request.nodeIds.includes(e.to)) &&
+      (matches(nodes[e.from]) || matches(nodes[e.to])))
+    .map(edgeId);
+}
+
+/**
+ * Number of ways to take k of n elements out together
+ */
+export function countContingencies(n: number, k: number): number {
+  if (k > n) return 0;
+  let count = 1;
+  for (let i = 0; i < k; i++) count = (count * (n - i)) / (i + 1);
+  return Math.round(count);
+}
+
+function* combinations(items: string[], k: number, start = 0, prefix: string[] = []): Generator<string[]> {
+  if (prefix.length === k) {
+    yield prefix;
+    return;
+  }
+  for (let i = start; i <= items.length - (k - prefix.length); i++) {
+    yield* combinations(items, k, i + 1, [...prefix, items[i]]);
+  }
+}
+
+// ============================================================================
+// Ranking
+// ============================================================================
+
+const RANK_KEYS: Record<ContingencyRankBy, (r: ContingencyResult) => number> = {
+  affected: (r) => r.affectedCount,
+  impact: (r) => r.impactScore,
+  loadShed: (r) => r.loadShedMW,
+};
+
+/**
+ * Worst first by the requested measure, then by the other two
+ */
+function compareResults(rankBy: ContingencyRankBy): (a: ContingencyResult, b: ContingencyResult) => number {
+  const order: ContingencyRankBy[] = [rankBy, ...(['affected', 'impact', 'loadShed'] as const).filter((k) => k !== rankBy)];
+  return (a, b) => {
+    for (const key of order) {
+      const diff = RANK_KEYS[key](b) - RANK_KEYS[key](a);
+      if (diff !== 0) return diff;
+    }
+    return 0;
+  };
+}
+
+function withRanks(results: ContingencyResult[]): ContingencyResult[] {
+  return results.map((result, i) => ({ ...result, rank: i + 1 }));
+}
+
+function rankResults(results: ContingencyResult[], rankBy: ContingencyRankBy): ContingencyResult[] {
+  return withRanks([...results].sort(compareResults(rankBy)));
+}
+
+/**
+ * Insert a result into a ranked list capped at `size`. Ties go after the
+ * results already there, matching the stable sort a finished job gets.
+ */
+function insertRanked(
+  top: ContingencyResult[],
+  result: ContingencyResult,
+  compare: (a: ContingencyResult, b: ContingencyResult) => number,
+  size: number
+): void {
+  let low = 0;
+  let high = top.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (compare(top[mid], result) <= 0) low = mid + 1;
+    else high = mid;
+  }
+
+  if (low >= size) return;
+  top.splice(low, 0, result);
+  if (top.length > size) top.pop();
+}
+
+// ============================================================================
+// Jobs
+// ============================================================================
+
+/**
+ * Start a contingency study. The node states are copied, so the live
+ * simulation keeps running untouched while the job works through the outages
+ * a batch at a time. Every outage runs from the same seed, so results do not
+ * depend on the order they are studied in.
+ */
+export function startContingencyAnalysis(
+  request: ContingencyRequest,
+  nodes: Record<string, Node>,
+  grid: PowerGrid
+): ContingencyJob {
+  const snapshot = structuredClone(nodes);
+  const elements = selectElements(request, snapshot, grid);
+  const total = countContingencies(elements.length, request.k);
+
+  if (total === 0) {
+    throw new Error(`No ${request.target} match the requested subset`);
+  }
+  if (total > MAX_CONTINGENCIES) {
+    throw new Error(`${total} contingencies exceed the limit of ${MAX_CONTINGENCIES}; narrow the subset or lower k`);
+  }
+
+  const job: ContingencyJob = {
+    id: uuidv4(),
+    status: 'running',
+    request,
+    total,
+    completed: 0,
+    progress: 0,
+    startedAt: new Date().toISOString(),
+    results: [],
+  };
+  const state: JobState = { job, cancelRequested: false, top: [] };
+  const compare = compareResults(request.rankBy);
+  jobs.set(job.id, state);
+  pruneJobs();
+
+  const outages = combinations(elements, request.k);
+  const now = new Date(job.startedAt);
+  let lastProgress = 0;
+
+  const runBatch = () => {
+    if (state.cancelRequested) {
+      finishJob(state, 'cancelled');
+      return;
+    }
+
+    try {
+      for (let i = 0; i < BATCH_SIZE; i++) {
+        const next = outages.next();
+        if (next.done) {
+          finishJob(state, 'completed');
+          return;
+        }
+
+        const outage = next.value;
+        const contingency: Contingency = request.target === 'nodes'
+          ? { nodes: outage, lines: [] }
+          : { nodes: [], lines: outage };
+        const { event } = simulateContingency(snapshot, contingency, request.severity, {}, {
+          rng: new SeededRandom(request.seed),
+          now,
+          grid,
+        });
+
+        const result: ContingencyResult = {
+          rank: 0,
+          outage,
+          affectedNodes: event.affectedNodes,
+          affectedCount: event.affectedNodes.length,
+          impactScore: event.impactScore,
+          loadShedMW: event.loadShedMW ?? 0,
+          trippedLines: event.trippedLines ?? [],
+        };
+        job.results.push(result);
+        insertRanked(state.top, result, compare, LIVE_TOP_RESULTS);
+        job.completed++;
+      }
+    } catch (error) {
+      job.error = (error as Error).message;
+      finishJob(state, 'failed');
+      return;
+    }
+
+    job.progress = job.completed / job.total;
+    if (Date.now() - lastProgress >= PROGRESS_INTERVAL_MS) {
+      lastProgress = Date.now();
+      publishProgress(state);
+    }
+    setImmediate(runBatch);
+  };
+
+  setImmediate(runBatch);
+  return summarize(job);
+}
+
+export function cancelContingencyAnalysis(id: string): ContingencyJob | null {
+  const state = jobs.get(id);
+  if (!state) return null;
+  if (state.job.status === 'running') state.cancelRequested = true;
+  return summarize(state.job);
+}
+
+/**
+ * A job with its worst `limit` outages so far. Running jobs only rank
+ * their worst LIVE_TOP_RESULTS outages until they finish.
+ */
+export function getContingencyJob(id: string, limit: number = 50): ContingencyJob | null {
+  const state = jobs.get(id);
+  if (!state) return null;
+
+  const { job } = state;
+  const ranked = job.status === 'running' ? withRanks(state.top) : job.results;
+  return { ...job, results: ranked.slice(0, limit) };
+}
+
+/**
+ * All jobs, newest first, without their results
+ */
+export function listContingencyJobs(): ContingencyJob[] {
+  return Array.from(jobs.values())
+    .map(({ job }) => summarize(job))
+    .reverse();
+}
+
+function finishJob(state: JobState, status: ContingencyJob['status']): void {
+  const { job } = state;
+  job.status = status;
+  job.progress = job.total > 0 ? job.completed / job.total : 1;
+  job.finishedAt = new Date().toISOString();
+  job.results = rankResults(job.results, job.request.rankBy);
+  state.top = [];
+  publishProgress(state);
+}
+
+function publishProgress({ job, top }: JobState): void {
+  const worst = job.status === 'running' ? withRanks(top.slice(0, PROGRESS_TOP_RESULTS)) : job.results;
+  contingencyEvents.emit('progress', {
+    ...summarize(job),
+    results: worst.slice(0, PROGRESS_TOP_RESULTS),
+  });
+}
+
+function summarize(job: ContingencyJob): ContingencyJob {
+  return { ...job, results: [] };
+}
+
+/**
+ * Keep running jobs and the most recent finished ones
+ */
+function pruneJobs(): void {
+  const finished = Array.from(jobs.values()).filter(({ job }) => job.status !== 'running');
+  finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS)).forEach(({ job }) => jobs.delete(job.id));
+}
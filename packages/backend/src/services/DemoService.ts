@@ -5,10 +5,9 @@
 
 import { v4 as uuidv4 } from 'uuid';
 import type { DemoStep, DemoSequence, DemoState } from '../types/index.js';
-import * as DigitalTwinService from './DigitalTwinService.js';
 import * as ThreatService from './ThreatService.js';
-import * as RiskScoringService from './RiskScoringService.js';
 import * as MitigationService from './MitigationService.js';
+import { getSimulation } from './simulation.js';
 import { logStore, incidentStore } from '../stores/index.js';
 
 // ============================================================================
@@ -207,37 +206,8 @@ function executeStep(step: DemoStep, index: number): void {
     action: step.action.type,
   });
 
-  const params = step.action.params;
-
-  switch (step.action.type) {
-    case 'normal':
-      if (params.resetThreats) {
-        ThreatService.endAllThreats();
-      }
-      // Stabilize all nodes
-      stabilizeNodes();
-      break;
-
-    case 'anomaly':
-      createAnomaly(params);
-      break;
-
-    case 'prediction':
-      generateDemoPrediction(params);
-      break;
-
-    case 'cascade':
-      triggerDemoCascade(params);
-      break;
-
-    case 'mitigation':
-      applyDemoMitigation(params);
-      break;
-
-    case 'recovery':
-      recoverSystem();
-      break;
-  }
+  // Applied and journaled by the simulation so recorded runs replay it
+  getSimulation().runDemoStep(step.action);
 
   // Notify callback
   if (onStepCallback) {
@@ -245,126 +215,6 @@ function executeStep(step: DemoStep, index: number): void {
   }
 }
 
-// ============================================================================
-// Step Implementations
-// ============================================================================
-
-function stabilizeNodes(): void {
-  const nodes = DigitalTwinService.getAllNodes();
-  nodes.forEach(node => {
-    if (node.riskScore > 0.5) {
-      DigitalTwinService.applyMitigationToNode(node.id, 'activate_backup');
-    }
-  });
-}
-
-function createAnomaly(params: Record<string, unknown>): void {
-  const region = params.region as string || 'Central';
-  const severity = params.severity as number || 0.4;
-  const type = params.type as string || 'load_spike';
-
-  const regionNodes = DigitalTwinService.getNodesByRegion(region);
-  const targetNodes = regionNodes.slice(0, Math.ceil(regionNodes.length * 0.3));
-
-  targetNodes.forEach(node => {
-    if (type === 'load_spike') {
-      node.loadRatio = Math.min(0.9, node.loadRatio + severity * 0.3);
-      node.riskScore = Math.min(0.7, node.riskScore + severity * 0.2);
-    } else if (type === 'cyber_recon') {
-      node.tamperSignal = Math.min(0.5, node.tamperSignal + severity * 0.3);
-      node.latency = Math.min(150, node.latency + severity * 50);
-    }
-  });
-}
-
-function generateDemoPrediction(params: Record<string, unknown>): void {
-  const type = params.type as string || 'cascade_failure';
-  const probability = params.probability as number || 0.75;
-  const hoursToEvent = params.hoursToEvent as number || 4;
-
-  // Find a high-risk node to attach prediction to
-  const nodes = DigitalTwinService.getAllNodes()
-    .sort((a, b) => b.riskScore - a.riskScore);
-  
-  const targetNode = nodes[0];
-  if (!targetNode) return;
-
-  // The prediction will be generated naturally by the risk scoring service
-  // Just ensure the node is at appropriate risk level
-  targetNode.riskScore = Math.max(0.65, targetNode.riskScore);
-  targetNode.status = 'degraded';
-
-  // Generate and store prediction
-  const prediction = RiskScoringService.generatePrediction(targetNode);
-  if (prediction) {
-    // Adjust to match demo parameters
-    prediction.probability = probability;
-    prediction.hoursToEvent = hoursToEvent;
-  }
-}
-
-function triggerDemoCascade(params: Record<string, unknown>): void {
-  const severity = params.severity as number || 0.6;
-  const threatType = params.threatType as string;
-  const subtype = params.subtype as string;
-
-  if (threatType === 'cyber_attack') {
-    ThreatService.createCyberAttack(
-      null,
-      (subtype as any) || 'false_data_injection',
-      severity
-    );
-  } else {
-    // Physical cascade
-    const criticalNodes = DigitalTwinService.getCriticalNodes();
-    const degradedNodes = DigitalTwinService.getAllNodes()
-      .filter(n => n.status === 'degraded');
-    
-    const origin = criticalNodes[0] || degradedNodes[0];
-    if (origin) {
-      ThreatService.createThreat({
-        type: 'cascade_origin',
-        target: origin.id,
-        severity,
-        durationSeconds: 60,
-      });
-    }
-  }
-}
-
-function applyDemoMitigation(params: Record<string, unknown>): void {
-  const actions = params.actions as string[] || ['load_shed'];
-  
-  // Get all recommendations and execute them
-  const recommendations = MitigationService.getPendingRecommendations();
-  
-  recommendations.slice(0, 5).forEach(rec => {
-    MitigationService.executeMitigation(rec.nodeId, rec.actionType, 'demo-system');
-  });
-
-  // Also mitigate any critical nodes
-  const criticalNodes = DigitalTwinService.getCriticalNodes();
-  criticalNodes.forEach(node => {
-    const action = actions[0] as any || 'load_shed';
-    MitigationService.executeMitigation(node.id, action, 'demo-system');
-  });
-}
-
-function recoverSystem(): void {
-  ThreatService.endAllThreats();
-  
-  const allNodes = DigitalTwinService.getAllNodes();
-  allNodes.forEach(node => {
-    if (node.status === 'critical' || node.status === 'degraded') {
-      DigitalTwinService.applyMitigationToNode(node.id, 'activate_backup');
-      DigitalTwinService.applyMitigationToNode(node.id, 'enable_cooling');
-    }
-    if (node.cyberStatus !== 'secure') {
-      DigitalTwinService.applyMitigationToNode(node.id, 'cyber_lockdown');
-    }
-  });
-}
-
 // ============================================================================
 // Run Demo
 // ============================================================================
@@ -443,9 +293,8 @@ export function resetDemo(): void {
   ThreatService.endAllThreats();
   MitigationService.clearRecommendations();
   
-  // Reset digital twin
-  DigitalTwinService.resetDigitalTwin();
-  DigitalTwinService.initializeDigitalTwin(150, 12345);
+  // Reset the shared grid (twin, engine histories and alerts)
+  getSimulation().reset();
 
   logStore.addSimulationLog('demo', 'Demo reset complete', {});
 }
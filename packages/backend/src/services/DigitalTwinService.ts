@@ -1,6 +1,7 @@
 /**
  * Digital Twin Service
- * Manages synthetic infrastructure nodes with realistic metrics
+ * Authoritative grid state: nodes and dependency edges shared by the
+ * simulation, risk scoring, threat and mitigation services
  */
 
 import { v4 as uuidv4 } from 'uuid';
@@ -11,6 +12,8 @@ import type {
   NodeCategory,
   NodeStatus,
   CyberStatus,
+  Topology,
+  TopologyEdge,
 } from '../types/index.js';
 
 // ============================================================================
@@ -34,6 +37,17 @@ const NODE_TYPE_CONFIG: Record<NodeType, { category: NodeCategory; ratedCapacity
 
 const REGIONS = ['North', 'South', 'East', 'West', 'Central'];
 
+// Fallback node type per category for imported nodes with an unknown type
+const CATEGORY_DEFAULT_TYPE: Record<NodeCategory, NodeType> = {
+  generation: 'generator',
+  transmission: 'substation',
+  distribution: 'transformer',
+  datacenter: 'datacenter',
+  telecom: 'telecom_tower',
+  control: 'control_center',
+  storage: 'battery_storage',
+};
+
 const NODE_TYPE_WEIGHTS: [NodeType, number][] = [
   ['substation', 20],
   ['transformer', 25],
@@ -86,24 +100,41 @@ function weightedPick<T>(rng: () => number, items: [T, number][]): T {
   return items[items.length - 1][0];
 }
 
+function computeRegionCenters(regions: string[]): Record<string, { x: number; y: number }> {
+  const regionCenters: Record<string, { x: number; y: number }> = {};
+  regions.forEach((region, i) => {
+    const angle = (i / regions.length) * 2 * Math.PI;
+    regionCenters[region] = {
+      x: 50 + 35 * Math.cos(angle),
+      y: 50 + 35 * Math.sin(angle),
+    };
+  });
+  return regionCenters;
+}
+
+function inferEdgeType(from: DigitalTwinNode, to: DigitalTwinNode): DependencyEdge['type'] {
+  if (from.category === 'control' || to.category === 'control') return 'control';
+  if (from.category === 'telecom' || to.category === 'telecom') return 'data';
+  return 'power';
+}
+
 // ============================================================================
 // Initialization
 // ============================================================================
 
-export function initializeDigitalTwin(nodeCount: number = 150, seed: number = 12345): void {
+export function initializeDigitalTwin(
+  nodeCount: number = 150,
+  seed: number = 12345,
+  now: Date = new Date(),
+  twin: Map<string, DigitalTwinNode> = nodes,
+  twinEdges: Map<string, DependencyEdge> = edges
+): void {
   const rng = seededRandom(seed);
-  nodes.clear();
-  edges.clear();
+  twin.clear();
+  twinEdges.clear();
 
   // Region centers for clustering
-  const regionCenters: Record<string, { x: number; y: number }> = {};
-  REGIONS.forEach((region, i) => {
-    const angle = (i / REGIONS.length) * 2 * Math.PI;
-    regionCenters[region] = {
-      x: 50 + 35 * Math.cos(angle),
-      y: 50 + 35 * Math.sin(angle),
-    };
-  });
+  const regionCenters = computeRegionCenters(REGIONS);
 
   // Create nodes
   for (let i = 0; i < nodeCount; i++) {
@@ -138,13 +169,13 @@ export function initializeDigitalTwin(nodeCount: number = 150, seed: number = 12
       packetLoss: rng() * 0.02,
       latency: rng() * 50 + 10,
       tamperSignal: rng() * 0.05,
-      lastAuthTime: new Date(Date.now() - rng() * 3600000).toISOString(),
+      lastAuthTime: new Date(now.getTime() - rng() * 3600000),
       failedAuthCount: Math.floor(rng() * 3),
 
       // Status
       status: 'online',
       cyberStatus: 'secure',
-      lastSeen: new Date().toISOString(),
+      lastSeen: now,
 
       // Topology (will be filled after all nodes created)
       connections: [],
@@ -157,18 +188,18 @@ export function initializeDigitalTwin(nodeCount: number = 150, seed: number = 12
       thermalLimit: config.thermalLimit,
     };
 
-    nodes.set(id, node);
+    twin.set(id, node);
   }
 
   // Create dependency graph
-  const nodeIds = Array.from(nodes.keys());
+  const nodeIds = Array.from(twin.keys());
   nodeIds.forEach((nodeId) => {
-    const node = nodes.get(nodeId)!;
+    const node = twin.get(nodeId)!;
     const connectionCount = Math.floor(rng() * 4) + 2;
 
     // Prefer connections within same region
-    const sameRegion = nodeIds.filter((id) => id !== nodeId && nodes.get(id)!.region === node.region);
-    const otherRegion = nodeIds.filter((id) => id !== nodeId && nodes.get(id)!.region !== node.region);
+    const sameRegion = nodeIds.filter((id) => id !== nodeId && twin.get(id)!.region === node.region);
+    const otherRegion = nodeIds.filter((id) => id !== nodeId && twin.get(id)!.region !== node.region);
 
     for (let i = 0; i < connectionCount; i++) {
       const pool = rng() < 0.7 && sameRegion.length > 0 ? sameRegion : otherRegion;
@@ -178,21 +209,17 @@ export function initializeDigitalTwin(nodeCount: number = 150, seed: number = 12
       if (node.connections.includes(targetId)) continue;
 
       node.connections.push(targetId);
-      const targetNode = nodes.get(targetId)!;
+      const targetNode = twin.get(targetId)!;
       if (!targetNode.connections.includes(nodeId)) {
         targetNode.connections.push(nodeId);
       }
 
       // Create edge
-      const edgeType = node.category === 'control' || targetNode.category === 'control' 
-        ? 'control' 
-        : node.category === 'telecom' || targetNode.category === 'telecom'
-          ? 'data'
-          : 'power';
+      const edgeType = inferEdgeType(node, targetNode);
 
       const edgeId = `${nodeId}-${targetId}`;
-      if (!edges.has(edgeId) && !edges.has(`${targetId}-${nodeId}`)) {
-        edges.set(edgeId, {
+      if (!twinEdges.has(edgeId) && !twinEdges.has(`${targetId}-${nodeId}`)) {
+        twinEdges.set(edgeId, {
           from: nodeId,
           to: targetId,
           type: edgeType,
@@ -207,12 +234,12 @@ export function initializeDigitalTwin(nodeCount: number = 150, seed: number = 12
     // Create dependencies (control nodes depend on other nodes)
     if (node.category === 'control' || node.category === 'datacenter') {
       const depCount = Math.floor(rng() * 3) + 1;
-      const generators = nodeIds.filter((id) => nodes.get(id)!.category === 'generation');
+      const generators = nodeIds.filter((id) => twin.get(id)!.category === 'generation');
       for (let i = 0; i < depCount && i < generators.length; i++) {
         const depId = generators[Math.floor(rng() * generators.length)];
         if (!node.dependencies.includes(depId)) {
           node.dependencies.push(depId);
-          nodes.get(depId)!.dependents.push(nodeId);
+          twin.get(depId)!.dependents.push(nodeId);
         }
       }
     }
@@ -221,43 +248,147 @@ export function initializeDigitalTwin(nodeCount: number = 150, seed: number = 12
   isInitialized = true;
 }
 
-// ============================================================================
-// Tick Update - Live Metrics Simulation
-// ============================================================================
+/**
+ * Resolve a free-form imported type (e.g. "Substation", "telecom tower")
+ * to a known NodeType, falling back to the category default.
+ */
+export function resolveNodeType(type: string, category?: NodeCategory): NodeType {
+  const normalized = type.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  if (normalized in NODE_TYPE_CONFIG) return normalized as NodeType;
+  return category ? CATEGORY_DEFAULT_TYPE[category] : 'substation';
+}
 
-export function updateDigitalTwinTick(): void {
-  if (!isInitialized) return;
+/**
+ * Rebuild the twin from an imported topology.
+ * Imported nodes carry no telemetry, so metrics start from a nominal
+ * baseline derived from NODE_TYPE_CONFIG and evolve with each tick.
+ * Isolated simulations pass their own node and edge maps.
+ */
+export function initializeFromTopology(
+  topology: Topology,
+  seed: number = 12345,
+  now: Date = new Date(),
+  twin: Map<string, DigitalTwinNode> = nodes,
+  twinEdges: Map<string, DependencyEdge> = edges
+): void {
+  const rng = seededRandom(seed);
+  twin.clear();
+  twinEdges.clear();
+
+  const regions = [...new Set(topology.nodes.map((n) => n.region))];
+  const regionCenters = computeRegionCenters(regions);
+  const maxCapacity = Math.max(1, ...topology.edges.map((e) => e.capacity));
 
-  const now = new Date();
-  const hourOfDay = now.getHours();
-  const isBusinessHours = hourOfDay >= 8 && hourOfDay <= 18;
-  const loadMultiplier = isBusinessHours ? 1.2 : 0.8;
+  topology.nodes.forEach((topoNode) => {
+    const type = resolveNodeType(topoNode.type, topoNode.category);
+    const config = NODE_TYPE_CONFIG[type];
+    const center = regionCenters[topoNode.region];
 
-  nodes.forEach((node, nodeId) => {
-    const rng = Math.random;
+    twin.set(topoNode.id, {
+      id: topoNode.id,
+      name: topoNode.name,
+      type,
+      category: topoNode.category ?? config.category,
+      region: topoNode.region,
+      coordinates: {
+        x: Math.max(0, Math.min(100, gaussianRandom(rng, center.x, 8))),
+        y: Math.max(0, Math.min(100, gaussianRandom(rng, center.y, 8))),
+      },
 
-    // Load fluctuation based on time of day
-    let loadDelta = (rng() - 0.5) * 0.05 * loadMultiplier;
-    if (node.category === 'generation') {
-      // Renewable generation varies
-      if (node.type === 'solar_farm') {
-        loadDelta += (hourOfDay >= 6 && hourOfDay <= 18 ? 0.02 : -0.02);
-      }
+      // Physical Metrics
+      riskScore: 0.1,
+      health: 0.95,
+      loadRatio: 0.5,
+      temperature: Math.round(config.thermalLimit * 0.55),
+      powerDraw: config.ratedCapacity * 0.5,
+      voltage: 230,
+      frequency: 60,
+
+      // Cyber Metrics
+      cyberHealth: 0.95,
+      packetLoss: 0.005,
+      latency: 20,
+      tamperSignal: 0.01,
+      lastAuthTime: now,
+      failedAuthCount: 0,
+
+      // Status
+      status: 'online',
+      cyberStatus: 'secure',
+      lastSeen: now,
+
+      // Topology
+      connections: [],
+      dependencies: [],
+      dependents: [],
+
+      // Capacity
+      ratedCapacity: config.ratedCapacity,
+      currentLoad: config.ratedCapacity * 0.5,
+      thermalLimit: config.thermalLimit,
+    });
+  });
+
+  topology.edges.forEach((topoEdge) => {
+    const from = twin.get(topoEdge.from);
+    const to = twin.get(topoEdge.to);
+    if (!from || !to || from.id === to.id) return;
+
+    if (!from.connections.includes(to.id)) from.connections.push(to.id);
+    if (!to.connections.includes(from.id)) to.connections.push(from.id);
+
+    const type = topoEdge.type ?? inferEdgeType(from, to);
+    twinEdges.set(`${from.id}-${to.id}`, toDependencyEdge(topoEdge, type, maxCapacity));
+
+    // Power flows from -> to, so the receiving node depends on the sender
+    if (type === 'power' && !to.dependencies.includes(from.id)) {
+      to.dependencies.push(from.id);
+      from.dependents.push(to.id);
     }
-    node.loadRatio = Math.max(0.1, Math.min(0.95, node.loadRatio + loadDelta));
-    node.currentLoad = node.loadRatio * node.ratedCapacity;
+  });
+
+  isInitialized = true;
+}
+
+function toDependencyEdge(
+  edge: TopologyEdge,
+  type: DependencyEdge['type'],
+  maxCapacity: number
+): DependencyEdge {
+  return {
+    from: edge.from,
+    to: edge.to,
+    type,
+    // Edge importance scales with its share of the largest line capacity
+    weight: Math.max(0.1, edge.capacity / maxCapacity),
+    latency: type === 'power' ? 5 : 15,
+    bandwidth: edge.capacity,
+    isActive: true,
+    // Imported power lines carry their rating into the power flow
+    ...(type === 'power' && edge.capacity > 0 && { capacity: edge.capacity }),
+  };
+}
 
-    // Thermal stress
-    const thermalDelta = (node.loadRatio - 0.5) * 2 + (rng() - 0.5) * 2;
-    node.temperature = Math.max(25, Math.min(node.thermalLimit + 10, node.temperature + thermalDelta));
+// ============================================================================
+// Tick Update - Live Metrics Simulation
+// ============================================================================
 
-    // Voltage deviation
-    const voltageDelta = (rng() - 0.5) * 0.5;
-    node.voltage = Math.max(220, Math.min(240, node.voltage + voltageDelta));
+/**
+ * Advance the cyber telemetry of every node.
+ * Risk, health and temperature are driven by the predictive engine, and
+ * load, voltage and frequency by its power flow, in SimulationService.tick,
+ * so they are only read here. Seeded runs pass the run's generator and clock,
+ * and sandboxes their own copy of the twin.
+ */
+export function updateDigitalTwinTick(
+  rng: () => number = Math.random,
+  now: Date = new Date(),
+  twin: Map<string, DigitalTwinNode> = nodes
+): void {
+  if (!isInitialized) return;
 
-    // Frequency deviation
-    const freqDelta = (rng() - 0.5) * 0.01;
-    node.frequency = Math.max(59.9, Math.min(60.1, node.frequency + freqDelta));
+  twin.forEach((node) => {
+    node.currentLoad = node.loadRatio * node.ratedCapacity;
 
     // Cyber metrics
     const latencyDelta = (rng() - 0.5) * 5;
@@ -267,44 +398,44 @@ export function updateDigitalTwinTick(): void {
     // Tamper signal (small random drift, spikes during attacks)
     node.tamperSignal = Math.max(0, Math.min(1, node.tamperSignal + (rng() - 0.52) * 0.02));
 
-    // Risk score calculation
-    const physicalRisk = (node.temperature / node.thermalLimit) * 0.3 + 
-                         (node.loadRatio > 0.85 ? 0.3 : node.loadRatio * 0.2);
+    // Cyber health
     const cyberRisk = node.packetLoss * 2 + node.tamperSignal * 0.5 + 
                       (node.latency > 100 ? 0.2 : 0);
-    const neighborRisk = node.connections
-      .map((id) => nodes.get(id)?.riskScore || 0)
-      .reduce((a, b) => a + b, 0) / (node.connections.length || 1);
-    
-    node.riskScore = Math.max(0, Math.min(1, 
-      physicalRisk * 0.4 + cyberRisk * 0.3 + neighborRisk * 0.3 + (rng() - 0.5) * 0.05
-    ));
-
-    // Health
-    node.health = Math.max(0.1, Math.min(1, 1 - node.riskScore * 0.5 + (rng() - 0.5) * 0.02));
-
-    // Cyber health
     node.cyberHealth = Math.max(0.1, Math.min(1, 1 - cyberRisk + (rng() - 0.5) * 0.02));
 
-    // Update status
-    if (node.riskScore > 0.8 || node.health < 0.3) {
-      node.status = 'critical';
-    } else if (node.riskScore > 0.6 || node.health < 0.5) {
-      node.status = 'degraded';
-    } else {
-      node.status = 'online';
+    // Cyber status (a locked-down node stays isolated until released)
+    if (node.cyberStatus !== 'isolated') {
+      if (node.cyberHealth < 0.4 || node.tamperSignal > 0.7) {
+        node.cyberStatus = 'compromised';
+      } else if (node.cyberHealth < 0.7 || node.tamperSignal > 0.3) {
+        node.cyberStatus = 'warning';
+      } else {
+        node.cyberStatus = 'secure';
+      }
     }
 
-    // Cyber status
-    if (node.cyberHealth < 0.4 || node.tamperSignal > 0.7) {
-      node.cyberStatus = 'compromised';
-    } else if (node.cyberHealth < 0.7 || node.tamperSignal > 0.3) {
-      node.cyberStatus = 'warning';
-    } else {
-      node.cyberStatus = 'secure';
-    }
+    node.lastSeen = now;
+  });
+}
 
-    node.lastSeen = now.toISOString();
+/**
+ * Write node updates produced by the predictive engine back into the twin.
+ * Nodes keep their identity so existing references stay live; operator
+ * isolation is preserved because the engine does not model it.
+ */
+export function commitNodes(
+  updates: Record<string, Partial<DigitalTwinNode>>,
+  twin: Map<string, DigitalTwinNode> = nodes
+): void {
+  Object.entries(updates).forEach(([nodeId, update]) => {
+    const node = twin.get(nodeId);
+    if (!node) return;
+
+    const wasIsolated = node.status === 'isolated';
+    Object.assign(node, update);
+
+    if (wasIsolated) node.status = 'isolated';
+    node.currentLoad = node.loadRatio * node.ratedCapacity;
   });
 }
 
@@ -315,10 +446,11 @@ export function updateDigitalTwinTick(): void {
 export function applyThreatToNodes(
   nodeIds: string[],
   threatType: string,
-  severity: number
+  severity: number,
+  twin: Map<string, DigitalTwinNode> = nodes
 ): void {
   nodeIds.forEach((nodeId) => {
-    const node = nodes.get(nodeId);
+    const node = twin.get(nodeId);
     if (!node) return;
 
     switch (threatType) {
@@ -364,8 +496,12 @@ export function applyThreatToNodes(
 // Mitigation Effects
 // ============================================================================
 
-export function applyMitigationToNode(nodeId: string, actionType: string): boolean {
-  const node = nodes.get(nodeId);
+export function applyMitigationToNode(
+  nodeId: string,
+  actionType: string,
+  twin: Map<string, DigitalTwinNode> = nodes
+): boolean {
+  const node = twin.get(nodeId);
   if (!node) return false;
 
   switch (actionType) {
@@ -414,38 +550,42 @@ export function applyMitigationToNode(nodeId: string, actionType: string): boole
 // Getters
 // ============================================================================
 
-export function getAllNodes(): DigitalTwinNode[] {
-  return Array.from(nodes.values());
+export function getAllNodes(twin: Map<string, DigitalTwinNode> = nodes): DigitalTwinNode[] {
+  return Array.from(twin.values());
+}
+
+export function getNodeRecord(): Record<string, DigitalTwinNode> {
+  return Object.fromEntries(nodes);
 }
 
 export function getNodeById(id: string): DigitalTwinNode | undefined {
   return nodes.get(id);
 }
 
-export function getNodesByRegion(region: string): DigitalTwinNode[] {
-  return Array.from(nodes.values()).filter((n) => n.region === region);
+export function getNodesByRegion(region: string, twin: Map<string, DigitalTwinNode> = nodes): DigitalTwinNode[] {
+  return Array.from(twin.values()).filter((n) => n.region === region);
 }
 
 export function getNodesByCategory(category: NodeCategory): DigitalTwinNode[] {
   return Array.from(nodes.values()).filter((n) => n.category === category);
 }
 
-export function getCriticalNodes(): DigitalTwinNode[] {
-  return Array.from(nodes.values()).filter((n) => n.status === 'critical');
+export function getCriticalNodes(twin: Map<string, DigitalTwinNode> = nodes): DigitalTwinNode[] {
+  return Array.from(twin.values()).filter((n) => n.status === 'critical');
 }
 
 export function getCompromisedNodes(): DigitalTwinNode[] {
   return Array.from(nodes.values()).filter((n) => n.cyberStatus === 'compromised');
 }
 
-export function getAllEdges(): DependencyEdge[] {
-  return Array.from(edges.values());
+export function getAllEdges(twinEdges: Map<string, DependencyEdge> = edges): DependencyEdge[] {
+  return Array.from(twinEdges.values());
 }
 
-export function getNeighbors(nodeId: string): DigitalTwinNode[] {
-  const node = nodes.get(nodeId);
+export function getNeighbors(nodeId: string, twin: Map<string, DigitalTwinNode> = nodes): DigitalTwinNode[] {
+  const node = twin.get(nodeId);
   if (!node) return [];
-  return node.connections.map((id) => nodes.get(id)!).filter(Boolean);
+  return node.connections.map((id) => twin.get(id)!).filter(Boolean);
 }
 
 export function getDependencies(nodeId: string): DigitalTwinNode[] {
@@ -460,6 +600,13 @@ export function getDependents(nodeId: string): DigitalTwinNode[] {
   return node.dependents.map((id) => nodes.get(id)!).filter(Boolean);
 }
 
+/**
+ * Deep copy of every node, for sandboxes that evolve apart from the live twin
+ */
+export function cloneTwin(twin: Map<string, DigitalTwinNode> = nodes): Map<string, DigitalTwinNode> {
+  return structuredClone(twin);
+}
+
 export function isInitializedTwin(): boolean {
   return isInitialized;
 }
@@ -0,0 +1,144 @@
+/**
+ * Merkle Batch Service
+ * Gathers audit entries, predictions and closed incidents that have not yet
+ * been batched, hashes them into a Merkle tree and stores an inclusion proof
+ * per record. Only the tree's root needs anchoring; each proof ties its
+ * record to that root.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import {
+  buildMerkleTree,
+  canonicalJson,
+  getMerkleProof,
+  hashLeaf,
+  type MerkleProofStep,
+} from '@sentinel-grid/predictive-engine';
+import {
+  auditRepo,
+  predictionsRepo,
+  incidentsRepo,
+  merkleRepo,
+  type MerkleBatchRecord,
+  type MerkleProofRecord,
+} from '../db/index.js';
+import type { MerkleItemType } from '../types/index.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const MERKLE_ITEM_TYPES: MerkleItemType[] = ['audit', 'prediction', 'incident'];
+const SCAN_LIMIT = 1000;             // Recent records considered per type
+
+// ============================================================================
+// Leaf Collection
+// ============================================================================
+
+interface MerkleLeafSource {
+  itemType: MerkleItemType;
+  itemId: string;
+  data: Record<string, unknown>;
+}
+
+/**
+ * The hashed form of a record. The item type is part of the leaf so an
+ * audit entry can never verify as a prediction with the same id.
+ */
+export function toLeafData(itemType: MerkleItemType, record: object): Record<string, unknown> {
+  return { itemType, record };
+}
+
+function collectUnbatched(): MerkleLeafSource[] {
+  const audit = auditRepo.getRecent.all(SCAN_LIMIT)
+    .map(({ createdAt: _createdAt, ...record }) => ({ id: record.id, record }));
+  const predictions = predictionsRepo.getAll.all()
+    .map((record) => ({ id: record.id, record }));
+  const incidents = [...incidentsRepo.getActive.all(), ...incidentsRepo.getArchived.all(SCAN_LIMIT)]
+    .filter((incident) => incident.status === 'closed')
+    .map(({ archivedAt: _archivedAt, ...record }) => ({ id: record.id, record }));
+
+  const sources: Array<[MerkleItemType, Array<{ id: string; record: object }>]> = [
+    ['audit', audit],
+    ['prediction', predictions],
+    ['incident', incidents],
+  ];
+
+  return sources.flatMap(([itemType, items]) => items
+    .filter(({ id }) => !merkleRepo.getProof.get(itemType, id))
+    // Oldest first, so leaf order follows the order records were written
+    .reverse()
+    .map(({ id, record }) => ({ itemType, itemId: id, data: toLeafData(itemType, record) })));
+}
+
+// ============================================================================
+// Batching
+// ============================================================================
+
+/**
+ * Build and store a batch from every record not yet in one. Returns null
+ * when there is nothing new to batch.
+ */
+export function createBatch(): { batch: MerkleBatchRecord; leaves: MerkleProofRecord[] } | null {
+  const sources = collectUnbatched();
+  if (sources.length === 0) return null;
+
+  const tree = buildMerkleTree(sources.map((source) => hashLeaf(source.data)));
+  const batchId = uuidv4();
+
+  const leaves: MerkleProofRecord[] = sources.map((source, index) => ({
+    itemType: source.itemType,
+    itemId: source.itemId,
+    batchId,
+    leafIndex: index,
+    leafHash: tree.levels[0][index],
+    leafData: canonicalJson(source.data),
+    proof: JSON.stringify(getMerkleProof(tree, index)),
+  }));
+
+  merkleRepo.insertBatch.run({ id: batchId, root: tree.root, leafCount: leaves.length }, leaves);
+
+  return { batch: merkleRepo.getBatch.get(batchId)!, leaves };
+}
+
+/**
+ * Record the anchor that carries a batch's root
+ */
+export function setBatchAnchor(batchId: string, anchorId: string): void {
+  merkleRepo.setBatchAnchor.run(anchorId, batchId);
+}
+
+// ============================================================================
+// Proofs
+// ============================================================================
+
+export interface StoredMerkleProof {
+  batch: MerkleBatchRecord;
+  leafIndex: number;
+  leafHash: string;
+  leafData: Record<string, unknown>;
+  proof: MerkleProofStep[];
+}
+
+/**
+ * Look up the stored inclusion proof for a record, if it has been batched
+ */
+export function getProof(itemType: MerkleItemType, itemId: string): StoredMerkleProof | undefined {
+  const record = merkleRepo.getProof.get(itemType, itemId);
+  if (!record) return undefined;
+
+  const batch = merkleRepo.getBatch.get(record.batchId);
+  if (!batch) return undefined;
+
+  return {
+    batch,
+    leafIndex: record.leafIndex,
+    leafHash: record.leafHash,
+    leafData: JSON.parse(record.leafData),
+    proof: JSON.parse(record.proof),
+  };
+}
+
+export function getRecentBatches(limit: number = 20): MerkleBatchRecord[] {
+  return merkleRepo.getRecentBatches.all(limit);
+}
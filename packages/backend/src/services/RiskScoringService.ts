@@ -15,6 +15,7 @@ import type {
   SeverityLevel,
   MitigationActionType,
 } from '../types/index.js';
+import type { NodeForecast, WeatherData } from '@sentinel-grid/predictive-engine';
 import * as DigitalTwinService from './DigitalTwinService.js';
 
 // ============================================================================
@@ -56,7 +57,33 @@ const HISTORICAL_PATTERNS = [
 // Risk Score Calculation
 // ============================================================================
 
-export function calculateRiskScore(node: DigitalTwinNode): RiskScore {
+/**
+ * Environmental exposure in [0, 0.3] from storm likelihood, temperature
+ * extremes and wind. Without weather data the midpoint is assumed.
+ */
+function calculateEnvironmentalRisk(weather?: WeatherData): number {
+  if (!weather) return 0.15;
+
+  const heatStress = weather.temperature > 35 ? Math.min(1, (weather.temperature - 35) / 15) : 0;
+  const coldStress = weather.temperature < 0 ? Math.min(1, -weather.temperature / 15) : 0;
+  const windStress = Math.min(1, weather.windSpeed / 100);
+
+  const exposure = weather.stormProbability * 0.5 +
+    Math.max(heatStress, coldStress) * 0.3 +
+    windStress * 0.2;
+
+  return Math.min(1, exposure) * 0.3;
+}
+
+/**
+ * Risk for a node right now. With a trajectory forecast, time to failure and
+ * the confidence interval come from it rather than from fixed heuristics.
+ */
+export function calculateRiskScore(
+  node: DigitalTwinNode,
+  weather?: WeatherData,
+  forecast?: NodeForecast | null
+): RiskScore {
   // Physical risk components
   const thermalRisk = node.temperature >= node.thermalLimit ? 0.9 :
     node.temperature >= node.thermalLimit * 0.9 ? 0.6 :
@@ -85,8 +112,8 @@ export function calculateRiskScore(node: DigitalTwinNode): RiskScore {
   const operationalRisk = (1 - node.health) * 0.6 + 
     (node.failedAuthCount > 3 ? 0.4 : node.failedAuthCount * 0.1);
 
-  // Environmental risk (simplified - would come from weather service)
-  const environmentalRisk = Math.random() * 0.3;
+  // Environmental risk from current weather conditions
+  const environmentalRisk = calculateEnvironmentalRisk(weather);
 
   // Cascading risk from neighbors
   const neighbors = DigitalTwinService.getNeighbors(node.id);
@@ -108,8 +135,9 @@ export function calculateRiskScore(node: DigitalTwinNode): RiskScore {
   const probability = Math.min(1, overall * 1.2);
   const severity = overall >= 0.8 ? 0.9 : overall >= 0.6 ? 0.7 : overall >= 0.4 ? 0.5 : 0.3;
 
-  // Time to failure estimation (hours)
-  const timeToFailure = overall >= 0.9 ? 0.5 :
+  // Time to failure estimation (hours), capped at the forecast horizon
+  const timeToFailure = forecast ? (forecast.timeToFailure?.hours ?? forecast.horizonHours) :
+    overall >= 0.9 ? 0.5 :
     overall >= 0.8 ? 2 :
     overall >= 0.6 ? 6 :
     overall >= 0.4 ? 24 : 48;
@@ -164,9 +192,14 @@ export function calculateRiskScore(node: DigitalTwinNode): RiskScore {
   // Sort by contribution
   leadingFactors.sort((a, b) => b.contribution - a.contribution);
 
-  // Confidence interval
+  // Confidence interval: the forecast's one-hour risk band around the
+  // current score, or a fixed spread without one
+  const band = forecast?.metrics.riskScore.points.find((p) => p.hoursAhead > 0);
   const stdDev = overall * 0.15;
-  const confidenceInterval: [number, number] = [
+  const confidenceInterval: [number, number] = band ? [
+    Math.max(0, overall + band.lower - band.mean),
+    Math.min(1, overall + band.upper - band.mean),
+  ] : [
     Math.max(0, overall - 1.96 * stdDev),
     Math.min(1, overall + 1.96 * stdDev),
   ];
@@ -197,7 +230,11 @@ export function calculateRiskScore(node: DigitalTwinNode): RiskScore {
 // Cascade Prediction
 // ============================================================================
 
-export function predictCascadePath(originNodeId: string): string[] {
+/**
+ * Likely spread of a failure from the origin. Draws come from `rng` so a
+ * seeded run's generator makes the path reproducible.
+ */
+export function predictCascadePath(originNodeId: string, rng: () => number): string[] {
   const visited = new Set<string>();
   const path: string[] = [originNodeId];
   const queue: { nodeId: string; depth: number; riskTransfer: number }[] = [];
@@ -218,7 +255,7 @@ export function predictCascadePath(originNodeId: string): string[] {
 
       // Calculate propagation probability based on edge weight and node vulnerability
       const propagationProb = 0.4 * (1 - depth * 0.1) * (1 - neighbor.health);
-      if (Math.random() > propagationProb) continue;
+      if (rng() > propagationProb) continue;
 
       visited.add(neighbor.id);
       path.push(neighbor.id);
@@ -235,8 +272,13 @@ export function predictCascadePath(originNodeId: string): string[] {
 // Generate Enhanced Prediction
 // ============================================================================
 
-export function generatePrediction(node: DigitalTwinNode): EnhancedPrediction | null {
-  const riskScore = calculateRiskScore(node);
+export function generatePrediction(
+  node: DigitalTwinNode,
+  rng: () => number,
+  weather?: WeatherData,
+  forecast?: NodeForecast | null
+): EnhancedPrediction | null {
+  const riskScore = calculateRiskScore(node, weather, forecast);
 
   // Only generate predictions for high-risk nodes
   if (riskScore.overall < 0.5) return null;
@@ -300,7 +342,7 @@ export function generatePrediction(node: DigitalTwinNode): EnhancedPrediction |
   const suggestedActions = generateSuggestedActions(predictionType, node, riskScore);
 
   // Cascade path prediction
-  const cascadePath = riskScore.overall > 0.7 ? predictCascadePath(node.id) : undefined;
+  const cascadePath = riskScore.overall > 0.7 ? predictCascadePath(node.id, rng) : undefined;
 
   // Severity level
   const severityLevel: SeverityLevel = riskScore.overall >= 0.8 ? 'critical' :
@@ -316,7 +358,7 @@ export function generatePrediction(node: DigitalTwinNode): EnhancedPrediction |
     nodeName: node.name,
     type: predictionType,
     probability: riskScore.probability,
-    confidence: 0.7 + Math.random() * 0.25,
+    confidence: 0.7 + rng() * 0.25,
     hoursToEvent: riskScore.timeToFailure,
     predictedTime: predictedTime.toISOString(),
     severity: severityLevel,
@@ -446,13 +488,17 @@ function generateSuggestedActions(
 // Generate All Predictions
 // ============================================================================
 
-export function generateAllPredictions(): EnhancedPrediction[] {
+export function generateAllPredictions(
+  rng: () => number,
+  weather?: WeatherData,
+  forecastFor?: (nodeId: string) => NodeForecast | null
+): EnhancedPrediction[] {
   const nodes = DigitalTwinService.getAllNodes();
   const predictions: EnhancedPrediction[] = [];
 
   for (const node of nodes) {
     if (node.riskScore > 0.5 || node.status === 'critical' || node.cyberStatus !== 'secure') {
-      const prediction = generatePrediction(node);
+      const prediction = generatePrediction(node, rng, weather, forecastFor?.(node.id));
       if (prediction) {
         predictions.push(prediction);
       }
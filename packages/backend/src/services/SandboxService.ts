@@ -0,0 +1,370 @@
+/**
+ * Sandbox Service
+ * What-if copies of the live grid. Each sandbox forks the simulation's
+ * nodes, weather, threats and predictive histories, then runs its own tick
+ * loop so operators can try threats and mitigations without touching the
+ * live run.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import {
+  updateNodeState,
+  getSystemState,
+  simulateCascade,
+  autoMitigate,
+  fetchWeatherData,
+  type Node,
+  type Prediction,
+  type PowerGrid,
+  type PredictiveEngine,
+  type SeededRandom,
+  type SystemState,
+  type WeatherData,
+  type Threat,
+  type CascadeEvent,
+  type MitigationResult,
+} from '@sentinel-grid/predictive-engine';
+import { config } from '../config.js';
+import * as DigitalTwinService from './DigitalTwinService.js';
+import * as ThreatService from './ThreatService.js';
+import { toEngineThreat, type SimulationService } from './simulation.js';
+import type {
+  DigitalTwinNode,
+  ThreatSimulation,
+  ThreatRequest,
+  SandboxSummary,
+  SandboxDiff,
+  SandboxNodeDiff,
+  SandboxMetricDelta,
+} from '../types/index.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const MAX_SANDBOXES = 10;
+const STEP_BATCH_SIZE = 10;          // Ticks per event-loop turn when stepping
+const DIFF_EPSILON = 1e-6;
+
+// ============================================================================
+// Sandbox Class
+// ============================================================================
+
+/**
+ * A forked simulation. Sandbox time starts at the live clock and advances
+ * one tick interval per tick, so threats expire on the sandbox's own
+ * schedule. Nothing a sandbox does is logged, persisted or broadcast.
+ */
+export class Sandbox {
+  readonly id = uuidv4();
+  readonly createdAt = new Date().toISOString();
+  readonly forkedAtTick: number;
+
+  private twin: Map<string, DigitalTwinNode>;
+  private threats: Map<string, ThreatSimulation>;
+  private grid: PowerGrid;
+  private weather: WeatherData;
+  private predictiveEngine: PredictiveEngine;
+  private rng: SeededRandom;
+  private clock: Date;
+  private tickCount: number;
+  private autoMitigationEnabled: boolean;
+  private tickInterval: NodeJS.Timeout | null = null;
+
+  constructor(readonly name: string, source: SimulationService) {
+    const fork = source.fork(() => this.clock);
+
+    this.twin = fork.twin;
+    this.threats = fork.threats;
+    this.grid = fork.grid;
+    this.weather = fork.weather;
+    this.predictiveEngine = fork.predictiveEngine;
+    this.rng = fork.rng;
+    this.clock = fork.clock;
+    this.tickCount = fork.tickCount;
+    this.forkedAtTick = fork.tickCount;
+    this.autoMitigationEnabled = fork.autoMitigation;
+  }
+
+  // ==========================================================================
+  // Getters
+  // ==========================================================================
+
+  private get nodes(): Record<string, Node> {
+    return Object.fromEntries(this.twin);
+  }
+
+  getNodes(): Record<string, Node> {
+    return this.nodes;
+  }
+
+  getNode(id: string): Node | undefined {
+    return this.twin.get(id);
+  }
+
+  getSystemState(): SystemState {
+    return getSystemState(this.nodes, this.clock);
+  }
+
+  getPredictions(): Prediction[] {
+    return this.predictiveEngine.generatePredictions(this.nodes);
+  }
+
+  /**
+   * Most severe active threat, which drives the engine's tick model
+   */
+  getActiveThreat(): Threat | null {
+    const [primary] = Array.from(this.threats.values())
+      .sort((a, b) => b.severity - a.severity);
+    return primary ? toEngineThreat(primary) : null;
+  }
+
+  isSimulationRunning(): boolean {
+    return this.tickInterval !== null;
+  }
+
+  getSummary(): SandboxSummary {
+    const state = this.getSystemState();
+
+    return {
+      id: this.id,
+      name: this.name,
+      createdAt: this.createdAt,
+      forkedAtTick: this.forkedAtTick,
+      tickCount: this.tickCount,
+      clock: this.clock.toISOString(),
+      isRunning: this.isSimulationRunning(),
+      autoMitigation: this.autoMitigationEnabled,
+      nodeCount: state.totalNodes,
+      criticalNodes: state.criticalNodes,
+      warningNodes: state.warningNodes,
+      maxRisk: state.maxRisk,
+      avgHealth: state.avgHealth,
+      activeThreats: Array.from(this.threats.values()),
+    };
+  }
+
+  // ==========================================================================
+  // Tick Loop
+  // ==========================================================================
+
+  start(): void {
+    if (this.tickInterval) return;
+    this.tickInterval = setInterval(() => this.tick(), config.simulation.tickIntervalMs);
+  }
+
+  stop(): void {
+    if (!this.tickInterval) return;
+    clearInterval(this.tickInterval);
+    this.tickInterval = null;
+  }
+
+  /**
+   * Advance one tick, the same way the live simulation does
+   */
+  tick(): void {
+    this.clock = new Date(this.clock.getTime() + config.simulation.tickIntervalMs);
+
+    if (this.tickCount % 10 === 0) {
+      this.weather = fetchWeatherData(this.rng);
+    }
+
+    ThreatService.propagateThreats(this.threatContext());
+    DigitalTwinService.commitNodes(
+      updateNodeState(this.nodes, this.getActiveThreat(), this.weather, {}, {
+        rng: this.rng,
+        now: this.clock,
+        grid: this.grid,
+      }),
+      this.twin
+    );
+    DigitalTwinService.updateDigitalTwinTick(() => this.rng.next(), this.clock, this.twin);
+
+    this.predictiveEngine.updateHistories([this.getSystemState()], this.nodes);
+
+    if (this.autoMitigationEnabled) {
+      this.getSystemState().criticalNodes.forEach((nodeId) => this.mitigate(nodeId, 'auto'));
+    }
+
+    this.tickCount++;
+  }
+
+  /**
+   * Run `ticks` ticks a batch at a time, so long steps do not hold up
+   * other requests; resolves with the sandbox's tick count
+   */
+  step(ticks: number): Promise<number> {
+    let remaining = ticks;
+
+    return new Promise((resolve) => {
+      const runBatch = () => {
+        const batch = Math.min(STEP_BATCH_SIZE, remaining);
+        for (let i = 0; i < batch; i++) this.tick();
+        remaining -= batch;
+
+        if (remaining > 0) {
+          setImmediate(runBatch);
+        } else {
+          resolve(this.tickCount);
+        }
+      };
+
+      runBatch();
+    });
+  }
+
+  // ==========================================================================
+  // Simulation Actions
+  // ==========================================================================
+
+  deployThreat(threat: Omit<Threat, 'id'>): Threat {
+    const request: ThreatRequest = {
+      type: threat.type,
+      subtype: threat.subtype,
+      severity: threat.severity,
+      target: threat.target ?? undefined,
+      region: threat.region,
+      durationSeconds: threat.duration
+        ?? Math.max(1, Math.round((threat.until.getTime() - Date.now()) / 1000)),
+    };
+
+    return toEngineThreat(ThreatService.createThreat(request, this.threatContext()));
+  }
+
+  clearThreat(): number {
+    return ThreatService.endAllThreats(this.threatContext());
+  }
+
+  triggerCascade(originId: string, severity: number = 0.7): CascadeEvent {
+    const { nodes: updatedNodes, event } = simulateCascade(
+      this.nodes,
+      originId,
+      severity,
+      {},
+      { rng: this.rng, now: this.clock, grid: this.grid }
+    );
+
+    DigitalTwinService.commitNodes(updatedNodes, this.twin);
+    return event;
+  }
+
+  mitigate(nodeId: string, triggeredBy: string = 'manual'): MitigationResult & { nodeId: string; triggeredBy: string } {
+    const result = autoMitigate(this.nodes, nodeId);
+
+    if (result.success) {
+      DigitalTwinService.commitNodes({ [nodeId]: result.updatedNode }, this.twin);
+    }
+
+    return { ...result, nodeId, triggeredBy };
+  }
+
+  setAutoMitigation(enabled: boolean): void {
+    this.autoMitigationEnabled = enabled;
+  }
+
+  // ==========================================================================
+  // Comparison
+  // ==========================================================================
+
+  /**
+   * Compare the sandbox against the live simulation as it is now. Only
+   * nodes whose status or metrics differ are listed.
+   */
+  diff(live: SimulationService): SandboxDiff {
+    const liveNodes = live.getNodes();
+    const liveState = live.getSystemState();
+    const state = this.getSystemState();
+
+    const nodes: SandboxNodeDiff[] = [];
+    this.twin.forEach((node, nodeId) => {
+      const liveNode = liveNodes[nodeId];
+      if (!liveNode) return;
+
+      const entry: SandboxNodeDiff = {
+        nodeId,
+        name: node.name,
+        liveStatus: liveNode.status,
+        sandboxStatus: node.status,
+        riskScore: delta(liveNode.riskScore, node.riskScore),
+        health: delta(liveNode.health, node.health),
+        loadRatio: delta(liveNode.loadRatio, node.loadRatio),
+        temperature: delta(liveNode.temperature, node.temperature),
+      };
+
+      const changed = entry.liveStatus !== entry.sandboxStatus ||
+        [entry.riskScore, entry.health, entry.loadRatio, entry.temperature]
+          .some((d) => Math.abs(d.delta) > DIFF_EPSILON);
+      if (changed) nodes.push(entry);
+    });
+    nodes.sort((a, b) => Math.abs(b.riskScore.delta) - Math.abs(a.riskScore.delta));
+
+    return {
+      sandboxId: this.id,
+      liveTick: live.getTickCount(),
+      sandboxTick: this.tickCount,
+      system: {
+        maxRisk: delta(liveState.maxRisk, state.maxRisk),
+        avgHealth: delta(liveState.avgHealth, state.avgHealth),
+        loadRatio: delta(liveState.loadRatio, state.loadRatio),
+        criticalNodes: delta(liveState.criticalNodes.length, state.criticalNodes.length),
+        warningNodes: delta(liveState.warningNodes.length, state.warningNodes.length),
+        onlineNodes: delta(liveState.onlineNodes, state.onlineNodes),
+      },
+      activeThreats: delta(ThreatService.getAllActiveThreats().length, this.threats.size),
+      changedNodes: nodes.length,
+      nodes,
+    };
+  }
+
+  private threatContext(): ThreatService.ThreatContext {
+    return {
+      rng: () => this.rng.next(),
+      now: this.clock,
+      silent: true,
+      threats: this.threats,
+      twin: this.twin,
+    };
+  }
+}
+
+function delta(live: number, sandbox: number): SandboxMetricDelta {
+  return { live, sandbox, delta: sandbox - live };
+}
+
+// ============================================================================
+// Sandbox Store
+// ============================================================================
+
+const sandboxes: Map<string, Sandbox> = new Map();
+
+/**
+ * Fork the live simulation into a new sandbox
+ */
+export function createSandbox(source: SimulationService, name?: string): Sandbox {
+  if (sandboxes.size >= MAX_SANDBOXES) {
+    throw new Error(`Sandbox limit of ${MAX_SANDBOXES} reached; delete one first`);
+  }
+
+  const sandbox = new Sandbox(name ?? `Sandbox ${sandboxes.size + 1}`, source);
+  sandboxes.set(sandbox.id, sandbox);
+  return sandbox;
+}
+
+export function getSandbox(id: string): Sandbox | undefined {
+  return sandboxes.get(id);
+}
+
+export function listSandboxes(): Sandbox[] {
+  return Array.from(sandboxes.values());
+}
+
+/**
+ * Stop a sandbox's tick loop and discard it
+ */
+export function deleteSandbox(id: string): boolean {
+  const sandbox = sandboxes.get(id);
+  if (!sandbox) return false;
+
+  sandbox.stop();
+  return sandboxes.delete(id);
+}
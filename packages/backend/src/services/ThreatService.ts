@@ -3,13 +3,13 @@
  * Handles cyber attacks, sensor spoofing, overloads, and telecom outages
  */
 
-import { v4 as uuidv4 } from 'uuid';
 import type {
   ThreatSimulation,
   ThreatType,
   ThreatSubtype,
   ThreatRequest,
   SeverityLevel,
+  DigitalTwinNode,
 } from '../types/index.js';
 import * as DigitalTwinService from './DigitalTwinService.js';
 import { logStore, incidentStore } from '../stores/index.js';
@@ -20,13 +20,27 @@ import { logStore, incidentStore } from '../stores/index.js';
 
 const activeThreats: Map<string, ThreatSimulation> = new Map();
 
+/**
+ * Randomness and clock for seeded simulation runs. Replays also set `silent`
+ * so re-executed threats do not log twice or open duplicate incidents.
+ * Sandboxes pass their own threat store and twin in place of the live ones.
+ */
+export interface ThreatContext {
+  rng?: () => number;
+  now?: Date;
+  silent?: boolean;
+  threats?: Map<string, ThreatSimulation>;
+  twin?: Map<string, DigitalTwinNode>;
+}
+
 // ============================================================================
 // Threat Creation
 // ============================================================================
 
-export function createThreat(request: ThreatRequest): ThreatSimulation {
-  const id = `threat_${uuidv4().slice(0, 8)}`;
-  const now = new Date();
+export function createThreat(request: ThreatRequest, context: ThreatContext = {}): ThreatSimulation {
+  const rng = context.rng ?? Math.random;
+  const now = context.now ?? new Date();
+  const id = `threat_${Math.floor(rng() * 0x100000000).toString(16).padStart(8, '0')}`;
   const durationMs = (request.durationSeconds || 120) * 1000;
 
   // Determine affected nodes
@@ -35,20 +49,20 @@ export function createThreat(request: ThreatRequest): ThreatSimulation {
   if (request.target) {
     // Target specific node and propagate
     affectedNodes = [request.target];
-    const neighbors = DigitalTwinService.getNeighbors(request.target);
+    const neighbors = DigitalTwinService.getNeighbors(request.target, context.twin);
     const propagationCount = Math.floor(neighbors.length * (request.severity || 0.5));
     affectedNodes.push(...neighbors.slice(0, propagationCount).map(n => n.id));
   } else if (request.region) {
     // Target all nodes in region
-    const regionNodes = DigitalTwinService.getNodesByRegion(request.region);
+    const regionNodes = DigitalTwinService.getNodesByRegion(request.region, context.twin);
     const affectedCount = Math.floor(regionNodes.length * (request.severity || 0.5));
     affectedNodes = regionNodes.slice(0, affectedCount).map(n => n.id);
   } else {
     // Random selection across all nodes
-    const allNodes = DigitalTwinService.getAllNodes();
+    const allNodes = DigitalTwinService.getAllNodes(context.twin);
     const affectedCount = Math.floor(allNodes.length * (request.severity || 0.3) * 0.2);
     affectedNodes = allNodes
-      .sort(() => Math.random() - 0.5)
+      .sort(() => rng() - 0.5)
       .slice(0, affectedCount)
       .map(n => n.id);
   }
@@ -71,10 +85,12 @@ export function createThreat(request: ThreatRequest): ThreatSimulation {
     },
   };
 
-  activeThreats.set(id, threat);
+  (context.threats ?? activeThreats).set(id, threat);
 
   // Apply initial impact
-  applyThreatImpact(threat);
+  applyThreatImpact(threat, context.twin);
+
+  if (context.silent) return threat;
 
   // Log the threat
   logStore.addSimulationLog('threat', `Threat deployed: ${request.type}`, {
@@ -115,11 +131,12 @@ export function createThreat(request: ThreatRequest): ThreatSimulation {
 // Threat Impact Application
 // ============================================================================
 
-function applyThreatImpact(threat: ThreatSimulation): void {
+function applyThreatImpact(threat: ThreatSimulation, twin?: Map<string, DigitalTwinNode>): void {
   DigitalTwinService.applyThreatToNodes(
     threat.affectedNodes, 
     threat.type, 
-    threat.severity
+    threat.severity,
+    twin
   );
 }
 
@@ -142,13 +159,14 @@ function calculatePropagationRate(type: ThreatType, severity: number): number {
 // Threat Propagation (called each tick)
 // ============================================================================
 
-export function propagateThreats(): void {
-  const now = new Date();
+export function propagateThreats(context: ThreatContext = {}): void {
+  const rng = context.rng ?? Math.random;
+  const now = context.now ?? new Date();
 
-  activeThreats.forEach((threat, id) => {
+  (context.threats ?? activeThreats).forEach((threat, id) => {
     // Check if threat has expired
     if (new Date(threat.endsAt) <= now) {
-      endThreat(id);
+      endThreat(id, context);
       return;
     }
 
@@ -156,10 +174,10 @@ export function propagateThreats(): void {
     const newlyAffected: string[] = [];
     
     threat.affectedNodes.forEach(nodeId => {
-      const neighbors = DigitalTwinService.getNeighbors(nodeId);
+      const neighbors = DigitalTwinService.getNeighbors(nodeId, context.twin);
       neighbors.forEach(neighbor => {
         if (!threat.affectedNodes.includes(neighbor.id) && 
-            Math.random() < threat.propagationRate * 0.1) {
+            rng() < threat.propagationRate * 0.1) {
           newlyAffected.push(neighbor.id);
         }
       });
@@ -167,8 +185,9 @@ export function propagateThreats(): void {
 
     if (newlyAffected.length > 0) {
       threat.affectedNodes.push(...newlyAffected);
-      DigitalTwinService.applyThreatToNodes(newlyAffected, threat.type, threat.severity * 0.7);
-      
+      DigitalTwinService.applyThreatToNodes(newlyAffected, threat.type, threat.severity * 0.7, context.twin);
+      if (context.silent) return;
+
       logStore.addSimulationLog('threat', `Threat ${threat.type} propagated`, {
         threatId: id,
         newlyAffected: newlyAffected.length,
@@ -182,25 +201,29 @@ export function propagateThreats(): void {
 // End Threat
 // ============================================================================
 
-export function endThreat(threatId: string): boolean {
-  const threat = activeThreats.get(threatId);
+export function endThreat(threatId: string, context: ThreatContext = {}): boolean {
+  const threats = context.threats ?? activeThreats;
+  const threat = threats.get(threatId);
   if (!threat) return false;
 
   threat.active = false;
-  activeThreats.delete(threatId);
+  threats.delete(threatId);
+  if (context.silent) return true;
 
+  const now = context.now ?? new Date();
   logStore.addSimulationLog('threat', `Threat ended: ${threat.type}`, {
     threatId,
-    duration: Date.now() - new Date(threat.startedAt).getTime(),
+    duration: now.getTime() - new Date(threat.startedAt).getTime(),
     totalAffected: threat.affectedNodes.length,
   });
 
   return true;
 }
 
-export function endAllThreats(): number {
-  const count = activeThreats.size;
-  activeThreats.forEach((_, id) => endThreat(id));
+export function endAllThreats(context: ThreatContext = {}): number {
+  const threats = context.threats ?? activeThreats;
+  const count = threats.size;
+  threats.forEach((_, id) => endThreat(id, context));
   return count;
 }
 
@@ -212,8 +235,8 @@ export function getActiveThreat(threatId: string): ThreatSimulation | undefined
   return activeThreats.get(threatId);
 }
 
-export function getAllActiveThreats(): ThreatSimulation[] {
-  return Array.from(activeThreats.values());
+export function getAllActiveThreats(threats: Map<string, ThreatSimulation> = activeThreats): ThreatSimulation[] {
+  return Array.from(threats.values());
 }
 
 export function getThreatsByType(type: ThreatType): ThreatSimulation[] {
@@ -235,7 +258,8 @@ export function isNodeUnderThreat(nodeId: string): boolean {
 export function createCyberAttack(
   target: string | null,
   subtype: ThreatSubtype,
-  severity: number = 0.7
+  severity: number = 0.7,
+  context: ThreatContext = {}
 ): ThreatSimulation {
   const attackDescriptions: Record<ThreatSubtype, string> = {
     ransomware: 'Ransomware infection targeting control systems',
@@ -256,7 +280,8 @@ export function createCyberAttack(
     target: target || undefined,
     severity,
     durationSeconds: 180,
-  });
+  }, context);
+  if (context.silent) return threat;
 
   logStore.addSimulationLog('threat', attackDescriptions[subtype] || 'Cyber attack initiated', {
     threatId: threat.id,
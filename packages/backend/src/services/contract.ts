@@ -39,6 +39,21 @@ export interface AnchorResult {
   gasUsed: string;
 }
 
+export interface SubmittedAnchor {
+  txHash: string;
+  payloadHash: string;
+  ipfsCid: string;
+}
+
+/**
+ * Receipt state of an anchor transaction. `confirmedAt` is the timestamp of
+ * the block that included it.
+ */
+export type AnchorReceipt =
+  | { status: 'pending' }
+  | { status: 'confirmed'; blockNumber: number; confirmedAt: Date; gasUsed: string }
+  | { status: 'failed'; blockNumber: number };
+
 export interface VerifyResult {
   exists: boolean;
   timestamp: Date | null;
@@ -96,9 +111,11 @@ export class ContractService {
   private provider: ethers.JsonRpcProvider | null = null;
   private signer: ethers.Wallet | null = null;
   private currentChain: ChainConfig | null = null;
+  private chainName: string | null = null;
 
   /**
-   * Connect to a chain
+   * Connect to a chain. Throws, and stays disconnected, if the RPC endpoint
+   * is unreachable or reports a different chain id.
    */
   async connect(chainName: string = 'local'): Promise<void> {
     const chainConfig = CHAINS[chainName];
@@ -106,21 +123,34 @@ export class ContractService {
       throw new Error(`Unknown chain: ${chainName}. Available: ${Object.keys(CHAINS).join(', ')}`);
     }
 
+    // A static network stops ethers retrying network detection forever
+    // when the node is down; the chain id is checked explicitly instead
+    const provider = new ethers.JsonRpcProvider(chainConfig.rpcUrl, chainConfig.chainId, { staticNetwork: true });
+
+    let chainId: number;
+    try {
+      chainId = Number(await provider.send('eth_chainId', []));
+    } catch {
+      provider.destroy();
+      throw new Error(`Could not reach ${chainConfig.name} at ${chainConfig.rpcUrl}`);
+    }
+
+    if (chainId !== chainConfig.chainId) {
+      provider.destroy();
+      throw new Error(`${chainConfig.rpcUrl} reports chainId ${chainId}, expected ${chainConfig.chainId}`);
+    }
+
+    this.disconnect();
     this.currentChain = chainConfig;
-    this.provider = new ethers.JsonRpcProvider(chainConfig.rpcUrl);
+    this.chainName = chainName;
+    this.provider = provider;
 
     // Only create signer if we have a private key
     if (config.chain.privateKey) {
       this.signer = new ethers.Wallet(config.chain.privateKey, this.provider);
     }
 
-    // Verify connection
-    try {
-      const network = await this.provider.getNetwork();
-      console.log(`✓ Connected to ${chainConfig.name} (chainId: ${network.chainId})`);
-    } catch (error) {
-      console.warn(`⚠ Could not verify connection to ${chainConfig.name}`);
-    }
+    console.log(`✓ Connected to ${chainConfig.name} (chainId: ${chainId})`);
   }
 
   /**
@@ -144,6 +174,13 @@ export class ContractService {
     return this.currentChain;
   }
 
+  /**
+   * Get the key of the current chain ('local', 'base', 'optimism')
+   */
+  getChainName(): string | null {
+    return this.chainName;
+  }
+
   /**
    * Get ETH balance
    */
@@ -160,9 +197,29 @@ export class ContractService {
   // ==========================================================================
 
   /**
-   * Submit anchor to blockchain
+   * Submit anchor to blockchain and wait for it to be mined
    */
   async anchor(payloadHash: string, ipfsCid: string): Promise<AnchorResult> {
+    const submitted = await this.submitAnchor(payloadHash, ipfsCid);
+    const receipt = await this.provider!.waitForTransaction(submitted.txHash);
+
+    if (!receipt || receipt.status !== 1) {
+      throw new Error(`Anchor transaction ${submitted.txHash} reverted`);
+    }
+
+    return {
+      ...submitted,
+      blockNumber: receipt.blockNumber,
+      timestamp: new Date(),
+      gasUsed: receipt.gasUsed.toString(),
+    };
+  }
+
+  /**
+   * Send an anchor transaction without waiting for it to be mined; poll
+   * getAnchorReceipt for the outcome
+   */
+  async submitAnchor(payloadHash: string, ipfsCid: string): Promise<SubmittedAnchor> {
     if (!this.signer || !this.currentChain?.dataAnchorAddress) {
       throw new Error('Not connected or contract not configured');
     }
@@ -179,14 +236,33 @@ export class ContractService {
       : `0x${payloadHash}`;
 
     const tx = await contract.anchor(hash32, ipfsCid);
-    const receipt = await tx.wait();
 
+    return { txHash: tx.hash, payloadHash: hash32, ipfsCid };
+  }
+
+  /**
+   * Check an anchor transaction's receipt. It counts as confirmed once it
+   * has `confirmations` blocks on top of (and including) its own.
+   */
+  async getAnchorReceipt(txHash: string, confirmations: number = 1): Promise<AnchorReceipt> {
+    if (!this.provider) {
+      throw new Error('Not connected');
+    }
+
+    const receipt = await this.provider.getTransactionReceipt(txHash);
+    if (!receipt || await receipt.confirmations() < confirmations) {
+      return { status: 'pending' };
+    }
+
+    if (receipt.status !== 1) {
+      return { status: 'failed', blockNumber: receipt.blockNumber };
+    }
+
+    const block = await this.provider.getBlock(receipt.blockNumber);
     return {
-      txHash: receipt.hash,
+      status: 'confirmed',
       blockNumber: receipt.blockNumber,
-      payloadHash: hash32,
-      ipfsCid,
-      timestamp: new Date(),
+      confirmedAt: block ? new Date(block.timestamp * 1000) : new Date(),
       gasUsed: receipt.gasUsed.toString(),
     };
   }
@@ -367,9 +443,11 @@ export class ContractService {
    * Disconnect from chain
    */
   disconnect(): void {
+    this.provider?.destroy();
     this.provider = null;
     this.signer = null;
     this.currentChain = null;
+    this.chainName = null;
   }
 }
 
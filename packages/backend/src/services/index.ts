@@ -9,3 +9,9 @@ export * as ThreatService from './ThreatService.js';
 export * as MitigationService from './MitigationService.js';
 export * as ReportService from './ReportService.js';
 export * as DemoService from './DemoService.js';
+export * as ContingencyService from './ContingencyService.js';
+export * as CascadeRiskService from './CascadeRiskService.js';
+export * as SandboxService from './SandboxService.js';
+export * as AnchorSchedulerService from './AnchorSchedulerService.js';
+export * as MerkleBatchService from './MerkleBatchService.js';
+export * as AnchorReceiptService from './AnchorReceiptService.js';
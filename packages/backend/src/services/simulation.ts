@@ -1,10 +1,10 @@
 /**
  * Sentinel Grid Backend - Simulation Service
- * Wraps the predictive-engine and maintains simulation state
+ * Drives the shared digital twin with the predictive-engine models.
+ * Every run is seeded and journaled so it can be replayed bit-for-bit.
  */
 
 import {
-  initializeNodes,
   updateNodeState,
   getSystemState,
   simulateCascade,
@@ -13,8 +13,21 @@ import {
   createSignedHash,
   PredictiveEngine,
   AlertManager,
+  SeededRandom,
+  createWebhookDispatcher,
+  createSlackDispatcher,
+  createSmtpDispatcher,
+  createHeuristicProvider,
+  createHttpProvider,
+  createShadowProvider,
+  createPowerGrid,
+  type AlertManagerOptions,
+  type PredictionProvider,
+  type PredictionComparison,
   type Node,
   type Prediction,
+  type NodeForecast,
+  type PowerGrid,
   type Pattern,
   type SystemState,
   type WeatherData,
@@ -22,10 +35,35 @@ import {
   type CascadeEvent,
   type MitigationResult,
   type Alert,
+  type AlertConfig,
+  type SuppressionWindow,
+  type DeadLetter,
 } from '@sentinel-grid/predictive-engine';
-import { config } from '../config.js';
+import { createHash } from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config.js';
 import { EventEmitter } from 'events';
+import * as DigitalTwinService from './DigitalTwinService.js';
+import * as ThreatService from './ThreatService.js';
+import * as RiskScoringService from './RiskScoringService.js';
+import * as MitigationService from './MitigationService.js';
+import { alertConfigStore, logStore } from '../stores/index.js';
+import { predictionsRepo } from '../db/index.js';
+import type {
+  Topology,
+  ThreatSimulation,
+  ThreatRequest,
+  JournalEntry,
+  JournalEntryType,
+  RunRecord,
+  ReplayResult,
+  ReplayDivergence,
+  DemoAction,
+  DemoStepInput,
+  MitigationActionType,
+  DigitalTwinNode,
+  DependencyEdge,
+} from '../types/index.js';
 
 // ============================================================================
 // Types
@@ -39,6 +77,7 @@ export interface SimulationState {
   patterns: Pattern[];
   alerts: Alert[];
   activeThreat: Threat | null;
+  activeThreats: ThreatSimulation[];
   isRunning: boolean;
   tickCount: number;
   startedAt: Date | null;
@@ -53,55 +92,191 @@ export interface SimulationEvents {
   stateChange: (state: SimulationState) => void;
 }
 
+/**
+ * Independent copy of the live run's state that a sandbox evolves on its own
+ */
+export interface SimulationFork {
+  twin: Map<string, DigitalTwinNode>;
+  threats: Map<string, ThreatSimulation>;
+  grid: PowerGrid;                  // Read-only, so shared with the live run
+  weather: WeatherData;
+  predictiveEngine: PredictiveEngine;
+  rng: SeededRandom;
+  clock: Date;
+  tickCount: number;
+  autoMitigation: boolean;
+}
+
+// A day of 3s ticks plus operator input fits comfortably
+const MAX_JOURNAL_ENTRIES = 100000;
+const REPLAY_BATCH_SIZE = 50;        // Journal entries per event-loop turn when replaying
+
+export interface SimulationOptions {
+  /**
+   * Own a private twin and threat store instead of the shared ones, and
+   * log, persist and broadcast nothing. Replays run on isolated instances.
+   */
+  isolated?: boolean;
+}
+
+// ============================================================================
+// Alert Delivery
+// ============================================================================
+
+function alertDeliveryOptions(): AlertManagerOptions {
+  const { smtp, maxAttempts, backoffMs } = config.alerts;
+
+  return {
+    storage: alertConfigStore,
+    dispatchers: {
+      webhook: createWebhookDispatcher({ hmacKey: config.hmacKey }),
+      slack: createSlackDispatcher(),
+      ...(smtp ? { email: createSmtpDispatcher(smtp) } : {}),
+    },
+    maxAttempts,
+    backoffMs,
+  };
+}
+
+// ============================================================================
+// Prediction Model
+// ============================================================================
+
+const MAX_SHADOW_COMPARISONS = 100;
+
+export interface PredictionModelStatus {
+  provider: 'heuristic' | 'http' | 'shadow';
+  modelUrl?: string;
+  fallbacks: number;
+  lastFallback?: { at: string; error: string };
+  comparisons: PredictionComparison[];
+  avgAgreement?: number;
+}
+
+/**
+ * Heuristic engine by default; the external model either replaces it
+ * (falling back on failure) or runs beside it in shadow mode
+ */
+function createPredictionProvider(
+  engine: PredictiveEngine,
+  hooks: {
+    onFallback: (error: Error) => void;
+    onComparison: (comparison: PredictionComparison) => void;
+  }
+): PredictionProvider {
+  const heuristic = createHeuristicProvider(engine);
+  const { provider, modelUrl, modelTimeoutMs } = config.predictions;
+  if (provider === 'heuristic' || !modelUrl) return heuristic;
+
+  if (provider === 'http') {
+    return createHttpProvider({
+      url: modelUrl,
+      timeoutMs: modelTimeoutMs,
+      fallback: heuristic,
+      onFallback: hooks.onFallback,
+    });
+  }
+
+  return createShadowProvider({
+    primary: heuristic,
+    shadow: createHttpProvider({ url: modelUrl, timeoutMs: modelTimeoutMs }),
+    onComparison: hooks.onComparison,
+  });
+}
+
+// ============================================================================
+// Threat Conversion
+// ============================================================================
+
+export function toEngineThreat(threat: ThreatSimulation): Threat {
+  return {
+    id: threat.id,
+    type: threat.type,
+    subtype: threat.subtype,
+    severity: threat.severity,
+    target: threat.target,
+    region: threat.region,
+    active: threat.active,
+    until: new Date(threat.endsAt),
+    duration: (new Date(threat.endsAt).getTime() - new Date(threat.startedAt).getTime()) / 1000,
+    propagationRate: threat.propagationRate,
+    affectedNodes: threat.affectedNodes,
+    metadata: threat.metadata,
+  };
+}
+
 // ============================================================================
 // Simulation Service Class
 // ============================================================================
 
 export class SimulationService extends EventEmitter {
-  private nodes: Record<string, Node>;
-  private predictiveEngine: PredictiveEngine;
-  private alertManager: AlertManager;
-  private weather: WeatherData;
-  private activeThreat: Threat | null = null;
+  private predictiveEngine!: PredictiveEngine;
+  private predictionProvider!: PredictionProvider;
+  private servedPredictions: Prediction[] | null = null;
+  private modelStatus: Omit<PredictionModelStatus, 'provider' | 'modelUrl' | 'avgAgreement'> = {
+    fallbacks: 0,
+    comparisons: [],
+  };
+  private alertManager!: AlertManager;
+  private weather!: WeatherData;
   private isRunning = false;
   private tickCount = 0;
   private startedAt: Date | null = null;
   private tickInterval: NodeJS.Timeout | null = null;
   private predictionInterval: NodeJS.Timeout | null = null;
   private autoMitigationEnabled = false;
+  private topology: Topology | null = null;
 
-  constructor() {
+  // Seeded run state: one generator and one clock feed every model
+  private rng!: SeededRandom;
+  private clock!: Date;
+  private grid!: PowerGrid;
+  private run!: RunRecord;
+
+  // Undefined for the live instance, which drives the shared twin and threats
+  private readonly isolated: boolean;
+  private readonly twin?: Map<string, DigitalTwinNode>;
+  private readonly twinEdges?: Map<string, DependencyEdge>;
+  private readonly threats?: Map<string, ThreatSimulation>;
+
+  constructor(options: SimulationOptions = {}) {
     super();
-    
-    // Initialize with seed for determinism
-    this.nodes = initializeNodes({
-      seed: config.simulation.seed,
-      nodeCount: config.simulation.nodeCount,
-    });
-    
-    this.predictiveEngine = new PredictiveEngine({
-      seed: config.simulation.seed + 1,
-    });
-    
-    this.alertManager = new AlertManager(config.simulation.seed + 2);
-    this.weather = fetchWeatherData();
-    
-    console.log(`✓ Simulation initialized with ${Object.keys(this.nodes).length} nodes (seed: ${config.simulation.seed})`);
+
+    this.isolated = options.isolated ?? false;
+    if (this.isolated) {
+      this.twin = new Map();
+      this.twinEdges = new Map();
+      this.threats = new Map();
+    }
+
+    this.beginRun(uuidv4(), config.simulation.seed, new Date());
+
+    if (!this.isolated) {
+      console.log(`✓ Simulation initialized with ${Object.keys(this.nodes).length} nodes (seed: ${config.simulation.seed})`);
+    }
   }
 
   // ==========================================================================
   // Getters
   // ==========================================================================
 
+  /**
+   * Live view of the digital twin; node objects are shared, not copied
+   */
+  private get nodes(): Record<string, Node> {
+    return this.twin ? Object.fromEntries(this.twin) : DigitalTwinService.getNodeRecord();
+  }
+
   getState(): SimulationState {
     return {
       nodes: this.nodes,
-      systemState: getSystemState(this.nodes),
+      systemState: getSystemState(this.nodes, this.clock),
       weather: this.weather,
-      predictions: this.predictiveEngine.generatePredictions(this.nodes),
+      predictions: this.getPredictions(),
       patterns: this.predictiveEngine.analyzePatterns(this.nodes),
       alerts: this.alertManager.getAlerts('active'),
-      activeThreat: this.activeThreat,
+      activeThreat: this.getActiveThreat(),
+      activeThreats: ThreatService.getAllActiveThreats(this.threats),
       isRunning: this.isRunning,
       tickCount: this.tickCount,
       startedAt: this.startedAt,
@@ -112,6 +287,13 @@ export class SimulationService extends EventEmitter {
     return { ...this.nodes };
   }
 
+  /**
+   * Power network of the current run, for studies on copied node states
+   */
+  getPowerGrid(): PowerGrid {
+    return this.grid;
+  }
+
   getNode(id: string): Node | undefined {
     return this.nodes[id];
   }
@@ -124,95 +306,277 @@ export class SimulationService extends EventEmitter {
     return this.weather;
   }
 
+  /**
+   * Predictions the active provider served on its last run, which are the
+   * ones tracked for accuracy. Before the first run the heuristics are
+   * computed without tracking; an external model has nothing to show yet.
+   */
   getPredictions(): Prediction[] {
-    return this.predictiveEngine.generatePredictions(this.nodes);
+    if (this.servedPredictions) return this.servedPredictions;
+    return config.predictions.provider === 'http' ? [] : this.predictiveEngine.computePredictions(this.nodes);
+  }
+
+  /**
+   * Trajectory forecast for one node, or null until it has enough history
+   */
+  getForecast(nodeId: string): NodeForecast | null {
+    const node = this.nodes[nodeId];
+    return node ? this.predictiveEngine.forecast(node) : null;
+  }
+
+  getPredictionModelStatus(): PredictionModelStatus {
+    const { provider, modelUrl } = config.predictions;
+    const { comparisons } = this.modelStatus;
+
+    return {
+      provider,
+      ...(provider === 'heuristic' ? {} : { modelUrl }),
+      ...this.modelStatus,
+      comparisons: [...comparisons],
+      ...(comparisons.length > 0 ? {
+        avgAgreement: comparisons.reduce((sum, c) => sum + c.agreement, 0) / comparisons.length,
+      } : {}),
+    };
   }
 
   getPatterns(): Pattern[] {
     return this.predictiveEngine.analyzePatterns(this.nodes);
   }
 
+  /**
+   * Most severe active threat, which drives the engine's tick model
+   */
+  getActiveThreat(): Threat | null {
+    const [primary] = ThreatService.getAllActiveThreats(this.threats)
+      .sort((a, b) => b.severity - a.severity);
+    return primary ? toEngineThreat(primary) : null;
+  }
+
   getAlerts(status?: 'active' | 'acknowledged' | 'resolved'): Alert[] {
     return this.alertManager.getAlerts(status);
   }
 
+  getAlertConfigurations(): AlertConfig[] {
+    return this.alertManager.getConfigurations();
+  }
+
+  getAlertConfiguration(id: string): AlertConfig | undefined {
+    return this.alertManager.getConfiguration(id);
+  }
+
+  setAlertConfiguration(alertConfig: AlertConfig): void {
+    this.alertManager.setConfiguration(alertConfig);
+  }
+
+  removeAlertConfiguration(id: string): boolean {
+    return this.alertManager.removeConfiguration(id);
+  }
+
+  toggleAlertConfiguration(id: string, enabled: boolean): boolean {
+    return this.alertManager.toggleConfiguration(id, enabled);
+  }
+
+  getAlertDeadLetters(): DeadLetter[] {
+    return this.alertManager.getDeadLetters();
+  }
+
+  getAlertSuppressions(): SuppressionWindow[] {
+    return this.alertManager.getSuppressions();
+  }
+
+  addAlertSuppression(window: SuppressionWindow): void {
+    this.alertManager.addSuppression(window);
+  }
+
+  removeAlertSuppression(id: string): boolean {
+    return this.alertManager.removeSuppression(id);
+  }
+
   getHealthScore(): number {
     return this.predictiveEngine.getSystemHealthScore(this.nodes);
   }
 
-  getAccuracyMetrics() {
-    return this.predictiveEngine.getAccuracyMetrics();
+  getAccuracyMetrics(range?: { start?: Date; end?: Date }) {
+    return this.predictiveEngine.getAccuracyMetrics(range);
+  }
+
+  resolvePrediction(predictionId: string, wasAccurate: boolean): boolean {
+    return this.predictiveEngine.resolvePrediction(predictionId, wasAccurate);
   }
 
   isSimulationRunning(): boolean {
     return this.isRunning;
   }
 
+  getTickCount(): number {
+    return this.tickCount;
+  }
+
+  getTopologySource(): 'default' | 'imported' {
+    return this.topology ? 'imported' : 'default';
+  }
+
+  /**
+   * Seed, starting conditions and input journal of the current run
+   */
+  getRunRecord(): RunRecord {
+    return { ...this.run, entries: [...this.run.entries] };
+  }
+
+  /**
+   * Hash of node states and predictions; equal digests mean identical runs.
+   * Predictions are computed, not tracked, so taking a digest changes nothing.
+   */
+  getStateDigest(): string {
+    const payload = JSON.stringify({
+      nodes: this.nodes,
+      predictions: this.predictiveEngine.computePredictions(this.nodes),
+    });
+    return createHash('sha256').update(payload).digest('hex');
+  }
+
+  /**
+   * Copy the twin, threats, weather, predictive histories and generator so a
+   * sandbox can run from here without touching the live run. The copied
+   * engine reads time from `clock`.
+   */
+  fork(clock: () => Date): SimulationFork {
+    return {
+      twin: DigitalTwinService.cloneTwin(this.twin),
+      threats: new Map(ThreatService.getAllActiveThreats(this.threats).map((t) => [t.id, structuredClone(t)])),
+      grid: this.grid,
+      weather: structuredClone(this.weather),
+      predictiveEngine: this.predictiveEngine.fork({ clock }),
+      rng: this.rng.clone(),
+      clock: new Date(this.clock),
+      tickCount: this.tickCount,
+      autoMitigation: this.autoMitigationEnabled,
+    };
+  }
+
   // ==========================================================================
   // Simulation Control
   // ==========================================================================
 
   start(): void {
     if (this.isRunning) return;
-    
+
     this.isRunning = true;
     this.startedAt = new Date();
-    
+
     // Tick interval - update node states
     this.tickInterval = setInterval(() => {
       this.tick();
     }, config.simulation.tickIntervalMs);
-    
+
     // Prediction interval - generate predictions
     this.predictionInterval = setInterval(() => {
-      this.runPredictions();
+      this.runPredictions().catch((error) => {
+        console.error('Prediction run failed:', error);
+      });
     }, config.simulation.predictionIntervalMs);
-    
+
     this.emit('stateChange', this.getState());
     console.log('▶ Simulation started');
   }
 
   stop(): void {
     if (!this.isRunning) return;
-    
+
     this.isRunning = false;
-    
+
     if (this.tickInterval) {
       clearInterval(this.tickInterval);
       this.tickInterval = null;
     }
-    
+
     if (this.predictionInterval) {
       clearInterval(this.predictionInterval);
       this.predictionInterval = null;
     }
-    
+
     this.emit('stateChange', this.getState());
     console.log('⏹ Simulation stopped');
   }
 
   reset(): void {
     this.stop();
-    
-    this.nodes = initializeNodes({
-      seed: config.simulation.seed,
-      nodeCount: config.simulation.nodeCount,
-    });
-    
-    this.predictiveEngine = new PredictiveEngine({
-      seed: config.simulation.seed + 1,
-    });
-    
-    this.alertManager = new AlertManager(config.simulation.seed + 2);
-    this.weather = fetchWeatherData();
-    this.activeThreat = null;
-    this.tickCount = 0;
+
+    this.beginRun(uuidv4(), config.simulation.seed, new Date());
     this.startedAt = null;
-    
+
     this.emit('stateChange', this.getState());
     console.log('🔄 Simulation reset');
   }
 
+  /**
+   * Rebuild the digital twin and simulation nodes from an imported topology.
+   * Passing null reverts to the synthetic seeded grid.
+   */
+  loadTopology(topology: Topology | null): void {
+    const wasRunning = this.isRunning;
+    this.topology = topology;
+    this.reset();
+
+    if (wasRunning) {
+      this.start();
+    }
+
+    console.log(`🗺 Topology ${topology ? 'imported' : 'cleared'}: ${Object.keys(this.nodes).length} nodes`);
+  }
+
+  /**
+   * Start a fresh run: reseed the generator, rebuild the grid and models
+   * and open an empty journal
+   */
+  private beginRun(
+    runId: string,
+    seed: number,
+    startedAt: Date,
+    nodeCount: number = config.simulation.nodeCount,
+    autoMitigation: boolean = this.autoMitigationEnabled
+  ): void {
+    this.rng = new SeededRandom(seed);
+    this.clock = startedAt;
+
+    ThreatService.endAllThreats(this.threatContext());
+    if (this.topology) {
+      DigitalTwinService.initializeFromTopology(this.topology, seed, startedAt, this.twin, this.twinEdges);
+    } else {
+      DigitalTwinService.initializeDigitalTwin(nodeCount, seed, startedAt, this.twin, this.twinEdges);
+    }
+    this.grid = createPowerGrid(this.nodes, DigitalTwinService.getAllEdges(this.twinEdges));
+
+    this.predictiveEngine = new PredictiveEngine({
+      seed: seed + 1,
+      clock: () => this.clock,
+      onPredictionResolved: (prediction) => this.onPredictionResolved(prediction),
+    });
+    this.predictionProvider = createPredictionProvider(this.predictiveEngine, {
+      onFallback: (error) => this.onModelFallback(error),
+      onComparison: (comparison) => this.onModelComparison(comparison),
+    });
+    this.servedPredictions = null;
+    // Maintenance windows are operator plans, not run state
+    const suppressions = this.alertManager?.getSuppressions() ?? [];
+    this.alertManager = new AlertManager(seed + 2, this.isolated ? {} : alertDeliveryOptions());
+    suppressions.forEach((window) => this.alertManager.addSuppression(window));
+    this.weather = fetchWeatherData(this.rng);
+    this.tickCount = 0;
+    this.autoMitigationEnabled = autoMitigation;
+
+    this.run = {
+      runId,
+      seed,
+      nodeCount,
+      topology: this.topology,
+      startedAt: startedAt.toISOString(),
+      autoMitigation,
+      truncated: false,
+      entries: [],
+    };
+  }
+
   // ==========================================================================
   // Simulation Actions
   // ==========================================================================
@@ -223,100 +587,469 @@ export class SimulationService extends EventEmitter {
       console.warn('Tick called before nodes initialized');
       return;
     }
-    
+
+    this.clock = new Date();
+    this.applyTick();
+    this.record('tick');
+
+    this.publish('tick', this.getState());
+  }
+
+  private applyTick(): void {
     // Update weather occasionally
     if (this.tickCount % 10 === 0) {
-      this.weather = fetchWeatherData();
+      this.weather = fetchWeatherData(this.rng);
     }
-    
-    // Update node states
-    this.nodes = updateNodeState(this.nodes, this.activeThreat, this.weather);
-    
+
+    // Spread active threats, then update node states
+    ThreatService.propagateThreats(this.threatContext());
+    DigitalTwinService.commitNodes(
+      updateNodeState(this.nodes, this.getActiveThreat(), this.weather, {}, {
+        rng: this.rng,
+        now: this.clock,
+        grid: this.grid,
+      }),
+      this.twin
+    );
+    DigitalTwinService.updateDigitalTwinTick(() => this.rng.next(), this.clock, this.twin);
+
     // Update histories
-    const state = getSystemState(this.nodes);
+    const state = getSystemState(this.nodes, this.clock);
     this.predictiveEngine.updateHistories([state], this.nodes);
-    
+
     // Check for auto-mitigation
     if (this.autoMitigationEnabled) {
       this.runAutoMitigation();
     }
-    
+
     this.tickCount++;
-    this.emit('tick', this.getState());
   }
 
-  runPredictions(): void {
-    this.predictiveEngine.analyzePatterns(this.nodes);
-    const predictions = this.predictiveEngine.generatePredictions(this.nodes);
-    
+  /**
+   * Mirror automatic and operator outcomes into saved predictions
+   */
+  private onPredictionResolved(prediction: Prediction): void {
+    if (this.isolated) return;
+
+    predictionsRepo.updateStatus.run(
+      prediction.status,
+      (prediction.resolvedAt ?? this.clock).toISOString(),
+      prediction.wasAccurate ? 1 : 0,
+      prediction.id
+    );
+    RiskScoringService.recordPredictionOutcome(prediction.id, !!prediction.wasAccurate, prediction.type);
+    logStore.addSystemLog('prediction', `Prediction ${prediction.id} ${prediction.status}`, {
+      nodeId: prediction.nodeId,
+      type: prediction.type,
+      actualOutcome: prediction.actualOutcome,
+    });
+  }
+
+  private onModelFallback(error: Error): void {
+    this.modelStatus.fallbacks++;
+    this.modelStatus.lastFallback = { at: new Date().toISOString(), error: error.message };
+    logStore.addSystemLog('prediction', 'Prediction model failed, using heuristic engine', {
+      error: error.message,
+    }, 'medium');
+  }
+
+  private onModelComparison(comparison: PredictionComparison): void {
+    const { comparisons } = this.modelStatus;
+    comparisons.push(comparison);
+    if (comparisons.length > MAX_SHADOW_COMPARISONS) comparisons.shift();
+
+    logStore.addSystemLog('prediction', 'Shadow model compared', {
+      agreement: comparison.agreement,
+      matched: comparison.matched,
+      primaryOnly: comparison.primaryOnly.length,
+      shadowOnly: comparison.shadowOnly.length,
+      meanProbabilityDelta: comparison.meanProbabilityDelta,
+      error: comparison.error,
+    });
+  }
+
+  async runPredictions(): Promise<void> {
+    const engine = this.predictiveEngine;
+    const predictions = await this.predictionProvider.predict({
+      timestamp: this.clock,
+      nodes: this.nodes,
+      histories: engine.nodeHistories,
+    });
+    // A reset while the model was answering started a different run
+    if (engine !== this.predictiveEngine) return;
+
+    // Providers only compute, so this is the one place predictions are tracked
+    engine.trackPredictions(predictions);
+    this.servedPredictions = predictions;
+
     this.emit('prediction', predictions);
-    
+
     // Check alerts
-    this.alertManager.checkPredictionsForAlerts(predictions).then((alerts) => {
-      alerts.forEach((alert) => this.emit('alert', alert));
-    });
+    const emitAlerts = (alerts: Alert[]) => alerts.forEach((alert) => this.emit('alert', alert));
+    const alertCheckFailed = (error: unknown) => console.error('Alert check failed:', error);
+
+    this.alertManager.checkPredictionsForAlerts(predictions, this.nodes)
+      .then(emitAlerts)
+      .catch(alertCheckFailed);
+    this.alertManager.checkSystemStateForAlerts(
+      getSystemState(this.nodes, this.clock),
+      this.nodes,
+      this.predictiveEngine.nodeHistories
+    )
+      .then(emitAlerts)
+      .catch(alertCheckFailed);
+    this.alertManager.processEscalations()
+      .then(emitAlerts)
+      .catch(alertCheckFailed);
   }
 
   deployThreat(threat: Omit<Threat, 'id'>): Threat {
-    const fullThreat: Threat = {
-      ...threat,
-      id: `threat_${uuidv4()}`,
+    this.clock = new Date();
+
+    const request: ThreatRequest = {
+      type: threat.type,
+      subtype: threat.subtype,
+      severity: threat.severity,
+      target: threat.target ?? undefined,
+      region: threat.region,
+      durationSeconds: threat.duration
+        ?? Math.max(1, Math.round((threat.until.getTime() - this.clock.getTime()) / 1000)),
     };
-    
-    this.activeThreat = fullThreat;
-    console.log(`⚠ Threat deployed: ${fullThreat.type} (severity: ${fullThreat.severity})`);
-    
-    return fullThreat;
+
+    const deployed = ThreatService.createThreat(request, this.threatContext());
+    this.record('deploy_threat', { ...request });
+    console.log(`⚠ Threat deployed: ${deployed.type} (severity: ${deployed.severity})`);
+
+    return toEngineThreat(deployed);
   }
 
   clearThreat(): void {
-    this.activeThreat = null;
+    this.clock = new Date();
+    ThreatService.endAllThreats(this.threatContext());
+    this.record('clear_threat');
     console.log('✓ Threat cleared');
   }
 
   triggerCascade(originId: string, severity: number = 0.7): CascadeEvent {
+    this.clock = new Date();
+    const event = this.applyCascade(originId, severity);
+    this.record('cascade', { originId, severity });
+
+    console.log(`🌊 Cascade triggered from ${originId}, affected ${event.affectedNodes.length} nodes`);
+
+    return event;
+  }
+
+  private applyCascade(originId: string, severity: number): CascadeEvent {
     const { nodes: updatedNodes, event } = simulateCascade(
       this.nodes,
       originId,
-      severity
+      severity,
+      {},
+      { rng: this.rng, now: this.clock, grid: this.grid }
     );
-    
-    this.nodes = updatedNodes;
-    this.emit('cascade', event);
-    
-    console.log(`🌊 Cascade triggered from ${originId}, affected ${event.affectedNodes.length} nodes`);
-    
+
+    DigitalTwinService.commitNodes(updatedNodes, this.twin);
+    this.publish('cascade', event);
     return event;
   }
 
   mitigate(nodeId: string, triggeredBy: string = 'manual'): MitigationResult & { nodeId: string } {
+    this.clock = new Date();
+    const result = this.applyMitigation(nodeId, triggeredBy);
+    this.record('mitigate', { nodeId, triggeredBy });
+    return result;
+  }
+
+  private applyMitigation(nodeId: string, triggeredBy: string): MitigationResult & { nodeId: string } {
     const result = autoMitigate(this.nodes, nodeId);
-    
+
     if (result.success) {
-      this.nodes[nodeId] = result.updatedNode;
+      DigitalTwinService.commitNodes({ [nodeId]: result.updatedNode }, this.twin);
     }
-    
+
     const fullResult = { ...result, nodeId, triggeredBy };
-    this.emit('mitigation', fullResult);
-    
-    console.log(`🛠 Mitigation ${result.success ? 'successful' : 'failed'} for ${result.node}`);
-    
+    this.publish('mitigation', fullResult);
+
+    if (!this.isolated) {
+      console.log(`🛠 Mitigation ${result.success ? 'successful' : 'failed'} for ${result.node}`);
+    }
+
     return fullResult;
   }
 
   private runAutoMitigation(): void {
-    const state = getSystemState(this.nodes);
-    
+    const state = getSystemState(this.nodes, this.clock);
+
     state.criticalNodes.forEach((nodeId) => {
-      this.mitigate(nodeId, 'auto');
+      this.applyMitigation(nodeId, 'auto');
     });
   }
 
   setAutoMitigation(enabled: boolean): void {
+    this.clock = new Date();
     this.autoMitigationEnabled = enabled;
+    this.record('auto_mitigation', { enabled });
     console.log(`🤖 Auto-mitigation ${enabled ? 'enabled' : 'disabled'}`);
   }
 
+  /**
+   * Apply a scripted demo step to the run. Pending recommendations are
+   * operator state outside the run, so the ones executed are journaled.
+   */
+  runDemoStep(action: DemoAction): void {
+    this.clock = new Date();
+
+    const input: DemoStepInput = {
+      action: structuredClone(action),
+      recommendations: action.type === 'mitigation'
+        ? MitigationService.getPendingRecommendations()
+          .slice(0, 5)
+          .map(({ nodeId, actionType }) => ({ nodeId, actionType }))
+        : [],
+    };
+
+    this.applyDemoStep(input);
+    this.record('demo_step', { ...input });
+  }
+
+  private applyDemoStep({ action, recommendations }: DemoStepInput): void {
+    const params = action.params;
+    const threats = this.threatContext();
+
+    // Live runs go through MitigationService so recommendations are closed and logged
+    const mitigateNode = (nodeId: string, actionType: MitigationActionType) => {
+      if (this.isolated) {
+        DigitalTwinService.applyMitigationToNode(nodeId, actionType, this.twin);
+      } else {
+        MitigationService.executeMitigation(nodeId, actionType, 'demo-system');
+      }
+    };
+
+    switch (action.type) {
+      case 'normal': {
+        if (params.resetThreats) {
+          ThreatService.endAllThreats(threats);
+        }
+        DigitalTwinService.getAllNodes(this.twin)
+          .filter((node) => node.riskScore > 0.5)
+          .forEach((node) => DigitalTwinService.applyMitigationToNode(node.id, 'activate_backup', this.twin));
+        break;
+      }
+
+      case 'anomaly': {
+        const region = params.region as string || 'Central';
+        const severity = params.severity as number || 0.4;
+        const type = params.type as string || 'load_spike';
+
+        const regionNodes = DigitalTwinService.getNodesByRegion(region, this.twin);
+        regionNodes.slice(0, Math.ceil(regionNodes.length * 0.3)).forEach((node) => {
+          if (type === 'load_spike') {
+            node.loadRatio = Math.min(0.9, node.loadRatio + severity * 0.3);
+            node.riskScore = Math.min(0.7, node.riskScore + severity * 0.2);
+          } else if (type === 'cyber_recon') {
+            node.tamperSignal = Math.min(0.5, node.tamperSignal + severity * 0.3);
+            node.latency = Math.min(150, node.latency + severity * 50);
+          }
+        });
+        break;
+      }
+
+      case 'prediction': {
+        // Raise the riskiest node far enough that the next prediction run flags it
+        const [target] = DigitalTwinService.getAllNodes(this.twin)
+          .sort((a, b) => b.riskScore - a.riskScore);
+        if (target) {
+          target.riskScore = Math.max(0.65, target.riskScore);
+          target.status = 'degraded';
+        }
+        break;
+      }
+
+      case 'cascade': {
+        const severity = params.severity as number || 0.6;
+
+        if (params.threatType === 'cyber_attack') {
+          ThreatService.createCyberAttack(
+            null,
+            (params.subtype as ThreatRequest['subtype']) || 'false_data_injection',
+            severity,
+            threats
+          );
+          break;
+        }
+
+        const origin = DigitalTwinService.getCriticalNodes(this.twin)[0]
+          ?? DigitalTwinService.getAllNodes(this.twin).find((node) => node.status === 'degraded');
+        if (origin) {
+          ThreatService.createThreat({
+            type: 'cascade_origin',
+            target: origin.id,
+            severity,
+            durationSeconds: 60,
+          }, threats);
+        }
+        break;
+      }
+
+      case 'mitigation': {
+        const actions = params.actions as MitigationActionType[] || ['load_shed'];
+
+        recommendations.forEach(({ nodeId, actionType }) => mitigateNode(nodeId, actionType));
+        DigitalTwinService.getCriticalNodes(this.twin)
+          .forEach((node) => mitigateNode(node.id, actions[0] || 'load_shed'));
+        break;
+      }
+
+      case 'recovery': {
+        ThreatService.endAllThreats(threats);
+        DigitalTwinService.getAllNodes(this.twin).forEach((node) => {
+          if (node.status === 'critical' || node.status === 'degraded') {
+            DigitalTwinService.applyMitigationToNode(node.id, 'activate_backup', this.twin);
+            DigitalTwinService.applyMitigationToNode(node.id, 'enable_cooling', this.twin);
+          }
+          if (node.cyberStatus !== 'secure') {
+            DigitalTwinService.applyMitigationToNode(node.id, 'cyber_lockdown', this.twin);
+          }
+        });
+        break;
+      }
+    }
+  }
+
+  // ==========================================================================
+  // Run Journal & Replay
+  // ==========================================================================
+
+  /**
+   * Re-execute a recorded run from its seed and journal on this isolated
+   * instance, a batch of entries per event-loop turn. Recorded digests are
+   * checked as the run is rebuilt so the first divergent entry is reported.
+   */
+  replay(run: RunRecord): Promise<ReplayResult> {
+    if (!this.isolated) {
+      throw new Error('Only isolated simulations can replay a run');
+    }
+
+    this.topology = run.topology;
+    this.beginRun(run.runId, run.seed, new Date(run.startedAt), run.nodeCount, run.autoMitigation);
+
+    let divergence: ReplayDivergence | null = null;
+    let next = 0;
+
+    return new Promise((resolve, reject) => {
+      const runBatch = () => {
+        try {
+          const end = Math.min(next + REPLAY_BATCH_SIZE, run.entries.length);
+          for (; next < end; next++) {
+            const entry = run.entries[next];
+            this.clock = new Date(entry.at);
+            this.applyEntry(entry);
+
+            const replayed = this.record(entry.type, entry.input);
+            if (!divergence && replayed && replayed.digest !== entry.digest) {
+              divergence = {
+                seq: entry.seq,
+                tick: entry.tick,
+                type: entry.type,
+                expected: entry.digest,
+                actual: replayed.digest,
+              };
+            }
+          }
+        } catch (error) {
+          reject(error);
+          return;
+        }
+
+        if (next < run.entries.length) {
+          setImmediate(runBatch);
+          return;
+        }
+
+        resolve({
+          runId: run.runId,
+          entriesReplayed: run.entries.length,
+          ticks: this.tickCount,
+          digest: this.getStateDigest(),
+          matches: divergence === null,
+          divergence,
+        });
+      };
+
+      runBatch();
+    });
+  }
+
+  private applyEntry(entry: JournalEntry): void {
+    const input = entry.input ?? {};
+
+    switch (entry.type) {
+      case 'tick':
+        this.applyTick();
+        break;
+      case 'deploy_threat':
+        ThreatService.createThreat(input as unknown as ThreatRequest, this.threatContext());
+        break;
+      case 'clear_threat':
+        ThreatService.endAllThreats(this.threatContext());
+        break;
+      case 'cascade':
+        this.applyCascade(input.originId as string, input.severity as number);
+        break;
+      case 'mitigate':
+        this.applyMitigation(input.nodeId as string, input.triggeredBy as string);
+        break;
+      case 'auto_mitigation':
+        this.autoMitigationEnabled = input.enabled as boolean;
+        break;
+      case 'demo_step':
+        this.applyDemoStep(input as unknown as DemoStepInput);
+        break;
+    }
+  }
+
+  private record(type: JournalEntryType, input?: Record<string, unknown>): JournalEntry | null {
+    if (this.run.entries.length >= MAX_JOURNAL_ENTRIES) {
+      this.run.truncated = true;
+      return null;
+    }
+
+    const entry: JournalEntry = {
+      seq: this.run.entries.length + 1,
+      tick: this.tickCount,
+      at: this.clock.toISOString(),
+      type,
+      input,
+      digest: this.getStateDigest(),
+    };
+    this.run.entries.push(entry);
+    return entry;
+  }
+
+  private threatContext(): ThreatService.ThreatContext {
+    return {
+      rng: () => this.rng.next(),
+      now: this.clock,
+      silent: this.isolated,
+      threats: this.threats,
+      twin: this.twin,
+    };
+  }
+
+  /**
+   * Isolated instances rebuild state without notifying listeners, so replays
+   * do not persist cascades or broadcast intermediate states a second time
+   */
+  private publish<E extends keyof SimulationEvents>(
+    event: E,
+    ...args: Parameters<SimulationEvents[E]>
+  ): void {
+    if (!this.isolated) {
+      this.emit(event, ...args);
+    }
+  }
+
   // ==========================================================================
   // Alert Management
   // ==========================================================================
@@ -341,7 +1074,7 @@ export class SimulationService extends EventEmitter {
   } {
     const state = this.getState();
     const timestamp = new Date().toISOString();
-    
+
     const snapshotData = {
       timestamp,
       systemState: state.systemState,
@@ -351,9 +1084,9 @@ export class SimulationService extends EventEmitter {
       criticalNodes: state.systemState.criticalNodes.length,
       tickCount: state.tickCount,
     };
-    
+
     const { sha256: hash, signature } = createSignedHash(snapshotData, config.hmacKey);
-    
+
     return {
       timestamp,
       state,
@@ -384,3 +1117,11 @@ export function resetSimulation(): SimulationService {
   simulationInstance = new SimulationService();
   return simulationInstance;
 }
+
+/**
+ * Replay a recorded run on a fresh isolated simulation, leaving the live run,
+ * its twin and the stored topology untouched
+ */
+export function replayRun(run: RunRecord): Promise<ReplayResult> {
+  return new SimulationService({ isolated: true }).replay(run);
+}
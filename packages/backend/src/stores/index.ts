@@ -1,9 +1,13 @@
 /**
- * Sentinel Grid Backend - In-Memory Stores
- * Scenarios, Incidents, Logs, Topology
+ * Sentinel Grid Backend - Stores
+ * Scenarios (static), plus Incidents, Logs, Topology and Alert configs
+ * persisted through the db repositories so they survive restarts
  */
 
 import { v4 as uuidv4 } from 'uuid';
+import type { AlertConfig, AlertConfigStorage } from '@sentinel-grid/predictive-engine';
+import { incidentsRepo, logsRepo, topologyRepo, alertConfigsRepo } from '../db/index.js';
+import type { IncidentRecord, LogRecord } from '../db/index.js';
 import type {
   ScenarioTemplate,
   Incident,
@@ -106,21 +110,85 @@ export const scenarioStore = {
   },
 };
 
+// ============================================================================
+// Retention Policies
+// ============================================================================
+
+export interface RetentionPolicy {
+  maxAgeDays: number;
+  maxEntries: number;
+}
+
+/**
+ * Operator log retention per category. Records that feed incident reviews and
+ * shift handovers are kept for a year; chatty categories roll over quickly.
+ */
+export const LOG_RETENTION: Record<LogCategory, RetentionPolicy> = {
+  incident: { maxAgeDays: 365, maxEntries: 20000 },
+  mitigation: { maxAgeDays: 365, maxEntries: 20000 },
+  anchor: { maxAgeDays: 365, maxEntries: 10000 },
+  config: { maxAgeDays: 180, maxEntries: 5000 },
+  scenario: { maxAgeDays: 90, maxEntries: 5000 },
+  prediction: { maxAgeDays: 30, maxEntries: 10000 },
+  alert: { maxAgeDays: 30, maxEntries: 10000 },
+  threat: { maxAgeDays: 30, maxEntries: 5000 },
+  health: { maxAgeDays: 7, maxEntries: 2000 },
+  api: { maxAgeDays: 7, maxEntries: 2000 },
+  demo: { maxAgeDays: 3, maxEntries: 1000 },
+};
+
+/** Closed incidents move to the archive once they have been closed this long */
+export const INCIDENT_ARCHIVE_AFTER_DAYS = 7;
+
+// Pruning every insert is wasteful; a category is pruned after this many writes
+const PRUNE_EVERY = 50;
+
+// Retention keeps tens of thousands of rows; unfiltered reads return the newest of them
+const DEFAULT_LOG_LIMIT = 2000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysAgo(days: number, now: number = Date.now()): string {
+  return new Date(now - days * DAY_MS).toISOString();
+}
+
 // ============================================================================
 // Incidents Store
 // ============================================================================
 
-const incidents: Map<string, Incident> = new Map();
+function toIncident(record: IncidentRecord): Incident {
+  const incident = JSON.parse(record.data) as Incident;
+  return record.archivedAt ? { ...incident, archivedAt: record.archivedAt } : incident;
+}
+
+function saveIncident(incident: Incident): Incident {
+  const { archivedAt, ...data } = incident;
+  incidentsRepo.upsert.run({
+    id: incident.id,
+    startedAt: incident.startedAt,
+    endedAt: incident.endedAt,
+    status: incident.status,
+    severity: incident.severity,
+    cascadeEventId: incident.cascadeEventId,
+    data: JSON.stringify(data),
+  });
+  return incident;
+}
 
 export const incidentStore = {
+  /**
+   * Active (non-archived) incidents, newest first
+   */
   getAll(): Incident[] {
-    return Array.from(incidents.values()).sort(
-      (a, b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime()
-    );
+    return incidentsRepo.getActive.all().map(toIncident);
   },
 
+  /**
+   * Looks up active and archived incidents alike
+   */
   getById(id: string): Incident | undefined {
-    return incidents.get(id);
+    const record = incidentsRepo.getById.get(id);
+    return record ? toIncident(record) : undefined;
   },
   
   getOpen(): Incident[] {
@@ -131,34 +199,36 @@ export const incidentStore = {
     return this.getAll().filter((i) => i.severity === severity);
   },
 
+  getArchived(limit: number = 100): Incident[] {
+    return incidentsRepo.getArchived.all(limit).map(toIncident);
+  },
+
   create(data: Omit<Incident, 'id'>): Incident {
     const incident: Incident = {
       id: `INC-${uuidv4().slice(0, 8).toUpperCase()}`,
       ...data,
     };
-    incidents.set(incident.id, incident);
-    return incident;
+    return saveIncident(incident);
   },
 
   update(id: string, updates: Partial<Incident>): Incident | undefined {
-    const incident = incidents.get(id);
+    const incident = this.getById(id);
     if (!incident) return undefined;
 
-    const updated = { ...incident, ...updates };
-    incidents.set(id, updated);
-    return updated;
+    return saveIncident({ ...incident, ...updates, id, archivedAt: incident.archivedAt });
   },
 
   addMitigationAction(id: string, action: MitigationAction): Incident | undefined {
-    const incident = incidents.get(id);
+    const incident = this.getById(id);
     if (!incident) return undefined;
 
     incident.mitigationActions.push(action);
-    return incident;
+    return saveIncident(incident);
   },
 
   findByCascadeEventId(cascadeEventId: string): Incident | undefined {
-    return Array.from(incidents.values()).find((i) => i.cascadeEventId === cascadeEventId);
+    const record = incidentsRepo.getByCascadeEvent.get(cascadeEventId);
+    return record ? toIncident(record) : undefined;
   },
 
   createFromCascade(
@@ -184,33 +254,46 @@ export const incidentStore = {
       onChain: null,
     };
 
-    incidents.set(incident.id, incident);
-    return incident;
+    return saveIncident(incident);
   },
   
   close(id: string): Incident | undefined {
-    const incident = incidents.get(id);
-    if (!incident) return undefined;
-    
-    incident.status = 'closed';
-    incident.endedAt = new Date().toISOString();
-    return incident;
+    return this.update(id, { status: 'closed', endedAt: new Date().toISOString() });
   },
   
   mitigate(id: string): Incident | undefined {
-    const incident = incidents.get(id);
-    if (!incident) return undefined;
-    
-    incident.status = 'mitigated';
-    return incident;
+    return this.update(id, { status: 'mitigated' });
   },
 
+  /**
+   * Move a closed incident into the archive. Returns undefined when the
+   * incident does not exist or is not closed.
+   */
+  archive(id: string): Incident | undefined {
+    const incident = this.getById(id);
+    if (!incident || incident.status !== 'closed') return undefined;
+    if (incident.archivedAt) return incident;
+
+    incidentsRepo.archive.run(new Date().toISOString(), id);
+    return this.getById(id);
+  },
+
+  /**
+   * Archive every incident closed for longer than the given number of days
+   */
+  archiveClosed(olderThanDays: number = INCIDENT_ARCHIVE_AFTER_DAYS): number {
+    return incidentsRepo.archiveClosedBefore.run(daysAgo(olderThanDays), new Date().toISOString());
+  },
+
+  /**
+   * Remove active incidents; the archive is left untouched
+   */
   clear(): void {
-    incidents.clear();
+    incidentsRepo.deleteActive.run();
   },
   
   count(): number {
-    return incidents.size;
+    return incidentsRepo.countActive.get();
   },
 };
 
@@ -218,28 +301,43 @@ export const incidentStore = {
 // Logs Store
 // ============================================================================
 
-const logs: LogEntry[] = [];
-const MAX_LOGS = 2000;
+const writesSincePrune = new Map<LogCategory, number>();
+
+function toLogEntry(record: LogRecord): LogEntry {
+  return {
+    id: record.id,
+    timestamp: record.timestamp,
+    source: record.source as LogSource,
+    category: record.category as LogCategory,
+    message: record.message,
+    metadata: record.metadata ? JSON.parse(record.metadata) : undefined,
+    user: record.user,
+    severity: record.severity as SeverityLevel | undefined,
+  };
+}
 
 export const logStore = {
-  getAll(): LogEntry[] {
-    return [...logs];
+  /**
+   * The newest `limit` retained entries, oldest first
+   */
+  getAll(limit: number = DEFAULT_LOG_LIMIT): LogEntry[] {
+    return this.query({ limit });
   },
 
   getRecent(limit: number = 100): LogEntry[] {
-    return logs.slice(-limit);
+    return this.query({ limit });
   },
   
   getBySource(source: LogSource): LogEntry[] {
-    return logs.filter((l) => l.source === source);
+    return this.query({ source });
   },
   
   getByCategory(category: LogCategory): LogEntry[] {
-    return logs.filter((l) => l.category === category);
+    return this.query({ category });
   },
   
   getBySeverity(severity: SeverityLevel): LogEntry[] {
-    return logs.filter((l) => l.severity === severity);
+    return this.query({ severity });
   },
   
   query(filter: {
@@ -250,28 +348,7 @@ export const logStore = {
     endTime?: string;
     limit?: number;
   }): LogEntry[] {
-    let result = [...logs];
-    
-    if (filter.source) {
-      result = result.filter((l) => l.source === filter.source);
-    }
-    if (filter.category) {
-      result = result.filter((l) => l.category === filter.category);
-    }
-    if (filter.severity) {
-      result = result.filter((l) => l.severity === filter.severity);
-    }
-    if (filter.startTime) {
-      result = result.filter((l) => l.timestamp >= filter.startTime!);
-    }
-    if (filter.endTime) {
-      result = result.filter((l) => l.timestamp <= filter.endTime!);
-    }
-    if (filter.limit) {
-      result = result.slice(-filter.limit);
-    }
-    
-    return result;
+    return logsRepo.query.all(filter).map(toLogEntry);
   },
 
   add(
@@ -293,11 +370,17 @@ export const logStore = {
       severity,
     };
 
-    logs.push(entry);
-
-    // Trim if over limit
-    if (logs.length > MAX_LOGS) {
-      logs.splice(0, logs.length - MAX_LOGS);
+    logsRepo.insert.run({
+      ...entry,
+      metadata: metadata ? JSON.stringify(metadata) : undefined,
+    });
+
+    const writes = (writesSincePrune.get(category) ?? 0) + 1;
+    if (writes >= PRUNE_EVERY) {
+      this.prune(category);
+      writesSincePrune.set(category, 0);
+    } else {
+      writesSincePrune.set(category, writes);
     }
 
     return entry;
@@ -324,45 +407,94 @@ export const logStore = {
     return this.add('audit', category, message, metadata, user);
   },
 
+  /**
+   * Apply the category's retention policy; returns the number of entries removed
+   */
+  prune(category: LogCategory, now: number = Date.now()): number {
+    const policy = LOG_RETENTION[category];
+    return logsRepo.pruneCategory.run(category, daysAgo(policy.maxAgeDays, now), policy.maxEntries);
+  },
+
   clear(): void {
-    logs.length = 0;
+    logsRepo.clear.run();
+    writesSincePrune.clear();
   },
   
   count(): number {
-    return logs.length;
+    return logsRepo.count.get();
   },
 };
 
+/**
+ * Sweep every log category and archive long-closed incidents
+ */
+export function applyRetentionPolicies(now: number = Date.now()): {
+  logsRemoved: number;
+  incidentsArchived: number;
+} {
+  const logsRemoved = (Object.keys(LOG_RETENTION) as LogCategory[])
+    .reduce((total, category) => total + logStore.prune(category, now), 0);
+  const incidentsArchived = incidentStore.archiveClosed();
+
+  return { logsRemoved, incidentsArchived };
+}
+
 // ============================================================================
 // Topology Store
 // ============================================================================
 
-let activeTopology: Topology | null = null;
-
 export const topologyStore = {
   get(): Topology | null {
-    return activeTopology;
+    const record = topologyRepo.get.get();
+    if (!record) return null;
+
+    return { ...(JSON.parse(record.data) as Topology), importedAt: record.importedAt };
   },
 
   set(topology: Topology): void {
-    activeTopology = {
-      ...topology,
-      importedAt: new Date().toISOString(),
-    };
+    const { importedAt: _importedAt, ...data } = topology;
+    topologyRepo.set.run(JSON.stringify(data), new Date().toISOString());
   },
 
   clear(): void {
-    activeTopology = null;
+    topologyRepo.clear.run();
   },
   
   getSummary(): { nodeCount: number; edgeCount: number; regions: string[] } | null {
-    if (!activeTopology) return null;
+    const topology = this.get();
+    if (!topology) return null;
     
-    const regions = [...new Set(activeTopology.nodes.map((n) => n.region))];
+    const regions = [...new Set(topology.nodes.map((n) => n.region))];
     return {
-      nodeCount: activeTopology.nodes.length,
-      edgeCount: activeTopology.edges.length,
+      nodeCount: topology.nodes.length,
+      edgeCount: topology.edges.length,
       regions,
     };
   },
 };
+
+// ============================================================================
+// Alert Config Store
+// ============================================================================
+
+export const alertConfigStore: AlertConfigStorage = {
+  load(): AlertConfig[] | null {
+    if (alertConfigsRepo.count.get() === 0) return null;
+
+    return alertConfigsRepo.getAll.all().map((record) => {
+      const config = JSON.parse(record.data) as AlertConfig;
+      return {
+        ...config,
+        lastTriggered: config.lastTriggered ? new Date(config.lastTriggered) : undefined,
+      };
+    });
+  },
+
+  save(config: AlertConfig): void {
+    alertConfigsRepo.upsert.run(config.id, JSON.stringify(config), new Date().toISOString());
+  },
+
+  remove(id: string): void {
+    alertConfigsRepo.remove.run(id, new Date().toISOString());
+  },
+};
@@ -58,13 +58,13 @@ export interface DigitalTwinNode {
   packetLoss: number;
   latency: number;
   tamperSignal: number;
-  lastAuthTime: string;
+  lastAuthTime: Date;
   failedAuthCount: number;
   
   // Status
   status: NodeStatus;
   cyberStatus: CyberStatus;
-  lastSeen: string;
+  lastSeen: Date;
   
   // Topology
   connections: string[];
@@ -85,6 +85,7 @@ export interface DependencyEdge {
   latency: number;
   bandwidth: number;
   isActive: boolean;
+  capacity?: number;  // MW, power line rating
 }
 
 // ============================================================================
@@ -160,6 +161,7 @@ export interface Incident {
   threatType?: ThreatType;
   economicImpact?: number;
   customersAffected?: number;
+  archivedAt?: string;
 }
 
 // ============================================================================
@@ -318,19 +320,80 @@ export interface Topology {
   importedAt?: string;
 }
 
+// ============================================================================
+// Run Journal Types
+// ============================================================================
+
+export type JournalEntryType =
+  | 'tick'
+  | 'deploy_threat'
+  | 'clear_threat'
+  | 'cascade'
+  | 'mitigate'
+  | 'auto_mitigation'
+  | 'demo_step';
+
+/**
+ * Journal input of a demo step: the scripted action plus the pending
+ * recommendations it executed, which live outside the run
+ */
+export interface DemoStepInput {
+  action: DemoAction;
+  recommendations: Array<{ nodeId: string; actionType: MitigationActionType }>;
+}
+
+export interface JournalEntry {
+  seq: number;
+  tick: number;
+  at: string;
+  type: JournalEntryType;
+  input?: Record<string, unknown>;
+  digest: string;
+}
+
+export interface RunRecord {
+  runId: string;
+  seed: number;
+  nodeCount: number;
+  topology: Topology | null;
+  startedAt: string;
+  autoMitigation: boolean;
+  truncated: boolean;
+  entries: JournalEntry[];
+}
+
+export interface ReplayDivergence {
+  seq: number;
+  tick: number;
+  type: JournalEntryType;
+  expected: string;
+  actual: string;
+}
+
+export interface ReplayResult {
+  runId: string;
+  entriesReplayed: number;
+  ticks: number;
+  digest: string;
+  matches: boolean;
+  divergence: ReplayDivergence | null;
+}
+
 // ============================================================================
 // Demo Types
 // ============================================================================
 
+export interface DemoAction {
+  type: 'normal' | 'anomaly' | 'prediction' | 'cascade' | 'mitigation' | 'recovery';
+  params: Record<string, unknown>;
+}
+
 export interface DemoStep {
   id: string;
   name: string;
   description: string;
   durationMs: number;
-  action: {
-    type: 'normal' | 'anomaly' | 'prediction' | 'cascade' | 'mitigation' | 'recovery';
-    params: Record<string, unknown>;
-  };
+  action: DemoAction;
   expectedOutcome: string;
 }
 
@@ -408,6 +471,180 @@ export interface OperatorLogReport {
   }>;
 }
 
+// ============================================================================
+// Contingency Analysis Types
+// ============================================================================
+
+export type ContingencyTarget = 'nodes' | 'edges';
+export type ContingencyRankBy = 'affected' | 'impact' | 'loadShed';
+export type AnalysisJobStatus = 'running' | 'completed' | 'cancelled' | 'failed';
+
+export interface ContingencyRequest {
+  target: ContingencyTarget;
+  k: number;                  // Elements out together: 1 for N-1, 2 for N-2
+  nodeIds?: string[];         // Node subset, or edges touching these nodes
+  edgeIds?: string[];         // Power edge subset (`from-to`)
+  regions?: string[];
+  types?: NodeType[];
+  severity: number;
+  seed: number;
+  rankBy: ContingencyRankBy;
+}
+
+export interface ContingencyResult {
+  rank: number;
+  outage: string[];           // Node or edge ids taken out together
+  affectedNodes: string[];
+  affectedCount: number;
+  impactScore: number;
+  loadShedMW: number;
+  trippedLines: string[];
+}
+
+export interface ContingencyJob {
+  id: string;
+  status: AnalysisJobStatus;
+  request: ContingencyRequest;
+  total: number;
+  completed: number;
+  progress: number;           // 0-1
+  startedAt: string;
+  finishedAt?: string;
+  error?: string;
+  results: ContingencyResult[]; // Ranked, worst first
+}
+
+// ============================================================================
+// Sandbox Types
+// ============================================================================
+
+export interface SandboxSummary {
+  id: string;
+  name: string;
+  createdAt: string;
+  forkedAtTick: number;       // Live tick the sandbox was copied at
+  tickCount: number;
+  clock: string;              // Sandbox simulation time
+  isRunning: boolean;
+  autoMitigation: boolean;
+  nodeCount: number;
+  criticalNodes: string[];
+  warningNodes: string[];
+  maxRisk: number;
+  avgHealth: number;
+  activeThreats: ThreatSimulation[];
+}
+
+export interface SandboxMetricDelta {
+  live: number;
+  sandbox: number;
+  delta: number;              // sandbox - live
+}
+
+export interface SandboxNodeDiff {
+  nodeId: string;
+  name: string;
+  liveStatus: string;
+  sandboxStatus: string;
+  riskScore: SandboxMetricDelta;
+  health: SandboxMetricDelta;
+  loadRatio: SandboxMetricDelta;
+  temperature: SandboxMetricDelta;
+}
+
+export interface SandboxDiff {
+  sandboxId: string;
+  liveTick: number;
+  sandboxTick: number;
+  system: {
+    maxRisk: SandboxMetricDelta;
+    avgHealth: SandboxMetricDelta;
+    loadRatio: SandboxMetricDelta;
+    criticalNodes: SandboxMetricDelta;
+    warningNodes: SandboxMetricDelta;
+    onlineNodes: SandboxMetricDelta;
+  };
+  activeThreats: SandboxMetricDelta;
+  changedNodes: number;
+  nodes: SandboxNodeDiff[];   // Largest risk change first
+}
+
+// ============================================================================
+// Anchor Scheduler Types
+// ============================================================================
+
+/**
+ * anchored: sent on-chain and left submitted for the receipt poller; pinned: recorded and left pending because
+ * blockchain is disabled; skipped: grid unchanged since the last anchor or a
+ * run was already in progress; failed: pinning or every submit attempt failed
+ */
+export type AnchorCycleOutcome = 'anchored' | 'pinned' | 'skipped' | 'failed';
+
+export interface AnchorCycleResult {
+  outcome: AnchorCycleOutcome;
+  startedAt: string;
+  finishedAt: string;
+  anchorId?: string;
+  payloadHash?: string;
+  ipfsCid?: string;
+  txHash?: string;
+  attempts: number;
+  reason?: string;
+  batchId?: string;             // Merkle batch runs only
+  root?: string;
+  leafCount?: number;
+}
+
+export interface AnchorSchedulerStatus {
+  enabled: boolean;
+  cron: string;
+  blockchainEnabled: boolean;
+  inProgress: boolean;
+  pendingAnchors: number;
+  lastRun: AnchorCycleResult | null;
+  lastBatch: AnchorCycleResult | null;
+  lastAnchoredAt: string | null;
+  totals: Record<AnchorCycleOutcome, number>;
+}
+
+/**
+ * Anchor ids by outcome from one pass over submitted anchors
+ */
+export interface AnchorReceiptPollResult {
+  checked: number;
+  confirmed: string[];
+  failed: string[];
+  pending: string[];
+}
+
+// ============================================================================
+// Merkle Batch Types
+// ============================================================================
+
+export type MerkleItemType = 'audit' | 'prediction' | 'incident';
+
+export interface MerkleInclusionProof {
+  itemType: MerkleItemType;
+  itemId: string;
+  batchId: string;
+  root: string;
+  leaf: {
+    index: number;
+    hash: string;
+    data: Record<string, unknown>;
+  };
+  proof: Array<{ hash: string; position: 'left' | 'right' }>;  // Leaf to root
+  anchor: {
+    id: string;
+    status: string;
+    chain: string;
+    payloadHash: string;          // Hash of the pinned manifest, which lists root
+    ipfsCid?: string;
+    txHash?: string;
+    confirmedAt?: string;
+  } | null;
+}
+
 // ============================================================================
 // API Response Types
 // ============================================================================
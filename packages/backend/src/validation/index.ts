@@ -84,6 +84,66 @@ export const BatchMitigateSchema = z.object({
   operator: z.string().optional(),
 });
 
+// ============================================================================
+// Simulation Control Schemas
+// Shared by the live simulation routes and their sandbox counterparts
+// ============================================================================
+
+export const SimulateCascadeSchema = z.object({
+  originId: z.string().min(1),
+  severity: z.number().min(0).max(1).optional().default(0.7),
+});
+
+export const SimulateThreatSchema = z.object({
+  type: z.enum([
+    'cyber_attack',
+    'physical_intrusion',
+    'equipment_failure',
+    'overload',
+    'weather_stress',
+    'cascade_origin',
+  ]),
+  severity: z.number().min(0).max(1).optional().default(0.5),
+  target: z.string().optional().nullable(),
+  region: z.string().optional(),
+  duration: z.number().optional().default(60), // seconds
+});
+
+export const SimulateScenarioSchema = z.object({
+  scenario: z.enum(['cyber_attack', 'storm', 'cascade', 'overload', 'demo']),
+  severity: z.enum(['low', 'medium', 'high']).optional().default('medium'),
+});
+
+export const MitigateRequestSchema = z.object({
+  nodeId: z.string().min(1),
+  action: z.string().optional(),
+  actionType: MitigationActionTypeSchema.optional(),
+  incidentId: z.string().optional(),
+  operator: z.string().optional(),
+});
+
+export const MitigateBatchRequestSchema = z.object({
+  nodeIds: z.array(z.string()).min(1).max(50),
+  actionType: z.string().optional(),
+  operator: z.string().optional(),
+});
+
+export const AutoMitigationSchema = z.object({
+  enabled: z.boolean(),
+});
+
+// ============================================================================
+// Sandbox Schemas
+// ============================================================================
+
+export const CreateSandboxSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+});
+
+export const StepSandboxSchema = z.object({
+  ticks: z.number().int().min(1).max(1000).optional().default(1),
+});
+
 // ============================================================================
 // Incident Schemas
 // ============================================================================
@@ -102,6 +162,108 @@ export const AddMitigationActionSchema = z.object({
   operator: z.string().optional(),
 });
 
+// ============================================================================
+// Alert Schemas
+// ============================================================================
+
+export const AlertConditionSchema = z.object({
+  metric: z.string().min(1, 'Metric required'),
+  operator: z.enum(['gt', 'lt', 'eq', 'gte', 'lte']),
+  value: z.union([z.number(), z.string()]),
+  fn: z.enum(['delta', 'rate', 'avg', 'min', 'max']).optional(),
+  window: z.number().int().min(1).max(100).optional(),
+  duration: z.number().min(0).optional(),
+  clearValue: z.number().optional(),
+}).refine((c) => typeof c.value === 'number' || c.operator === 'eq', {
+  message: 'String values can only be compared with eq',
+  path: ['value'],
+});
+
+export type AlertExpressionInput =
+  | z.infer<typeof AlertConditionSchema>
+  | { and: AlertExpressionInput[] }
+  | { or: AlertExpressionInput[] }
+  | { not: AlertExpressionInput };
+
+export const AlertExpressionSchema: z.ZodType<AlertExpressionInput> = z.lazy(() => z.union([
+  z.object({ and: z.array(AlertExpressionSchema).min(1) }).strict(),
+  z.object({ or: z.array(AlertExpressionSchema).min(1) }).strict(),
+  z.object({ not: AlertExpressionSchema }).strict(),
+  AlertConditionSchema,
+]));
+
+const HttpTargetSchema = z.string()
+  .url('Target must be an http(s) URL')
+  .refine((target) => /^https?:\/\//i.test(target), 'Target must be an http(s) URL');
+
+// Comma-separated, as the SMTP dispatcher splits it
+const EmailTargetSchema = z.string().refine((target) => {
+  const addresses = target.split(',').map((a) => a.trim()).filter(Boolean);
+  return addresses.length > 0 && addresses.every((a) => z.string().email().safeParse(a).success);
+}, 'Target must be a comma-separated list of email addresses');
+
+const AlertActionTemplateSchema = z.string().max(2000).optional();
+
+export const AlertActionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('webhook'), target: HttpTargetSchema, template: AlertActionTemplateSchema }),
+  z.object({ type: z.literal('slack'), target: HttpTargetSchema, template: AlertActionTemplateSchema }),
+  z.object({ type: z.literal('email'), target: EmailTargetSchema, template: AlertActionTemplateSchema }),
+  z.object({
+    type: z.literal('log'),
+    target: z.string().min(1, 'Action target required'),
+    template: AlertActionTemplateSchema,
+  }),
+]);
+
+export const EscalationStepSchema = z.object({
+  afterMinutes: z.number().min(1).max(10080),
+  severity: z.enum(['info', 'warning', 'error', 'critical']).optional(),
+  actions: z.array(AlertActionSchema).min(1, 'At least one action required'),
+});
+
+const AlertConfigFieldsSchema = z.object({
+  name: z.string().min(1, 'Name required').max(100),
+  enabled: z.boolean().optional().default(true),
+  conditions: z.array(AlertConditionSchema).optional().default([]),
+  expression: AlertExpressionSchema.optional(),
+  actions: z.array(AlertActionSchema).min(1, 'At least one action required'),
+  cooldownMinutes: z.number().min(0).max(1440),
+  groupBy: z.enum(['region', 'cascade', 'prediction']).optional(),
+  escalation: z.array(EscalationStepSchema).max(5).optional(),
+});
+
+const hasRule = (config: { conditions: unknown[]; expression?: unknown }) =>
+  config.conditions.length > 0 || config.expression !== undefined;
+const ruleRequired = { message: 'At least one condition or an expression required', path: ['conditions'] };
+
+export const AlertConfigBodySchema = AlertConfigFieldsSchema.refine(hasRule, ruleRequired);
+
+export const CreateAlertConfigSchema = AlertConfigFieldsSchema.extend({
+  id: z.string().regex(/^[a-z0-9_-]{1,64}$/i, 'Invalid alert config ID format').optional(),
+}).refine(hasRule, ruleRequired);
+
+export const ToggleAlertConfigSchema = z.object({
+  enabled: z.boolean(),
+});
+
+export const CreateSuppressionSchema = z.object({
+  nodeIds: z.array(z.string().min(1)).min(1).optional(),
+  region: z.string().min(1).optional(),
+  startsAt: z.string().datetime().optional(),
+  endsAt: z.string().datetime(),
+  reason: z.string().max(500).optional(),
+}).refine((w) => w.nodeIds !== undefined || w.region !== undefined, {
+  message: 'Either nodeIds or region required',
+  path: ['nodeIds'],
+}).refine((w) => !w.startsAt || new Date(w.startsAt) < new Date(w.endsAt), {
+  message: 'endsAt must be after startsAt',
+  path: ['endsAt'],
+});
+
+export const AcknowledgeAlertSchema = z.object({
+  operator: z.string().max(100).optional(),
+});
+
 // ============================================================================
 // Topology Schemas
 // ============================================================================
@@ -149,6 +311,14 @@ export const SkipToStepSchema = z.object({
   stepIndex: z.number().min(0),
 });
 
+// ============================================================================
+// Auth Schemas
+// ============================================================================
+
+export const OpenSessionSchema = z.object({
+  apiKey: z.string().min(1, 'API key required'),
+});
+
 // ============================================================================
 // System Schemas
 // ============================================================================
@@ -161,6 +331,76 @@ export const SystemConfigSchema = z.object({
   warningThreshold: z.number().min(0.3).max(0.9).optional(),
 });
 
+const JournalEntryBaseSchema = z.object({
+  seq: z.number().int().min(1),
+  tick: z.number().int().min(0),
+  at: z.string().datetime(),
+  digest: z.string().min(1),
+});
+
+// Each entry type carries exactly the input its simulation action replays
+export const JournalEntrySchema = z.discriminatedUnion('type', [
+  JournalEntryBaseSchema.extend({ type: z.literal('tick') }),
+  JournalEntryBaseSchema.extend({
+    type: z.literal('deploy_threat'),
+    input: z.object({
+      type: ThreatTypeSchema,
+      subtype: ThreatSubtypeSchema,
+      severity: z.number().min(0).max(1).optional(),
+      target: z.string().optional(),
+      region: z.string().optional(),
+      durationSeconds: z.number().positive().optional(),
+    }),
+  }),
+  JournalEntryBaseSchema.extend({ type: z.literal('clear_threat') }),
+  JournalEntryBaseSchema.extend({
+    type: z.literal('cascade'),
+    input: z.object({
+      originId: z.string().min(1),
+      severity: z.number().min(0).max(1),
+    }),
+  }),
+  JournalEntryBaseSchema.extend({
+    type: z.literal('mitigate'),
+    input: z.object({
+      nodeId: z.string().min(1),
+      triggeredBy: z.string().min(1),
+    }),
+  }),
+  JournalEntryBaseSchema.extend({
+    type: z.literal('auto_mitigation'),
+    input: z.object({ enabled: z.boolean() }),
+  }),
+  JournalEntryBaseSchema.extend({
+    type: z.literal('demo_step'),
+    input: z.object({
+      action: z.object({
+        type: z.enum(['normal', 'anomaly', 'prediction', 'cascade', 'mitigation', 'recovery']),
+        params: z.record(z.unknown()),
+      }),
+      recommendations: z.array(z.object({
+        nodeId: z.string().min(1),
+        actionType: MitigationActionTypeSchema,
+      })),
+    }),
+  }),
+]);
+
+export const RunRecordSchema = z.object({
+  runId: z.string().min(1),
+  seed: z.number().int(),
+  nodeCount: z.number().int().min(1).max(10000),
+  topology: ImportTopologySchema.extend({ importedAt: z.string().optional() }).nullable(),
+  startedAt: z.string().datetime(),
+  autoMitigation: z.boolean(),
+  truncated: z.boolean().optional().default(false),
+  entries: z.array(JournalEntrySchema),
+});
+
+export const ReplayRunSchema = z.object({
+  run: RunRecordSchema.optional(),
+});
+
 // ============================================================================
 // Validation Helper
 // ============================================================================
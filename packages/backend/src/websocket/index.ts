@@ -6,6 +6,7 @@
 import { WebSocketServer, WebSocket } from 'ws';
 import { Server } from 'http';
 import { getSimulation } from '../services/simulation.js';
+import { contingencyEvents } from '../services/ContingencyService.js';
 import { incidentStore, logStore } from '../stores/index.js';
 
 interface WSMessage {
@@ -32,6 +33,7 @@ export class WebSocketManager {
 
     this.setupServer();
     this.setupSimulationEvents();
+    this.setupAnalysisEvents();
     this.startPingInterval();
 
     console.log('✓ WebSocket server initialized at /ws/updates');
@@ -41,7 +43,7 @@ export class WebSocketManager {
     this.wss.on('connection', (ws: WebSocket) => {
       const client = ws as ExtWebSocket;
       client.isAlive = true;
-      client.subscriptions = new Set(['tick', 'prediction', 'alert', 'cascade', 'mitigation', 'incident']);
+      client.subscriptions = new Set(['tick', 'prediction', 'alert', 'cascade', 'mitigation', 'incident', 'contingency']);
       
       this.clients.add(client);
       console.log(`WebSocket client connected (total: ${this.clients.size})`);
@@ -262,6 +264,17 @@ export class WebSocketManager {
     });
   }
 
+  private setupAnalysisEvents(): void {
+    // Contingency job progress, throttled by the service
+    contingencyEvents.on('progress', (job) => {
+      this.broadcast('contingency', {
+        type: 'contingency',
+        data: job,
+        timestamp: new Date().toISOString(),
+      });
+    });
+  }
+
   private startPingInterval(): void {
     // Ping clients every 30 seconds
     this.pingInterval = setInterval(() => {
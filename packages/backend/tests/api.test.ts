@@ -2,10 +2,24 @@
  * Sentinel Grid Backend - API Integration Tests
  */
 
+import { createHash } from 'crypto';
 import request from 'supertest';
 import { createApp } from '../src/app.js';
-import { initializeSchema } from '../src/db/index.js';
+import { config } from '../src/config.js';
+import { anchorsRepo, initializeSchema } from '../src/db/index.js';
+import {
+  ThreatService,
+  MitigationService,
+  AnchorSchedulerService,
+  AnchorReceiptService,
+  DemoService,
+} from '../src/services/index.js';
+import { getContract } from '../src/services/contract.js';
+import { getStorage } from '../src/services/storage.js';
+import { incidentStore, topologyStore } from '../src/stores/index.js';
+import { getSimulation } from '../src/services/simulation.js';
 import { Express } from 'express';
+import { hashLeaf, verifyMerkleProof } from '@sentinel-grid/predictive-engine';
 
 describe('Sentinel Grid API', () => {
   let app: Express;
@@ -109,6 +123,14 @@ describe('Sentinel Grid API', () => {
       expect(res.body.data.byRegion).toBeDefined();
     });
 
+    it('GET /api/nodes/edges returns typed dependency edges', async () => {
+      const res = await request(app).get('/api/nodes/edges');
+
+      expect(res.status).toBe(200);
+      expect(res.body.count).toBeGreaterThan(0);
+      expect(['power', 'data', 'control', 'backup', 'thermal']).toContain(res.body.data[0].type);
+    });
+
     it('GET /api/nodes/:id returns single node', async () => {
       // First get a node ID
       const listRes = await request(app).get('/api/nodes?limit=1');
@@ -122,7 +144,30 @@ describe('Sentinel Grid API', () => {
 
     it('GET /api/nodes/:id returns 404 for invalid ID', async () => {
       const res = await request(app).get('/api/nodes/invalid_id');
-      
+
+      expect(res.status).toBe(404);
+    });
+
+    it('GET /api/nodes/:id/forecast returns a forecast once history exists', async () => {
+      const listRes = await request(app).get('/api/nodes?limit=1');
+      const nodeId = listRes.body.data[0].id;
+      // Each tick records one history sample per node
+      for (let i = 0; i < 5; i++) {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        getSimulation().tick();
+      }
+
+      const res = await request(app).get(`/api/nodes/${nodeId}/forecast`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.nodeId).toBe(nodeId);
+      expect(res.body.data.horizonHours).toBe(48);
+      expect(res.body.data.metrics.riskScore.points).toHaveLength(49);
+    });
+
+    it('GET /api/nodes/:id/forecast returns 404 for invalid ID', async () => {
+      const res = await request(app).get('/api/nodes/invalid_id/forecast');
+
       expect(res.status).toBe(404);
     });
   });
@@ -150,6 +195,31 @@ describe('Sentinel Grid API', () => {
       expect(res.body.data.accuracy).toBeDefined();
       expect(res.body.data.precision).toBeDefined();
     });
+
+    it('GET /api/predictions serves the tracked predictions of the last run', async () => {
+      const sim = getSimulation();
+      sim.reset();
+      sim.triggerCascade(Object.keys(sim.getNodes())[0], 1);
+      sim.tick();
+      await sim.runPredictions();
+
+      const first = await request(app).get('/api/predictions');
+      const second = await request(app).get('/api/predictions');
+      const ids = first.body.data.map((p: { id: string }) => p.id);
+
+      expect(ids.length).toBeGreaterThan(0);
+      expect(second.body.data.map((p: { id: string }) => p.id)).toEqual(ids);
+      expect(sim.resolvePrediction(ids[0], true)).toBe(true);
+    });
+
+    it('GET /api/predictions/model reports the heuristic provider', async () => {
+      const res = await request(app).get('/api/predictions/model');
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.provider).toBe('heuristic');
+      expect(res.body.data.fallbacks).toBe(0);
+      expect(res.body.data.comparisons).toEqual([]);
+    });
   });
 
   describe('Simulation Endpoints', () => {
@@ -194,6 +264,175 @@ describe('Sentinel Grid API', () => {
     });
   });
 
+  describe('Contingency Analysis Endpoints', () => {
+    const waitForJob = async (id: string) => {
+      for (let i = 0; i < 200; i++) {
+        const res = await request(app).get(`/api/analysis/contingency/${id}`);
+        if (res.body.data.status !== 'running') return res;
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+      throw new Error(`Job ${id} did not finish`);
+    };
+
+    it('POST /api/analysis/contingency ranks N-1 outages without touching the live grid', async () => {
+      const sim = getSimulation();
+      const region = Object.values(sim.getNodes())[0].region;
+      const digest = sim.getStateDigest();
+
+      const res = await request(app)
+        .post('/api/analysis/contingency')
+        .send({ target: 'nodes', regions: [region], rankBy: 'loadShed' });
+
+      expect(res.status).toBe(202);
+      expect(res.body.data.status).toBe('running');
+      expect(res.body.data.total).toBeGreaterThan(0);
+
+      const done = await waitForJob(res.body.data.id);
+      const results = done.body.data.results;
+
+      expect(done.body.data.status).toBe('completed');
+      expect(done.body.data.completed).toBe(done.body.data.total);
+      expect(results[0].rank).toBe(1);
+      for (let i = 1; i < results.length; i++) {
+        expect(results[i - 1].loadShedMW).toBeGreaterThanOrEqual(results[i].loadShedMW);
+      }
+      expect(sim.getStateDigest()).toBe(digest);
+    });
+
+    it('POST /api/analysis/contingency/:id/cancel stops a running job', async () => {
+      const region = Object.values(getSimulation().getNodes())[0].region;
+      const start = await request(app)
+        .post('/api/analysis/contingency')
+        .send({ target: 'nodes', k: 2, regions: [region] });
+
+      const cancel = await request(app).post(`/api/analysis/contingency/${start.body.data.id}/cancel`);
+      expect(cancel.status).toBe(200);
+
+      const done = await waitForJob(start.body.data.id);
+      expect(done.body.data.status).toBe('cancelled');
+      expect(done.body.data.completed).toBeLessThan(done.body.data.total);
+
+      // Outages studied before the cancel are still ranked, worst first
+      const results = done.body.data.results;
+      results.forEach((result: { rank: number }, i: number) => expect(result.rank).toBe(i + 1));
+      for (let i = 1; i < results.length; i++) {
+        expect(results[i - 1].affectedCount).toBeGreaterThanOrEqual(results[i].affectedCount);
+      }
+    });
+
+    it('POST /api/analysis/contingency rejects an empty subset', async () => {
+      const res = await request(app)
+        .post('/api/analysis/contingency')
+        .send({ target: 'nodes', regions: ['Atlantis'] });
+
+      expect(res.status).toBe(400);
+    });
+
+    it('GET /api/analysis/contingency/:id returns 404 for unknown job', async () => {
+      const res = await request(app).get('/api/analysis/contingency/unknown');
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('Cascade Risk Endpoints', () => {
+    it('GET /api/analysis/cascade-risk/:nodeId returns a seeded estimate', async () => {
+      const nodeId = Object.keys(getSimulation().getNodes())[0];
+      const url = `/api/analysis/cascade-risk/${nodeId}?realizations=20&seed=5`;
+
+      const res = await request(app).get(url);
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.originNode).toBe(nodeId);
+      expect(res.body.data.realizations).toBe(20);
+      expect(res.body.data.percentiles.map((p: { percentile: number }) => p.percentile))
+        .toEqual([5, 25, 50, 75, 90, 95, 99]);
+      Object.values(res.body.data.hitProbability as Record<string, number>).forEach((p) => {
+        expect(p).toBeGreaterThan(0);
+        expect(p).toBeLessThanOrEqual(1);
+      });
+    });
+
+    it('GET /api/analysis/cascade-risk/:nodeId rejects too few realizations', async () => {
+      const nodeId = Object.keys(getSimulation().getNodes())[0];
+      const res = await request(app).get(`/api/analysis/cascade-risk/${nodeId}?realizations=1`);
+
+      expect(res.status).toBe(400);
+    });
+
+    it('GET /api/analysis/cascade-risk/:nodeId returns 404 for unknown node', async () => {
+      const res = await request(app).get('/api/analysis/cascade-risk/unknown');
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('Sandbox Endpoints', () => {
+    it('POST /api/sandboxes forks the live grid without changing it', async () => {
+      const sim = getSimulation();
+      const digest = sim.getStateDigest();
+
+      const created = await request(app).post('/api/sandboxes').send({ name: 'what-if' });
+      expect(created.status).toBe(201);
+      const id = created.body.data.id;
+      expect(created.body.data.name).toBe('what-if');
+      expect(created.body.data.isRunning).toBe(false);
+
+      const fresh = await request(app).get(`/api/sandboxes/${id}/diff`);
+      expect(fresh.body.data.changedNodes).toBe(0);
+
+      const origin = Object.keys(sim.getNodes())[0];
+      const cascade = await request(app)
+        .post(`/api/sandboxes/${id}/simulate/cascade`)
+        .send({ originId: origin, severity: 0.9 });
+      expect(cascade.status).toBe(200);
+
+      const stepped = await request(app).post(`/api/sandboxes/${id}/step`).send({ ticks: 3 });
+      expect(stepped.body.data.tickCount).toBe(created.body.data.tickCount + 3);
+
+      const diff = await request(app).get(`/api/sandboxes/${id}/diff?limit=5`);
+      expect(diff.body.data.changedNodes).toBeGreaterThan(0);
+      expect(diff.body.data.nodes.length).toBeLessThanOrEqual(5);
+      expect(sim.getStateDigest()).toBe(digest);
+
+      const deleted = await request(app).delete(`/api/sandboxes/${id}`);
+      expect(deleted.status).toBe(200);
+    });
+
+    it('POST /api/sandboxes/:id/actions/mitigate applies to the sandbox only', async () => {
+      const created = await request(app).post('/api/sandboxes').send({});
+      const id = created.body.data.id;
+      const nodeId = Object.keys(getSimulation().getNodes())[0];
+      const liveRisk = getSimulation().getNode(nodeId)!.riskScore;
+
+      const res = await request(app)
+        .post(`/api/sandboxes/${id}/actions/mitigate`)
+        .send({ nodeId });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.nodeId).toBe(nodeId);
+      expect(getSimulation().getNode(nodeId)!.riskScore).toBe(liveRisk);
+
+      await request(app).delete(`/api/sandboxes/${id}`);
+    });
+
+    it('POST /api/sandboxes/:id/step rejects too many ticks', async () => {
+      const created = await request(app).post('/api/sandboxes').send({});
+      const id = created.body.data.id;
+
+      const res = await request(app).post(`/api/sandboxes/${id}/step`).send({ ticks: 5000 });
+      expect(res.status).toBe(400);
+
+      await request(app).delete(`/api/sandboxes/${id}`);
+    });
+
+    it('GET /api/sandboxes/:id returns 404 for unknown sandbox', async () => {
+      const res = await request(app).get('/api/sandboxes/unknown');
+
+      expect(res.status).toBe(404);
+    });
+  });
+
   describe('Actions Endpoints', () => {
     it('POST /api/actions/mitigate applies mitigation', async () => {
       // Get a node ID
@@ -235,6 +474,43 @@ describe('Sentinel Grid API', () => {
       expect(res.status).toBe(200);
       expect(res.body.data).toContain('cascade_event');
     });
+
+    it('GET /api/audit/verify walks an intact hash chain', async () => {
+      const res = await request(app).get('/api/audit/verify');
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.valid).toBe(true);
+      expect(res.body.data.checked).toBe(res.body.data.totalEntries);
+      expect(res.body.data.firstBreak).toBeUndefined();
+    });
+
+    it('GET /api/audit/:id/proof proves a batched entry against the anchored root', async () => {
+      const [entry] = (await request(app).get('/api/audit?limit=1')).body.data;
+
+      const missing = await request(app).get(`/api/audit/${entry.id}/proof`);
+      expect(missing.status).toBe(404);
+
+      const batchRes = await request(app).post('/api/audit/batch');
+      expect(batchRes.status).toBe(200);
+      expect(batchRes.body.data.outcome).toBe('pinned');
+      expect(batchRes.body.data.leafCount).toBeGreaterThanOrEqual(1);
+
+      const res = await request(app).get(`/api/audit/${entry.id}/proof`);
+      expect(res.status).toBe(200);
+
+      const { leaf, proof, root, anchor } = res.body.data;
+      expect(root).toBe(batchRes.body.data.root);
+      expect(anchor.payloadHash).toBe(batchRes.body.data.payloadHash);
+      expect(hashLeaf(leaf.data)).toBe(leaf.hash);
+      expect(verifyMerkleProof(leaf.hash, proof, root)).toBe(true);
+      expect(anchor.id).toBe(batchRes.body.data.anchorId);
+      expect(anchor.status).toBe('pending');
+
+      // Only records written since the last batch go into the next one
+      const next = await request(app).post('/api/audit/batch');
+      expect(next.body.data.batchId).not.toBe(batchRes.body.data.batchId);
+      expect(next.body.data.leafCount ?? 0).toBeLessThan(batchRes.body.data.leafCount);
+    });
   });
 
   describe('Anchor Endpoints', () => {
@@ -286,6 +562,542 @@ describe('Sentinel Grid API', () => {
       expect(res.status).toBe(200);
       expect(res.body.valid).toBe(true);
     });
+
+    it('scheduled anchor runs pin a snapshot and skip an unchanged grid', async () => {
+      getSimulation().stop();
+
+      const first = await AnchorSchedulerService.runAnchorCycle({ force: true });
+      const second = await AnchorSchedulerService.runAnchorCycle();
+
+      expect(first.outcome).toBe('pinned');
+      expect(second.outcome).toBe('skipped');
+
+      const anchorRes = await request(app).get(`/api/anchors/${first.anchorId}`);
+      expect(anchorRes.body.data.status).toBe('pending');
+      expect(anchorRes.body.data.ipfsCid).toBe(first.ipfsCid);
+      expect(anchorRes.body.data.metadata.source).toBe('scheduler');
+
+      const res = await request(app).get('/api/anchor/status');
+      expect(res.status).toBe(200);
+      expect(res.body.data.lastRun.outcome).toBe('skipped');
+      expect(res.body.data.totals.pinned).toBeGreaterThanOrEqual(1);
+      expect(res.body.data.pendingAnchors).toBeGreaterThanOrEqual(1);
+    });
+
+    it('scheduled anchor runs send to the configured chain and leave confirmation to the poller', async () => {
+      jest.replaceProperty(config, 'blockchainEnabled', true);
+      jest.replaceProperty(config.blockchain, 'chain', 'base');
+      const contract = getContract();
+      jest.spyOn(contract, 'isConnected').mockReturnValue(false);
+      const connect = jest.spyOn(contract, 'connect').mockResolvedValue();
+      jest.spyOn(contract, 'submitAnchor').mockImplementation(async (payloadHash, ipfsCid) => ({
+        txHash: '0xscheduled',
+        payloadHash,
+        ipfsCid,
+      }));
+
+      try {
+        const result = await AnchorSchedulerService.runAnchorCycle({ force: true });
+
+        expect(result.outcome).toBe('anchored');
+        expect(result.txHash).toBe('0xscheduled');
+        expect(connect).toHaveBeenCalledWith('base');
+
+        const anchor = anchorsRepo.getById.get(result.anchorId!);
+        expect(anchor?.status).toBe('submitted');
+        expect(anchor?.txHash).toBe('0xscheduled');
+        expect(anchor?.chain).toBe('base');
+      } finally {
+        jest.restoreAllMocks();
+      }
+    });
+
+    it('scheduled anchors carry the hash sentinel-verify computes for their pinned bundles', async () => {
+      jest.replaceProperty(config, 'blockchainEnabled', true);
+      const contract = getContract();
+      jest.spyOn(contract, 'isConnected').mockReturnValue(true);
+      const submit = jest.spyOn(contract, 'submitAnchor').mockImplementation(async (payloadHash, ipfsCid) => ({
+        txHash: '0xbundle',
+        payloadHash,
+        ipfsCid,
+      }));
+      const storage = getStorage();
+      const pin = jest.spyOn(storage, 'pin');
+
+      try {
+        const snapshot = await AnchorSchedulerService.runAnchorCycle({ force: true });
+        const batch = await AnchorSchedulerService.anchorMerkleBatch();
+        expect([snapshot.outcome, batch.outcome]).toEqual(['anchored', 'anchored']);
+
+        for (const [i, [payload]] of pin.mock.calls.entries()) {
+          // The bundle's root block is the pinned JSON, hashed as StorageService.computeHash does
+          const bundled = JSON.parse(JSON.stringify(storage.sanitize(payload)));
+          const payloadHash = createHash('sha256')
+            .update(JSON.stringify(bundled, Object.keys(bundled).sort()))
+            .digest('hex');
+
+          expect(submit.mock.calls[i][0]).toBe(payloadHash);
+          expect(submit.mock.calls[i][1]).toBe((await pin.mock.results[i].value).cid);
+        }
+        expect(pin).toHaveBeenCalledTimes(2);
+
+        const anchor = anchorsRepo.getById.get(batch.anchorId!);
+        expect(anchor?.metadata).toContain(batch.root);
+      } finally {
+        jest.restoreAllMocks();
+      }
+    });
+
+    it('fails a submitted anchor whose transaction is not mined before the deadline', async () => {
+      const created = await request(app).post('/api/anchor').send({ payloadHash: 'feedbeef', chain: 'local' });
+      const anchorId = created.body.data.id;
+      anchorsRepo.updateStatus.run('submitted', '0xdropped', null, anchorId);
+
+      const contract = getContract();
+      jest.spyOn(contract, 'isConnected').mockReturnValue(true);
+      jest.spyOn(contract, 'getAnchorReceipt').mockResolvedValue({ status: 'pending' });
+
+      try {
+        const first = await AnchorReceiptService.pollReceipts();
+        expect(first.pending).toContain(anchorId);
+        expect(anchorsRepo.getById.get(anchorId)?.status).toBe('submitted');
+
+        jest.replaceProperty(config.blockchain, 'receiptTimeoutMs', 0);
+        const second = await AnchorReceiptService.pollReceipts();
+        expect(second.failed).toContain(anchorId);
+        expect(anchorsRepo.getById.get(anchorId)?.status).toBe('failed');
+      } finally {
+        jest.restoreAllMocks();
+      }
+    });
+  });
+
+  describe('Contract Endpoints', () => {
+    it('require an API key even when other routes do not', async () => {
+      const missing = await request(app).get('/api/contract/status');
+      expect(missing.status).toBe(401);
+
+      const wrong = await request(app).get('/api/contract/status').set('x-api-key', 'not-the-key');
+      expect(wrong.status).toBe(403);
+    });
+
+    it('report blockchain disabled once authenticated', async () => {
+      const res = await request(app)
+        .post('/api/contract/anchor/submit-pending')
+        .set('x-api-key', 'test-api-key');
+
+      expect(res.status).toBe(501);
+      expect(res.body.success).toBe(false);
+    });
+
+    it('accept an operator session opened with the key', async () => {
+      const wrong = await request(app).post('/api/auth/session').send({ apiKey: 'not-the-key' });
+      expect(wrong.status).toBe(403);
+      expect(wrong.headers['set-cookie']).toBeUndefined();
+
+      const login = await request(app).post('/api/auth/session').send({ apiKey: 'test-api-key' });
+      expect(login.status).toBe(200);
+      const cookie = login.headers['set-cookie'];
+      expect(String(cookie)).toMatch(/HttpOnly/);
+
+      const session = await request(app).get('/api/auth/session').set('Cookie', cookie);
+      expect(session.body.data).toEqual({ authenticated: true, configured: true });
+
+      const status = await request(app).get('/api/contract/status').set('Cookie', cookie);
+      expect(status.status).toBe(501);
+
+      await request(app).delete('/api/auth/session').set('Cookie', cookie);
+      const after = await request(app).get('/api/contract/status').set('Cookie', cookie);
+      expect(after.status).toBe(401);
+    });
+
+    it('let an operator sign in while every route requires the key', async () => {
+      process.env.REQUIRE_API_KEY = 'true';
+      jest.replaceProperty(config, 'isProd', true);
+      try {
+        const lockedApp = createApp();
+
+        const nodes = await request(lockedApp).get('/api/nodes');
+        expect(nodes.status).toBe(401);
+
+        const login = await request(lockedApp).post('/api/auth/session').send({ apiKey: 'test-api-key' });
+        expect(login.status).toBe(200);
+
+        const withSession = await request(lockedApp).get('/api/nodes').set('Cookie', login.headers['set-cookie']);
+        expect(withSession.status).toBe(200);
+      } finally {
+        delete process.env.REQUIRE_API_KEY;
+        jest.restoreAllMocks();
+      }
+    });
+
+    it('stay closed while no real API key is configured', async () => {
+      jest.replaceProperty(config, 'apiKeyConfigured', false);
+      try {
+        const res = await request(app).get('/api/contract/status').set('x-api-key', 'test-api-key');
+        expect(res.status).toBe(503);
+
+        const login = await request(app).post('/api/auth/session').send({ apiKey: 'test-api-key' });
+        expect(login.status).toBe(503);
+      } finally {
+        jest.restoreAllMocks();
+      }
+    });
+  });
+
+  describe('Shared Grid State', () => {
+    it('threats deployed through the API are tracked by ThreatService', async () => {
+      const listRes = await request(app).get('/api/nodes?limit=1');
+      const nodeId = listRes.body.data[0].id;
+
+      await request(app)
+        .post('/api/simulate/threat')
+        .send({ type: 'overload', severity: 0.6, target: nodeId });
+
+      expect(ThreatService.getThreatsAffectingNode(nodeId).length).toBeGreaterThan(0);
+
+      const stateRes = await request(app).get('/api/system/state');
+      expect(stateRes.body.data.activeThreats).toBeGreaterThan(0);
+
+      await request(app).delete('/api/simulate/threat');
+      expect(ThreatService.getAllActiveThreats()).toHaveLength(0);
+    });
+
+    it('ThreatService impact is visible through /api/nodes', async () => {
+      const listRes = await request(app).get('/api/nodes?limit=1');
+      const nodeId = listRes.body.data[0].id;
+      const before = listRes.body.data[0].tamperSignal;
+
+      ThreatService.createThreat({ type: 'sensor_spoofing', target: nodeId, severity: 0.8 });
+
+      const res = await request(app).get(`/api/nodes/${nodeId}`);
+      expect(res.body.data.tamperSignal).toBeGreaterThan(before);
+
+      ThreatService.endAllThreats();
+    });
+
+    it('mitigations applied by MitigationService update the simulation nodes', async () => {
+      const listRes = await request(app).get('/api/nodes?limit=1');
+      const nodeId = listRes.body.data[0].id;
+
+      MitigationService.executeMitigation(nodeId, 'isolate', 'test');
+
+      const res = await request(app).get(`/api/nodes/${nodeId}`);
+      expect(res.body.data.status).toBe('isolated');
+    });
+  });
+
+  describe('Topology Endpoints', () => {
+    const topology = {
+      nodes: [
+        { id: 'feeder_gen', name: 'Feeder Generator', region: 'North', type: 'generator' },
+        { id: 'feeder_sub', name: 'Feeder Substation', region: 'North', type: 'Substation' },
+        { id: 'feeder_scada', name: 'Feeder SCADA', region: 'South', type: 'rtu', category: 'control' },
+      ],
+      edges: [
+        { from: 'feeder_gen', to: 'feeder_sub', capacity: 400, type: 'power' },
+        { from: 'feeder_scada', to: 'feeder_sub', capacity: 100 },
+      ],
+    };
+
+    it('POST /api/topology/import rebuilds the live grid', async () => {
+      const res = await request(app).post('/api/topology/import').send(topology);
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.nodeCount).toBe(3);
+
+      const nodesRes = await request(app).get('/api/nodes');
+      expect(nodesRes.body.count).toBe(3);
+
+      expect(topologyStore.get()?.nodes).toHaveLength(3);
+
+      const sub = await request(app).get('/api/nodes/feeder_sub');
+      expect(sub.body.data.type).toBe('substation');
+      expect(sub.body.data.connections).toEqual(expect.arrayContaining(['feeder_gen', 'feeder_scada']));
+      expect(sub.body.data.dependencies).toContain('feeder_gen');
+
+      const scada = await request(app).get('/api/nodes/feeder_scada');
+      expect(scada.body.data.type).toBe('control_center');
+    });
+
+    it('POST /api/topology/import rejects dangling edges', async () => {
+      const res = await request(app)
+        .post('/api/topology/import')
+        .send({ nodes: topology.nodes, edges: [{ from: 'feeder_gen', to: 'missing', capacity: 10 }] });
+
+      expect(res.status).toBe(400);
+    });
+
+    it('DELETE /api/topology reverts to the synthetic grid', async () => {
+      const res = await request(app).delete('/api/topology');
+      expect(res.status).toBe(200);
+
+      const nodesRes = await request(app).get('/api/nodes');
+      expect(nodesRes.body.count).toBeGreaterThan(3);
+    });
+  });
+
+  describe('Incident Endpoints', () => {
+    it('POST /api/incidents/:id/archive moves closed incidents out of the active list', async () => {
+      const incident = incidentStore.createFromCascade('cascade-archive-test', 'node_0001', ['node_0001'], 0.8);
+
+      const early = await request(app).post(`/api/incidents/${incident.id}/archive`);
+      expect(early.status).toBe(409);
+
+      await request(app).post(`/api/incidents/${incident.id}/close`);
+      const res = await request(app).post(`/api/incidents/${incident.id}/archive`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.archivedAt).toBeDefined();
+
+      const active = await request(app).get('/api/incidents');
+      expect(active.body.data.map((i: { id: string }) => i.id)).not.toContain(incident.id);
+
+      const archived = await request(app).get('/api/incidents/archive');
+      expect(archived.body.data[0].id).toBe(incident.id);
+      expect(archived.body.data[0].status).toBe('closed');
+    });
+  });
+
+  describe('Alert Config Endpoints', () => {
+    const rule = {
+      name: 'Hot Transformer',
+      conditions: [{ metric: 'temperature', operator: 'gt', value: 90 }],
+      actions: [{ type: 'slack', target: 'https://hooks.slack.com/services/T/B/X', template: '{{title}}' }],
+      cooldownMinutes: 10,
+    };
+
+    it('POST /api/alerts/configs creates a persisted rule', async () => {
+      const res = await request(app).post('/api/alerts/configs').send({ id: 'hot_transformer', ...rule });
+
+      expect(res.status).toBe(201);
+      expect(res.body.data).toMatchObject({ id: 'hot_transformer', enabled: true });
+
+      // A fresh run rebuilds the AlertManager from storage
+      getSimulation().reset();
+      const listRes = await request(app).get('/api/alerts/configs');
+      expect(listRes.body.data.map((c: { id: string }) => c.id)).toContain('hot_transformer');
+    });
+
+    it('POST /api/alerts/configs rejects invalid rules', async () => {
+      const res = await request(app)
+        .post('/api/alerts/configs')
+        .send({ ...rule, conditions: [{ metric: 'temperature', operator: 'above', value: 90 }] });
+
+      expect(res.status).toBe(400);
+    });
+
+    it('POST /api/alerts/configs rejects action targets that do not fit the action type', async () => {
+      const targets = [
+        { type: 'webhook', target: 'ftp://hooks.example.com/alert' },
+        { type: 'slack', target: 'not a url' },
+        { type: 'email', target: 'ops@example.com, nobody' },
+        { type: 'email', target: 'ops@example.com\r\nRCPT TO:<x@example.com>' },
+      ];
+
+      for (const action of targets) {
+        const res = await request(app).post('/api/alerts/configs').send({ ...rule, actions: [action] });
+        expect(res.status).toBe(400);
+      }
+
+      const valid = await request(app).post('/api/alerts/configs').send({
+        ...rule,
+        actions: [{ type: 'email', target: 'ops@example.com, oncall@example.com' }],
+      });
+      expect(valid.status).toBe(201);
+    });
+
+    it('POST /api/alerts/configs accepts expression rules', async () => {
+      const res = await request(app).post('/api/alerts/configs').send({
+        ...rule,
+        id: 'cyber_north',
+        conditions: undefined,
+        expression: {
+          and: [
+            { metric: 'region', operator: 'eq', value: 'North' },
+            { or: [
+              { metric: 'temperature', fn: 'delta', window: 5, operator: 'gt', value: 2 },
+              { not: { metric: 'cyberStatus', operator: 'eq', value: 'secure' } },
+            ] },
+          ],
+        },
+      });
+      expect(res.status).toBe(201);
+
+      const invalid = await request(app).post('/api/alerts/configs').send({
+        ...rule,
+        conditions: [{ metric: 'region', operator: 'gt', value: 'North' }],
+      });
+      expect(invalid.status).toBe(400);
+
+      await request(app).delete('/api/alerts/configs/cyber_north');
+    });
+
+    it('POST /api/alerts/configs returns 409 for a duplicate ID', async () => {
+      const res = await request(app).post('/api/alerts/configs').send({ id: 'hot_transformer', ...rule });
+
+      expect(res.status).toBe(409);
+    });
+
+    it('PUT and PATCH /api/alerts/configs/:id update a rule', async () => {
+      const putRes = await request(app)
+        .put('/api/alerts/configs/hot_transformer')
+        .send({ ...rule, cooldownMinutes: 30 });
+      expect(putRes.body.data.cooldownMinutes).toBe(30);
+
+      const patchRes = await request(app)
+        .patch('/api/alerts/configs/hot_transformer')
+        .send({ enabled: false });
+      expect(patchRes.body.data.enabled).toBe(false);
+    });
+
+    it('PUT /api/alerts/configs/:id accepts a default rule saved unchanged', async () => {
+      const getRes = await request(app).get('/api/alerts/configs/alert_critical_risk');
+
+      const putRes = await request(app)
+        .put('/api/alerts/configs/alert_critical_risk')
+        .send(getRes.body.data);
+      expect(putRes.status).toBe(200);
+    });
+
+    it('DELETE /api/alerts/configs/:id removes a rule', async () => {
+      const res = await request(app).delete('/api/alerts/configs/hot_transformer');
+      expect(res.status).toBe(200);
+
+      getSimulation().reset();
+      const getRes = await request(app).get('/api/alerts/configs/hot_transformer');
+      expect(getRes.status).toBe(404);
+    });
+  });
+
+  describe('Alert Suppression Endpoints', () => {
+    it('POST /api/alerts/suppressions schedules a maintenance window', async () => {
+      const endsAt = new Date(Date.now() + 3600000).toISOString();
+      const res = await request(app)
+        .post('/api/alerts/suppressions')
+        .send({ region: 'North', endsAt, reason: 'Transformer swap' });
+
+      expect(res.status).toBe(201);
+      expect(res.body.data.id).toMatch(/^maint_/);
+
+      const listRes = await request(app).get('/api/alerts/suppressions');
+      expect(listRes.body.data.map((w: { id: string }) => w.id)).toContain(res.body.data.id);
+
+      const deleteRes = await request(app).delete(`/api/alerts/suppressions/${res.body.data.id}`);
+      expect(deleteRes.status).toBe(200);
+    });
+
+    it('POST /api/alerts/suppressions requires nodes or a region', async () => {
+      const res = await request(app)
+        .post('/api/alerts/suppressions')
+        .send({ endsAt: new Date(Date.now() + 3600000).toISOString() });
+
+      expect(res.status).toBe(400);
+    });
+
+    it('POST /api/alerts/:id/acknowledge returns 404 for unknown alerts', async () => {
+      const res = await request(app).post('/api/alerts/alert_missing/acknowledge').send({});
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('Run Replay', () => {
+    beforeEach(() => {
+      const sim = getSimulation();
+      sim.reset();
+      sim.tick();
+      sim.deployThreat({
+        type: 'cyber_attack',
+        severity: 0.8,
+        target: null,
+        active: true,
+        until: new Date(Date.now() + 60000),
+      });
+      sim.tick();
+      sim.triggerCascade(Object.keys(sim.getNodes())[0], 0.6);
+      sim.tick();
+    });
+
+    it('GET /api/system/run returns the seeded journal', async () => {
+      const res = await request(app).get('/api/system/run');
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.entries.map((e: { type: string }) => e.type))
+        .toEqual(['tick', 'deploy_threat', 'tick', 'cascade', 'tick']);
+    });
+
+    it('POST /api/system/replay reproduces the recorded run', async () => {
+      const digest = getSimulation().getStateDigest();
+
+      const res = await request(app).post('/api/system/replay').send({});
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.matches).toBe(true);
+      expect(res.body.data.ticks).toBe(3);
+      expect(res.body.data.digest).toBe(digest);
+    });
+
+    it('POST /api/system/replay reports the first divergent entry', async () => {
+      const run = getSimulation().getRunRecord();
+      run.entries[2] = { ...run.entries[2], digest: 'tampered' };
+
+      const res = await request(app).post('/api/system/replay').send({ run });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.matches).toBe(false);
+      expect(res.body.data.divergence).toMatchObject({ seq: 3, type: 'tick', expected: 'tampered' });
+    });
+
+    it('POST /api/system/replay leaves the live run untouched', async () => {
+      const sim = getSimulation();
+      const run = sim.getRunRecord();
+      const digest = sim.getStateDigest();
+      const predictions = sim.getPredictions().map((p) => p.id);
+
+      const res = await request(app).post('/api/system/replay').send({ run: { ...run, nodeCount: 20 } });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.matches).toBe(false);
+      expect(sim.getStateDigest()).toBe(digest);
+      expect(sim.getTickCount()).toBe(3);
+      expect(sim.getRunRecord().entries).toHaveLength(run.entries.length);
+      expect(sim.getPredictions().map((p) => p.id)).toEqual(predictions);
+    });
+
+    it('POST /api/system/replay rejects journal entries with malformed input', async () => {
+      const run = getSimulation().getRunRecord();
+      run.entries[3] = { ...run.entries[3], input: { originId: 42 } };
+
+      const res = await request(app).post('/api/system/replay').send({ run });
+
+      expect(res.status).toBe(400);
+    });
+
+    it('POST /api/system/replay reproduces a run that includes demo steps', async () => {
+      const sim = getSimulation();
+      expect(DemoService.runDemo('investor-demo').success).toBe(true);
+
+      try {
+        const { sequence } = DemoService.getDemoState();
+        sequence!.steps.forEach((_step, index) => {
+          DemoService.skipToStep(index);
+          sim.tick();
+        });
+        // Taken before awaiting, while the demo's own timers cannot fire
+        const run = sim.getRunRecord();
+        const digest = sim.getStateDigest();
+        expect(run.entries.filter((e) => e.type === 'demo_step')).toHaveLength(sequence!.steps.length);
+
+        const res = await request(app).post('/api/system/replay').send({ run });
+
+        expect(res.status).toBe(200);
+        expect(res.body.data.divergence).toBeNull();
+        expect(res.body.data.digest).toBe(digest);
+      } finally {
+        DemoService.resetDemo();
+      }
+    });
   });
 
   describe('Error Handling', () => {
@@ -0,0 +1,107 @@
+/**
+ * Sentinel Grid Backend - Contract End-to-End Tests
+ *
+ * Runs against a local Hardhat node with DataAnchor deployed, and is
+ * skipped unless HARDHAT_E2E=true:
+ *
+ *   cd packages/contracts && npx hardhat node
+ *   cd packages/contracts && npm run deploy:local
+ *   HARDHAT_E2E=true CONTRACT_ADDRESS=<DataAnchor address> npx jest contract.e2e
+ */
+
+import { randomBytes } from 'crypto';
+import request from 'supertest';
+import type { Express } from 'express';
+
+// Hardhat account #0, funded on every local node
+const HARDHAT_PRIVATE_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const API_KEY = 'test-api-key';
+
+const describeE2E = process.env.HARDHAT_E2E === 'true' ? describe : describe.skip;
+
+describeE2E('Contract flow against a local Hardhat node', () => {
+  let app: Express;
+  const payloadHash = randomBytes(32).toString('hex');
+  let anchorId: string;
+
+  const api = {
+    get: (path: string) => request(app).get(path).set('x-api-key', API_KEY),
+    post: (path: string, body: object = {}) => request(app).post(path).set('x-api-key', API_KEY).send(body),
+  };
+
+  beforeAll(async () => {
+    if (!process.env.CONTRACT_ADDRESS) {
+      throw new Error('Set CONTRACT_ADDRESS to the DataAnchor address from npm run deploy:local');
+    }
+    process.env.ENABLE_BLOCKCHAIN = 'true';
+    process.env.PRIVATE_KEY ??= HARDHAT_PRIVATE_KEY;
+
+    // Config is read on import, so load the app after the env is set
+    const { initializeSchema } = await import('../src/db/index.js');
+    const { createApp } = await import('../src/app.js');
+    initializeSchema();
+    app = createApp();
+  });
+
+  afterAll(async () => {
+    const { getContract } = await import('../src/services/contract.js');
+    getContract().disconnect();
+  });
+
+  it('connects to the local chain', async () => {
+    const res = await api.post('/api/contract/connect', { chain: 'local' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.connected).toBe(true);
+    expect(res.body.data.chainId).toBe(31337);
+    expect(res.body.data.contractAddress).toBe(process.env.CONTRACT_ADDRESS);
+  });
+
+  it('submits pending anchors', async () => {
+    const created = await request(app)
+      .post('/api/anchor')
+      .send({ payloadHash, ipfsCid: 'bafybeigdyrzt5sfp7udm7hu76uh7y26nf3efuylqabf3oclgtqy55fbzdi', chain: 'local' });
+    anchorId = created.body.data.id;
+
+    const status = await api.get('/api/contract/status');
+    expect(status.body.data.pendingAnchors).toBeGreaterThanOrEqual(1);
+
+    const res = await api.post('/api/contract/anchor/submit-pending');
+
+    expect(res.status).toBe(202);
+    const result = res.body.data.results.find((r: { anchorId: string }) => r.anchorId === anchorId);
+    expect(result.txHash).toMatch(/^0x[0-9a-f]{64}$/);
+
+    const anchor = await request(app).get(`/api/anchors/${anchorId}`);
+    expect(anchor.body.data.status).toBe('submitted');
+    expect(anchor.body.data.confirmedAt).toBeUndefined();
+  });
+
+  it('confirms submitted anchors from their receipts', async () => {
+    let confirmed: string[] = [];
+    for (let attempt = 0; attempt < 10 && !confirmed.includes(anchorId); attempt++) {
+      const res = await api.post('/api/contract/anchor/confirm');
+      expect(res.status).toBe(200);
+      confirmed = confirmed.concat(res.body.data.confirmed);
+      if (!confirmed.includes(anchorId)) await new Promise((resolve) => setTimeout(resolve, 500));
+    }
+
+    const anchor = await request(app).get(`/api/anchors/${anchorId}`);
+    expect(anchor.body.data.status).toBe('confirmed');
+    expect(anchor.body.data.txHash).toMatch(/^0x[0-9a-f]{64}$/);
+    expect(new Date(anchor.body.data.confirmedAt).getTime()).not.toBeNaN();
+  });
+
+  it('verifies the anchor on-chain and refuses to resubmit it', async () => {
+    const verify = await api.post('/api/contract/anchor/verify', { payloadHash });
+
+    expect(verify.status).toBe(200);
+    expect(verify.body.data.onChain).toBe(true);
+
+    const onChain = await api.get(`/api/contract/anchor/${payloadHash}`);
+    expect(onChain.body.data.ipfsCid).toBe('bafybeigdyrzt5sfp7udm7hu76uh7y26nf3efuylqabf3oclgtqy55fbzdi');
+
+    const resubmit = await api.post('/api/contract/anchor/submit', { anchorId });
+    expect(resubmit.status).toBe(409);
+  });
+});
@@ -0,0 +1,299 @@
+/**
+ * Sentinel Grid Backend - Database Layer Tests
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { verifyAuditChain, type AuditChainEntry } from '@sentinel-grid/predictive-engine';
+import {
+  openDatabase,
+  runMigrations,
+  createSqliteRepositories,
+  createMemoryRepositories,
+  MIGRATIONS,
+  type Repositories,
+} from '../src/db/index.js';
+
+function seed(repos: Repositories): void {
+  repos.auditRepo.insert.run({
+    id: 'audit-1',
+    timestamp: '2024-01-01T00:00:00.000Z',
+    type: 'cascade_event',
+    hash: 'abc',
+    dataSummary: '{"affected":3}',
+  });
+  repos.anchorsRepo.insert.run({
+    id: 'anchor-1',
+    payloadHash: '0xdead',
+    chain: 'hardhat',
+    status: 'pending',
+  });
+  repos.mitigationsRepo.insert.run({
+    id: 'mit-1',
+    nodeId: 'node_0001',
+    nodeName: 'North Substation',
+    actions: '[]',
+    riskBefore: 0.9,
+    riskAfter: 0.5,
+    riskReduction: 0.4,
+    success: 1,
+    triggeredBy: 'manual',
+  });
+}
+
+describe('Database Layer', () => {
+  describe('Migrations', () => {
+    it('applies every migration once and records the version', () => {
+      const db = openDatabase(':memory:');
+      const latest = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+      expect(runMigrations(db)).toBe(latest);
+      expect(runMigrations(db)).toBe(latest);
+
+      const applied = db.prepare('SELECT version FROM schema_migrations').all();
+      expect(applied).toHaveLength(MIGRATIONS.length);
+      db.close();
+    });
+
+    it('only runs migrations newer than the stored version', () => {
+      const db = openDatabase(':memory:');
+      runMigrations(db);
+
+      const version = runMigrations(db, [
+        ...MIGRATIONS,
+        { version: 999, name: 'test_column', up: 'ALTER TABLE anchors ADD COLUMN note TEXT' },
+      ]);
+
+      expect(version).toBe(999);
+      const columns = db.prepare('PRAGMA table_info(anchors)').all() as Array<{ name: string }>;
+      expect(columns.map((c) => c.name)).toContain('note');
+      db.close();
+    });
+
+    it('drops the relative webhook targets from stored default alert rules', () => {
+      const db = openDatabase(':memory:');
+      runMigrations(db, MIGRATIONS.filter((m) => m.version <= 5));
+
+      const insert = db.prepare('INSERT INTO alert_configs (id, data, updated_at) VALUES (?, ?, ?)');
+      const stored = (id: string, actions: unknown[]) =>
+        insert.run(id, JSON.stringify({ id, enabled: true, actions }), '2024-01-01T00:00:00.000Z');
+      stored('alert_critical_risk', [
+        { type: 'log', target: 'system' },
+        { type: 'webhook', target: '/api/alerts' },
+      ]);
+      stored('custom_hook', [{ type: 'webhook', target: 'https://hooks.example.com/grid' }]);
+
+      runMigrations(db);
+
+      const actions = (id: string) => JSON.parse(
+        (db.prepare('SELECT data FROM alert_configs WHERE id = ?').get(id) as { data: string }).data
+      ).actions;
+      expect(actions('alert_critical_risk')).toEqual([{ type: 'log', target: 'system' }]);
+      expect(actions('custom_hook')).toEqual([{ type: 'webhook', target: 'https://hooks.example.com/grid' }]);
+      db.close();
+    });
+  });
+
+  describe('SQLite repositories', () => {
+    it('return the same record shape as the in-memory tables', () => {
+      const db = openDatabase(':memory:');
+      runMigrations(db);
+      const sqlite = createSqliteRepositories(() => db);
+      const memory = createMemoryRepositories();
+      seed(sqlite);
+      seed(memory);
+
+      const strip = ({ createdAt, ...rest }: { createdAt: string }) => rest;
+      expect(strip(sqlite.auditRepo.getAll.all()[0])).toEqual(strip(memory.auditRepo.getAll.all()[0]));
+      expect(strip(sqlite.anchorsRepo.getById.get('anchor-1')!))
+        .toEqual(strip(memory.anchorsRepo.getById.get('anchor-1')!));
+      expect(sqlite.mitigationsRepo.getByNode.all('node_0001')[0].success).toBe(true);
+      db.close();
+    });
+
+    it('updates anchor status', () => {
+      const db = openDatabase(':memory:');
+      runMigrations(db);
+      const repos = createSqliteRepositories(() => db);
+      seed(repos);
+
+      expect(repos.anchorsRepo.getPending.all()).toHaveLength(1);
+      repos.anchorsRepo.updateStatus.run('confirmed', '0xtx', '2024-01-01T00:01:00.000Z', 'anchor-1');
+
+      const anchor = repos.anchorsRepo.getById.get('anchor-1')!;
+      expect(anchor.status).toBe('confirmed');
+      expect(anchor.txHash).toBe('0xtx');
+      expect(repos.anchorsRepo.getPending.all()).toHaveLength(0);
+      db.close();
+    });
+
+    it('finds the last anchor by confirmation time, not creation time', () => {
+      const db = openDatabase(':memory:');
+      runMigrations(db);
+
+      [createSqliteRepositories(() => db), createMemoryRepositories()].forEach((repos) => {
+        seed(repos);
+        repos.anchorsRepo.insert.run({ id: 'anchor-2', payloadHash: '0xbeef', chain: 'hardhat', status: 'pending' });
+        expect(repos.anchorsRepo.getLastConfirmed.get()).toBeUndefined();
+
+        repos.anchorsRepo.updateStatus.run('confirmed', '0xlate', '2024-01-01T00:05:00.000Z', 'anchor-1');
+        repos.anchorsRepo.updateStatus.run('confirmed', '0xearly', '2024-01-01T00:01:00.000Z', 'anchor-2');
+        expect(repos.anchorsRepo.getLastConfirmed.get()?.txHash).toBe('0xlate');
+      });
+      db.close();
+    });
+
+    it('chains audit entries and refuses to edit or delete them', () => {
+      const db = openDatabase(':memory:');
+      runMigrations(db);
+      const sqlite = createSqliteRepositories(() => db);
+      const memory = createMemoryRepositories();
+
+      [sqlite, memory].forEach((repos) => {
+        seed(repos);
+        repos.auditRepo.insert.run({ id: 'audit-2', timestamp: '2024-01-01T00:01:00.000Z', type: 'config_changed', hash: 'def' });
+
+        expect(() => repos.auditRepo.insert.run({ id: 'audit-1', timestamp: '2024-01-01T00:02:00.000Z', type: 'forged', hash: 'x' }))
+          .toThrow();
+        expect(verifyAuditChain(repos.auditRepo.getChain.all() as AuditChainEntry[])).toMatchObject({ valid: true, headSeq: 2 });
+      });
+
+      expect(sqlite.auditRepo.getChain.all().map((e) => e.chainHash))
+        .toEqual(memory.auditRepo.getChain.all().map((e) => e.chainHash));
+      expect(() => db.prepare("UPDATE audit_log SET type = 'edited' WHERE id = 'audit-1'").run()).toThrow(/append-only/);
+      expect(() => db.prepare("DELETE FROM audit_log WHERE id = 'audit-1'").run()).toThrow(/append-only/);
+
+      // Tampering that bypasses the triggers is caught by the chain
+      db.exec('DROP TRIGGER audit_log_no_update');
+      db.prepare("UPDATE audit_log SET data_summary = '{\"affected\":0}' WHERE id = 'audit-1'").run();
+      expect(verifyAuditChain(sqlite.auditRepo.getChain.all() as AuditChainEntry[]).firstBreak)
+        .toMatchObject({ seq: 1, id: 'audit-1', reason: 'modified' });
+      db.close();
+    });
+
+    it('stores Merkle batches with one proof per record', () => {
+      const db = openDatabase(':memory:');
+      runMigrations(db);
+      const sqlite = createSqliteRepositories(() => db);
+      const memory = createMemoryRepositories();
+
+      [sqlite, memory].forEach((repos) => {
+        repos.merkleRepo.insertBatch.run({ id: 'batch-1', root: 'ab'.repeat(32), leafCount: 2 }, [
+          { itemType: 'audit', itemId: 'audit-1', batchId: 'batch-1', leafIndex: 0, leafHash: '01', leafData: '{}', proof: '[]' },
+          { itemType: 'prediction', itemId: 'audit-1', batchId: 'batch-1', leafIndex: 1, leafHash: '02', leafData: '{}', proof: '[]' },
+        ]);
+        repos.merkleRepo.setBatchAnchor.run('anchor-1', 'batch-1');
+      });
+
+      const strip = ({ createdAt, ...rest }: { createdAt: string }) => rest;
+      expect(strip(sqlite.merkleRepo.getBatch.get('batch-1')!)).toEqual(strip(memory.merkleRepo.getBatch.get('batch-1')!));
+      expect(sqlite.merkleRepo.getBatch.get('batch-1')!.anchorId).toBe('anchor-1');
+      expect(sqlite.merkleRepo.getProof.get('prediction', 'audit-1')).toEqual(memory.merkleRepo.getProof.get('prediction', 'audit-1'));
+      expect(sqlite.merkleRepo.getProof.get('prediction', 'audit-1')!.leafIndex).toBe(1);
+      expect(sqlite.merkleRepo.getProof.get('incident', 'audit-1')).toBeUndefined();
+      db.close();
+    });
+
+    it('archives only incidents closed before the cutoff', () => {
+      const db = openDatabase(':memory:');
+      runMigrations(db);
+      const repos = createSqliteRepositories(() => db);
+
+      const incident = (id: string, status: string, endedAt?: string) => ({
+        id,
+        startedAt: '2024-01-01T00:00:00.000Z',
+        endedAt,
+        status,
+        severity: 'high',
+        data: JSON.stringify({ id, status }),
+      });
+      repos.incidentsRepo.upsert.run(incident('INC-OLD', 'closed', '2024-01-02T00:00:00.000Z'));
+      repos.incidentsRepo.upsert.run(incident('INC-NEW', 'closed', '2024-03-01T00:00:00.000Z'));
+      repos.incidentsRepo.upsert.run(incident('INC-OPEN', 'open'));
+
+      const archived = repos.incidentsRepo.archiveClosedBefore.run('2024-02-01T00:00:00.000Z', '2024-02-01T00:00:00.000Z');
+
+      expect(archived).toBe(1);
+      expect(repos.incidentsRepo.getArchived.all(10).map((i) => i.id)).toEqual(['INC-OLD']);
+      expect(repos.incidentsRepo.getActive.all().map((i) => i.id).sort()).toEqual(['INC-NEW', 'INC-OPEN']);
+      expect(repos.incidentsRepo.archive.run('2024-02-01T00:00:00.000Z', 'INC-OPEN')).toBe(0);
+      db.close();
+    });
+
+    it('prunes logs by age and count within a category', () => {
+      const repos = [createMemoryRepositories(), (() => {
+        const db = openDatabase(':memory:');
+        runMigrations(db);
+        return createSqliteRepositories(() => db);
+      })()];
+
+      repos.forEach(({ logsRepo }) => {
+        ['2024-01-01', '2024-01-05', '2024-01-06', '2024-01-07'].forEach((day, i) => {
+          logsRepo.insert.run({
+            id: `log-${i}`,
+            timestamp: `${day}T00:00:00.000Z`,
+            source: 'system',
+            category: 'api',
+            message: `entry ${i}`,
+          });
+        });
+        logsRepo.insert.run({
+          id: 'log-keep',
+          timestamp: '2023-01-01T00:00:00.000Z',
+          source: 'operator',
+          category: 'incident',
+          message: 'handover note',
+        });
+
+        const removed = logsRepo.pruneCategory.run('api', '2024-01-02T00:00:00.000Z', 2);
+
+        expect(removed).toBe(2);
+        expect(logsRepo.getAll.all().map((l) => l.id)).toEqual(['log-2', 'log-3', 'log-keep']);
+        expect(logsRepo.query.all({ category: 'api', limit: 1 }).map((l) => l.id)).toEqual(['log-3']);
+      });
+    });
+
+    it('keeps removed alert configs as tombstones', () => {
+      const db = openDatabase(':memory:');
+      runMigrations(db);
+      const repos = [createMemoryRepositories(), createSqliteRepositories(() => db)];
+
+      repos.forEach(({ alertConfigsRepo }) => {
+        alertConfigsRepo.upsert.run('rule-a', '{"id":"rule-a"}', '2024-01-01T00:00:00.000Z');
+        alertConfigsRepo.upsert.run('rule-b', '{"id":"rule-b"}', '2024-01-01T00:00:00.000Z');
+
+        expect(alertConfigsRepo.remove.run('rule-a', '2024-01-02T00:00:00.000Z')).toBe(1);
+        expect(alertConfigsRepo.remove.run('rule-a', '2024-01-02T00:00:00.000Z')).toBe(0);
+        expect(alertConfigsRepo.getAll.all().map((c) => c.id)).toEqual(['rule-b']);
+        expect(alertConfigsRepo.count.get()).toBe(2);
+
+        alertConfigsRepo.upsert.run('rule-a', '{"id":"rule-a"}', '2024-01-03T00:00:00.000Z');
+        expect(alertConfigsRepo.getAll.all().map((c) => c.id)).toEqual(['rule-a', 'rule-b']);
+      });
+      db.close();
+    });
+
+    it('persists records across connections', () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sentinel-db-'));
+      const dbPath = path.join(dir, 'nested', 'sentinel.db');
+
+      const first = openDatabase(dbPath);
+      runMigrations(first);
+      const firstRepos = createSqliteRepositories(() => first);
+      seed(firstRepos);
+      firstRepos.topologyRepo.set.run('{"nodes":[],"edges":[]}', '2024-01-01T00:00:00.000Z');
+      first.close();
+
+      const second = openDatabase(dbPath);
+      runMigrations(second);
+      const repos = createSqliteRepositories(() => second);
+      expect(repos.auditRepo.getByType.all('cascade_event')).toHaveLength(1);
+      expect(repos.anchorsRepo.getAll.all()[0].payloadHash).toBe('0xdead');
+      expect(repos.topologyRepo.get.get()?.importedAt).toBe('2024-01-01T00:00:00.000Z');
+      second.close();
+
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+  });
+});
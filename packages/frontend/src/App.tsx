@@ -408,6 +408,8 @@ export default function App() {
                 <NetworkTab
                   nodes={nodesList}
                   patterns={patterns}
+                  predictions={predictions}
+                  cascades={cascades}
                   onMitigate={actions.mitigate}
                 />
               )}
@@ -1,11 +1,24 @@
 /**
  * AlertsTab - Alert Management with proper error handling
- * Shows status, severity, source, and linked incidents
+ * Shows status, severity, source, and linked incidents, plus the rule
+ * editor backed by /api/alerts/configs
  */
 
-import { useState, useMemo } from 'react';
-import { Bell, CheckCircle, Clock, AlertTriangle, Filter, Brain, User, Link2, Download } from 'lucide-react';
-import type { Alert } from '../types';
+import { useState, useMemo, useEffect, useCallback } from 'react';
+import {
+  Bell, CheckCircle, Clock, AlertTriangle, Filter, Brain, User, Link2, Download,
+  SlidersHorizontal, Plus, Pencil, Trash2, X,
+} from 'lucide-react';
+import { api, type AlertConfigInput } from '../services/api';
+import type {
+  Alert,
+  AlertConfig,
+  AlertCondition,
+  AlertAction,
+  AlertConditionOperator,
+  AlertExpression,
+  AlertActionType,
+} from '../types';
 
 interface AlertsTabProps {
   alerts: Alert[];
@@ -33,7 +46,64 @@ const sourceIcons: Record<string, { label: string; icon: typeof Brain }> = {
   external: { label: 'External', icon: Link2 },
 };
 
+const metricOptions: { value: string; label: string; scope: string }[] = [
+  { value: 'riskScore', label: 'Risk score', scope: 'Node' },
+  { value: 'health', label: 'Health', scope: 'Node' },
+  { value: 'loadRatio', label: 'Load ratio', scope: 'Node / System' },
+  { value: 'temperature', label: 'Temperature', scope: 'Node' },
+  { value: 'probability', label: 'Probability', scope: 'Prediction' },
+  { value: 'hoursToEvent', label: 'Hours to event', scope: 'Prediction' },
+  { value: 'confidence', label: 'Confidence', scope: 'Prediction' },
+  { value: 'systemHealth', label: 'System health', scope: 'System' },
+  { value: 'maxRisk', label: 'Max risk', scope: 'System' },
+  { value: 'criticalCount', label: 'Critical nodes', scope: 'System' },
+];
+
+const operatorLabels: Record<AlertConditionOperator, string> = {
+  gt: '>',
+  gte: '≥',
+  lt: '<',
+  lte: '≤',
+  eq: '=',
+};
+
+const describeCondition = (c: AlertCondition): string => {
+  const subject = c.fn ? `${c.fn}(${c.metric}, ${c.window ?? 5})` : c.metric;
+  const value = typeof c.value === 'string' ? `'${c.value}'` : c.value;
+  return `${subject} ${operatorLabels[c.operator]} ${value}${c.duration ? ` for ${c.duration}s` : ''}`;
+};
+
+const describeExpression = (e: AlertExpression, nested = false): string => {
+  if ('not' in e) return `NOT ${describeExpression(e.not, true)}`;
+  if ('and' in e || 'or' in e) {
+    const [parts, joiner] = 'and' in e ? [e.and, ' AND '] : [e.or, ' OR '];
+    const text = parts.map((p) => describeExpression(p, true)).join(joiner);
+    return nested && parts.length > 1 ? `(${text})` : text;
+  }
+  return describeCondition(e);
+};
+
+const actionTargetPlaceholders: Record<AlertActionType, string> = {
+  log: 'system',
+  webhook: 'https://example.com/hooks/sentinel',
+  slack: 'https://hooks.slack.com/services/...',
+  email: 'ops@example.com, oncall@example.com',
+};
+
+interface RuleDraft extends AlertConfigInput {
+  id?: string;
+}
+
+const emptyDraft = (): RuleDraft => ({
+  name: '',
+  enabled: true,
+  conditions: [{ metric: 'riskScore', operator: 'gt', value: 0.8 }],
+  actions: [{ type: 'log', target: 'system' }],
+  cooldownMinutes: 5,
+});
+
 export function AlertsTab({ alerts }: AlertsTabProps) {
+  const [showRules, setShowRules] = useState(false);
   const [statusFilter, setStatusFilter] = useState<AlertStatusFilter>('all');
   const [severityFilter, setSeverityFilter] = useState<AlertSeverityFilter>('all');
   const [isExporting, setIsExporting] = useState(false);
@@ -130,17 +200,32 @@ export function AlertsTab({ alerts }: AlertsTabProps) {
           </div>
         </div>
         
-        {/* Export Button */}
-        <button
-          onClick={handleExport}
-          disabled={isExporting}
-          className="flex items-center gap-2 px-3 py-1.5 text-xs bg-slate-700 hover:bg-slate-600 text-slate-300 rounded transition-colors disabled:opacity-50"
-        >
-          <Download className="w-3.5 h-3.5" />
-          {isExporting ? 'Exporting...' : 'Export Logs'}
-        </button>
+        <div className="flex items-center gap-2">
+          {/* Rules Toggle */}
+          <button
+            onClick={() => setShowRules((v) => !v)}
+            className="flex items-center gap-2 px-3 py-1.5 text-xs bg-slate-700 hover:bg-slate-600 text-slate-300 rounded transition-colors"
+            aria-expanded={showRules}
+          >
+            <SlidersHorizontal className="w-3.5 h-3.5" />
+            {showRules ? 'Hide Rules' : 'Alert Rules'}
+          </button>
+
+          {/* Export Button */}
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="flex items-center gap-2 px-3 py-1.5 text-xs bg-slate-700 hover:bg-slate-600 text-slate-300 rounded transition-colors disabled:opacity-50"
+          >
+            <Download className="w-3.5 h-3.5" />
+            {isExporting ? 'Exporting...' : 'Export Logs'}
+          </button>
+        </div>
       </div>
 
+      {/* ========== ALERT RULES ========== */}
+      {showRules && <AlertRulesPanel />}
+
       {/* ========== FILTERS ========== */}
       <div className="flex flex-wrap items-center gap-4">
         <div className="flex items-center gap-2">
@@ -241,6 +326,14 @@ export function AlertsTab({ alerts }: AlertsTabProps) {
                         <span>{source.label}</span>
                       </div>
 
+                      {/* Grouped / escalated */}
+                      {alert.groupKey && alert.nodeIds.length > 1 && (
+                        <span className="text-xs text-slate-400">{alert.nodeIds.length} nodes</span>
+                      )}
+                      {!!alert.escalationLevel && (
+                        <span className="text-xs text-orange-400">Escalated ×{alert.escalationLevel}</span>
+                      )}
+
                       {/* Node ID */}
                       {alert.nodeId && (
                         <span className="text-xs text-slate-500">
@@ -270,3 +363,301 @@ export function AlertsTab({ alerts }: AlertsTabProps) {
     </div>
   );
 }
+
+// ============================================================================
+// Alert Rules Editor
+// ============================================================================
+
+function AlertRulesPanel() {
+  const [configs, setConfigs] = useState<AlertConfig[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [draft, setDraft] = useState<RuleDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchConfigs = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const res = await api.alerts.listConfigs();
+      setConfigs(res.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load alert rules');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchConfigs();
+  }, [fetchConfigs]);
+
+  const handleToggle = async (config: AlertConfig) => {
+    try {
+      await api.alerts.toggleConfig(config.id, !config.enabled);
+      await fetchConfigs();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update rule');
+    }
+  };
+
+  const handleDelete = async (config: AlertConfig) => {
+    if (!window.confirm(`Delete alert rule "${config.name}"?`)) return;
+    try {
+      await api.alerts.deleteConfig(config.id);
+      await fetchConfigs();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete rule');
+    }
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const { id, ...body } = draft;
+      if (id) {
+        await api.alerts.updateConfig(id, body);
+      } else {
+        await api.alerts.createConfig(body);
+      }
+      setDraft(null);
+      await fetchConfigs();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save rule');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const updateCondition = (index: number, changes: Partial<AlertCondition>) => {
+    setDraft((d) => d && {
+      ...d,
+      conditions: d.conditions.map((c, i) => (i === index ? { ...c, ...changes } : c)),
+    });
+  };
+
+  const updateAction = (index: number, changes: Partial<AlertAction>) => {
+    setDraft((d) => d && {
+      ...d,
+      actions: d.actions.map((a, i) => (i === index ? { ...a, ...changes } : a)),
+    });
+  };
+
+  const canSave = !!draft
+    && draft.name.trim().length > 0
+    && (draft.conditions.length > 0 || !!draft.expression)
+    && draft.actions.length > 0
+    && draft.conditions.every((c) => Number.isFinite(c.value))
+    && draft.actions.every((a) => a.target.trim().length > 0);
+
+  return (
+    <div className="surface-card p-4 rounded-lg space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-slate-200">Alert Rules</h3>
+        {!draft && (
+          <button onClick={() => setDraft(emptyDraft())} className="btn-secondary btn-small flex items-center gap-1">
+            <Plus className="w-3.5 h-3.5" aria-hidden="true" />
+            New Rule
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <p className="text-xs text-red-400" role="alert">{error}</p>
+      )}
+
+      {/* Rule List */}
+      {!draft && (
+        isLoading && configs.length === 0 ? (
+          <p className="text-xs text-slate-500">Loading rules...</p>
+        ) : configs.length === 0 ? (
+          <p className="text-xs text-slate-500">No alert rules configured.</p>
+        ) : (
+          <div className="space-y-2">
+            {configs.map((config) => (
+              <div key={config.id} className="flex items-center gap-4 p-3 bg-slate-800/50 rounded border border-slate-700">
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={config.enabled}
+                    onChange={() => handleToggle(config)}
+                    aria-label={`${config.enabled ? 'Disable' : 'Enable'} ${config.name}`}
+                  />
+                </label>
+                <div className="flex-1 min-w-0">
+                  <p className={`text-sm ${config.enabled ? 'text-slate-200' : 'text-slate-500'}`}>{config.name}</p>
+                  <p className="text-xs text-slate-500 truncate">
+                    {describeExpression(config.expression ?? { and: config.conditions })}
+                    {' · '}
+                    {config.actions.map((a) => a.type).join(', ')}
+                    {' · '}
+                    {config.cooldownMinutes}m cooldown
+                  </p>
+                </div>
+                <button
+                  onClick={() => setDraft({ ...config })}
+                  className="btn-ghost btn-small"
+                  aria-label={`Edit ${config.name}`}
+                >
+                  <Pencil className="w-3.5 h-3.5" aria-hidden="true" />
+                </button>
+                <button
+                  onClick={() => handleDelete(config)}
+                  className="btn-ghost btn-small text-red-400"
+                  aria-label={`Delete ${config.name}`}
+                >
+                  <Trash2 className="w-3.5 h-3.5" aria-hidden="true" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )
+      )}
+
+      {/* Rule Editor */}
+      {draft && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-[1fr_auto] gap-3">
+            <input
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder="Rule name"
+              className="input-field text-sm"
+              aria-label="Rule name"
+            />
+            <label className="flex items-center gap-2 text-xs text-slate-400">
+              Cooldown (min)
+              <input
+                type="number"
+                min={0}
+                max={1440}
+                value={draft.cooldownMinutes}
+                onChange={(e) => setDraft({ ...draft, cooldownMinutes: Number(e.target.value) })}
+                className="input-field text-sm w-20"
+              />
+            </label>
+          </div>
+
+          {/* Conditions */}
+          {draft.expression ? (
+            <div className="space-y-2">
+              <p className="text-xs font-medium text-slate-400 uppercase tracking-wide">Expression</p>
+              <p className="text-xs font-mono text-slate-300 break-words">{describeExpression(draft.expression)}</p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <p className="text-xs font-medium text-slate-400 uppercase tracking-wide">Conditions (all must match)</p>
+              {draft.conditions.map((condition, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <select
+                    value={condition.metric}
+                    onChange={(e) => updateCondition(index, { metric: e.target.value })}
+                    className="select-field text-sm py-1.5"
+                    aria-label="Metric"
+                  >
+                    {metricOptions.map((m) => (
+                      <option key={m.value} value={m.value}>{m.label} ({m.scope})</option>
+                    ))}
+                  </select>
+                  <select
+                    value={condition.operator}
+                    onChange={(e) => updateCondition(index, { operator: e.target.value as AlertConditionOperator })}
+                    className="select-field text-sm py-1.5 w-20"
+                    aria-label="Operator"
+                  >
+                    {(Object.keys(operatorLabels) as AlertConditionOperator[]).map((op) => (
+                      <option key={op} value={op}>{operatorLabels[op]}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    step="any"
+                    value={condition.value}
+                    onChange={(e) => updateCondition(index, { value: parseFloat(e.target.value) })}
+                    className="input-field text-sm py-1.5 w-28"
+                    aria-label="Threshold"
+                  />
+                  <button
+                    onClick={() => setDraft({ ...draft, conditions: draft.conditions.filter((_, i) => i !== index) })}
+                    className="btn-ghost btn-small"
+                    aria-label="Remove condition"
+                    disabled={draft.conditions.length === 1}
+                  >
+                    <X className="w-3.5 h-3.5" aria-hidden="true" />
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={() => setDraft({ ...draft, conditions: [...draft.conditions, { metric: 'riskScore', operator: 'gt', value: 0.8 }] })}
+                className="btn-ghost btn-small flex items-center gap-1"
+              >
+                <Plus className="w-3.5 h-3.5" aria-hidden="true" />
+                Condition
+              </button>
+            </div>
+          )}
+
+          {/* Actions */}
+          <div className="space-y-2">
+            <p className="text-xs font-medium text-slate-400 uppercase tracking-wide">Actions</p>
+            {draft.actions.map((action, index) => (
+              <div key={index} className="grid grid-cols-[8rem_1fr_1fr_auto] gap-2 items-center">
+                <select
+                  value={action.type}
+                  onChange={(e) => updateAction(index, { type: e.target.value as AlertActionType })}
+                  className="select-field text-sm py-1.5"
+                  aria-label="Action type"
+                >
+                  <option value="log">Log</option>
+                  <option value="webhook">Webhook</option>
+                  <option value="slack">Slack</option>
+                  <option value="email">Email</option>
+                </select>
+                <input
+                  value={action.target}
+                  onChange={(e) => updateAction(index, { target: e.target.value })}
+                  placeholder={actionTargetPlaceholders[action.type]}
+                  className="input-field text-sm py-1.5"
+                  aria-label="Action target"
+                />
+                <input
+                  value={action.template ?? ''}
+                  onChange={(e) => updateAction(index, { template: e.target.value || undefined })}
+                  placeholder="Template, e.g. [{{severity}}] {{title}}"
+                  className="input-field text-sm py-1.5"
+                  aria-label="Message template"
+                />
+                <button
+                  onClick={() => setDraft({ ...draft, actions: draft.actions.filter((_, i) => i !== index) })}
+                  className="btn-ghost btn-small"
+                  aria-label="Remove action"
+                  disabled={draft.actions.length === 1}
+                >
+                  <X className="w-3.5 h-3.5" aria-hidden="true" />
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={() => setDraft({ ...draft, actions: [...draft.actions, { type: 'webhook', target: '' }] })}
+              className="btn-ghost btn-small flex items-center gap-1"
+            >
+              <Plus className="w-3.5 h-3.5" aria-hidden="true" />
+              Action
+            </button>
+          </div>
+
+          <div className="flex items-center justify-end gap-2">
+            <button onClick={() => setDraft(null)} className="btn-ghost btn-small">
+              Cancel
+            </button>
+            <button onClick={handleSave} disabled={!canSave || isSaving} className="btn-primary btn-small">
+              {isSaving ? 'Saving...' : draft.id ? 'Save Rule' : 'Create Rule'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
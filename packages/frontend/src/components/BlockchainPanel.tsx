@@ -4,22 +4,28 @@
  */
 
 import { useState, useEffect, useCallback } from 'react';
-import { Link2, Check, X, RefreshCw, ExternalLink } from 'lucide-react';
-import { api } from '../services/api';
+import { Link2, Check, X, RefreshCw, ExternalLink, KeyRound, LogOut } from 'lucide-react';
+import { api, ApiError } from '../services/api';
 
 interface ContractStatus {
   connected: boolean;
-  chain: string;
-  contractAddress?: string;
-  lastAnchor?: string;
+  chain: string | null;
+  contractAddress: string | null;
+  lastAnchor: string | null;
   pendingAnchors: number;
+  submittedAnchors: number;
 }
 
+// Why the status could not be loaded
+type PanelError = 'disabled' | 'signed-out' | 'unconfigured';
+
 export function BlockchainPanel() {
   const [status, setStatus] = useState<ContractStatus | null>(null);
   const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<PanelError | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [apiKey, setApiKey] = useState('');
+  const [loginError, setLoginError] = useState<string | null>(null);
 
   const fetchStatus = useCallback(async () => {
     setIsLoading(true);
@@ -28,8 +34,10 @@ export function BlockchainPanel() {
       const res = await api.contract.status();
       setStatus(res.data);
     } catch (err) {
-      // Blockchain might be disabled
-      setError('Blockchain disabled');
+      const code = err instanceof ApiError ? err.status : 0;
+      if (code === 401 || code === 403) setError('signed-out');
+      else if (code === 503) setError('unconfigured');
+      else setError('disabled'); // Blockchain might be disabled
       setStatus(null);
     } finally {
       setIsLoading(false);
@@ -56,11 +64,69 @@ export function BlockchainPanel() {
     }
   };
 
-  const truncateAddress = (addr?: string) => {
+  const handleLogin = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setLoginError(null);
+    try {
+      await api.auth.login(apiKey);
+      setApiKey('');
+      await fetchStatus();
+    } catch (err) {
+      setLoginError(err instanceof Error ? err.message : 'Sign-in failed');
+    }
+  };
+
+  const handleLogout = async () => {
+    await api.auth.logout().catch(() => undefined);
+    await fetchStatus();
+  };
+
+  const truncateAddress = (addr?: string | null) => {
     if (!addr) return 'N/A';
     return `${addr.slice(0, 6)}...${addr.slice(-4)}`;
   };
 
+  if (error === 'signed-out') {
+    return (
+      <form onSubmit={handleLogin} className="bg-slate-800/50 rounded-lg border border-slate-700 p-3">
+        <div className="flex items-center gap-2 text-xs text-slate-400 mb-2">
+          <KeyRound className="w-3.5 h-3.5" />
+          <span>Operator sign-in</span>
+        </div>
+        <input
+          type="password"
+          value={apiKey}
+          onChange={(e) => setApiKey(e.target.value)}
+          placeholder="API key"
+          autoComplete="current-password"
+          className="w-full px-2 py-1 text-xs bg-slate-900 border border-slate-700 rounded text-slate-200 focus:outline-none focus:border-cyan-500"
+        />
+        {loginError && <p className="text-[10px] text-red-400 mt-1">{loginError}</p>}
+        <button
+          type="submit"
+          disabled={!apiKey}
+          className="w-full mt-2 py-1.5 text-xs bg-cyan-500/20 text-cyan-400 border border-cyan-500/30 rounded hover:bg-cyan-500/30 transition-colors disabled:opacity-50"
+        >
+          Sign in
+        </button>
+      </form>
+    );
+  }
+
+  if (error === 'unconfigured') {
+    return (
+      <div className="bg-slate-800/50 rounded-lg border border-slate-700 p-3">
+        <div className="flex items-center gap-2 text-xs text-slate-500">
+          <Link2 className="w-3.5 h-3.5" />
+          <span>Blockchain: API key not configured</span>
+        </div>
+        <p className="text-[10px] text-slate-600 mt-1">
+          Set API_KEY on the backend to enable
+        </p>
+      </div>
+    );
+  }
+
   if (error) {
     return (
       <div className="bg-slate-800/50 rounded-lg border border-slate-700 p-3">
@@ -83,14 +149,23 @@ export function BlockchainPanel() {
           <Link2 className="w-4 h-4 text-cyan-400" />
           <span className="text-xs font-medium text-slate-300">On-Chain Audit</span>
         </div>
-        <button
-          onClick={fetchStatus}
-          disabled={isLoading}
-          className="p-1 hover:bg-slate-700 rounded transition-colors"
-          title="Refresh status"
-        >
-          <RefreshCw className={`w-3 h-3 text-slate-400 ${isLoading ? 'animate-spin' : ''}`} />
-        </button>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={fetchStatus}
+            disabled={isLoading}
+            className="p-1 hover:bg-slate-700 rounded transition-colors"
+            title="Refresh status"
+          >
+            <RefreshCw className={`w-3 h-3 text-slate-400 ${isLoading ? 'animate-spin' : ''}`} />
+          </button>
+          <button
+            onClick={handleLogout}
+            className="p-1 hover:bg-slate-700 rounded transition-colors"
+            title="Sign out"
+          >
+            <LogOut className="w-3 h-3 text-slate-400" />
+          </button>
+        </div>
       </div>
 
       {/* Status */}
@@ -144,6 +219,14 @@ export function BlockchainPanel() {
             </span>
           </div>
 
+          {/* Submitted, waiting for a receipt */}
+          {status.submittedAnchors > 0 && (
+            <div className="flex items-center justify-between text-xs">
+              <span className="text-slate-500">Awaiting Confirmation</span>
+              <span className="text-cyan-400">{status.submittedAnchors}</span>
+            </div>
+          )}
+
           {/* Submit Button */}
           {status.pendingAnchors > 0 && (
             <button
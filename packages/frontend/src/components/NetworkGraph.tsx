@@ -0,0 +1,421 @@
+/**
+ * NetworkGraph - Topology view of the grid
+ * Nodes at their coordinates joined by typed dependency edges, with pan,
+ * zoom and live cascade playback
+ */
+
+import { useState, useMemo, useEffect, useRef, type PointerEvent } from 'react';
+import { ZoomIn, ZoomOut, Maximize2 } from 'lucide-react';
+import { api } from '../services/api';
+import type { Node, DependencyEdge, DependencyType, CascadeEvent } from '../types';
+
+interface NetworkGraphProps {
+  nodes: Node[];
+  cascades: CascadeEvent[];
+  selectedNodeId: string | null;
+  onSelectNode: (nodeId: string | null) => void;
+  highlighted: Set<string>;              // Nodes matching the search and filters
+  predictedPath?: string[];              // Predicted cascade path from the selected node
+  hitProbability?: (nodeId: string) => number;
+}
+
+type ColorBy = 'status' | 'risk';
+
+interface ViewTransform {
+  x: number;
+  y: number;
+  k: number;
+}
+
+// Node coordinates are on a 0-100 plane
+const VIEW_SIZE = 100;
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 8;
+const CASCADE_STEP_MS = 350;             // Time between propagation hops on playback
+const CASCADE_HOLD_MS = 4000;            // How long a finished cascade stays drawn
+
+const statusColors: Record<string, string> = {
+  healthy: '#4ade80',
+  warning: '#fbbf24',
+  critical: '#f87171',
+  failed: '#dc2626',
+  offline: '#6b7280',
+};
+
+const edgeStyles: Record<DependencyType, { label: string; stroke: string; dash?: string }> = {
+  power: { label: 'Power', stroke: '#f59e0b' },
+  data: { label: 'Data', stroke: '#38bdf8', dash: '4 3' },
+  control: { label: 'Control', stroke: '#a78bfa', dash: '1 3' },
+  backup: { label: 'Backup', stroke: '#64748b', dash: '8 4' },
+  thermal: { label: 'Thermal', stroke: '#fb7185', dash: '2 2' },
+};
+
+/**
+ * Green through amber to red as risk rises
+ */
+const riskColor = (risk: number) => {
+  const hue = Math.round(120 * (1 - Math.max(0, Math.min(1, risk))));
+  return `hsl(${hue}, 80%, 55%)`;
+};
+
+const clampZoom = (k: number) => Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, k));
+
+export function NetworkGraph({
+  nodes,
+  cascades,
+  selectedNodeId,
+  onSelectNode,
+  highlighted,
+  predictedPath,
+  hitProbability,
+}: NetworkGraphProps) {
+  const [edges, setEdges] = useState<DependencyEdge[]>([]);
+  const [hiddenTypes, setHiddenTypes] = useState<Set<DependencyType>>(new Set());
+  const [colorBy, setColorBy] = useState<ColorBy>('status');
+  const [view, setView] = useState<ViewTransform>({ x: 0, y: 0, k: 1 });
+  const [playback, setPlayback] = useState<{ cascade: CascadeEvent; step: number } | null>(null);
+
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+  const pannedRef = useRef(false);
+  // Only cascades that arrive while the graph is open are played back
+  const mountedWithCascade = useRef(cascades[0]?.id);
+
+  const nodeById = useMemo(() => new Map(nodes.map((n) => [n.id, n])), [nodes]);
+
+  // Edges change only when the topology does, so refetch on node count changes
+  useEffect(() => {
+    api.nodes.getEdges()
+      .then((res) => setEdges(res.data))
+      .catch((error) => console.error('Failed to load edges:', error));
+  }, [nodes.length]);
+
+  // Play back each new cascade one propagation hop at a time
+  const latestCascade = cascades[0];
+  useEffect(() => {
+    if (!latestCascade || latestCascade.id === mountedWithCascade.current) return;
+
+    const hops = latestCascade.propagationPath?.length ?? 0;
+    const lastStep = hops + Math.ceil(CASCADE_HOLD_MS / CASCADE_STEP_MS);
+    let step = 0;
+    setPlayback({ cascade: latestCascade, step });
+
+    const timer = setInterval(() => {
+      step++;
+      if (step > lastStep) {
+        clearInterval(timer);
+        setPlayback(null);
+        return;
+      }
+      setPlayback({ cascade: latestCascade, step: Math.min(step, hops) });
+    }, CASCADE_STEP_MS);
+
+    return () => clearInterval(timer);
+  }, [latestCascade]);
+
+  // Wheel zoom around the cursor; React's wheel listener is passive, so
+  // attach one that can cancel page scrolling
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const point = toViewPoint(svg, e.clientX, e.clientY);
+      if (!point) return;
+      setView((v) => zoomAt(v, point, v.k * (e.deltaY < 0 ? 1.15 : 1 / 1.15)));
+    };
+
+    svg.addEventListener('wheel', handleWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const handlePointerDown = (e: PointerEvent<SVGSVGElement>) => {
+    // Pan from the background only, so node clicks still select
+    if (e.target !== e.currentTarget && !(e.target as Element).classList.contains('graph-background')) return;
+    dragRef.current = { x: e.clientX, y: e.clientY };
+    pannedRef.current = false;
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    const ctm = svgRef.current?.getScreenCTM();
+    if (!drag || !ctm) return;
+
+    const dx = (e.clientX - drag.x) / ctm.a;
+    const dy = (e.clientY - drag.y) / ctm.d;
+    dragRef.current = { x: e.clientX, y: e.clientY };
+    pannedRef.current = true;
+    setView((v) => ({ ...v, x: v.x + dx, y: v.y + dy }));
+  };
+
+  const handlePointerUp = (e: PointerEvent<SVGSVGElement>) => {
+    if (dragRef.current) {
+      dragRef.current = null;
+      e.currentTarget.releasePointerCapture(e.pointerId);
+    }
+  };
+
+  const zoomBy = (factor: number) => {
+    const center = { x: VIEW_SIZE / 2, y: VIEW_SIZE / 2 };
+    setView((v) => zoomAt(v, center, v.k * factor));
+  };
+
+  const toggleEdgeType = (type: DependencyType) => {
+    setHiddenTypes((prev) => {
+      const next = new Set(prev);
+      if (next.has(type)) next.delete(type);
+      else next.add(type);
+      return next;
+    });
+  };
+
+  // Cascade playback: hops shown so far and the nodes they reached
+  const cascadeHops = playback ? (playback.cascade.propagationPath ?? []).slice(0, playback.step) : [];
+  const cascadeNodes = useMemo(() => {
+    if (!playback) return new Set<string>();
+    return new Set([playback.cascade.originNode, ...cascadeHops.map((hop) => hop.to)]);
+  }, [playback]);
+
+  const visibleEdges = edges.filter(
+    (edge) => !hiddenTypes.has(edge.type) && nodeById.has(edge.from) && nodeById.has(edge.to)
+  );
+
+  const predictedPoints = (predictedPath && selectedNodeId ? [selectedNodeId, ...predictedPath] : [])
+    .map((id) => nodeById.get(id))
+    .filter((n): n is Node => Boolean(n))
+    .map((n) => `${n.coordinates.x},${n.coordinates.y}`)
+    .join(' ');
+
+  // Labels keep their on-screen size at any zoom; markers grow more slowly than the map
+  const unit = 1 / view.k;
+
+  return (
+    <div className="relative h-full min-h-[420px] surface-card rounded-lg overflow-hidden">
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${VIEW_SIZE} ${VIEW_SIZE}`}
+        preserveAspectRatio="xMidYMid meet"
+        className="w-full h-full touch-none cursor-grab active:cursor-grabbing select-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        role="img"
+        aria-label="Grid topology"
+      >
+        <rect
+          className="graph-background"
+          x={-VIEW_SIZE}
+          y={-VIEW_SIZE}
+          width={VIEW_SIZE * 3}
+          height={VIEW_SIZE * 3}
+          fill="transparent"
+          onClick={() => {
+            // A click that ends a pan keeps the selection
+            if (!pannedRef.current) onSelectNode(null);
+          }}
+        />
+
+        <g transform={`translate(${view.x} ${view.y}) scale(${view.k})`}>
+          {/* Dependency edges */}
+          <g>
+            {visibleEdges.map((edge) => {
+              const from = nodeById.get(edge.from)!;
+              const to = nodeById.get(edge.to)!;
+              const style = edgeStyles[edge.type] ?? edgeStyles.power;
+              const dimmed = !highlighted.has(edge.from) && !highlighted.has(edge.to);
+
+              return (
+                <line
+                  key={`${edge.from}-${edge.to}-${edge.type}`}
+                  x1={from.coordinates.x}
+                  y1={from.coordinates.y}
+                  x2={to.coordinates.x}
+                  y2={to.coordinates.y}
+                  stroke={style.stroke}
+                  strokeWidth={0.6 + edge.weight}
+                  strokeDasharray={style.dash}
+                  strokeOpacity={!edge.isActive ? 0.15 : dimmed ? 0.08 : 0.45}
+                  vectorEffect="non-scaling-stroke"
+                />
+              );
+            })}
+          </g>
+
+          {/* Predicted cascade path from the selected node */}
+          {predictedPoints && (
+            <polyline
+              points={predictedPoints}
+              fill="none"
+              stroke="#c084fc"
+              strokeWidth={2}
+              strokeDasharray="6 4"
+              vectorEffect="non-scaling-stroke"
+            >
+              <animate attributeName="stroke-dashoffset" from="20" to="0" dur="1s" repeatCount="indefinite" />
+            </polyline>
+          )}
+
+          {/* Live cascade propagation */}
+          {cascadeHops.map((hop, i) => {
+            const from = nodeById.get(hop.from);
+            const to = nodeById.get(hop.to);
+            if (!from || !to) return null;
+            const isLatest = i === cascadeHops.length - 1;
+
+            return (
+              <line
+                key={`${hop.from}-${hop.to}-${i}`}
+                x1={from.coordinates.x}
+                y1={from.coordinates.y}
+                x2={to.coordinates.x}
+                y2={to.coordinates.y}
+                stroke="#ef4444"
+                strokeWidth={isLatest ? 3 : 2}
+                strokeDasharray={isLatest ? '5 3' : undefined}
+                strokeOpacity={0.3 + 0.7 * Math.min(1, hop.riskTransfer * 2)}
+                vectorEffect="non-scaling-stroke"
+              >
+                {isLatest && (
+                  <animate attributeName="stroke-dashoffset" from="16" to="0" dur="0.6s" repeatCount="indefinite" />
+                )}
+              </line>
+            );
+          })}
+
+          {/* Nodes */}
+          <g>
+            {nodes.map((node) => {
+              const { x, y } = node.coordinates;
+              const risk = node.riskScore || 0;
+              const r = (0.8 + risk * 0.8) * Math.sqrt(unit);
+              const hit = hitProbability?.(node.id) ?? 0;
+              const inCascade = cascadeNodes.has(node.id);
+              const isSelected = node.id === selectedNodeId;
+              const fill = colorBy === 'risk' ? riskColor(risk) : statusColors[node.status] || statusColors.offline;
+
+              return (
+                <g
+                  key={node.id}
+                  className="cursor-pointer"
+                  opacity={highlighted.has(node.id) ? 1 : 0.15}
+                  onClick={() => onSelectNode(isSelected ? null : node.id)}
+                >
+                  <title>{`${node.name || node.id} — ${node.status}, risk ${(risk * 100).toFixed(0)}%`}</title>
+                  {hit > 0 && (
+                    <circle cx={x} cy={y} r={r * (1.6 + 1.4 * hit)} fill="#ef4444" fillOpacity={0.15 + 0.4 * hit} />
+                  )}
+                  {inCascade && (
+                    <circle cx={x} cy={y} r={r * 2.2} fill="none" stroke="#ef4444" strokeWidth={2} vectorEffect="non-scaling-stroke">
+                      <animate attributeName="stroke-opacity" values="1;0.2;1" dur="1s" repeatCount="indefinite" />
+                    </circle>
+                  )}
+                  <circle
+                    cx={x}
+                    cy={y}
+                    r={r}
+                    fill={fill}
+                    stroke={isSelected ? '#14b8a6' : '#0d1014'}
+                    strokeWidth={isSelected ? 3 : 1}
+                    vectorEffect="non-scaling-stroke"
+                  />
+                  {view.k >= 3 && (
+                    <text
+                      x={x + r * 1.4}
+                      y={y + r * 0.5}
+                      fontSize={1.6 * unit}
+                      fill="#cbd5e1"
+                      className="pointer-events-none"
+                    >
+                      {node.name || node.id}
+                    </text>
+                  )}
+                </g>
+              );
+            })}
+          </g>
+        </g>
+      </svg>
+
+      {/* Zoom Controls */}
+      <div className="absolute top-3 right-3 flex flex-col gap-1">
+        <button onClick={() => zoomBy(1.5)} className="btn-secondary p-1.5" aria-label="Zoom in">
+          <ZoomIn className="w-4 h-4" />
+        </button>
+        <button onClick={() => zoomBy(1 / 1.5)} className="btn-secondary p-1.5" aria-label="Zoom out">
+          <ZoomOut className="w-4 h-4" />
+        </button>
+        <button onClick={() => setView({ x: 0, y: 0, k: 1 })} className="btn-secondary p-1.5" aria-label="Reset view">
+          <Maximize2 className="w-4 h-4" />
+        </button>
+      </div>
+
+      {/* Legend */}
+      <div className="absolute bottom-3 left-3 surface-card p-2 rounded text-[11px] space-y-1.5">
+        <div className="flex items-center gap-2">
+          <span className="text-slate-500">Color:</span>
+          <select
+            value={colorBy}
+            onChange={(e) => setColorBy(e.target.value as ColorBy)}
+            className="select-field py-0.5 text-[11px] w-auto"
+            aria-label="Color nodes by"
+          >
+            <option value="status">Status</option>
+            <option value="risk">Risk</option>
+          </select>
+        </div>
+        <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+          {(Object.keys(edgeStyles) as DependencyType[]).map((type) => (
+            <button
+              key={type}
+              onClick={() => toggleEdgeType(type)}
+              className={`flex items-center gap-1 ${hiddenTypes.has(type) ? 'opacity-40' : ''}`}
+              aria-pressed={!hiddenTypes.has(type)}
+            >
+              <svg width="18" height="6" aria-hidden="true">
+                <line x1="0" y1="3" x2="18" y2="3" stroke={edgeStyles[type].stroke} strokeWidth="2" strokeDasharray={edgeStyles[type].dash} />
+              </svg>
+              <span className="text-slate-400">{edgeStyles[type].label}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Cascade Playback */}
+      {playback && (
+        <div className="absolute top-3 left-3 surface-card px-3 py-1.5 rounded border-l-2 border-l-red-500 text-xs text-red-300 tabular-nums">
+          Cascade from {nodeById.get(playback.cascade.originNode)?.name || playback.cascade.originNode}
+          {' '}— hop {playback.step}/{playback.cascade.propagationPath?.length ?? 0}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Screen position to viewBox coordinates
+ */
+function toViewPoint(svg: SVGSVGElement, clientX: number, clientY: number): { x: number; y: number } | null {
+  const ctm = svg.getScreenCTM();
+  if (!ctm) return null;
+  const point = svg.createSVGPoint();
+  point.x = clientX;
+  point.y = clientY;
+  const { x, y } = point.matrixTransform(ctm.inverse());
+  return { x, y };
+}
+
+/**
+ * Zoom to `k` keeping the viewBox point `at` fixed on screen
+ */
+function zoomAt(view: ViewTransform, at: { x: number; y: number }, k: number): ViewTransform {
+  const next = clampZoom(k);
+  const ratio = next / view.k;
+  return {
+    x: at.x - (at.x - view.x) * ratio,
+    y: at.y - (at.y - view.y) * ratio,
+    k: next,
+  };
+}
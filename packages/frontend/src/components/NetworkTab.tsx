@@ -4,17 +4,22 @@
  */
 
 import { useState, useMemo } from 'react';
-import { Search, SlidersHorizontal, CheckCircle, AlertTriangle, XCircle, MinusCircle } from 'lucide-react';
-import type { Node, Pattern } from '../types';
+import { Search, SlidersHorizontal, CheckCircle, AlertTriangle, XCircle, MinusCircle, Flame, LayoutGrid, Share2 } from 'lucide-react';
+import { api } from '../services/api';
+import { NetworkGraph } from './NetworkGraph';
+import type { Node, Pattern, Prediction, CascadeEvent, CascadeRiskEstimate } from '../types';
 
 interface NetworkTabProps {
   nodes: Node[];
   patterns: Pattern[];
+  predictions: Prediction[];
+  cascades: CascadeEvent[];
   onMitigate: (nodeId: string) => Promise<unknown>;
 }
 
 type SortKey = 'risk' | 'name' | 'region' | 'type';
 type StatusFilter = 'all' | 'healthy' | 'warning' | 'critical' | 'offline';
+type ViewMode = 'grid' | 'graph';
 
 const statusConfig: Record<string, { label: string; color: string; icon: typeof CheckCircle }> = {
   healthy: { label: 'Healthy', color: 'status-healthy', icon: CheckCircle },
@@ -24,12 +29,23 @@ const statusConfig: Record<string, { label: string; color: string; icon: typeof
   offline: { label: 'Offline', color: 'status-offline', icon: MinusCircle },
 };
 
-export function NetworkTab({ nodes, patterns, onMitigate }: NetworkTabProps) {
+const CASCADE_RISK_REALIZATIONS = 1000;
+
+/**
+ * Card tint for the cascade risk heatmap, deeper red the likelier the hit
+ */
+const heatmapStyle = (hit: number) =>
+  hit > 0 ? { backgroundColor: `rgba(239, 68, 68, ${(0.08 + 0.4 * hit).toFixed(2)})` } : undefined;
+
+export function NetworkTab({ nodes, patterns, predictions, cascades, onMitigate }: NetworkTabProps) {
+  const [viewMode, setViewMode] = useState<ViewMode>('grid');
   const [search, setSearch] = useState('');
   const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
   const [sortBy, setSortBy] = useState<SortKey>('risk');
   const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
   const [mitigatingId, setMitigatingId] = useState<string | null>(null);
+  const [cascadeRisk, setCascadeRisk] = useState<CascadeRiskEstimate | null>(null);
+  const [estimatingId, setEstimatingId] = useState<string | null>(null);
 
   // Safely handle nodes array
   const safeNodes = useMemo(() => {
@@ -91,8 +107,18 @@ export function NetworkTab({ nodes, patterns, onMitigate }: NetworkTabProps) {
     return result;
   }, [safeNodes, search, statusFilter, sortBy]);
 
+  const highlightedIds = useMemo(() => new Set(filteredNodes.map(n => n.id)), [filteredNodes]);
+
   const selectedNode = selectedNodeId ? safeNodes.find(n => n.id === selectedNodeId) : null;
 
+  // Most likely predicted cascade from the selected node, drawn on the graph
+  const predictedPath = useMemo(() => {
+    if (!selectedNodeId || !Array.isArray(predictions)) return undefined;
+    return predictions
+      .filter(p => p.nodeId === selectedNodeId && p.cascadePath?.length)
+      .sort((a, b) => b.probability - a.probability)[0]?.cascadePath;
+  }, [predictions, selectedNodeId]);
+
   const handleMitigate = async (nodeId: string) => {
     setMitigatingId(nodeId);
     try {
@@ -104,6 +130,24 @@ export function NetworkTab({ nodes, patterns, onMitigate }: NetworkTabProps) {
     }
   };
 
+  const handleEstimateRisk = async (nodeId: string) => {
+    setEstimatingId(nodeId);
+    try {
+      const res = await api.analysis.getCascadeRisk(nodeId, { realizations: CASCADE_RISK_REALIZATIONS });
+      setCascadeRisk(res.data);
+    } catch (error) {
+      console.error('Cascade risk estimate failed:', error);
+    } finally {
+      setEstimatingId(null);
+    }
+  };
+
+  const hitProbability = (nodeId: string) => {
+    if (!cascadeRisk) return 0;
+    if (nodeId === cascadeRisk.originNode) return 1;
+    return cascadeRisk.hitProbability[nodeId] ?? 0;
+  };
+
   const formatPercent = (value: number | undefined | null) => {
     if (value === undefined || value === null || isNaN(value)) return 'N/A';
     return `${(value * 100).toFixed(0)}%`;
@@ -123,6 +167,26 @@ export function NetworkTab({ nodes, patterns, onMitigate }: NetworkTabProps) {
         <span className="text-slate-500 ml-auto tabular-nums">{filteredNodes.length} of {safeNodes.length} shown</span>
       </div>
 
+      {/* Cascade Risk Heatmap Legend */}
+      {cascadeRisk && (
+        <div className="surface-card p-3 border-l-2 border-l-red-500 flex items-center gap-3 text-xs">
+          <Flame className="w-4 h-4 text-red-400 flex-shrink-0" />
+          <span className="text-slate-300">
+            Cascade risk from{' '}
+            <span className="font-medium">
+              {safeNodes.find(n => n.id === cascadeRisk.originNode)?.name || cascadeRisk.originNode}
+            </span>
+            {' '}over {cascadeRisk.realizations.toLocaleString()} runs — tint shows hit probability
+          </span>
+          <button
+            onClick={() => setCascadeRisk(null)}
+            className="text-slate-500 hover:text-slate-300 ml-auto"
+          >
+            Clear heatmap
+          </button>
+        </div>
+      )}
+
       {/* Active Patterns Warning */}
       {safePatterns.length > 0 && (
         <div className="surface-card p-3 border-l-2 border-l-amber-500">
@@ -184,13 +248,43 @@ export function NetworkTab({ nodes, patterns, onMitigate }: NetworkTabProps) {
           <option value="region">Sort: Region</option>
           <option value="type">Sort: Type</option>
         </select>
+
+        {/* View Toggle */}
+        <div className="flex items-center gap-1 ml-auto" role="group" aria-label="View">
+          <button
+            onClick={() => setViewMode('grid')}
+            className={`btn-secondary p-1.5 ${viewMode === 'grid' ? 'text-teal-400' : ''}`}
+            aria-pressed={viewMode === 'grid'}
+            aria-label="Grid view"
+          >
+            <LayoutGrid className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => setViewMode('graph')}
+            className={`btn-secondary p-1.5 ${viewMode === 'graph' ? 'text-teal-400' : ''}`}
+            aria-pressed={viewMode === 'graph'}
+            aria-label="Topology view"
+          >
+            <Share2 className="w-4 h-4" />
+          </button>
+        </div>
       </div>
 
       {/* Node Grid & Details */}
       <div className="flex-1 flex gap-4 min-h-0">
         {/* Node Grid */}
         <div className="flex-1 overflow-auto">
-          {filteredNodes.length === 0 ? (
+          {viewMode === 'graph' && safeNodes.length > 0 ? (
+            <NetworkGraph
+              nodes={safeNodes}
+              cascades={Array.isArray(cascades) ? cascades : []}
+              selectedNodeId={selectedNodeId}
+              onSelectNode={setSelectedNodeId}
+              highlighted={highlightedIds}
+              predictedPath={predictedPath}
+              hitProbability={cascadeRisk ? hitProbability : undefined}
+            />
+          ) : filteredNodes.length === 0 ? (
             <div className="empty-state">
               <Search className="empty-state-icon" />
               <p className="empty-state-title">No nodes found</p>
@@ -208,6 +302,7 @@ export function NetworkTab({ nodes, patterns, onMitigate }: NetworkTabProps) {
                 const isSelected = selectedNodeId === node.id;
                 const isCritical = node.status === 'critical' || node.status === 'failed';
                 const isWarning = node.status === 'warning';
+                const hit = hitProbability(node.id);
 
                 return (
                   <button
@@ -219,6 +314,7 @@ export function NetworkTab({ nodes, patterns, onMitigate }: NetworkTabProps) {
                       ${isCritical ? 'node-card-critical' : ''}
                       ${isWarning && !isCritical ? 'node-card-warning' : ''}
                     `}
+                    style={heatmapStyle(hit)}
                     aria-pressed={isSelected}
                     aria-label={`${node.name || node.id}, ${config.label}, Risk ${formatPercent(node.riskScore)}`}
                   >
@@ -228,7 +324,14 @@ export function NetworkTab({ nodes, patterns, onMitigate }: NetworkTabProps) {
                         <p className="text-sm font-medium text-slate-200 truncate">{node.name || node.id}</p>
                         <p className="text-xs text-slate-500 truncate">{node.region || 'Unknown Region'}</p>
                       </div>
-                      <span className={`${config.color} flex-shrink-0`}>{config.label}</span>
+                      <div className="flex flex-col items-end gap-1 flex-shrink-0">
+                        <span className={config.color}>{config.label}</span>
+                        {cascadeRisk && hit > 0 && (
+                          <span className="text-[10px] text-red-300 tabular-nums">
+                            {node.id === cascadeRisk.originNode ? 'Origin' : `Hit ${formatPercent(hit)}`}
+                          </span>
+                        )}
+                      </div>
                     </div>
 
                     {/* Metrics Row */}
@@ -312,6 +415,66 @@ export function NetworkTab({ nodes, patterns, onMitigate }: NetworkTabProps) {
               </div>
             </div>
 
+            {/* Cascade Risk */}
+            <div className="mt-4 pt-4 border-t border-slate-700">
+              <p className="text-xs font-medium text-slate-400 uppercase tracking-wide mb-2">Cascade Risk</p>
+
+              {cascadeRisk?.originNode === selectedNode.id ? (
+                <div className="space-y-2 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-slate-400">Expected Affected</span>
+                    <span className="font-medium tabular-nums">{cascadeRisk.meanAffected.toFixed(1)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-slate-400">Expected Damage</span>
+                    <span className="font-medium tabular-nums">{cascadeRisk.expectedDamage.toFixed(2)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-slate-400">Expected Load Shed</span>
+                    <span className="font-medium tabular-nums">{cascadeRisk.expectedLoadShedMW.toFixed(1)} MW</span>
+                  </div>
+
+                  <table className="w-full text-xs mt-2">
+                    <thead>
+                      <tr className="text-slate-500">
+                        <th className="text-left font-normal">Pctl</th>
+                        <th className="text-right font-normal">Nodes</th>
+                        <th className="text-right font-normal">Shed MW</th>
+                        <th className="text-right font-normal">Damage</th>
+                      </tr>
+                    </thead>
+                    <tbody className="tabular-nums text-slate-300">
+                      {cascadeRisk.percentiles.map((p) => (
+                        <tr key={p.percentile}>
+                          <td>P{p.percentile}</td>
+                          <td className="text-right">{p.affectedNodes}</td>
+                          <td className="text-right">{p.loadShedMW.toFixed(1)}</td>
+                          <td className="text-right">{p.damage.toFixed(2)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ) : cascadeRisk && hitProbability(selectedNode.id) > 0 ? (
+                <p className="text-xs text-slate-400 mb-2">
+                  Hit in {formatPercent(hitProbability(selectedNode.id))} of cascades from{' '}
+                  {safeNodes.find(n => n.id === cascadeRisk.originNode)?.name || cascadeRisk.originNode}
+                </p>
+              ) : null}
+
+              {cascadeRisk?.originNode !== selectedNode.id && (
+                <button
+                  onClick={() => handleEstimateRisk(selectedNode.id)}
+                  disabled={estimatingId !== null}
+                  className="btn-secondary w-full"
+                >
+                  {estimatingId === selectedNode.id
+                    ? 'Simulating...'
+                    : `Simulate ${CASCADE_RISK_REALIZATIONS.toLocaleString()} Cascades`}
+                </button>
+              )}
+            </div>
+
             {/* Actions */}
             {(selectedNode.status === 'critical' || selectedNode.status === 'warning' || selectedNode.status === 'failed') && (
               <div className="mt-4 pt-4 border-t border-slate-700">
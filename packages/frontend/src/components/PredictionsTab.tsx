@@ -26,6 +26,7 @@ const severityColors: Record<string, string> = {
   equipment_degradation: 'text-amber-400',
   cyber_intrusion: 'text-purple-400',
   load_imbalance: 'text-cyan-400',
+  anomalous_behavior: 'text-pink-400',
 };
 
 /**
@@ -1,5 +1,6 @@
 export { MetricCard } from './MetricCard';
 export { NetworkTab } from './NetworkTab';
+export { NetworkGraph } from './NetworkGraph';
 export { PredictionsTab } from './PredictionsTab';
 export { TimelineTab } from './TimelineTab';
 export { AlertsTab } from './AlertsTab';
@@ -201,7 +201,8 @@ export function useSimulation() {
       const alert = data as Alert;
       setState((prev) => ({
         ...prev,
-        alerts: [alert, ...prev.alerts].slice(0, 50),
+        // Escalations re-send an alert under the same id
+        alerts: [alert, ...prev.alerts.filter((a) => a.id !== alert.id)].slice(0, 50),
       }));
     });
 
@@ -5,12 +5,20 @@
 
 import type {
   Node,
+  DependencyEdge,
   SystemState,
   Prediction,
   Pattern,
+  NodeForecast,
   CascadeEvent,
+  ContingencyJob,
+  ContingencyRequest,
+  CascadeRiskEstimate,
   MitigationResult,
   AccuracyMetrics,
+  Alert,
+  AlertConfig,
+  SuppressionWindow,
   ApiResponse,
   PaginatedResponse,
 } from '../types';
@@ -21,21 +29,31 @@ const API_BASE = '/api';
 // Helper Functions
 // ============================================================================
 
+/**
+ * Non-2xx response, with its status so callers can tell 401/403 from 503
+ */
+export class ApiError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
 async function fetchApi<T>(
   endpoint: string,
   options: RequestInit = {}
 ): Promise<T> {
   const response = await fetch(`${API_BASE}${endpoint}`, {
+    ...options,
     headers: {
       'Content-Type': 'application/json',
       ...options.headers,
     },
-    ...options,
   });
 
   if (!response.ok) {
     const error = await response.json().catch(() => ({}));
-    throw new Error(error.message || `API Error: ${response.status}`);
+    throw new ApiError(error.message || `API Error: ${response.status}`, response.status);
   }
 
   return response.json();
@@ -112,8 +130,14 @@ export const nodes = {
   getCritical: () =>
     fetchApi<PaginatedResponse<Node>>('/nodes/critical'),
 
+  getEdges: () =>
+    fetchApi<PaginatedResponse<DependencyEdge>>('/nodes/edges'),
+
   getConnections: (id: string) =>
     fetchApi<ApiResponse<{ node: Node; connections: Node[] }>>(`/nodes/${id}/connections`),
+
+  getForecast: (id: string) =>
+    fetchApi<ApiResponse<NodeForecast | null>>(`/nodes/${id}/forecast`),
 };
 
 // ============================================================================
@@ -177,6 +201,43 @@ export const simulate = {
     }),
 };
 
+// ============================================================================
+// Analysis Endpoints
+// ============================================================================
+
+export const analysis = {
+  startContingency: (request: ContingencyRequest) =>
+    fetchApi<ApiResponse<ContingencyJob>>('/analysis/contingency', {
+      method: 'POST',
+      body: JSON.stringify(request),
+    }),
+
+  getContingencyJobs: () =>
+    fetchApi<ApiResponse<ContingencyJob[]>>('/analysis/contingency'),
+
+  getContingency: (id: string, limit?: number) =>
+    fetchApi<ApiResponse<ContingencyJob>>(`/analysis/contingency/${id}${limit ? `?limit=${limit}` : ''}`),
+
+  cancelContingency: (id: string) =>
+    fetchApi<ApiResponse<ContingencyJob>>(`/analysis/contingency/${id}/cancel`, {
+      method: 'POST',
+    }),
+
+  getCascadeRisk: (nodeId: string, params?: {
+    realizations?: number;
+    severity?: number;
+    seed?: number;
+  }) => {
+    const query = new URLSearchParams();
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined) query.set(key, String(value));
+      });
+    }
+    return fetchApi<ApiResponse<CascadeRiskEstimate>>(`/analysis/cascade-risk/${nodeId}?${query}`);
+  },
+};
+
 // ============================================================================
 // Action Endpoints
 // ============================================================================
@@ -209,6 +270,60 @@ export const actions = {
     fetchApi<PaginatedResponse<MitigationResult & { timestamp: string }>>(`/actions/history?limit=${limit || 50}`),
 };
 
+// ============================================================================
+// Alert Endpoints
+// ============================================================================
+
+export type AlertConfigInput = Omit<AlertConfig, 'id' | 'lastTriggered'>;
+
+export const alerts = {
+  listConfigs: () =>
+    fetchApi<PaginatedResponse<AlertConfig>>('/alerts/configs'),
+
+  createConfig: (alertConfig: AlertConfigInput & { id?: string }) =>
+    fetchApi<ApiResponse<AlertConfig>>('/alerts/configs', {
+      method: 'POST',
+      body: JSON.stringify(alertConfig),
+    }),
+
+  updateConfig: (id: string, alertConfig: AlertConfigInput) =>
+    fetchApi<ApiResponse<AlertConfig>>(`/alerts/configs/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(alertConfig),
+    }),
+
+  toggleConfig: (id: string, enabled: boolean) =>
+    fetchApi<ApiResponse<AlertConfig>>(`/alerts/configs/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ enabled }),
+    }),
+
+  deleteConfig: (id: string) =>
+    fetchApi<ApiResponse<null>>(`/alerts/configs/${id}`, {
+      method: 'DELETE',
+    }),
+
+  acknowledge: (id: string, operator?: string) =>
+    fetchApi<ApiResponse<Alert>>(`/alerts/${id}/acknowledge`, {
+      method: 'POST',
+      body: JSON.stringify({ operator }),
+    }),
+
+  listSuppressions: () =>
+    fetchApi<PaginatedResponse<SuppressionWindow>>('/alerts/suppressions'),
+
+  createSuppression: (suppression: Omit<SuppressionWindow, 'id' | 'startsAt'> & { startsAt?: string }) =>
+    fetchApi<ApiResponse<SuppressionWindow>>('/alerts/suppressions', {
+      method: 'POST',
+      body: JSON.stringify(suppression),
+    }),
+
+  deleteSuppression: (id: string) =>
+    fetchApi<ApiResponse<null>>(`/alerts/suppressions/${id}`, {
+      method: 'DELETE',
+    }),
+};
+
 // ============================================================================
 // Audit Endpoints
 // ============================================================================
@@ -278,30 +393,62 @@ export const anchor = {
     }),
 };
 
+// ============================================================================
+// Operator Session Endpoints
+// ============================================================================
+
+// The API key is exchanged for an HttpOnly session cookie, so it is never
+// stored in the page or shipped in the bundle
+export const auth = {
+  session: () =>
+    fetchApi<ApiResponse<{ authenticated: boolean; configured: boolean }>>('/auth/session'),
+
+  login: (apiKey: string) =>
+    fetchApi<ApiResponse<{ authenticated: boolean; expiresAt: string }>>('/auth/session', {
+      method: 'POST',
+      body: JSON.stringify({ apiKey }),
+    }),
+
+  logout: () =>
+    fetchApi<ApiResponse<null>>('/auth/session', { method: 'DELETE' }),
+};
+
 // ============================================================================
 // Contract/Blockchain Endpoints
 // ============================================================================
 
+// Contract routes need an operator session (see auth)
 export const contract = {
   connect: (chain: string = 'optimism') =>
-    fetchApi<ApiResponse<{ connected: boolean; chain: string }>>('/contract/connect', {
-      method: 'POST',
-      body: JSON.stringify({ chain }),
-    }),
+    fetchApi<ApiResponse<{ connected: boolean; chain: string; chainId: number; contractAddress: string | null }>>(
+      '/contract/connect',
+      {
+        method: 'POST',
+        body: JSON.stringify({ chain }),
+      }
+    ),
 
   status: () =>
     fetchApi<ApiResponse<{
       connected: boolean;
-      chain: string;
-      contractAddress?: string;
-      lastAnchor?: string;
+      chain: string | null;
+      contractAddress: string | null;
+      lastAnchor: string | null;
       pendingAnchors: number;
+      submittedAnchors: number;
     }>>('/contract/status'),
 
   batchSubmit: () =>
-    fetchApi<ApiResponse<{ submitted: number; results: unknown[] }>>('/contract/anchor/submit-pending', {
-      method: 'POST',
-    }),
+    fetchApi<ApiResponse<{ submitted: number; failed: number; results: unknown[] }>>(
+      '/contract/anchor/submit-pending',
+      { method: 'POST' }
+    ),
+
+  confirm: () =>
+    fetchApi<ApiResponse<{ checked: number; confirmed: string[]; failed: string[]; pending: string[] }>>(
+      '/contract/anchor/confirm',
+      { method: 'POST' }
+    ),
 };
 
 // ============================================================================
@@ -313,9 +460,12 @@ export const api = {
   nodes,
   predictions,
   simulate,
+  analysis,
   actions,
+  alerts,
   audit,
   anchor,
+  auth,
   contract,
 };
 
@@ -29,6 +29,19 @@ export interface Node {
   metadata?: Record<string, unknown>;
 }
 
+export type DependencyType = 'power' | 'data' | 'control' | 'backup' | 'thermal';
+
+export interface DependencyEdge {
+  from: string;
+  to: string;
+  type: DependencyType;
+  weight: number;
+  latency: number;
+  bandwidth: number;
+  isActive: boolean;
+  capacity?: number;
+}
+
 // ============================================================================
 // Prediction Types
 // ============================================================================
@@ -38,7 +51,8 @@ export type PredictionType =
   | 'thermal_overload'
   | 'equipment_degradation'
   | 'cyber_intrusion'
-  | 'load_imbalance';
+  | 'load_imbalance'
+  | 'anomalous_behavior';
 
 export interface SuggestedAction {
   action: string;
@@ -66,6 +80,7 @@ export interface Prediction {
   reasoning: string | PredictionReasoning;
   contributingFactors: string[];
   suggestedActions: SuggestedAction[];
+  cascadePath?: string[];
   createdAt: string;
   resolved?: boolean;
   resolvedAt?: string;
@@ -81,7 +96,11 @@ export type PatternType =
   | 'load_imbalance'
   | 'thermal_cluster'
   | 'cascading_risk'
-  | 'geographic_stress';
+  | 'geographic_stress'
+  | 'behavioral_anomaly'
+  | 'credential_stuffing'
+  | 'latency_degradation'
+  | 'tamper_escalation';
 
 export interface Pattern {
   id: string;
@@ -93,6 +112,37 @@ export interface Pattern {
   confidence: number;
 }
 
+export type ForecastMetric = 'riskScore' | 'temperature' | 'loadRatio';
+
+export interface ForecastPoint {
+  hoursAhead: number;
+  time: string;
+  mean: number;
+  lower: number;
+  upper: number;
+}
+
+export interface MetricForecast {
+  metric: ForecastMetric;
+  points: ForecastPoint[];
+  trendPerHour: number;
+  residualStd: number;
+}
+
+export interface NodeForecast {
+  nodeId: string;
+  generatedAt: string;
+  horizonHours: number;
+  samples: number;
+  metrics: Record<ForecastMetric, MetricForecast>;
+  timeToFailure: {
+    hours: number;
+    interval: [number, number];
+    metric: ForecastMetric;
+    threshold: number;
+  } | null;
+}
+
 // ============================================================================
 // Alert Types
 // ============================================================================
@@ -113,11 +163,69 @@ export interface Alert {
   acknowledgedAt?: string;
   acknowledgedBy?: string;
   resolvedAt?: string;
+  autoResolved?: boolean;
+  groupKey?: string;
+  escalationLevel?: number;
   status: 'active' | 'acknowledged' | 'resolved';
   source?: 'ai' | 'manual' | 'external';
   incidentId?: string;
 }
 
+export type AlertConditionOperator = 'gt' | 'lt' | 'eq' | 'gte' | 'lte';
+export type AlertActionType = 'webhook' | 'email' | 'slack' | 'log';
+
+export type AlertAggregate = 'delta' | 'rate' | 'avg' | 'min' | 'max';
+
+export interface AlertCondition {
+  metric: string;
+  operator: AlertConditionOperator;
+  value: number | string;
+  fn?: AlertAggregate;
+  window?: number;
+  duration?: number;
+  clearValue?: number;
+}
+
+export type AlertExpression =
+  | AlertCondition
+  | { and: AlertExpression[] }
+  | { or: AlertExpression[] }
+  | { not: AlertExpression };
+
+export interface EscalationStep {
+  afterMinutes: number;
+  severity?: AlertSeverity;
+  actions: AlertAction[];
+}
+
+export interface SuppressionWindow {
+  id: string;
+  nodeIds?: string[];
+  region?: string;
+  startsAt: string;
+  endsAt: string;
+  reason?: string;
+}
+
+export interface AlertAction {
+  type: AlertActionType;
+  target: string;
+  template?: string;
+}
+
+export interface AlertConfig {
+  id: string;
+  name: string;
+  enabled: boolean;
+  conditions: AlertCondition[];
+  expression?: AlertExpression;
+  actions: AlertAction[];
+  cooldownMinutes: number;
+  groupBy?: 'region' | 'cascade' | 'prediction';
+  escalation?: EscalationStep[];
+  lastTriggered?: string;
+}
+
 // ============================================================================
 // System Types
 // ============================================================================
@@ -213,6 +321,64 @@ export interface MitigationResult {
   newHealth?: number;
 }
 
+export type ContingencyRankBy = 'affected' | 'impact' | 'loadShed';
+
+export interface ContingencyRequest {
+  target?: 'nodes' | 'edges';
+  k?: number;
+  nodeIds?: string[];
+  edgeIds?: string[];
+  regions?: string[];
+  types?: NodeType[];
+  severity?: number;
+  seed?: number;
+  rankBy?: ContingencyRankBy;
+}
+
+export interface ContingencyResult {
+  rank: number;
+  outage: string[];
+  affectedNodes: string[];
+  affectedCount: number;
+  impactScore: number;
+  loadShedMW: number;
+  trippedLines: string[];
+}
+
+export interface ContingencyJob {
+  id: string;
+  status: 'running' | 'completed' | 'cancelled' | 'failed';
+  request: ContingencyRequest;
+  total: number;
+  completed: number;
+  progress: number;
+  startedAt: string;
+  finishedAt?: string;
+  error?: string;
+  results: ContingencyResult[];
+}
+
+export interface CascadePercentile {
+  percentile: number;
+  affectedNodes: number;
+  loadShedMW: number;
+  damage: number;
+}
+
+export interface CascadeRiskEstimate {
+  originNode: string;
+  realizations: number;
+  seed: number;
+  severity: number;
+  meanAffected: number;
+  expectedDamage: number;
+  expectedLoadShedMW: number;
+  expectedImpactScore: number;
+  affectedDistribution: Array<{ affectedNodes: number; probability: number }>;
+  percentiles: CascadePercentile[];
+  hitProbability: Record<string, number>;
+}
+
 // ============================================================================
 // WebSocket Types
 // ============================================================================
@@ -0,0 +1,359 @@
+/**
+ * Sentinel Grid - Alert Dispatchers
+ * Delivers alert actions over webhook, Slack incoming webhook and SMTP
+ * using only Node built-ins
+ */
+
+import { createHmac, randomUUID } from 'crypto';
+import { request as httpRequest } from 'http';
+import { request as httpsRequest } from 'https';
+import { connect as netConnect, isIP, Socket } from 'net';
+import { connect as tlsConnect, ConnectionOptions } from 'tls';
+import { hostname } from 'os';
+import { Alert, AlertAction } from './types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface AlertDispatcher {
+  deliver(action: AlertAction, alert: Alert): Promise<void>;
+}
+
+export interface WebhookDispatcherOptions {
+  hmacKey: string;
+  timeoutMs?: number;
+}
+
+export interface SlackDispatcherOptions {
+  timeoutMs?: number;
+}
+
+export interface SmtpDispatcherOptions {
+  host: string;
+  port?: number;
+  secure?: boolean;       // Implicit TLS (port 465); otherwise STARTTLS when offered
+  user?: string;
+  pass?: string;
+  from: string;
+  timeoutMs?: number;
+  tls?: Pick<ConnectionOptions, 'ca' | 'rejectUnauthorized'>;
+}
+
+/**
+ * Delivery failure; non-retryable errors skip straight to the dead-letter list
+ */
+export class DeliveryError extends Error {
+  constructor(message: string, public readonly retryable: boolean = true) {
+    super(message);
+    this.name = 'DeliveryError';
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+
+export const DEFAULT_ALERT_TEMPLATE = '[{{severity}}] {{title}} - {{message}}';
+
+// ============================================================================
+// Templates
+// ============================================================================
+
+/**
+ * Render `{{field}}` placeholders from the alert. Unknown fields render empty.
+ */
+export function renderTemplate(template: string | undefined, alert: Alert): string {
+  const fields: Record<string, string> = {
+    id: alert.id,
+    type: alert.type,
+    severity: alert.severity.toUpperCase(),
+    status: alert.status,
+    title: alert.title,
+    message: alert.message,
+    nodeIds: alert.nodeIds.join(', '),
+    nodeCount: String(alert.nodeIds.length),
+    predictionId: alert.predictionId ?? '',
+    createdAt: alert.createdAt.toISOString(),
+  };
+
+  return (template ?? DEFAULT_ALERT_TEMPLATE)
+    .replace(/\{\{\s*(\w+)\s*\}\}/g, (_match, field: string) => fields[field] ?? '');
+}
+
+// ============================================================================
+// HTTP Dispatchers
+// ============================================================================
+
+/**
+ * POST a JSON body and resolve with the response text on a 2xx status
+ */
+export function postJson(
+  target: string,
+  body: string,
+  headers: Record<string, string>,
+  timeoutMs: number
+): Promise<string> {
+  let url: URL;
+  try {
+    url = new URL(target);
+  } catch {
+    return Promise.reject(new DeliveryError(`Invalid URL: ${target}`, false));
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return Promise.reject(new DeliveryError(`Unsupported protocol: ${url.protocol}`, false));
+  }
+
+  const send = url.protocol === 'https:' ? httpsRequest : httpRequest;
+
+  return new Promise((resolve, reject) => {
+    const req = send(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Length': Buffer.byteLength(body).toString(),
+        ...headers,
+      },
+      timeout: timeoutMs,
+    }, (res) => {
+      let text = '';
+      res.setEncoding('utf8');
+      res.on('data', (chunk: string) => { text += chunk; });
+      res.on('end', () => {
+        const status = res.statusCode ?? 0;
+        if (status >= 200 && status < 300) {
+          resolve(text);
+        } else {
+          // 4xx other than rate limiting will not succeed on retry
+          const retryable = status >= 500 || status === 429 || status === 408;
+          reject(new DeliveryError(`HTTP ${status} from ${url.host}`, retryable));
+        }
+      });
+    });
+
+    req.on('timeout', () => req.destroy(new DeliveryError(`Timed out after ${timeoutMs}ms`)));
+    req.on('error', (error) => {
+      reject(error instanceof DeliveryError ? error : new DeliveryError(error.message));
+    });
+    req.end(body);
+  });
+}
+
+/**
+ * POST the alert as JSON, signed with HMAC-SHA256 over the raw body.
+ * Receivers verify `X-Sentinel-Signature: sha256=<hex>` with the shared key.
+ */
+export function createWebhookDispatcher(options: WebhookDispatcherOptions): AlertDispatcher {
+  return {
+    deliver: (action, alert) => {
+      const body = JSON.stringify({
+        alert,
+        text: renderTemplate(action.template, alert),
+        sentAt: new Date().toISOString(),
+      });
+      const signature = createHmac('sha256', options.hmacKey).update(body).digest('hex');
+
+      return postJson(action.target, body, {
+        'X-Sentinel-Signature': `sha256=${signature}`,
+        'X-Sentinel-Alert-Id': alert.id,
+      }, options.timeoutMs ?? DEFAULT_TIMEOUT_MS).then(() => undefined);
+    },
+  };
+}
+
+/**
+ * Post the rendered template to a Slack incoming webhook URL
+ */
+export function createSlackDispatcher(options: SlackDispatcherOptions = {}): AlertDispatcher {
+  return {
+    deliver: (action, alert) => postJson(
+      action.target,
+      JSON.stringify({ text: renderTemplate(action.template, alert) }),
+      {},
+      options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+    ).then(() => undefined),
+  };
+}
+
+// ============================================================================
+// SMTP Dispatcher
+// ============================================================================
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+/**
+ * Minimal SMTP conversation over an open socket: one command, one reply
+ */
+function smtpConversation(socket: Socket) {
+  let buffer = '';
+  let lines: string[] = [];
+  const replies: SmtpReply[] = [];
+  let waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  let failure: Error | null = null;
+
+  const fail = (error: Error) => {
+    failure = failure ?? error;
+    waiting?.reject(failure);
+    waiting = null;
+  };
+
+  socket.on('data', (chunk: Buffer) => {
+    buffer += chunk.toString('utf8');
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) !== -1) {
+      const line = buffer.slice(0, newline).replace(/\r$/, '');
+      buffer = buffer.slice(newline + 1);
+      lines.push(line);
+
+      // "250-..." continues a multiline reply, "250 ..." ends it
+      if (/^\d{3}(?: |$)/.test(line)) {
+        const reply = {
+          code: parseInt(line.slice(0, 3), 10),
+          text: lines.map((l) => l.slice(4)).join('\n'),
+        };
+        lines = [];
+        if (waiting) {
+          waiting.resolve(reply);
+          waiting = null;
+        } else {
+          replies.push(reply);
+        }
+      }
+    }
+  });
+  socket.on('error', (error) => fail(new DeliveryError(error.message)));
+  socket.on('close', () => fail(new DeliveryError('SMTP connection closed')));
+
+  const read = (): Promise<SmtpReply> => {
+    const queued = replies.shift();
+    if (queued) return Promise.resolve(queued);
+    if (failure) return Promise.reject(failure);
+    return new Promise((resolve, reject) => {
+      waiting = { resolve, reject };
+    });
+  };
+
+  return async (line: string | null, expected: number[]): Promise<SmtpReply> => {
+    if (line !== null) {
+      socket.write(`${line}\r\n`);
+    }
+    const reply = await read();
+    if (!expected.includes(reply.code)) {
+      // 4xx replies are transient by definition, 5xx are permanent
+      throw new DeliveryError(`SMTP ${reply.code}: ${reply.text}`, reply.code < 500);
+    }
+    return reply;
+  };
+}
+
+function tlsOptions(options: SmtpDispatcherOptions): ConnectionOptions {
+  // SNI takes host names only
+  return { ...options.tls, servername: isIP(options.host) ? undefined : options.host };
+}
+
+/**
+ * Upgrade a plain connection after the server accepted STARTTLS
+ */
+function startTls(socket: Socket, options: SmtpDispatcherOptions): Promise<Socket> {
+  // The plain conversation must stop reading before TLS takes the socket over
+  socket.removeAllListeners('data');
+
+  return new Promise((resolve, reject) => {
+    const secure = tlsConnect({ ...tlsOptions(options), socket }, () => resolve(secure));
+    secure.once('error', (error) => reject(new DeliveryError(`STARTTLS failed: ${error.message}`)));
+  });
+}
+
+/**
+ * Split the action target into addresses. A line break or angle bracket
+ * would let a target inject SMTP commands, so such targets are rejected.
+ */
+function parseRecipients(target: string): string[] {
+  const recipients = target.split(',').map((r) => r.trim()).filter(Boolean);
+  if (recipients.length === 0) {
+    throw new DeliveryError('No email recipients', false);
+  }
+  if (recipients.some((r) => /[\r\n<>]/.test(r))) {
+    throw new DeliveryError('Invalid email recipient', false);
+  }
+  return recipients;
+}
+
+function formatMessage(options: SmtpDispatcherOptions, recipients: string[], action: AlertAction, alert: Alert): string {
+  const headers = [
+    `From: ${options.from}`,
+    `To: ${recipients.join(', ')}`,
+    // A line break in the title would start a new header
+    `Subject: [Sentinel Grid] ${alert.title.replace(/[\r\n]+/g, ' ')}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${options.host}>`,
+    `X-Sentinel-Alert-Id: ${alert.id}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit',
+  ];
+
+  // Dot-stuff lines so a lone "." in the body cannot end the DATA section
+  const body = renderTemplate(action.template, alert)
+    .split(/\r?\n/)
+    .map((line) => (line.startsWith('.') ? `.${line}` : line))
+    .join('\r\n');
+
+  return `${headers.join('\r\n')}\r\n\r\n${body}\r\n.`;
+}
+
+/**
+ * Send the rendered template as a plain-text email. The action target is a
+ * comma-separated recipient list. Without implicit TLS the connection is
+ * upgraded with STARTTLS whenever the server offers it, and credentials are
+ * never sent over a plaintext connection.
+ */
+export function createSmtpDispatcher(options: SmtpDispatcherOptions): AlertDispatcher {
+  const port = options.port ?? (options.secure ? 465 : 25);
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+  const withTimeout = (socket: Socket): Socket =>
+    socket.setTimeout(timeoutMs, () => socket.destroy(new Error(`Timed out after ${timeoutMs}ms`)));
+
+  return {
+    deliver: async (action, alert) => {
+      const recipients = parseRecipients(action.target);
+
+      const plain = withTimeout(options.secure
+        ? tlsConnect({ ...tlsOptions(options), host: options.host, port })
+        : netConnect({ host: options.host, port }));
+      let socket = plain;
+
+      let command = smtpConversation(socket);
+      try {
+        await command(null, [220]);
+        const ehlo = await command(`EHLO ${hostname()}`, [250]);
+        if (!options.secure) {
+          if (/^STARTTLS\b/im.test(ehlo.text)) {
+            await command('STARTTLS', [220]);
+            socket = withTimeout(await startTls(plain, options));
+            command = smtpConversation(socket);
+            await command(`EHLO ${hostname()}`, [250]);
+          } else if (options.user) {
+            throw new DeliveryError('SMTP server does not offer STARTTLS; refusing to send credentials in plaintext', false);
+          }
+        }
+        if (options.user) {
+          const credentials = Buffer.from(`\0${options.user}\0${options.pass ?? ''}`).toString('base64');
+          await command(`AUTH PLAIN ${credentials}`, [235]);
+        }
+        await command(`MAIL FROM:<${options.from}>`, [250]);
+        for (const recipient of recipients) {
+          await command(`RCPT TO:<${recipient}>`, [250, 251]);
+        }
+        await command('DATA', [354]);
+        await command(formatMessage(options, recipients, action, alert), [250]);
+        await command('QUIT', [221]).catch(() => undefined);
+      } finally {
+        socket.destroy();
+        plain.destroy();
+      }
+    },
+  };
+}
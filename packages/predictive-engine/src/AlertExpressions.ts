@@ -0,0 +1,126 @@
+/**
+ * Sentinel Grid - Alert Expressions
+ * Evaluates AND/OR/NOT rule trees and history functions for alert rules
+ */
+
+import { AlertAggregate, AlertCondition, AlertConfig, AlertExpression, NodeMetricsHistory } from './types';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const DEFAULT_AGGREGATE_WINDOW = 5;
+
+/**
+ * Node metrics recorded in NodeMetricsHistory, by the series they live in
+ */
+export const HISTORY_METRICS: Record<string, keyof NodeMetricsHistory> = {
+  riskScore: 'riskScores',
+  health: 'healthScores',
+  loadRatio: 'loadRatios',
+  temperature: 'temperatures',
+  cyberHealth: 'cyberHealthScores',
+  latency: 'latencies',
+};
+
+// ============================================================================
+// Expressions
+// ============================================================================
+
+/**
+ * The rule a config evaluates: its expression, or its conditions ANDed together
+ */
+export function getRuleExpression(config: AlertConfig): AlertExpression {
+  return config.expression ?? { and: config.conditions };
+}
+
+/**
+ * Leaf conditions of an expression, depth first
+ */
+export function collectConditions(expression: AlertExpression): AlertCondition[] {
+  if ('and' in expression) return expression.and.flatMap(collectConditions);
+  if ('or' in expression) return expression.or.flatMap(collectConditions);
+  if ('not' in expression) return collectConditions(expression.not);
+  return [expression];
+}
+
+/**
+ * Evaluate an expression, deciding each leaf with `test`. An empty AND is
+ * true and an empty OR is false.
+ */
+export function evaluateExpression(
+  expression: AlertExpression,
+  test: (condition: AlertCondition) => boolean
+): boolean {
+  if ('and' in expression) return expression.and.every((e) => evaluateExpression(e, test));
+  if ('or' in expression) return expression.or.some((e) => evaluateExpression(e, test));
+  if ('not' in expression) return !evaluateExpression(expression.not, test);
+  return test(expression);
+}
+
+/**
+ * Compare a metric value against a condition. Strings only match strings,
+ * and only with 'eq'.
+ */
+export function compareCondition(
+  actual: number | string | undefined,
+  operator: AlertCondition['operator'],
+  expected: number | string
+): boolean {
+  if (actual === undefined) return false;
+  if (operator === 'eq') return actual === expected;
+  if (typeof actual !== 'number' || typeof expected !== 'number') return false;
+
+  switch (operator) {
+    case 'gt':
+      return actual > expected;
+    case 'gte':
+      return actual >= expected;
+    case 'lt':
+      return actual < expected;
+    case 'lte':
+      return actual <= expected;
+    default:
+      return false;
+  }
+}
+
+// ============================================================================
+// History Functions
+// ============================================================================
+
+/**
+ * Apply an aggregate to the last `window` ticks of a node's history.
+ * Returns undefined for metrics that are not recorded or when the history
+ * is still shorter than the window.
+ */
+export function aggregateHistory(
+  history: NodeMetricsHistory | undefined,
+  metric: string,
+  fn: AlertAggregate,
+  window: number = DEFAULT_AGGREGATE_WINDOW
+): number | undefined {
+  const series = HISTORY_METRICS[metric];
+  const values = series && history ? (history[series] as number[] | undefined) : undefined;
+  if (!values || window < 1) return undefined;
+
+  if (fn === 'delta' || fn === 'rate') {
+    if (values.length <= window) return undefined;
+    const delta = values[values.length - 1] - values[values.length - 1 - window];
+    return fn === 'delta' ? delta : delta / window;
+  }
+
+  if (values.length < window) return undefined;
+  const recent = values.slice(-window);
+
+  switch (fn) {
+    case 'avg':
+      return recent.reduce((sum, v) => sum + v, 0) / recent.length;
+    case 'min':
+      return Math.min(...recent);
+    case 'max':
+      return Math.max(...recent);
+    default:
+      return undefined;
+  }
+}
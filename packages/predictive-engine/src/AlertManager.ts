@@ -11,11 +11,73 @@ import {
   AlertConfig,
   AlertCondition,
   AlertAction,
+  AlertDelivery,
+  AlertGrouping,
+  DeadLetter,
   Prediction,
   Node,
+  NodeMetricsHistory,
   SystemState,
+  SuppressionWindow,
 } from './types';
 import { SeededRandom } from './SeededRandom';
+import { AlertDispatcher, DeliveryError, renderTemplate } from './AlertDispatchers';
+import {
+  aggregateHistory,
+  collectConditions,
+  compareCondition,
+  evaluateExpression,
+  getRuleExpression,
+} from './AlertExpressions';
+
+// ============================================================================
+// Options
+// ============================================================================
+
+export type DispatchedActionType = Exclude<AlertAction['type'], 'log'>;
+
+/**
+ * Durable home for alert configurations. `load` returns null when nothing
+ * has been saved yet, in which case the defaults are written through.
+ */
+export interface AlertConfigStorage {
+  load(): AlertConfig[] | null;
+  save(config: AlertConfig): void;
+  remove(id: string): void;
+}
+
+type RuleScope = 'prediction' | 'system' | 'node';
+
+type ConditionResolver = (condition: AlertCondition) => number | string | undefined;
+
+/**
+ * What a grouped rule needs to know about a subject to place it in a group
+ */
+interface GroupSubject {
+  nodeId: string;
+  region?: string;
+  related: string[];      // Nodes that tie the subject to an open cascade group
+  predictionType?: string;
+}
+
+const SEVERITY_LADDER: AlertSeverity[] = ['info', 'warning', 'error', 'critical'];
+
+export interface AlertManagerOptions {
+  storage?: AlertConfigStorage;
+  clock?: () => Date;
+  dispatchers?: Partial<Record<DispatchedActionType, AlertDispatcher>>;
+  maxAttempts?: number;       // Per action, including the first try
+  backoffMs?: number;         // Doubled after each failed attempt
+  deadLetterLimit?: number;
+  hysteresisRatio?: number;   // Default clear band, as a fraction of the threshold
+}
+
+const DEFAULT_OPTIONS: Required<Omit<AlertManagerOptions, 'dispatchers' | 'storage' | 'clock'>> = {
+  maxAttempts: 3,
+  backoffMs: 1000,
+  deadLetterLimit: 100,
+  hysteresisRatio: 0.05,
+};
 
 // ============================================================================
 // Default Configurations
@@ -31,7 +93,6 @@ const DEFAULT_ALERT_CONFIGS: AlertConfig[] = [
     ],
     actions: [
       { type: 'log', target: 'system' },
-      { type: 'webhook', target: '/api/alerts' },
     ],
     cooldownMinutes: 5,
   },
@@ -53,11 +114,10 @@ const DEFAULT_ALERT_CONFIGS: AlertConfig[] = [
     name: 'Cascade Event Detected',
     enabled: true,
     conditions: [
-      { metric: 'type', operator: 'eq', value: 1 }, // cascade_failure enum
+      { metric: 'type', operator: 'eq', value: 'cascade_failure' },
     ],
     actions: [
       { type: 'log', target: 'system' },
-      { type: 'webhook', target: '/api/cascade-alert' },
     ],
     cooldownMinutes: 10,
   },
@@ -84,14 +144,32 @@ export class AlertManager {
   private alerts: Alert[] = [];
   private cooldowns: Map<string, Date> = new Map();
   private rng: SeededRandom;
+  private dispatchers: Partial<Record<DispatchedActionType, AlertDispatcher>>;
+  private managerOptions: Required<Omit<AlertManagerOptions, 'dispatchers' | 'storage' | 'clock'>>;
+  private storage?: AlertConfigStorage;
+  private deadLetters: DeadLetter[] = [];
+  private pendingDeliveries: Set<Promise<void>> = new Set();
+  private clock: () => Date;
+
+  // Sustained-breach tracking, keyed `${scope}:${configId}:${subject}`
+  private breachStarts: Map<string, Date> = new Map();  // ...plus `:${conditionIndex}`
+  private openAlerts: Map<string, Alert> = new Map();
+
+  // Grouped parent alerts by group key, and the rule keys each one covers
+  private groups: Map<string, Alert> = new Map();
+  private groupMembers: Map<string, Set<string>> = new Map();
 
-  constructor(seed: number = 99999) {
+  private suppressions: Map<string, SuppressionWindow> = new Map();
+
+  constructor(seed: number = 99999, options: AlertManagerOptions = {}) {
     this.rng = new SeededRandom(seed);
-    
-    // Load default configurations
-    DEFAULT_ALERT_CONFIGS.forEach((config) => {
-      this.configs.set(config.id, config);
-    });
+    const { dispatchers = {}, storage, clock = () => new Date(), ...managerOptions } = options;
+    this.dispatchers = dispatchers;
+    this.storage = storage;
+    this.clock = clock;
+    this.managerOptions = { ...DEFAULT_OPTIONS, ...managerOptions };
+
+    this.applyConfigurations();
   }
 
   // ==========================================================================
@@ -102,8 +180,22 @@ export class AlertManager {
    * Load configurations (from storage or defaults)
    */
   async loadConfigurations(): Promise<void> {
-    // In a real implementation, this would load from database/storage
-    // For now, configs are loaded in constructor
+    this.applyConfigurations();
+  }
+
+  private applyConfigurations(): void {
+    const stored = this.storage?.load() ?? null;
+    const configs = stored ?? DEFAULT_ALERT_CONFIGS.map((config) => ({
+      ...config,
+      conditions: config.conditions.map((c) => ({ ...c })),
+      actions: config.actions.map((a) => ({ ...a })),
+    }));
+
+    this.configs = new Map(configs.map((config) => [config.id, config]));
+
+    if (!stored && this.storage) {
+      configs.forEach((config) => this.storage!.save(config));
+    }
   }
 
   /**
@@ -124,14 +216,33 @@ export class AlertManager {
    * Add or update a configuration
    */
   setConfiguration(config: AlertConfig): void {
-    this.configs.set(config.id, config);
+    this.configs.set(config.id, { ...config });
+    this.storage?.save(config);
   }
 
   /**
    * Remove a configuration
    */
   removeConfiguration(id: string): boolean {
-    return this.configs.delete(id);
+    const removed = this.configs.delete(id);
+    if (removed) {
+      this.storage?.remove(id);
+      this.clearRuleState(id);
+    }
+    return removed;
+  }
+
+  private clearRuleState(configId: string): void {
+    const matches = (key: string) => key.split(':')[1] === configId;
+    [...this.breachStarts.keys()].filter(matches).forEach((key) => this.breachStarts.delete(key));
+    [...this.openAlerts.keys()].filter(matches).forEach((key) => this.openAlerts.delete(key));
+
+    for (const [groupKey, parent] of this.groups) {
+      if (parent.configId === configId) {
+        this.groups.delete(groupKey);
+        this.groupMembers.delete(parent.id);
+      }
+    }
   }
 
   /**
@@ -141,6 +252,7 @@ export class AlertManager {
     const config = this.configs.get(id);
     if (config) {
       config.enabled = enabled;
+      this.storage?.save(config);
       return true;
     }
     return false;
@@ -151,113 +263,195 @@ export class AlertManager {
   // ==========================================================================
 
   /**
-   * Check predictions against alert configurations
+   * Check predictions against alert configurations. Nodes, when given,
+   * supply regions for grouping and suppression windows.
    */
-  async checkPredictionsForAlerts(predictions: Prediction[]): Promise<Alert[]> {
+  async checkPredictionsForAlerts(
+    predictions: Prediction[],
+    nodes: Record<string, Node> = {}
+  ): Promise<Alert[]> {
     const triggeredAlerts: Alert[] = [];
-    const now = new Date();
+    const now = this.clock();
+    const seen = new Set<string>();
 
     for (const prediction of predictions) {
+      const node = nodes[prediction.nodeId];
+      if (this.isSuppressed(prediction.nodeId, node?.region, now)) continue;
+
       for (const [configId, config] of this.configs) {
         if (!config.enabled) continue;
-        
-        // Check cooldown
-        const lastTriggered = this.cooldowns.get(configId);
-        if (lastTriggered) {
-          const cooldownMs = config.cooldownMinutes * 60 * 1000;
-          if (now.getTime() - lastTriggered.getTime() < cooldownMs) {
-            continue;
-          }
+
+        const subject = `${prediction.nodeId}:${prediction.type}`;
+        const key = `prediction:${configId}:${subject}`;
+        const sustained = this.evaluateRule('prediction', config, subject, now, seen,
+          (condition) => condition.fn ? undefined : this.getPredictionMetricValue(prediction, condition.metric));
+        if (!sustained) continue;
+
+        const groupKey = this.findGroup(config, {
+          nodeId: prediction.nodeId,
+          region: node?.region,
+          related: [prediction.nodeId, ...(prediction.cascadePath ?? [])],
+          predictionType: prediction.type,
+        });
+        if (groupKey && this.joinGroup(groupKey, key, [prediction.nodeId], this.predictionSeverity(prediction))) {
+          continue;
         }
+        if (this.inCooldown(configId, config, now)) continue;
 
-        // Check conditions
-        const conditionsMet = this.evaluateConditions(config.conditions, prediction);
-        
-        if (conditionsMet) {
-          const alert = this.createAlertFromPrediction(prediction, config);
-          triggeredAlerts.push(alert);
-          this.alerts.push(alert);
-          
-          // Update cooldown
-          this.cooldowns.set(configId, now);
-          config.lastTriggered = now;
-          
-          // Execute actions
-          await this.executeActions(config.actions, alert);
+        const alert = this.createAlertFromPrediction(prediction, config);
+        if (groupKey) {
+          alert.title = `${config.name}: ${this.describeGroup(config.groupBy!, groupKey, prediction.nodeName)}`;
         }
+        this.raise(alert, config, key, groupKey, triggeredAlerts);
+
+        // Update cooldown
+        this.cooldowns.set(configId, now);
+        config.lastTriggered = now;
+
+        // Execute actions
+        await this.executeActions(config.actions, alert);
       }
     }
 
+    // Predictions that disappeared have recovered
+    this.settleUnseen('prediction', seen, now);
+
     return triggeredAlerts;
   }
 
   /**
-   * Check system state against alert configurations
+   * Check system state against alert configurations. Node rules using
+   * history functions (`fn`) need the per-node histories.
    */
   async checkSystemStateForAlerts(
     state: SystemState,
-    nodes: Record<string, Node>
+    nodes: Record<string, Node>,
+    histories?: Map<string, NodeMetricsHistory>
   ): Promise<Alert[]> {
     const triggeredAlerts: Alert[] = [];
-    const now = new Date();
+    const now = this.clock();
+    const seen = new Set<string>();
 
     for (const [configId, config] of this.configs) {
       if (!config.enabled) continue;
-      
-      // Check cooldown
-      const lastTriggered = this.cooldowns.get(configId);
-      if (lastTriggered) {
-        const cooldownMs = config.cooldownMinutes * 60 * 1000;
-        if (now.getTime() - lastTriggered.getTime() < cooldownMs) {
-          continue;
-        }
-      }
 
       // Check system-level conditions
-      const conditionsMet = this.evaluateSystemConditions(config.conditions, state);
-      
-      if (conditionsMet) {
-        const alert = this.createAlertFromSystemState(state, config);
-        triggeredAlerts.push(alert);
-        this.alerts.push(alert);
-        
-        this.cooldowns.set(configId, now);
-        config.lastTriggered = now;
-        
-        await this.executeActions(config.actions, alert);
-      }
+      const sustained = this.evaluateRule('system', config, 'system', now, seen,
+        (condition) => condition.fn ? undefined : this.getSystemMetricValue(state, condition.metric));
+      if (!sustained || this.inCooldown(configId, config, now)) continue;
+
+      const alert = this.createAlertFromSystemState(state, config);
+      this.raise(alert, config, `system:${configId}:system`, undefined, triggeredAlerts);
+
+      this.cooldowns.set(configId, now);
+      config.lastTriggered = now;
+
+      await this.executeActions(config.actions, alert);
     }
 
     // Check node-level alerts
     for (const node of Object.values(nodes)) {
+      if (this.isSuppressed(node.id, node.region, now)) continue;
+
       for (const [configId, config] of this.configs) {
         if (!config.enabled) continue;
-        
-        const lastTriggered = this.cooldowns.get(`${configId}_${node.id}`);
-        if (lastTriggered) {
-          const cooldownMs = config.cooldownMinutes * 60 * 1000;
-          if (now.getTime() - lastTriggered.getTime() < cooldownMs) {
-            continue;
-          }
-        }
 
-        const conditionsMet = this.evaluateNodeConditions(config.conditions, node);
-        
-        if (conditionsMet) {
-          const alert = this.createAlertFromNode(node, config);
-          triggeredAlerts.push(alert);
-          this.alerts.push(alert);
-          
-          this.cooldowns.set(`${configId}_${node.id}`, now);
-          
-          await this.executeActions(config.actions, alert);
+        const key = `node:${configId}:${node.id}`;
+        const sustained = this.evaluateRule('node', config, node.id, now, seen,
+          (condition) => condition.fn
+            ? aggregateHistory(histories?.get(node.id), condition.metric, condition.fn, condition.window)
+            : this.getNodeMetricValue(node, condition.metric));
+        if (!sustained) continue;
+
+        const groupKey = this.findGroup(config, {
+          nodeId: node.id,
+          region: node.region,
+          related: [node.id, ...node.connections, ...(node.dependencies ?? [])],
+        });
+        if (groupKey && this.joinGroup(groupKey, key, [node.id], this.nodeSeverity(node))) continue;
+        if (this.inCooldown(`${configId}_${node.id}`, config, now)) continue;
+
+        const alert = this.createAlertFromNode(node, config);
+        if (groupKey) {
+          alert.title = `${config.name}: ${this.describeGroup(config.groupBy!, groupKey, node.name)}`;
         }
+        this.raise(alert, config, key, groupKey, triggeredAlerts);
+
+        this.cooldowns.set(`${configId}_${node.id}`, now);
+
+        await this.executeActions(config.actions, alert);
       }
     }
 
+    this.settleUnseen('system', seen, now);
+    this.settleUnseen('node', seen, now);
+
     return triggeredAlerts;
   }
 
+  /**
+   * Apply due escalation steps to active, unacknowledged alerts: bump the
+   * severity and notify the step's actions. Returns the escalated alerts.
+   */
+  async processEscalations(): Promise<Alert[]> {
+    const now = this.clock();
+    const escalated: Alert[] = [];
+
+    for (const alert of this.alerts) {
+      if (alert.status !== 'active' || !alert.configId) continue;
+
+      const level = alert.escalationLevel ?? 0;
+      const step = this.configs.get(alert.configId)?.escalation?.[level];
+      if (!step || now.getTime() - alert.createdAt.getTime() < step.afterMinutes * 60 * 1000) continue;
+
+      const rank = SEVERITY_LADDER.indexOf(alert.severity);
+      alert.severity = step.severity ?? SEVERITY_LADDER[Math.min(rank + 1, SEVERITY_LADDER.length - 1)];
+      alert.escalationLevel = level + 1;
+      alert.escalatedAt = now;
+      escalated.push(alert);
+
+      await this.executeActions(step.actions, alert);
+    }
+
+    return escalated;
+  }
+
+  // ==========================================================================
+  // Suppression
+  // ==========================================================================
+
+  /**
+   * Silence alerts for the window's nodes (or region) between its start and end
+   */
+  addSuppression(window: SuppressionWindow): void {
+    this.suppressions.set(window.id, { ...window });
+  }
+
+  removeSuppression(id: string): boolean {
+    return this.suppressions.delete(id);
+  }
+
+  /**
+   * Windows that have not ended yet, soonest first
+   */
+  getSuppressions(): SuppressionWindow[] {
+    const now = this.clock();
+    for (const [id, window] of this.suppressions) {
+      if (window.endsAt <= now) this.suppressions.delete(id);
+    }
+    return Array.from(this.suppressions.values())
+      .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+  }
+
+  isSuppressed(nodeId: string, region: string | undefined, now: Date = this.clock()): boolean {
+    for (const window of this.suppressions.values()) {
+      if (window.startsAt > now || window.endsAt <= now) continue;
+      if (window.nodeIds?.includes(nodeId)) return true;
+      if (region !== undefined && window.region === region) return true;
+    }
+    return false;
+  }
+
   // ==========================================================================
   // Alert Management
   // ==========================================================================
@@ -301,6 +495,10 @@ export class AlertManager {
     if (alert && alert.status !== 'resolved') {
       alert.status = 'resolved';
       alert.resolvedAt = new Date();
+      if (alert.groupKey && this.groups.get(alert.groupKey) === alert) {
+        this.groups.delete(alert.groupKey);
+      }
+      this.groupMembers.delete(alert.id);
       return true;
     }
     return false;
@@ -320,60 +518,239 @@ export class AlertManager {
     return before - this.alerts.length;
   }
 
+  // ==========================================================================
+  // Delivery
+  // ==========================================================================
+
+  /**
+   * Actions that exhausted their retries or failed permanently, newest last
+   */
+  getDeadLetters(): DeadLetter[] {
+    return [...this.deadLetters];
+  }
+
+  /**
+   * Wait for in-flight deliveries, including their retries
+   */
+  async flushDeliveries(): Promise<void> {
+    while (this.pendingDeliveries.size > 0) {
+      await Promise.all(this.pendingDeliveries);
+    }
+  }
+
   // ==========================================================================
   // Private Methods
   // ==========================================================================
 
-  private evaluateConditions(
-    conditions: AlertCondition[],
-    prediction: Prediction
+  /**
+   * Track how long each condition of a rule has been breached for one
+   * subject, auto-resolve the rule's open alert once its expression no
+   * longer holds within the hysteresis bands, and report whether the rule
+   * should fire: the expression true with each condition counted only once
+   * breached for at least its `duration`, and no alert already open.
+   * Rules apply to subjects that expose at least one metric they reference;
+   * a metric the subject lacks leaves only its own conditions unbreached.
+   */
+  private evaluateRule(
+    scope: RuleScope,
+    config: AlertConfig,
+    subject: string,
+    now: Date,
+    seen: Set<string>,
+    resolve: ConditionResolver
   ): boolean {
-    return conditions.every((condition) => {
-      const value = this.getPredictionMetricValue(prediction, condition.metric);
-      return this.compareValues(value, condition.operator, condition.value);
+    const expression = getRuleExpression(config);
+    const conditions = collectConditions(expression);
+    const values = new Map(conditions.map((condition) => [condition, resolve(condition)]));
+    if ([...values.values()].every((value) => value === undefined)) return false;
+
+    const key = `${scope}:${config.id}:${subject}`;
+    seen.add(key);
+
+    const sustained = new Map<AlertCondition, boolean>();
+    conditions.forEach((condition, index) => {
+      const conditionKey = `${key}:${index}`;
+      const breached = compareCondition(values.get(condition), condition.operator, condition.value);
+
+      if (!breached) {
+        this.breachStarts.delete(conditionKey);
+        sustained.set(condition, false);
+        return;
+      }
+
+      const since = this.breachStarts.get(conditionKey) ?? now;
+      this.breachStarts.set(conditionKey, since);
+      sustained.set(condition, now.getTime() - since.getTime() >= (condition.duration ?? 0) * 1000);
     });
+
+    const open = this.openAlerts.get(key);
+    if (open && open.status !== 'resolved') {
+      const holding = evaluateExpression(expression, (condition) =>
+        !this.hasRecovered(values.get(condition), condition)
+      );
+      if (!holding) {
+        this.autoResolve(key, open, now);
+      }
+      return false;
+    }
+    this.openAlerts.delete(key);
+
+    return evaluateExpression(expression, (condition) => sustained.get(condition) === true);
   }
 
-  private evaluateSystemConditions(
-    conditions: AlertCondition[],
-    state: SystemState
-  ): boolean {
-    return conditions.every((condition) => {
-      const value = this.getSystemMetricValue(state, condition.metric);
-      if (value === undefined) return false;
-      return this.compareValues(value, condition.operator, condition.value);
-    });
+  /**
+   * The value has moved back past the clear threshold: `clearValue` when set,
+   * otherwise the trigger threshold widened by the hysteresis ratio
+   */
+  private hasRecovered(actual: number | string | undefined, condition: AlertCondition): boolean {
+    if (actual === undefined) return true;
+    if (condition.operator === 'eq' || typeof actual !== 'number' || typeof condition.value !== 'number') {
+      return !compareCondition(actual, condition.operator, condition.value);
+    }
+
+    const band = Math.abs(condition.value) * this.managerOptions.hysteresisRatio;
+
+    switch (condition.operator) {
+      case 'gt':
+      case 'gte':
+        return actual < (condition.clearValue ?? condition.value - band);
+      case 'lt':
+      case 'lte':
+        return actual > (condition.clearValue ?? condition.value + band);
+      default:
+        return false;
+    }
   }
 
-  private evaluateNodeConditions(
-    conditions: AlertCondition[],
-    node: Node
-  ): boolean {
-    return conditions.every((condition) => {
-      const value = this.getNodeMetricValue(node, condition.metric);
-      if (value === undefined) return false;
-      return this.compareValues(value, condition.operator, condition.value);
+  private inCooldown(cooldownKey: string, config: AlertConfig, now: Date): boolean {
+    const lastTriggered = this.cooldowns.get(cooldownKey);
+    if (!lastTriggered) return false;
+
+    const cooldownMs = config.cooldownMinutes * 60 * 1000;
+    return now.getTime() - lastTriggered.getTime() < cooldownMs;
+  }
+
+  private raise(
+    alert: Alert,
+    config: AlertConfig,
+    key: string,
+    groupKey: string | undefined,
+    triggered: Alert[]
+  ): void {
+    alert.configId = config.id;
+    if (groupKey) {
+      alert.groupKey = groupKey;
+      this.groups.set(groupKey, alert);
+      this.groupMembers.set(alert.id, new Set([key]));
+    }
+
+    triggered.push(alert);
+    this.alerts.push(alert);
+    this.openAlerts.set(key, alert);
+  }
+
+  /**
+   * A grouped alert stays open until every subject in it has recovered
+   */
+  private autoResolve(key: string, alert: Alert, now: Date): void {
+    this.openAlerts.delete(key);
+
+    const members = this.groupMembers.get(alert.id);
+    if (members) {
+      members.delete(key);
+      if (members.size > 0) return;
+      this.groupMembers.delete(alert.id);
+      if (alert.groupKey) this.groups.delete(alert.groupKey);
+    }
+
+    alert.status = 'resolved';
+    alert.resolvedAt = now;
+    alert.autoResolved = true;
+  }
+
+  /**
+   * Group key for a subject of a grouped rule. Cascade subjects join the
+   * first open group they are connected to, or start their own.
+   */
+  private findGroup(config: AlertConfig, subject: GroupSubject): string | undefined {
+    const prefix = `${config.id}:${config.groupBy}:`;
+
+    switch (config.groupBy) {
+      case 'region':
+        return subject.region !== undefined ? prefix + subject.region : undefined;
+      case 'prediction':
+        return subject.predictionType !== undefined ? prefix + subject.predictionType : undefined;
+      case 'cascade': {
+        for (const [groupKey, parent] of this.groups) {
+          if (groupKey.startsWith(prefix) && parent.status !== 'resolved'
+            && subject.related.some((id) => parent.nodeIds.includes(id))) {
+            return groupKey;
+          }
+        }
+        return prefix + subject.nodeId;
+      }
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Fold a subject into the group's open parent alert, if there is one.
+   * Joining does not re-notify.
+   */
+  private joinGroup(groupKey: string, key: string, nodeIds: string[], severity?: AlertSeverity): boolean {
+    const parent = this.groups.get(groupKey);
+    if (!parent || parent.status === 'resolved') return false;
+
+    nodeIds.forEach((id) => {
+      if (!parent.nodeIds.includes(id)) parent.nodeIds.push(id);
     });
+    if (severity && SEVERITY_LADDER.indexOf(severity) > SEVERITY_LADDER.indexOf(parent.severity)) {
+      parent.severity = severity;
+    }
+    parent.message = `${parent.nodeIds.length} nodes affected. ${parent.message.replace(/^\d+ nodes affected\. /, '')}`;
+
+    this.openAlerts.set(key, parent);
+    this.groupMembers.get(parent.id)?.add(key);
+    return true;
+  }
+
+  private describeGroup(groupBy: AlertGrouping, groupKey: string, subjectName: string): string {
+    const value = groupKey.slice(groupKey.indexOf(`:${groupBy}:`) + groupBy.length + 2);
+    switch (groupBy) {
+      case 'region':
+        return `${value} region`;
+      case 'prediction':
+        return `${value} predictions`;
+      case 'cascade':
+        return `cascade from ${subjectName}`;
+    }
+  }
+
+  /**
+   * Subjects missing from a pass (a prediction that was withdrawn, a node
+   * that was removed) count as recovered
+   */
+  private settleUnseen(scope: RuleScope, seen: Set<string>, now: Date): void {
+    const prefix = `${scope}:`;
+
+    for (const [key, alert] of this.openAlerts) {
+      if (key.startsWith(prefix) && !seen.has(key)) {
+        this.autoResolve(key, alert, now);
+      }
+    }
+    for (const conditionKey of this.breachStarts.keys()) {
+      if (conditionKey.startsWith(prefix) && !seen.has(conditionKey.slice(0, conditionKey.lastIndexOf(':')))) {
+        this.breachStarts.delete(conditionKey);
+      }
+    }
   }
 
   private getPredictionMetricValue(
     prediction: Prediction,
     metric: string
   ): number | string | undefined {
-    switch (metric) {
-      case 'probability':
-        return prediction.probability;
-      case 'hoursToEvent':
-        return prediction.hoursToEvent;
-      case 'confidence':
-        return prediction.confidence;
-      case 'type':
-        return prediction.type;
-      case 'severity':
-        return prediction.severity;
-      default:
-        return undefined;
-    }
+    return this.getFieldValue(prediction, metric);
   }
 
   private getSystemMetricValue(
@@ -383,78 +760,59 @@ export class AlertManager {
     switch (metric) {
       case 'systemHealth':
         return state.avgHealth;
-      case 'maxRisk':
-        return state.maxRisk;
-      case 'loadRatio':
-        return state.loadRatio;
       case 'criticalCount':
         return state.criticalNodes.length;
-      default:
-        return undefined;
+      case 'warningCount':
+        return state.warningNodes.length;
+      default: {
+        const value = this.getFieldValue(state, metric);
+        return typeof value === 'number' ? value : undefined;
+      }
     }
   }
 
-  private getNodeMetricValue(node: Node, metric: string): number | undefined {
-    switch (metric) {
-      case 'riskScore':
-        return node.riskScore;
-      case 'health':
-        return node.health;
-      case 'loadRatio':
-        return node.loadRatio;
-      case 'temperature':
-        return node.temperature;
-      default:
-        return undefined;
-    }
+  /**
+   * Any numeric or string field of the node: physical and cyber metrics,
+   * type, category, region, status, ...
+   */
+  private getNodeMetricValue(node: Node, metric: string): number | string | undefined {
+    return this.getFieldValue(node, metric);
   }
 
-  private compareValues(
-    actual: number | string | undefined,
-    operator: AlertCondition['operator'],
-    expected: number
-  ): boolean {
-    if (actual === undefined) return false;
-    
-    const numActual = typeof actual === 'string' ? 0 : actual;
-    
-    switch (operator) {
-      case 'gt':
-        return numActual > expected;
-      case 'gte':
-        return numActual >= expected;
-      case 'lt':
-        return numActual < expected;
-      case 'lte':
-        return numActual <= expected;
-      case 'eq':
-        return actual === expected || numActual === expected;
-      default:
-        return false;
-    }
+  private getFieldValue(source: object, field: string): number | string | undefined {
+    if (!Object.prototype.hasOwnProperty.call(source, field)) return undefined;
+    const value = (source as Record<string, unknown>)[field];
+    return typeof value === 'number' || typeof value === 'string' ? value : undefined;
   }
 
-  private createAlertFromPrediction(
-    prediction: Prediction,
-    config: AlertConfig
-  ): Alert {
+  private predictionSeverity(prediction: Prediction): AlertSeverity {
     const severityMap: Record<string, AlertSeverity> = {
       critical: 'critical',
       high: 'error',
       medium: 'warning',
       low: 'info',
     };
+    return severityMap[prediction.severity] || 'warning';
+  }
 
+  private nodeSeverity(node: Node): AlertSeverity {
+    return node.riskScore > 0.9 ? 'critical' : node.riskScore > 0.8 ? 'error' : 'warning';
+  }
+
+  private createAlertFromPrediction(
+    prediction: Prediction,
+    config: AlertConfig
+  ): Alert {
     return {
       id: `alert_${this.rng.nextUUID()}`,
       predictionId: prediction.id,
       type: 'prediction_triggered',
-      severity: severityMap[prediction.severity] || 'warning',
+      severity: this.predictionSeverity(prediction),
       title: `${config.name}: ${prediction.nodeName}`,
       message: `${prediction.type} predicted for ${prediction.nodeName} within ${prediction.hoursToEvent.toFixed(1)} hours (${(prediction.probability * 100).toFixed(0)}% probability)`,
       nodeIds: [prediction.nodeId],
       status: 'active',
-      createdAt: new Date(),
+      createdAt: this.clock(),
     };
   }
 
@@ -470,7 +828,7 @@ export class AlertManager {
       message: `System health at ${(state.avgHealth * 100).toFixed(0)}%. ${state.criticalNodes.length} critical nodes detected.`,
       nodeIds: state.criticalNodes,
       status: 'active',
-      createdAt: new Date(),
+      createdAt: this.clock(),
     };
   }
 
@@ -478,45 +836,95 @@ export class AlertManager {
     return {
       id: `alert_${this.rng.nextUUID()}`,
       type: 'threshold_breach',
-      severity: node.riskScore > 0.9 ? 'critical' : node.riskScore > 0.8 ? 'error' : 'warning',
+      severity: this.nodeSeverity(node),
       title: `${config.name}: ${node.name}`,
       message: `Node ${node.name} has risk score ${(node.riskScore * 100).toFixed(0)}% and health ${(node.health * 100).toFixed(0)}%`,
       nodeIds: [node.id],
       status: 'active',
-      createdAt: new Date(),
+      createdAt: this.clock(),
     };
   }
 
+  /**
+   * Log actions run inline. Dispatched actions are delivered in the
+   * background so retries never hold up alert evaluation.
+   */
   private async executeActions(
     actions: AlertAction[],
     alert: Alert
   ): Promise<void> {
     for (const action of actions) {
+      if (action.type === 'log') {
+        const text = action.template
+          ? renderTemplate(action.template, alert)
+          : `${alert.severity.toUpperCase()}: ${alert.title} - ${alert.message}`;
+        console.log(`[ALERT] ${text}`);
+        continue;
+      }
+
+      const delivery: AlertDelivery = {
+        actionType: action.type,
+        target: action.target,
+        status: 'pending',
+        attempts: 0,
+      };
+      alert.deliveries = [...(alert.deliveries ?? []), delivery];
+
+      const dispatcher = this.dispatchers[action.type];
+      if (!dispatcher) {
+        delivery.status = 'skipped';
+        delivery.error = `No ${action.type} dispatcher configured`;
+        continue;
+      }
+
+      const pending = this.deliver(dispatcher, action, alert, delivery)
+        .finally(() => this.pendingDeliveries.delete(pending));
+      this.pendingDeliveries.add(pending);
+    }
+  }
+
+  private async deliver(
+    dispatcher: AlertDispatcher,
+    action: AlertAction,
+    alert: Alert,
+    delivery: AlertDelivery
+  ): Promise<void> {
+    const { maxAttempts, backoffMs, deadLetterLimit } = this.managerOptions;
+
+    while (delivery.attempts < maxAttempts) {
+      delivery.attempts++;
+      delivery.lastAttemptAt = new Date();
+
       try {
-        switch (action.type) {
-          case 'log':
-            console.log(`[ALERT] ${alert.severity.toUpperCase()}: ${alert.title} - ${alert.message}`);
-            break;
-            
-          case 'webhook':
-            // In production, this would make an HTTP request
-            console.log(`[WEBHOOK] Would POST to ${action.target}:`, alert);
-            break;
-            
-          case 'email':
-            // In production, this would send an email
-            console.log(`[EMAIL] Would send to ${action.target}:`, alert.title);
-            break;
-            
-          case 'slack':
-            // In production, this would post to Slack
-            console.log(`[SLACK] Would post to ${action.target}:`, alert.message);
-            break;
-        }
+        await dispatcher.deliver(action, alert);
+        delivery.status = 'delivered';
+        delivery.deliveredAt = new Date();
+        delivery.error = undefined;
+        return;
       } catch (error) {
-        console.error(`Failed to execute action ${action.type}:`, error);
+        delivery.error = error instanceof Error ? error.message : String(error);
+        const retryable = !(error instanceof DeliveryError) || error.retryable;
+        if (!retryable) break;
+      }
+
+      if (delivery.attempts < maxAttempts) {
+        const delay = backoffMs * 2 ** (delivery.attempts - 1);
+        await new Promise((resolve) => setTimeout(resolve, delay));
       }
     }
+
+    delivery.status = 'failed';
+    this.deadLetters.push({
+      alertId: alert.id,
+      action,
+      attempts: delivery.attempts,
+      error: delivery.error ?? 'Unknown error',
+      failedAt: new Date(),
+    });
+    if (this.deadLetters.length > deadLetterLimit) {
+      this.deadLetters.splice(0, this.deadLetters.length - deadLetterLimit);
+    }
+    console.error(`Failed to deliver ${action.type} alert ${alert.id} to ${action.target}: ${delivery.error}`);
   }
 }
 
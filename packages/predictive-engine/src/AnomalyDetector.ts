@@ -0,0 +1,336 @@
+/**
+ * Sentinel Grid - Anomaly Detector
+ * Flags nodes behaving unlike themselves: EWMA baselines with hour-of-day
+ * seasonal offsets, z-scored residuals and CUSUM change-point detection
+ */
+
+import { AnomalyMetric, Node, NodeAnomaly, NodeType } from './types';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export interface AnomalyDetectorOptions {
+  alpha: number;            // EWMA smoothing for level and variance
+  seasonalAlpha: number;    // Smoothing for seasonal offsets
+  seasonSlots: number;      // Seasonal slots per day (24 = hourly)
+  zThreshold: number;       // |z| at or above this is a spike
+  warmupSamples: number;    // Samples before a node's own baseline is trusted
+  cusumDrift: number;       // CUSUM slack (k), in standard deviations
+  cusumThreshold: number;   // CUSUM decision interval (h), in standard deviations
+  shiftMemory: number;      // Samples a detected level shift stays reported
+  sigmaFloorRatio: number;  // Node sigma never drops below this share of its type's sigma
+}
+
+const DEFAULT_OPTIONS: AnomalyDetectorOptions = {
+  alpha: 0.1,
+  seasonalAlpha: 0.05,
+  seasonSlots: 24,
+  zThreshold: 3,
+  warmupSamples: 20,
+  cusumDrift: 1.5,
+  cusumThreshold: 10,
+  shiftMemory: 10,
+  sigmaFloorRatio: 0.1,
+};
+
+export const ANOMALY_METRICS: AnomalyMetric[] = ['riskScore', 'health', 'loadRatio', 'temperature'];
+
+/**
+ * Direction in which a deviation means trouble
+ */
+const ADVERSE_DIRECTION: Record<AnomalyMetric, NodeAnomaly['direction']> = {
+  riskScore: 'up',
+  health: 'down',
+  loadRatio: 'up',
+  temperature: 'up',
+};
+
+const METRIC_LABELS: Record<AnomalyMetric, string> = {
+  riskScore: 'risk score',
+  health: 'health',
+  loadRatio: 'load',
+  temperature: 'temperature',
+};
+
+const MIN_SIGMA = 1e-6;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+export function isAdverse(anomaly: NodeAnomaly): boolean {
+  return ADVERSE_DIRECTION[anomaly.metric] === anomaly.direction;
+}
+
+/**
+ * Largest deviation first
+ */
+export function strongestAnomaly(anomalies: NodeAnomaly[]): NodeAnomaly | undefined {
+  return [...anomalies].sort((a, b) => Math.abs(b.zScore) - Math.abs(a.zScore))[0];
+}
+
+export function describeAnomaly(anomaly: NodeAnomaly): string {
+  const label = METRIC_LABELS[anomaly.metric];
+  const side = anomaly.direction === 'up' ? 'above' : 'below';
+  const detail = `${anomaly.value.toFixed(2)} vs ${anomaly.expected.toFixed(2)} expected`;
+
+  return anomaly.kind === 'shift'
+    ? `${label} shifted ${anomaly.direction} from its baseline (${detail})`
+    : `${label} ${Math.abs(anomaly.zScore).toFixed(1)}σ ${side} baseline (${detail})`;
+}
+
+// ============================================================================
+// Anomaly Detector Class
+// ============================================================================
+
+interface Baseline {
+  samples: number;
+  level: number;            // Deseasonalized EWMA level
+  variance: number;         // EWMA variance of residuals
+  seasonal: number[];       // Offset from level per slot
+}
+
+interface MetricState extends Baseline {
+  regimeSamples: number;    // Samples since the baseline (re)started
+  cusumUp: number;
+  cusumDown: number;
+  shift: NodeAnomaly | null;
+  shiftAge: number;
+}
+
+export class AnomalyDetector {
+  private options: AnomalyDetectorOptions;
+
+  private states: Map<string, MetricState> = new Map();      // `${nodeId}:${metric}`
+  private typeBaselines: Map<string, Baseline> = new Map();  // `${nodeType}:${metric}`
+  private current: Map<string, NodeAnomaly[]> = new Map();
+
+  constructor(options: Partial<AnomalyDetectorOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  get zThreshold(): number {
+    return this.options.zThreshold;
+  }
+
+  // ==========================================================================
+  // Observation
+  // ==========================================================================
+
+  /**
+   * Score a node's latest sample against its baselines, then learn from it.
+   * Returns the node's anomalies as of this sample.
+   */
+  observe(node: Node, timestamp: Date): NodeAnomaly[] {
+    const slot = this.slotOf(timestamp);
+    const anomalies: NodeAnomaly[] = [];
+
+    for (const metric of ANOMALY_METRICS) {
+      const value = node[metric];
+      if (!Number.isFinite(value)) continue;
+
+      const typeBaseline = this.typeBaseline(node.type, metric);
+      const state = this.state(node.id, metric, typeBaseline);
+      const anomaly = this.score(node.id, metric, value, slot, timestamp, state, typeBaseline);
+      if (anomaly) anomalies.push(anomaly);
+
+      this.learn(typeBaseline, value, slot);
+    }
+
+    this.current.set(node.id, anomalies);
+    return anomalies;
+  }
+
+  /**
+   * Anomalies as of each node's latest sample
+   */
+  getAnomalies(nodeId?: string): NodeAnomaly[] {
+    if (nodeId) return this.current.get(nodeId) ?? [];
+    return [...this.current.values()].flat();
+  }
+
+  /**
+   * Expected value and spread for a node metric at the given time
+   */
+  getBaseline(
+    nodeId: string,
+    metric: AnomalyMetric,
+    at: Date
+  ): { expected: number; sigma: number; samples: number } | undefined {
+    const state = this.states.get(`${nodeId}:${metric}`);
+    if (!state) return undefined;
+
+    return {
+      expected: state.level + state.seasonal[this.slotOf(at)],
+      sigma: Math.sqrt(state.variance),
+      samples: state.samples,
+    };
+  }
+
+  /**
+   * Independent detector with the same baselines and current anomalies
+   */
+  clone(): AnomalyDetector {
+    const copy = new AnomalyDetector(this.options);
+    copy.states = structuredClone(this.states);
+    copy.typeBaselines = structuredClone(this.typeBaselines);
+    copy.current = structuredClone(this.current);
+    return copy;
+  }
+
+  reset(): void {
+    this.states.clear();
+    this.typeBaselines.clear();
+    this.current.clear();
+  }
+
+  // ==========================================================================
+  // Scoring
+  // ==========================================================================
+
+  private score(
+    nodeId: string,
+    metric: AnomalyMetric,
+    value: number,
+    slot: number,
+    timestamp: Date,
+    state: MetricState,
+    typeBaseline: Baseline
+  ): NodeAnomaly | null {
+    const { zThreshold, warmupSamples, cusumDrift, cusumThreshold, shiftMemory } = this.options;
+
+    if (state.shift) {
+      state.shiftAge++;
+      if (state.shiftAge > shiftMemory) state.shift = null;
+    }
+
+    // A fresh baseline learns unclamped before it is trusted to score
+    if (state.regimeSamples < warmupSamples) {
+      this.learn(state, value, slot);
+      state.regimeSamples++;
+      return state.shift;
+    }
+
+    const expected = state.level + state.seasonal[slot];
+    const z = (value - expected) / this.sigma(state, typeBaseline);
+
+    const anomaly = (kind: NodeAnomaly['kind']): NodeAnomaly => ({
+      nodeId,
+      metric,
+      kind,
+      direction: z >= 0 ? 'up' : 'down',
+      value,
+      expected,
+      zScore: z,
+      detectedAt: timestamp,
+    });
+
+    // Two-sided CUSUM catches sustained drift that never spikes; clipping z
+    // keeps a single outlier from reading as a change point
+    const clipped = Math.max(-zThreshold, Math.min(zThreshold, z));
+    state.cusumUp = Math.max(0, state.cusumUp + clipped - cusumDrift);
+    state.cusumDown = Math.max(0, state.cusumDown - clipped - cusumDrift);
+
+    if (state.cusumUp > cusumThreshold || state.cusumDown > cusumThreshold) {
+      state.shift = anomaly('shift');
+      state.shiftAge = 0;
+      state.cusumUp = 0;
+      state.cusumDown = 0;
+      // Re-center on the new regime and re-learn it rather than flagging it
+      // indefinitely; the shift stays reported meanwhile
+      state.level = value - state.seasonal[slot];
+      state.samples++;
+      state.regimeSamples = 1;
+      return state.shift;
+    }
+
+    this.learn(state, value, slot, zThreshold * this.sigma(state, typeBaseline));
+
+    if (Math.abs(z) >= zThreshold) return anomaly('spike');
+    return state.shift;
+  }
+
+  /**
+   * EWMA update of level, variance and the slot's seasonal offset. Residuals
+   * are clamped so a single spike does not drag the baseline with it.
+   */
+  private learn(baseline: Baseline, value: number, slot: number, clamp = Infinity): void {
+    const { alpha, seasonalAlpha } = this.options;
+
+    if (baseline.samples === 0) {
+      baseline.level = value;
+      baseline.samples = 1;
+      return;
+    }
+
+    const residual = value - baseline.level - baseline.seasonal[slot];
+    const bounded = Math.max(-clamp, Math.min(clamp, residual));
+
+    baseline.level += alpha * bounded;
+    baseline.seasonal[slot] += seasonalAlpha * (bounded - alpha * bounded);
+    // Outliers say nothing about normal spread; a sustained run of them is
+    // a change point and restarts the baseline instead
+    if (Math.abs(residual) <= clamp) {
+      baseline.variance = (1 - alpha) * (baseline.variance + alpha * residual * residual);
+    }
+    baseline.samples++;
+  }
+
+  private sigma(state: Baseline, typeBaseline: Baseline): number {
+    const floor = Math.sqrt(typeBaseline.variance) * this.options.sigmaFloorRatio;
+    return Math.max(MIN_SIGMA, Math.sqrt(state.variance), floor);
+  }
+
+  // ==========================================================================
+  // State
+  // ==========================================================================
+
+  private slotOf(timestamp: Date): number {
+    const dayFraction = (timestamp.getUTCHours() * 60 + timestamp.getUTCMinutes()) / 1440;
+    return Math.floor(dayFraction * this.options.seasonSlots) % this.options.seasonSlots;
+  }
+
+  private emptyBaseline(): Baseline {
+    return {
+      samples: 0,
+      level: 0,
+      variance: 0,
+      seasonal: new Array(this.options.seasonSlots).fill(0),
+    };
+  }
+
+  /**
+   * Pooled baseline for every node of a type. It seeds new nodes' spread
+   * and floors the sigma of nodes whose own history is unusually flat.
+   */
+  private typeBaseline(type: NodeType, metric: AnomalyMetric): Baseline {
+    const key = `${type}:${metric}`;
+    let baseline = this.typeBaselines.get(key);
+    if (!baseline) {
+      baseline = this.emptyBaseline();
+      this.typeBaselines.set(key, baseline);
+    }
+    return baseline;
+  }
+
+  private state(nodeId: string, metric: AnomalyMetric, typeBaseline: Baseline): MetricState {
+    const key = `${nodeId}:${metric}`;
+    let state = this.states.get(key);
+    if (!state) {
+      state = {
+        ...this.emptyBaseline(),
+        variance: typeBaseline.variance,
+        regimeSamples: 0,
+        cusumUp: 0,
+        cusumDown: 0,
+        shift: null,
+        shiftAge: 0,
+      };
+      this.states.set(key, state);
+    }
+    return state;
+  }
+}
+
+export default AnomalyDetector;
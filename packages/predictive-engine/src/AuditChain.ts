@@ -0,0 +1,78 @@
+/**
+ * Sentinel Grid - Audit Hash Chain
+ * Each audit entry commits to the one before it, so deleting, editing or
+ * reordering any entry breaks every link after it
+ */
+
+import { createHash } from 'crypto';
+import { canonicalJson } from './Merkle';
+import { AuditChainEntry, AuditChainVerification } from './types';
+
+/** prevHash of the first entry in a chain */
+export const AUDIT_CHAIN_GENESIS = '0'.repeat(64);
+
+/**
+ * SHA-256 over the canonical JSON of every field except chainHash itself
+ */
+export function hashAuditChainEntry(entry: Omit<AuditChainEntry, 'chainHash'>): string {
+  return createHash('sha256')
+    .update(canonicalJson({
+      seq: entry.seq,
+      id: entry.id,
+      timestamp: entry.timestamp,
+      type: entry.type,
+      hash: entry.hash,
+      actor: entry.actor,
+      dataSummary: entry.dataSummary,
+      prevHash: entry.prevHash,
+    }))
+    .digest('hex');
+}
+
+/**
+ * Walk entries in stored order from seq 1 and stop at the first broken
+ * link. A valid result's headHash can be anchored to pin the whole log.
+ */
+export function verifyAuditChain(entries: AuditChainEntry[]): AuditChainVerification {
+  let prevHash = AUDIT_CHAIN_GENESIS;
+  let headSeq: number | null = null;
+
+  const result = (firstBreak?: AuditChainVerification['firstBreak']): AuditChainVerification => ({
+    valid: !firstBreak,
+    checked: headSeq ?? 0,
+    headSeq,
+    headHash: headSeq === null ? null : prevHash,
+    ...(firstBreak && { firstBreak }),
+  });
+
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    const expectedSeq = i + 1;
+
+    if (entry.seq !== expectedSeq) {
+      // A skipped seq that turns up later was moved, not deleted
+      const missing = entry.seq > expectedSeq && !entries.slice(i + 1).some((e) => e.seq === expectedSeq);
+      return result({
+        seq: entry.seq,
+        id: entry.id,
+        reason: missing ? 'gap' : 'reorder',
+        expected: String(expectedSeq),
+        actual: String(entry.seq),
+      });
+    }
+
+    const chainHash = hashAuditChainEntry(entry);
+    if (chainHash !== entry.chainHash) {
+      return result({ seq: entry.seq, id: entry.id, reason: 'modified', expected: chainHash, actual: entry.chainHash });
+    }
+
+    if (entry.prevHash !== prevHash) {
+      return result({ seq: entry.seq, id: entry.id, reason: 'broken_link', expected: prevHash, actual: entry.prevHash });
+    }
+
+    prevHash = entry.chainHash;
+    headSeq = entry.seq;
+  }
+
+  return result();
+}
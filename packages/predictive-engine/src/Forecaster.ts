@@ -0,0 +1,255 @@
+/**
+ * Sentinel Grid - Forecaster
+ * Damped-trend exponential smoothing over node metric histories, with
+ * prediction intervals that widen with the horizon
+ */
+
+import { DEFAULT_THERMAL_LIMIT } from './OutcomeTracker';
+import { CRITICAL_THRESHOLD } from './SimulationEngine';
+import {
+  ForecastMetric,
+  ForecastPoint,
+  MetricForecast,
+  Node,
+  NodeForecast,
+  NodeMetricsHistory,
+  TimeToFailure,
+} from './types';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export interface ForecastOptions {
+  horizonHours: number;
+  stepHours: number;          // Spacing of forecast points
+  alpha: number;              // Level smoothing
+  beta: number;               // Trend smoothing
+  dampingPerHour: number;     // Share of the trend that survives each hour (1 = undamped)
+  z: number;                  // Interval width in standard errors (1.96 = 95%)
+  minSamples: number;         // Fewer history points than this yields no forecast
+}
+
+export const DEFAULT_FORECAST_OPTIONS: ForecastOptions = {
+  horizonHours: 48,
+  stepHours: 1,
+  alpha: 0.3,
+  beta: 0.1,
+  dampingPerHour: 0.9,
+  z: 1.96,
+  minSamples: 5,
+};
+
+export const FORECAST_METRICS: ForecastMetric[] = ['riskScore', 'temperature', 'loadRatio'];
+
+export const LOAD_FAILURE_RATIO = 0.95;
+
+const HISTORY_FIELDS: Record<ForecastMetric, 'riskScores' | 'temperatures' | 'loadRatios'> = {
+  riskScore: 'riskScores',
+  temperature: 'temperatures',
+  loadRatio: 'loadRatios',
+};
+
+const BOUNDS: Record<ForecastMetric, [number, number]> = {
+  riskScore: [0, 1],
+  temperature: [-Infinity, Infinity],
+  loadRatio: [0, Infinity],
+};
+
+/**
+ * Values at which each metric counts as failed, matching the outcome checks
+ */
+export function failureThresholds(node: Node): Record<ForecastMetric, number> {
+  return {
+    riskScore: CRITICAL_THRESHOLD,
+    temperature: node.thermalLimit ?? DEFAULT_THERMAL_LIMIT,
+    loadRatio: LOAD_FAILURE_RATIO,
+  };
+}
+
+// ============================================================================
+// Damped Holt Smoothing
+// ============================================================================
+
+interface HoltFit {
+  level: number;
+  trend: number;              // Per sample
+  sigma: number;              // One-step-ahead residual standard deviation
+}
+
+function fitDampedHolt(values: number[], alpha: number, beta: number, phi: number): HoltFit {
+  let level = values[0];
+  let trend = values[1] - values[0];
+  let squaredErrors = 0;
+
+  for (let t = 1; t < values.length; t++) {
+    const predicted = level + phi * trend;
+    const error = values[t] - predicted;
+    if (t > 1) squaredErrors += error * error;
+
+    const nextLevel = alpha * values[t] + (1 - alpha) * predicted;
+    trend = beta * (nextLevel - level) + (1 - beta) * phi * trend;
+    level = nextLevel;
+  }
+
+  const residuals = Math.max(1, values.length - 2);
+  return { level, trend, sigma: Math.sqrt(squaredErrors / residuals) };
+}
+
+/**
+ * phi + phi^2 + ... + phi^h
+ */
+function dampedSum(phi: number, h: number): number {
+  return phi >= 1 ? h : (phi * (1 - Math.pow(phi, h))) / (1 - phi);
+}
+
+/**
+ * Sum over j = 1..m of c_j^2, where c_j = alpha + alpha*beta*dampedSum(phi, j)
+ * weights the j-step-old error in an h = m + 1 step forecast
+ */
+function errorWeightSum(alpha: number, beta: number, phi: number, m: number): number {
+  if (m <= 0) return 0;
+  if (phi >= 1) {
+    return alpha * alpha * (m + beta * m * (m + 1) + (beta * beta * m * (m + 1) * (2 * m + 1)) / 6);
+  }
+
+  // c_j = A - c*phi^j with closed-form geometric sums
+  const c = (alpha * beta * phi) / (1 - phi);
+  const a = alpha + c;
+  const sumPhi = dampedSum(phi, m);
+  const sumPhiSquared = (phi * phi * (1 - Math.pow(phi, 2 * m))) / (1 - phi * phi);
+  return m * a * a - 2 * a * c * sumPhi + c * c * sumPhiSquared;
+}
+
+/**
+ * Typical spacing of history samples, in hours
+ */
+function sampleIntervalHours(timestamps: Date[]): number | null {
+  const gaps = timestamps
+    .slice(1)
+    .map((t, i) => (new Date(t).getTime() - new Date(timestamps[i]).getTime()) / 3600000)
+    .filter((gap) => gap > 0)
+    .sort((a, b) => a - b);
+
+  return gaps.length > 0 ? gaps[Math.floor(gaps.length / 2)] : null;
+}
+
+// ============================================================================
+// Forecasting
+// ============================================================================
+
+export function forecastMetric(
+  metric: ForecastMetric,
+  values: number[],
+  intervalHours: number,
+  now: Date,
+  options: ForecastOptions = DEFAULT_FORECAST_OPTIONS
+): MetricForecast {
+  const { alpha, beta, z, horizonHours, stepHours } = options;
+  const phi = Math.pow(options.dampingPerHour, intervalHours);
+  const fit = fitDampedHolt(values, alpha, beta, phi);
+  const [min, max] = BOUNDS[metric];
+  const clamp = (value: number) => Math.max(min, Math.min(max, value));
+
+  const points: ForecastPoint[] = [];
+  for (let hoursAhead = 0; hoursAhead <= horizonHours; hoursAhead += stepHours) {
+    const h = Math.round(hoursAhead / intervalHours);
+    const mean = fit.level + fit.trend * dampedSum(phi, h);
+    const spread = h > 0
+      ? z * fit.sigma * Math.sqrt(1 + errorWeightSum(alpha, beta, phi, h - 1))
+      : 0;
+
+    points.push({
+      hoursAhead,
+      time: new Date(now.getTime() + hoursAhead * 3600000),
+      mean: clamp(mean),
+      lower: clamp(mean - spread),
+      upper: clamp(mean + spread),
+    });
+  }
+
+  return {
+    metric,
+    points,
+    trendPerHour: fit.trend / intervalHours,
+    residualStd: fit.sigma,
+  };
+}
+
+/**
+ * Hours until a series first reaches the threshold, interpolated between points
+ */
+function crossingHours(points: ForecastPoint[], series: 'mean' | 'lower' | 'upper', threshold: number): number | null {
+  for (let i = 0; i < points.length; i++) {
+    const value = points[i][series];
+    if (value < threshold) continue;
+    if (i === 0) return 0;
+
+    const previous = points[i - 1];
+    const fraction = (threshold - previous[series]) / (value - previous[series]);
+    return previous.hoursAhead + fraction * (points[i].hoursAhead - previous.hoursAhead);
+  }
+  return null;
+}
+
+/**
+ * Earliest metric whose expected trajectory reaches its failure threshold
+ */
+export function estimateTimeToFailure(
+  node: Node,
+  metrics: Record<ForecastMetric, MetricForecast>,
+  horizonHours: number
+): TimeToFailure | null {
+  const thresholds = failureThresholds(node);
+  let earliest: TimeToFailure | null = null;
+
+  for (const metric of FORECAST_METRICS) {
+    const { points } = metrics[metric];
+    const threshold = thresholds[metric];
+    const hours = crossingHours(points, 'mean', threshold);
+    if (hours === null || (earliest && earliest.hours <= hours)) continue;
+
+    earliest = {
+      hours,
+      interval: [
+        crossingHours(points, 'upper', threshold) ?? hours,
+        crossingHours(points, 'lower', threshold) ?? horizonHours,
+      ],
+      metric,
+      threshold,
+    };
+  }
+
+  return earliest;
+}
+
+/**
+ * Forecast risk, temperature and load for one node, or null while its
+ * history is too short to fit
+ */
+export function forecastNode(
+  node: Node,
+  history: NodeMetricsHistory | undefined,
+  now: Date,
+  options: Partial<ForecastOptions> = {}
+): NodeForecast | null {
+  const opts = { ...DEFAULT_FORECAST_OPTIONS, ...options };
+  if (!history || history.timestamps.length < Math.max(2, opts.minSamples)) return null;
+
+  const intervalHours = sampleIntervalHours(history.timestamps);
+  if (intervalHours === null) return null;
+
+  const metrics = {} as Record<ForecastMetric, MetricForecast>;
+  for (const metric of FORECAST_METRICS) {
+    metrics[metric] = forecastMetric(metric, history[HISTORY_FIELDS[metric]], intervalHours, now, opts);
+  }
+
+  return {
+    nodeId: node.id,
+    generatedAt: now,
+    horizonHours: opts.horizonHours,
+    samples: history.timestamps.length,
+    metrics,
+    timeToFailure: estimateTimeToFailure(node, metrics, opts.horizonHours),
+  };
+}
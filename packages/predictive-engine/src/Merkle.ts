@@ -0,0 +1,126 @@
+/**
+ * Sentinel Grid - Merkle Batching
+ * Hashes many records into one root so a single on-chain anchor covers them
+ * all, with a short inclusion proof per record
+ */
+
+import { createHash } from 'crypto';
+import { MerkleProofStep } from './types';
+
+// Domain-separation prefixes, so a leaf can never pass for an inner node
+const LEAF_PREFIX = Buffer.from([0x00]);
+const NODE_PREFIX = Buffer.from([0x01]);
+
+// ============================================================================
+// Hashing
+// ============================================================================
+
+/**
+ * JSON with object keys sorted at every level, so the same record always
+ * hashes the same whatever order its fields were set in
+ */
+export function canonicalJson(value: unknown): string {
+  return JSON.stringify(sortKeys(value));
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.keys(value as Record<string, unknown>)
+        .sort()
+        .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+        .map((key) => [key, sortKeys((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
+
+/**
+ * Leaf hash of a record: SHA-256 of 0x00 followed by its canonical JSON
+ */
+export function hashLeaf(data: unknown): string {
+  return createHash('sha256').update(LEAF_PREFIX).update(canonicalJson(data)).digest('hex');
+}
+
+/**
+ * Inner node hash: SHA-256 of 0x01, the left child and the right child
+ */
+export function hashMerkleNodes(left: string, right: string): string {
+  return createHash('sha256')
+    .update(NODE_PREFIX)
+    .update(Buffer.from(left, 'hex'))
+    .update(Buffer.from(right, 'hex'))
+    .digest('hex');
+}
+
+// ============================================================================
+// Tree
+// ============================================================================
+
+export interface MerkleTree {
+  root: string;
+  levels: string[][];          // levels[0] are the leaf hashes, the last level is [root]
+}
+
+/**
+ * Build a tree over leaf hashes. An odd node at the end of a level is
+ * carried up unchanged rather than paired with itself.
+ */
+export function buildMerkleTree(leaves: string[]): MerkleTree {
+  if (leaves.length === 0) {
+    throw new Error('Cannot build a Merkle tree with no leaves');
+  }
+
+  const levels: string[][] = [leaves];
+  while (levels[levels.length - 1].length > 1) {
+    const level = levels[levels.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 < level.length ? hashMerkleNodes(level[i], level[i + 1]) : level[i]);
+    }
+    levels.push(next);
+  }
+
+  return { root: levels[levels.length - 1][0], levels };
+}
+
+/**
+ * Siblings from the leaf at `index` up to the root
+ */
+export function getMerkleProof(tree: MerkleTree, index: number): MerkleProofStep[] {
+  if (index < 0 || index >= tree.levels[0].length) {
+    throw new Error(`Leaf index ${index} out of range`);
+  }
+
+  const proof: MerkleProofStep[] = [];
+  let position = index;
+
+  for (let depth = 0; depth < tree.levels.length - 1; depth++) {
+    const level = tree.levels[depth];
+    const isRight = position % 2 === 1;
+    const sibling = isRight ? position - 1 : position + 1;
+
+    // A carried-up odd node has no sibling at this level
+    if (sibling < level.length) {
+      proof.push({ hash: level[sibling], position: isRight ? 'left' : 'right' });
+    }
+    position = Math.floor(position / 2);
+  }
+
+  return proof;
+}
+
+/**
+ * Fold a proof over a leaf hash to get the root it implies
+ */
+export function computeMerkleRoot(leaf: string, proof: MerkleProofStep[]): string {
+  return proof.reduce(
+    (hash, step) => (step.position === 'left' ? hashMerkleNodes(step.hash, hash) : hashMerkleNodes(hash, step.hash)),
+    leaf
+  );
+}
+
+export function verifyMerkleProof(leaf: string, proof: MerkleProofStep[], root: string): boolean {
+  return computeMerkleRoot(leaf, proof) === root.replace(/^0x/, '').toLowerCase();
+}
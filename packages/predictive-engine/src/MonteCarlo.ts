@@ -0,0 +1,176 @@
+/**
+ * Sentinel Grid - Monte Carlo Cascade Risk
+ * Runs many seeded cascade realizations from one origin, so operators see
+ * the distribution of outcomes instead of a single random draw
+ */
+
+import { SeededRandom } from './SeededRandom';
+import { simulateCascade } from './SimulationEngine';
+import { createPowerGrid, PowerGrid } from './PowerFlow';
+import { CascadePercentile, CascadeRiskEstimate, Node, SimulationConfig } from './types';
+
+// ============================================================================
+// Options
+// ============================================================================
+
+export interface CascadeRiskOptions {
+  realizations: number;
+  seed: number;                // Realization i runs from seed + i
+  severity: number;
+  demandSigma: number;         // Relative spread of each load's demand per realization
+  percentiles: number[];
+  config: Partial<SimulationConfig>;
+}
+
+export const DEFAULT_CASCADE_RISK_OPTIONS: CascadeRiskOptions = {
+  realizations: 1000,
+  seed: 1,
+  severity: 0.7,
+  demandSigma: 0.05,
+  percentiles: [5, 25, 50, 75, 90, 95, 99],
+  config: {},
+};
+
+// ============================================================================
+// Sampler
+// ============================================================================
+
+/**
+ * Accumulates cascade realizations from one origin. Each realization draws
+ * its own demand and hidden protection failures from its seed, so results
+ * are the same however the realizations are batched.
+ */
+export class CascadeRiskSampler {
+  private options: CascadeRiskOptions;
+  private grid: PowerGrid;
+  private now = new Date();
+
+  private affected: number[] = [];
+  private loadShed: number[] = [];
+  private damage: number[] = [];
+  private impactTotal = 0;
+  private hits: Map<string, number> = new Map();
+
+  constructor(
+    private nodes: Record<string, Node>,
+    private originId: string,
+    options: Partial<CascadeRiskOptions> = {},
+    grid?: PowerGrid
+  ) {
+    if (!nodes[originId]) {
+      throw new Error(`Origin node ${originId} not found`);
+    }
+    this.options = { ...DEFAULT_CASCADE_RISK_OPTIONS, ...options };
+    this.grid = grid ?? createPowerGrid(nodes);
+  }
+
+  get completed(): number {
+    return this.affected.length;
+  }
+
+  get done(): boolean {
+    return this.completed >= this.options.realizations;
+  }
+
+  /**
+   * Run up to `count` more realizations; returns how many ran
+   */
+  sample(count: number = this.options.realizations): number {
+    const end = Math.min(this.options.realizations, this.completed + count);
+    const start = this.completed;
+
+    for (let i = start; i < end; i++) {
+      const rng = new SeededRandom(this.options.seed + i);
+      const { event } = simulateCascade(
+        this.perturbDemand(rng),
+        this.originId,
+        this.options.severity,
+        this.options.config,
+        { rng, now: this.now, grid: this.grid }
+      );
+
+      this.affected.push(event.affectedNodes.length);
+      this.loadShed.push(event.loadShedMW ?? 0);
+      this.damage.push(event.totalDamage);
+      this.impactTotal += event.impactScore;
+      event.affectedNodes.forEach((id) => {
+        if (id !== this.originId) this.hits.set(id, (this.hits.get(id) ?? 0) + 1);
+      });
+    }
+
+    return end - start;
+  }
+
+  result(): CascadeRiskEstimate {
+    const n = this.completed;
+    const mean = (values: number[]) => (n > 0 ? values.reduce((a, b) => a + b, 0) / n : 0);
+
+    const counts = new Map<number, number>();
+    this.affected.forEach((a) => counts.set(a, (counts.get(a) ?? 0) + 1));
+
+    const sortedAffected = [...this.affected].sort((a, b) => a - b);
+    const sortedShed = [...this.loadShed].sort((a, b) => a - b);
+    const sortedDamage = [...this.damage].sort((a, b) => a - b);
+
+    return {
+      originNode: this.originId,
+      realizations: n,
+      seed: this.options.seed,
+      severity: this.options.severity,
+      meanAffected: mean(this.affected),
+      expectedDamage: mean(this.damage),
+      expectedLoadShedMW: mean(this.loadShed),
+      expectedImpactScore: n > 0 ? this.impactTotal / n : 0,
+      affectedDistribution: Array.from(counts.entries())
+        .sort(([a], [b]) => a - b)
+        .map(([affectedNodes, count]) => ({ affectedNodes, probability: count / n })),
+      percentiles: this.options.percentiles.map((percentile): CascadePercentile => ({
+        percentile,
+        affectedNodes: nearestRank(sortedAffected, percentile),
+        loadShedMW: nearestRank(sortedShed, percentile),
+        damage: nearestRank(sortedDamage, percentile),
+      })),
+      hitProbability: Object.fromEntries(
+        Array.from(this.hits.entries())
+          .sort(([, a], [, b]) => b - a)
+          .map(([id, hits]) => [id, hits / n])
+      ),
+    };
+  }
+
+  /**
+   * Node states with each load's demand scaled by its own draw
+   */
+  private perturbDemand(rng: SeededRandom): Record<string, Node> {
+    if (this.options.demandSigma <= 0) return this.nodes;
+
+    const sampled = { ...this.nodes };
+    Object.keys(this.grid.baseDemand).forEach((id) => {
+      const node = sampled[id];
+      if (!node) return;
+      const scale = Math.max(0, 1 + rng.nextGaussian(0, this.options.demandSigma));
+      sampled[id] = { ...node, powerDraw: node.powerDraw * scale };
+    });
+    return sampled;
+  }
+}
+
+/**
+ * Estimate cascade risk from one origin in a single pass
+ */
+export function estimateCascadeRisk(
+  nodes: Record<string, Node>,
+  originId: string,
+  options: Partial<CascadeRiskOptions> = {},
+  grid?: PowerGrid
+): CascadeRiskEstimate {
+  const sampler = new CascadeRiskSampler(nodes, originId, options, grid);
+  sampler.sample();
+  return sampler.result();
+}
+
+function nearestRank(sorted: number[], percentile: number): number {
+  if (sorted.length === 0) return 0;
+  const index = Math.ceil((percentile / 100) * sorted.length) - 1;
+  return sorted[Math.max(0, Math.min(sorted.length - 1, index))];
+}
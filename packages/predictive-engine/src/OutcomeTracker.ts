@@ -0,0 +1,382 @@
+/**
+ * Sentinel Grid - Outcome Tracker
+ * Resolves predictions against what the nodes actually did and derives
+ * accuracy metrics from those outcomes only
+ */
+
+import {
+  AccuracyMetrics,
+  ConfusionMatrix,
+  MissedEvent,
+  Node,
+  Prediction,
+  PredictionType,
+  TypeAccuracy,
+} from './types';
+
+// ============================================================================
+// Options
+// ============================================================================
+
+export interface OutcomeTrackerOptions {
+  clock?: () => Date;
+  graceHours?: number;      // How long past predictedTime a prediction may still come true
+  retentionDays?: number;   // Outcomes older than this are dropped
+  onResolved?: (prediction: Prediction) => void;
+}
+
+const DEFAULT_OPTIONS = {
+  graceHours: 1,
+  retentionDays: 30,
+};
+
+const DAY_MS = 24 * 3600000;
+
+export const DEFAULT_THERMAL_LIMIT = 85;   // °C, for nodes without a thermalLimit
+
+export const PREDICTION_TYPES: PredictionType[] = [
+  'cascade_failure', 'equipment_failure', 'overload', 'thermal_stress', 'cyber_vulnerability',
+  'weather_impact', 'capacity_breach', 'communication_loss', 'voltage_instability', 'frequency_deviation',
+  'anomalous_behavior',
+];
+
+// ============================================================================
+// Outcome Checks
+// ============================================================================
+
+/**
+ * Describes the observed outcome when a node shows the predicted event, or
+ * returns null. Every type also materializes when the node goes critical.
+ * Only an event that begins after a prediction was made confirms it.
+ */
+export type OutcomeCheck = (node: Node) => string | null;
+
+const severeState: OutcomeCheck = (node) =>
+  node.status === 'critical' || node.status === 'offline' ? `Node status ${node.status}` : null;
+
+const either = (check: OutcomeCheck): OutcomeCheck => (node) => check(node) ?? severeState(node);
+
+export const OUTCOME_CHECKS: Record<PredictionType, OutcomeCheck> = {
+  cascade_failure: severeState,
+  equipment_failure: either((n) => (n.health <= 0.2 ? `Health fell to ${(n.health * 100).toFixed(0)}%` : null)),
+  overload: either((n) => (n.loadRatio >= 0.95 ? `Load reached ${(n.loadRatio * 100).toFixed(0)}%` : null)),
+  thermal_stress: either((n) => {
+    const limit = n.thermalLimit ?? DEFAULT_THERMAL_LIMIT;
+    return n.temperature >= limit ? `Temperature ${n.temperature.toFixed(1)}°C crossed thermal limit ${limit}°C` : null;
+  }),
+  capacity_breach: either((n) => {
+    const breached = n.currentLoad !== undefined && n.ratedCapacity !== undefined
+      ? n.currentLoad > n.ratedCapacity
+      : n.loadRatio >= 1;
+    return breached ? 'Load exceeded rated capacity' : null;
+  }),
+  cyber_vulnerability: either((n) => {
+    if (n.cyberStatus === 'compromised') return 'Cyber status compromised';
+    return (n.tamperSignal ?? 0) >= 0.8 ? `Tamper signal at ${((n.tamperSignal ?? 0) * 100).toFixed(0)}%` : null;
+  }),
+  communication_loss: either((n) => {
+    if (n.status === 'isolated') return 'Node isolated';
+    return (n.packetLoss ?? 0) >= 0.5 ? `Packet loss at ${((n.packetLoss ?? 0) * 100).toFixed(0)}%` : null;
+  }),
+  weather_impact: severeState,
+  voltage_instability: severeState,
+  frequency_deviation: severeState,
+  anomalous_behavior: either((n) => (n.status === 'degraded' ? 'Node degraded' : null)),
+};
+
+// ============================================================================
+// Outcome Tracker
+// ============================================================================
+
+// Confusion cell a node-day falls in when several apply
+const CELL_PRECEDENCE: Array<keyof ConfusionMatrix> = ['truePositives', 'falseNegatives', 'falsePositives'];
+
+export class OutcomeTracker {
+  private clock: () => Date;
+  private options: typeof DEFAULT_OPTIONS;
+  private onResolved?: (prediction: Prediction) => void;
+
+  private pending: Map<string, Prediction> = new Map();   // `${nodeId}:${type}`
+  private resolved: Prediction[] = [];
+  private missed: MissedEvent[] = [];
+  private severeNodes: Set<string> = new Set();
+  private observedDays: Map<string, Set<string>> = new Map();  // YYYY-MM-DD -> node IDs
+  private seenNodes: Set<string> = new Set();
+  // Outcome conditions holding now (`${nodeId}:${type}`) and when they began;
+  // null when one already held the first time the node was observed
+  private onsets: Map<string, Date | null> = new Map();
+
+  constructor(options: OutcomeTrackerOptions = {}) {
+    const { clock = () => new Date(), onResolved, ...rest } = options;
+    this.clock = clock;
+    this.onResolved = onResolved;
+    this.options = { ...DEFAULT_OPTIONS, ...rest };
+  }
+
+  // ==========================================================================
+  // Tracking
+  // ==========================================================================
+
+  /**
+   * Start watching new predictions. While a prediction for a node and type
+   * is pending, later predictions for the same pair are not tracked again.
+   */
+  track(predictions: Prediction[]): void {
+    for (const prediction of predictions) {
+      const key = `${prediction.nodeId}:${prediction.type}`;
+      if (!this.pending.has(key)) {
+        this.pending.set(key, prediction);
+      }
+    }
+  }
+
+  /**
+   * Compare node states with pending predictions. A prediction occurs when
+   * its event begins after the prediction was made and before predictedTime
+   * plus the grace period, and expires otherwise. A condition that already
+   * held when the prediction was made has to clear and recur to count. A
+   * node going critical with nothing pending for it is a missed event.
+   */
+  observe(nodes: Record<string, Node>): void {
+    const now = this.clock();
+    const observed = this.observedDay(now);
+
+    for (const node of Object.values(nodes)) {
+      observed.add(node.id);
+      const firstSeen = !this.seenNodes.has(node.id);
+      this.seenNodes.add(node.id);
+      let hadPending = false;
+
+      for (const type of PREDICTION_TYPES) {
+        const key = `${node.id}:${type}`;
+        const prediction = this.pending.get(key);
+        if (prediction) hadPending = true;
+
+        const outcome = OUTCOME_CHECKS[type](node);
+        if (!outcome) {
+          this.onsets.delete(key);
+          continue;
+        }
+
+        if (!this.onsets.has(key)) {
+          this.onsets.set(key, firstSeen ? null : now);
+        }
+        const onset = this.onsets.get(key);
+        if (prediction && onset && onset > prediction.createdAt) {
+          this.settle(prediction, true, now, outcome);
+        }
+      }
+
+      const severe = severeState(node);
+      if (severe && !this.severeNodes.has(node.id)) {
+        this.severeNodes.add(node.id);
+        if (!hadPending) {
+          this.missed.push({ nodeId: node.id, occurredAt: now, outcome: severe });
+        }
+      } else if (!severe) {
+        this.severeNodes.delete(node.id);
+      }
+    }
+
+    const graceMs = this.options.graceHours * 3600000;
+    for (const prediction of this.pending.values()) {
+      if (now.getTime() > prediction.predictedTime.getTime() + graceMs) {
+        this.settle(prediction, false, now, 'No event by the predicted time');
+      }
+    }
+
+    this.prune(now);
+  }
+
+  /**
+   * Operator override. Settles a pending prediction (falling back to the one
+   * pending for the same node and type) or corrects an already resolved one.
+   */
+  resolve(predictionId: string, wasAccurate: boolean, prediction?: Prediction): boolean {
+    const now = this.clock();
+    const pending = Array.from(this.pending.values()).find((p) => p.id === predictionId)
+      ?? (prediction && this.pending.get(`${prediction.nodeId}:${prediction.type}`));
+
+    if (pending) {
+      this.settle(pending, wasAccurate, now, 'Resolved by operator');
+      return true;
+    }
+
+    const resolved = this.resolved.find((p) => p.id === predictionId);
+    if (!resolved) return false;
+
+    resolved.status = wasAccurate ? 'occurred' : 'expired';
+    resolved.wasAccurate = wasAccurate;
+    resolved.actualOutcome = 'Resolved by operator';
+    this.onResolved?.(resolved);
+    return true;
+  }
+
+  getResolvedPredictions(): Prediction[] {
+    return [...this.resolved];
+  }
+
+  getMissedEvents(): MissedEvent[] {
+    return [...this.missed];
+  }
+
+  // ==========================================================================
+  // Metrics
+  // ==========================================================================
+
+  /**
+   * Metrics over outcomes resolved within the range (default: everything
+   * retained). The confusion matrix, and so `accuracy` ((TP + TN) / all),
+   * precision and recall, count node-days; `byType` and `dailyAccuracy`
+   * give the share of resolved predictions that came true. Everything is
+   * zero until predictions have resolved.
+   */
+  getAccuracyMetrics(range: { start?: Date; end?: Date } = {}): AccuracyMetrics {
+    const now = this.clock();
+    const start = range.start ?? new Date(0);
+    const end = range.end ?? now;
+
+    const resolved = this.resolvedBetween(start, end);
+    const occurred = resolved.filter((p) => p.wasAccurate);
+    const confusion = this.confusion(start, end);
+
+    const { truePositives: tp, falsePositives: fp, falseNegatives: fn } = confusion;
+    const precision = ratio(tp, tp + fp);
+    const recall = ratio(tp, tp + fn);
+
+    const byType = {} as Record<PredictionType, TypeAccuracy>;
+    PREDICTION_TYPES.forEach((type) => {
+      const ofType = resolved.filter((p) => p.type === type);
+      const accurate = ofType.filter((p) => p.wasAccurate).length;
+      byType[type] = { total: ofType.length, accurate, accuracy: ratio(accurate, ofType.length) };
+    });
+
+    const daily = new Map<string, { accurate: number; count: number }>();
+    resolved.forEach((p) => {
+      const date = dayKey(p.resolvedAt!);
+      const day = daily.get(date) ?? { accurate: 0, count: 0 };
+      day.count++;
+      if (p.wasAccurate) day.accurate++;
+      daily.set(date, day);
+    });
+
+    const leadTimes = occurred.map((p) => (p.resolvedAt!.getTime() - p.createdAt.getTime()) / 3600000);
+    const rolling = this.confusion(new Date(now.getTime() - 7 * DAY_MS), now);
+
+    return {
+      totalPredictions: resolved.length,
+      accuratePredictions: occurred.length,
+      accuracy: matrixAccuracy(confusion),
+      precision,
+      recall,
+      f1Score: ratio(2 * precision * recall, precision + recall),
+      avgLeadTime: ratio(leadTimes.reduce((sum, h) => sum + h, 0), leadTimes.length),
+      byType,
+      confusion,
+      rolling7Day: { accuracy: matrixAccuracy(rolling), ...rolling },
+      dailyAccuracy: Array.from(daily.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([date, { accurate, count }]) => ({ date, accuracy: ratio(accurate, count), count })),
+    };
+  }
+
+  // ==========================================================================
+  // Private Methods
+  // ==========================================================================
+
+  private settle(prediction: Prediction, occurred: boolean, now: Date, outcome: string): void {
+    const key = `${prediction.nodeId}:${prediction.type}`;
+    if (this.pending.get(key) === prediction) {
+      this.pending.delete(key);
+    }
+
+    prediction.status = occurred ? 'occurred' : 'expired';
+    prediction.wasAccurate = occurred;
+    prediction.resolvedAt = now;
+    prediction.actualOutcome = outcome;
+    this.resolved.push(prediction);
+
+    this.onResolved?.(prediction);
+  }
+
+  private resolvedBetween(start: Date, end: Date): Prediction[] {
+    return this.resolved.filter((p) => p.resolvedAt! >= start && p.resolvedAt! <= end);
+  }
+
+  /**
+   * Every cell counts node-days. A node-day is a true positive if one of
+   * the node's predictions came true that day, else a false negative if it
+   * had a missed event, else a false positive if a prediction expired, and
+   * a true negative if it was only observed.
+   */
+  private confusion(start: Date, end: Date): ConfusionMatrix {
+    const cells = new Map<string, keyof ConfusionMatrix>();   // `${date}:${nodeId}`
+    const assign = (date: Date, nodeId: string, cell: keyof ConfusionMatrix) => {
+      const key = `${dayKey(date)}:${nodeId}`;
+      const current = cells.get(key);
+      if (!current || CELL_PRECEDENCE.indexOf(cell) < CELL_PRECEDENCE.indexOf(current)) {
+        cells.set(key, cell);
+      }
+    };
+
+    this.resolvedBetween(start, end).forEach((p) => {
+      assign(p.resolvedAt!, p.nodeId, p.wasAccurate ? 'truePositives' : 'falsePositives');
+    });
+    this.missed
+      .filter((m) => m.occurredAt >= start && m.occurredAt <= end)
+      .forEach((m) => assign(m.occurredAt, m.nodeId, 'falseNegatives'));
+
+    const matrix: ConfusionMatrix = { truePositives: 0, falsePositives: 0, falseNegatives: 0, trueNegatives: 0 };
+    cells.forEach((cell) => matrix[cell]++);
+
+    const [firstDay, lastDay] = [dayKey(start), dayKey(end)];
+    for (const [date, observed] of this.observedDays) {
+      if (date < firstDay || date > lastDay) continue;
+      observed.forEach((id) => {
+        if (!cells.has(`${date}:${id}`)) matrix.trueNegatives++;
+      });
+    }
+
+    return matrix;
+  }
+
+  private observedDay(now: Date): Set<string> {
+    const date = dayKey(now);
+    let observed = this.observedDays.get(date);
+    if (!observed) {
+      observed = new Set();
+      this.observedDays.set(date, observed);
+    }
+    return observed;
+  }
+
+  private prune(now: Date): void {
+    const cutoff = new Date(now.getTime() - this.options.retentionDays * DAY_MS);
+    const cutoffDay = dayKey(cutoff);
+
+    this.resolved = this.resolved.filter((p) => p.resolvedAt! >= cutoff);
+    this.missed = this.missed.filter((m) => m.occurredAt >= cutoff);
+    for (const date of this.observedDays.keys()) {
+      if (date < cutoffDay) this.observedDays.delete(date);
+    }
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function ratio(numerator: number, denominator: number): number {
+  return denominator > 0 ? numerator / denominator : 0;
+}
+
+function matrixAccuracy(m: ConfusionMatrix): number {
+  const total = m.truePositives + m.falsePositives + m.falseNegatives + m.trueNegatives;
+  return ratio(m.truePositives + m.trueNegatives, total);
+}
+
+function dayKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export default OutcomeTracker;
@@ -0,0 +1,313 @@
+/**
+ * Sentinel Grid - Prediction Providers
+ * Pluggable prediction sources: the built-in heuristic engine, an external
+ * model served over REST, and a shadow wrapper that runs two side by side
+ */
+
+import { postJson } from './AlertDispatchers';
+import { PREDICTION_TYPES } from './OutcomeTracker';
+import type { PredictiveEngine } from './PredictiveEngine';
+import {
+  Node,
+  NodeMetricsHistory,
+  Prediction,
+  PredictionSeverity,
+  PredictionType,
+} from './types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface PredictionRequest {
+  timestamp: Date;
+  nodes: Record<string, Node>;
+  histories: Map<string, NodeMetricsHistory>;
+}
+
+export interface PredictionProvider {
+  readonly name: string;
+  predict(request: PredictionRequest): Promise<Prediction[]>;
+}
+
+export interface HttpProviderOptions {
+  url: string;
+  timeoutMs?: number;
+  headers?: Record<string, string>;
+  historyPoints?: number;         // Trailing history samples sent per node
+  fallback?: PredictionProvider;  // Used when the model fails; errors propagate without one
+  onFallback?: (error: Error) => void;
+}
+
+export interface ShadowProviderOptions {
+  primary: PredictionProvider;    // Serves the predictions
+  shadow: PredictionProvider;     // Runs alongside for comparison only
+  onComparison?: (comparison: PredictionComparison) => void;
+}
+
+/**
+ * How far two providers disagreed on one prediction run. Predictions are
+ * matched on node and type.
+ */
+export interface PredictionComparison {
+  timestamp: Date;
+  primary: string;
+  shadow: string;
+  primaryCount: number;
+  shadowCount: number;
+  matched: number;
+  primaryOnly: string[];          // `nodeId:type` keys only the primary predicted
+  shadowOnly: string[];
+  meanProbabilityDelta: number;   // Over matched predictions
+  agreement: number;              // matched / union, 1 when both are empty
+  error?: string;                 // Shadow failure; counts are then primary-only
+}
+
+/**
+ * The external model was unreachable or returned something unusable
+ */
+export class PredictionProviderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PredictionProviderError';
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = 5000;
+const DEFAULT_HISTORY_POINTS = 50;
+
+// ============================================================================
+// Heuristic Provider
+// ============================================================================
+
+/**
+ * The built-in physics-informed heuristics. Like every provider it leaves
+ * tracking to the caller, so only the predictions actually served are scored.
+ */
+export function createHeuristicProvider(engine: PredictiveEngine): PredictionProvider {
+  return {
+    name: 'heuristic',
+    predict: async ({ nodes }) => {
+      engine.analyzePatterns(nodes);
+      return engine.computePredictions(nodes);
+    },
+  };
+}
+
+// ============================================================================
+// HTTP Provider
+// ============================================================================
+
+function severityFor(probability: number, hoursToEvent: number): PredictionSeverity {
+  if (probability > 0.85 || hoursToEvent < 4) return 'critical';
+  if (probability > 0.7 || hoursToEvent < 8) return 'high';
+  if (probability > 0.55 || hoursToEvent < 16) return 'medium';
+  return 'low';
+}
+
+function trailing<T>(values: T[], points: number): T[] {
+  return values.slice(-points);
+}
+
+/**
+ * Request body: nodes plus the trailing window of each node's history
+ */
+function serializeRequest(request: PredictionRequest, historyPoints: number): string {
+  const histories: Record<string, NodeMetricsHistory> = {};
+  request.histories.forEach((history, nodeId) => {
+    histories[nodeId] = {
+      timestamps: trailing(history.timestamps, historyPoints),
+      riskScores: trailing(history.riskScores, historyPoints),
+      healthScores: trailing(history.healthScores, historyPoints),
+      loadRatios: trailing(history.loadRatios, historyPoints),
+      temperatures: trailing(history.temperatures, historyPoints),
+    };
+  });
+
+  return JSON.stringify({
+    timestamp: request.timestamp.toISOString(),
+    nodes: Object.values(request.nodes),
+    histories,
+  });
+}
+
+/**
+ * Validate one model prediction and fill in what the model may omit.
+ * Required: nodeId (a known node), type, probability and hoursToEvent.
+ */
+function toPrediction(raw: unknown, index: number, request: PredictionRequest): Prediction {
+  const fail = (reason: string) =>
+    new PredictionProviderError(`Invalid prediction at index ${index}: ${reason}`);
+
+  if (!raw || typeof raw !== 'object') throw fail('not an object');
+  const entry = raw as Record<string, unknown>;
+
+  const node = typeof entry.nodeId === 'string' ? request.nodes[entry.nodeId] : undefined;
+  if (!node) throw fail(`unknown node ${String(entry.nodeId)}`);
+
+  const type = entry.type as PredictionType;
+  if (!PREDICTION_TYPES.includes(type)) throw fail(`unknown type ${String(entry.type)}`);
+
+  const { probability, hoursToEvent } = entry;
+  if (typeof probability !== 'number' || probability < 0 || probability > 1) {
+    throw fail('probability must be a number between 0 and 1');
+  }
+  if (typeof hoursToEvent !== 'number' || hoursToEvent < 0) {
+    throw fail('hoursToEvent must be a non-negative number');
+  }
+
+  const now = request.timestamp;
+  const severity = ['low', 'medium', 'high', 'critical'].includes(entry.severity as string)
+    ? entry.severity as PredictionSeverity
+    : severityFor(probability, hoursToEvent);
+
+  return {
+    id: typeof entry.id === 'string' ? entry.id : `ext_${node.id}_${type}_${now.getTime()}`,
+    nodeId: node.id,
+    nodeName: node.name,
+    type,
+    probability,
+    confidence: typeof entry.confidence === 'number' ? entry.confidence : probability,
+    hoursToEvent,
+    predictedTime: new Date(now.getTime() + hoursToEvent * 3600000),
+    severity,
+    reasoning: typeof entry.reasoning === 'string' ? entry.reasoning : 'External model prediction',
+    contributingFactors: Array.isArray(entry.contributingFactors) ? entry.contributingFactors : [],
+    suggestedActions: Array.isArray(entry.suggestedActions) ? entry.suggestedActions : [],
+    createdAt: now,
+    status: 'active',
+  };
+}
+
+/**
+ * Parse `Prediction[]` or `{ predictions: Prediction[] }` from the model
+ */
+export function parsePredictionResponse(text: string, request: PredictionRequest): Prediction[] {
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    throw new PredictionProviderError('Response is not valid JSON');
+  }
+
+  const list = Array.isArray(body)
+    ? body
+    : (body as { predictions?: unknown } | null)?.predictions;
+  if (!Array.isArray(list)) {
+    throw new PredictionProviderError('Response has no predictions array');
+  }
+
+  return list.map((entry, index) => toPrediction(entry, index, request));
+}
+
+/**
+ * POST node histories to an external model and read back predictions.
+ * Timeouts, HTTP errors and malformed responses fall back when configured.
+ */
+export function createHttpProvider(options: HttpProviderOptions): PredictionProvider {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const historyPoints = options.historyPoints ?? DEFAULT_HISTORY_POINTS;
+
+  const callModel = async (request: PredictionRequest): Promise<Prediction[]> => {
+    let text: string;
+    try {
+      text = await postJson(
+        options.url,
+        serializeRequest(request, historyPoints),
+        options.headers ?? {},
+        timeoutMs
+      );
+    } catch (error) {
+      throw new PredictionProviderError(`Model request failed: ${(error as Error).message}`);
+    }
+    return parsePredictionResponse(text, request);
+  };
+
+  return {
+    name: 'http',
+    predict: async (request) => {
+      try {
+        return await callModel(request);
+      } catch (error) {
+        if (!options.fallback) throw error;
+        options.onFallback?.(error as Error);
+        return options.fallback.predict(request);
+      }
+    },
+  };
+}
+
+// ============================================================================
+// Shadow Mode
+// ============================================================================
+
+/**
+ * Match two prediction sets on node and type
+ */
+export function comparePredictions(
+  primary: Prediction[],
+  shadow: Prediction[],
+  names: { primary: string; shadow: string },
+  timestamp: Date
+): PredictionComparison {
+  const key = (p: Prediction) => `${p.nodeId}:${p.type}`;
+  const primaryByKey = new Map(primary.map((p) => [key(p), p]));
+  const shadowByKey = new Map(shadow.map((p) => [key(p), p]));
+
+  let matched = 0;
+  let deltaSum = 0;
+  primaryByKey.forEach((prediction, k) => {
+    const other = shadowByKey.get(k);
+    if (other) {
+      matched++;
+      deltaSum += Math.abs(prediction.probability - other.probability);
+    }
+  });
+
+  const primaryOnly = [...primaryByKey.keys()].filter((k) => !shadowByKey.has(k));
+  const shadowOnly = [...shadowByKey.keys()].filter((k) => !primaryByKey.has(k));
+  const union = matched + primaryOnly.length + shadowOnly.length;
+
+  return {
+    timestamp,
+    primary: names.primary,
+    shadow: names.shadow,
+    primaryCount: primaryByKey.size,
+    shadowCount: shadowByKey.size,
+    matched,
+    primaryOnly,
+    shadowOnly,
+    meanProbabilityDelta: matched > 0 ? deltaSum / matched : 0,
+    agreement: union > 0 ? matched / union : 1,
+  };
+}
+
+/**
+ * Serve the primary's predictions while running the shadow for comparison.
+ * A shadow failure is recorded on the comparison and never affects output.
+ */
+export function createShadowProvider(options: ShadowProviderOptions): PredictionProvider {
+  const { primary, shadow } = options;
+  const names = { primary: primary.name, shadow: shadow.name };
+
+  return {
+    name: `${primary.name}+shadow:${shadow.name}`,
+    predict: async (request) => {
+      const [served, candidate] = await Promise.allSettled([
+        primary.predict(request),
+        shadow.predict(request),
+      ]);
+      if (served.status === 'rejected') throw served.reason;
+
+      const comparison = candidate.status === 'fulfilled'
+        ? comparePredictions(served.value, candidate.value, names, request.timestamp)
+        : {
+          ...comparePredictions(served.value, [], names, request.timestamp),
+          error: (candidate.reason as Error).message,
+        };
+      options.onComparison?.(comparison);
+
+      return served.value;
+    },
+  };
+}
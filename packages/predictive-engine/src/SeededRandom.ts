@@ -34,6 +34,15 @@ export class SeededRandom {
     return this.initialSeed;
   }
 
+  /**
+   * Independent generator that continues from this one's current position
+   */
+  clone(): SeededRandom {
+    const copy = new SeededRandom(this.initialSeed);
+    copy.state = this.state;
+    return copy;
+  }
+
   /**
    * Generate next random number [0, 1)
    * Uses Mulberry32 algorithm - fast and good statistical properties
@@ -18,6 +18,7 @@ import {
   SimulationConfig,
   DEFAULT_CONFIG,
 } from './types';
+import { createPowerGrid, edgeId, isInService, PowerGrid, solvePowerFlow } from './PowerFlow';
 import { createHash, createHmac } from 'crypto';
 
 // ============================================================================
@@ -27,6 +28,34 @@ import { createHash, createHmac } from 'crypto';
 export const CRITICAL_THRESHOLD = 0.8;
 export const WARNING_THRESHOLD = 0.6;
 
+// Power flow coupling
+const DEMAND_SURGE_GAIN = 2;          // Demand rise per unit of overload threat surge
+const OVERLOAD_LOADING = 0.9;         // Loading above which risk builds
+const OVERLOAD_RISK_GAIN = 0.5;
+const DEENERGIZED_RISK = 0.05;        // Per tick without supply
+const CASCADE_MAX_ROUNDS = 10;
+const CASCADE_AFFECTED_LOADING = 0.05; // Loading rise that counts a node as affected
+const CASCADE_RISK_GAIN = 0.8;
+const CASCADE_LOST_SUPPLY_RISK = 0.4;
+
+const DEMAND_WEATHER_FACTOR: Partial<Record<WeatherCondition, number>> = {
+  extreme_heat: 1.2,
+  extreme_cold: 1.15,
+};
+
+/**
+ * Randomness, clock and power network for a single simulation step. Seeded
+ * runs pass the generator and clock so that replaying the same inputs
+ * reproduces the same node states; when omitted, a time-seeded generator and
+ * the wall clock are used. Runs on a fixed topology pass the grid built once
+ * by createPowerGrid; otherwise one is derived from node connections.
+ */
+export interface SimulationContext {
+  rng?: SeededRandom;
+  now?: Date;
+  grid?: PowerGrid;
+}
+
 const NODE_TYPES: NodeType[] = [
   'substation',
   'transformer',
@@ -77,10 +106,12 @@ const NODE_TYPE_NAMES: Record<NodeType, string[]> = {
 // ============================================================================
 
 export function initializeNodes(
-  config: Partial<SimulationConfig> = {}
+  config: Partial<SimulationConfig> = {},
+  context: SimulationContext = {}
 ): Record<string, Node> {
   const cfg = { ...DEFAULT_CONFIG, ...config };
   const rng = new SeededRandom(cfg.seed);
+  const now = context.now ?? new Date();
   const nodes: Record<string, Node> = {};
 
   // Create clustered regions
@@ -123,7 +154,7 @@ export function initializeNodes(
       temperature: rng.nextFloat(35, 55),
       powerDraw: rng.nextFloat(10, 100),
       status: 'online',
-      lastSeen: new Date(),
+      lastSeen: now,
       connections: [],
     };
   }
@@ -217,15 +248,25 @@ export function fetchWeatherData(rng?: SeededRandom): WeatherData {
 // Node State Updates (Tick)
 // ============================================================================
 
+/**
+ * Advance every node by one tick. Risk, health and temperature take a random
+ * walk under weather and threats; demand on the power network follows its
+ * base level, and the power flow then sets load, voltage and frequency, so
+ * overloads land where the network actually carries the power. Nodes outside
+ * the power network keep a random-walk load.
+ */
 export function updateNodeState(
   nodes: Record<string, Node>,
   threat: Threat | null,
   weather: WeatherData,
-  config: Partial<SimulationConfig> = {}
+  config: Partial<SimulationConfig> = {},
+  context: SimulationContext = {}
 ): Record<string, Node> {
   const cfg = { ...DEFAULT_CONFIG, ...config };
-  const rng = new SeededRandom(Date.now());
-  const updatedNodes: Record<string, Node> = {};
+  const rng = context.rng ?? new SeededRandom(Date.now());
+  const now = context.now ?? new Date();
+  const grid = context.grid ?? createPowerGrid(nodes);
+  const drafts: Record<string, Node> = {};
 
   // Weather impact multiplier
   let weatherImpact = 1.0;
@@ -234,16 +275,20 @@ export function updateNodeState(
   else if (weather.condition === 'extreme_cold') weatherImpact = 1.3;
   else if (weather.condition === 'rain') weatherImpact = 1.1;
 
+  const demandFactor = DEMAND_WEATHER_FACTOR[weather.condition] ?? 1;
+
   Object.entries(nodes).forEach(([nodeId, node]) => {
     let newRisk = node.riskScore;
     let newHealth = node.health;
     let newLoad = node.loadRatio;
     let newTemp = node.temperature;
+    let demandSurge = 0;
 
     // Base drift (small random walk)
     newRisk += rng.nextGaussian(0, cfg.baseRiskDrift);
     newHealth += rng.nextGaussian(0, 0.01);
-    newLoad += rng.nextGaussian(0, 0.02);
+    const loadNoise = rng.nextGaussian(0, 0.02);
+    newLoad += loadNoise;
 
     // Weather effects
     if (weather.condition === 'extreme_heat') {
@@ -269,7 +314,8 @@ export function updateNodeState(
             newHealth -= rng.nextFloat(0.02, 0.08) * threatSeverity;
             break;
           case 'overload':
-            newLoad += rng.nextFloat(0.1, 0.3) * threatSeverity;
+            demandSurge = rng.nextFloat(0.1, 0.3) * threatSeverity;
+            newLoad += demandSurge;
             newRisk += newLoad > 0.9 ? 0.1 : 0.03;
             break;
           case 'equipment_failure':
@@ -301,28 +347,62 @@ export function updateNodeState(
       }
     }
 
+    // Demand follows its base level, the weather and any overload surge
+    const baseDemand = grid.baseDemand[nodeId];
+    const powerDraw = baseDemand === undefined
+      ? node.powerDraw
+      : baseDemand * demandFactor * (1 + DEMAND_SURGE_GAIN * demandSurge) * (1 + loadNoise);
+
+    drafts[nodeId] = {
+      ...node,
+      riskScore: newRisk,
+      health: newHealth,
+      loadRatio: newLoad,
+      temperature: newTemp,
+      powerDraw: Math.max(0, powerDraw),
+    };
+  });
+
+  // Redistribute the drawn demand over the power network
+  const flow = solvePowerFlow(drafts, grid);
+  const updatedNodes: Record<string, Node> = {};
+
+  Object.entries(drafts).forEach(([nodeId, draft]) => {
+    const bus = flow.buses[nodeId];
+    let newRisk = draft.riskScore;
+    let newLoad = draft.loadRatio;
+
+    if (bus) {
+      newLoad = bus.loading;
+      if (bus.loading > OVERLOAD_LOADING) newRisk += (bus.loading - OVERLOAD_LOADING) * OVERLOAD_RISK_GAIN;
+      if (!bus.energized && isInService(draft)) newRisk += DEENERGIZED_RISK;
+    }
+
     // Clamp values
     newRisk = Math.max(0, Math.min(1, newRisk));
-    newHealth = Math.max(0.1, Math.min(1, newHealth));
-    newLoad = Math.max(0.1, Math.min(1, newLoad));
-    newTemp = Math.max(20, Math.min(100, newTemp));
+    const newHealth = Math.max(0.1, Math.min(1, draft.health));
+    newLoad = bus ? Math.max(0, Math.min(1, newLoad)) : Math.max(0.1, Math.min(1, newLoad));
+    const newTemp = Math.max(20, Math.min(100, draft.temperature));
 
-    // Determine status
+    // Determine status; tripped nodes stay offline until restored
     let status: NodeStatus = 'online';
-    if (newRisk > CRITICAL_THRESHOLD || newHealth < 0.3) {
+    if (!isInService(draft)) {
+      status = 'offline';
+    } else if (newRisk > CRITICAL_THRESHOLD || newHealth < 0.3 || (bus && !bus.energized)) {
       status = 'critical';
     } else if (newRisk > WARNING_THRESHOLD || newHealth < 0.6) {
       status = 'degraded';
     }
 
     updatedNodes[nodeId] = {
-      ...node,
+      ...draft,
       riskScore: newRisk,
       health: newHealth,
       loadRatio: newLoad,
       temperature: newTemp,
+      ...(bus && { voltage: bus.voltage, frequency: bus.frequency }),
       status,
-      lastSeen: new Date(),
+      lastSeen: now,
     };
   });
 
@@ -333,89 +413,180 @@ export function updateNodeState(
 // Cascade Simulation
 // ============================================================================
 
+/**
+ * Equipment taken out of service together: node ids and power edge ids
+ * (`from-to`). One element is an N-1 contingency, two an N-2, and so on.
+ */
+export interface Contingency {
+  nodes: string[];
+  lines: string[];
+}
+
+/**
+ * Trip the origin node and let the power flow settle; see simulateContingency.
+ */
 export function simulateCascade(
   nodes: Record<string, Node>,
   originId: string,
   severity: number = 0.7,
-  config: Partial<SimulationConfig> = {}
+  config: Partial<SimulationConfig> = {},
+  context: SimulationContext = {}
+): { nodes: Record<string, Node>; event: CascadeEvent } {
+  if (!nodes[originId]) {
+    throw new Error(`Origin node ${originId} not found`);
+  }
+  return simulateContingency(nodes, { nodes: [originId], lines: [] }, severity, config, context);
+}
+
+/**
+ * Take the contingency's nodes and lines out of service and let the power
+ * flow settle. Lines pushed past their rating trip in successive rounds;
+ * heavily loaded lines may also trip early on hidden protection failures,
+ * with a chance set by the propagation rate. Nodes that lose supply or pick
+ * up load are affected, and each one's path runs back to the nearest outage
+ * along the power network.
+ */
+export function simulateContingency(
+  nodes: Record<string, Node>,
+  contingency: Contingency,
+  severity: number = 0.7,
+  config: Partial<SimulationConfig> = {},
+  context: SimulationContext = {}
 ): { nodes: Record<string, Node>; event: CascadeEvent } {
   const cfg = { ...DEFAULT_CONFIG, ...config };
-  const rng = new SeededRandom(Date.now());
-  
-  const affectedNodes: string[] = [originId];
+  const rng = context.rng ?? new SeededRandom(Date.now());
+  const now = context.now ?? new Date();
+  const grid = context.grid ?? createPowerGrid(nodes);
+
+  const lines = grid.edges.filter((e) => contingency.lines.includes(edgeId(e)));
+  contingency.nodes.forEach((id) => {
+    if (!nodes[id]) throw new Error(`Outage node ${id} not found`);
+  });
+  contingency.lines.forEach((id) => {
+    if (!lines.some((e) => edgeId(e) === id)) throw new Error(`Outage line ${id} not found`);
+  });
+
+  const outageNodes = [...new Set(contingency.nodes)];
+  const lineEnds = new Map<string, string>();
+  lines.forEach((e) => {
+    lineEnds.set(e.from, e.to);
+    lineEnds.set(e.to, e.from);
+  });
+  const roots = [...new Set([...outageNodes, ...lines.flatMap((e) => [e.from, e.to])])];
+  if (roots.length === 0) {
+    throw new Error('Contingency has no outages');
+  }
+
+  const affectedNodes: string[] = [...outageNodes];
   const propagationPath: CascadePath[] = [];
   const updatedNodes = { ...nodes };
-  
-  // Initialize origin
-  const origin = updatedNodes[originId];
-  if (!origin) {
-    throw new Error(`Origin node ${originId} not found`);
+  const before = solvePowerFlow(nodes, grid);
+
+  outageNodes.forEach((id) => {
+    const node = nodes[id];
+    updatedNodes[id] = {
+      ...node,
+      riskScore: Math.min(1, node.riskScore + severity * 0.5),
+      health: Math.max(0.1, node.health - severity * 0.3),
+      status: 'offline',
+    };
+  });
+
+  // Trip overloaded lines until the flow settles
+  const trippedLines = new Set<string>(contingency.lines);
+  let after = solvePowerFlow(updatedNodes, grid, { trippedLines });
+
+  for (let round = 0; round < CASCADE_MAX_ROUNDS; round++) {
+    const tripping = grid.edges.map(edgeId).filter((id) => {
+      const loading = after.loading[id];
+      if (loading === undefined || trippedLines.has(id)) return false;
+      if (loading > 1) return true;
+      if (loading <= OVERLOAD_LOADING) return false;
+      const stress = (loading - OVERLOAD_LOADING) / (1 - OVERLOAD_LOADING);
+      return rng.nextBool(cfg.cascadePropagationRate * severity * stress);
+    });
+    if (tripping.length === 0) break;
+
+    tripping.forEach((id) => trippedLines.add(id));
+    after = solvePowerFlow(updatedNodes, grid, { trippedLines });
   }
-  
-  updatedNodes[originId] = {
-    ...origin,
-    riskScore: Math.min(1, origin.riskScore + severity * 0.5),
-    health: Math.max(0.1, origin.health - severity * 0.3),
-    status: 'critical',
-  };
 
-  // BFS propagation
-  const queue: Array<{ nodeId: string; depth: number; riskTransfer: number }> = [
-    { nodeId: originId, depth: 0, riskTransfer: severity }
-  ];
-  const visited = new Set<string>([originId]);
-  
-  while (queue.length > 0) {
-    const { nodeId, depth, riskTransfer } = queue.shift()!;
-    
-    if (depth > 4 || riskTransfer < 0.1) continue;
-    
-    const node = updatedNodes[nodeId];
-    
-    for (const connId of node.connections) {
-      if (visited.has(connId)) continue;
-      
-      const propagationChance = cfg.cascadePropagationRate * (1 - depth * 0.15);
-      if (!rng.nextBool(propagationChance)) continue;
-      
-      visited.add(connId);
-      const transferAmount = riskTransfer * rng.nextFloat(0.4, 0.8);
-      
-      const connNode = updatedNodes[connId];
-      const newRisk = Math.min(1, connNode.riskScore + transferAmount);
-      const newHealth = Math.max(0.1, connNode.health - transferAmount * 0.2);
-      
-      updatedNodes[connId] = {
-        ...connNode,
-        riskScore: newRisk,
-        health: newHealth,
-        status: newRisk > CRITICAL_THRESHOLD ? 'critical' : 
-                newRisk > WARNING_THRESHOLD ? 'degraded' : connNode.status,
-      };
-      
-      affectedNodes.push(connId);
-      propagationPath.push({
-        from: nodeId,
-        to: connId,
-        timestamp: new Date(),
-        riskTransfer: transferAmount,
-      });
-      
-      queue.push({ nodeId: connId, depth: depth + 1, riskTransfer: transferAmount });
-    }
+  // Paths back to the nearest outage over the intact power network
+  const parents = new Map<string, string>();
+  const order: string[] = [...roots];
+  const reached = new Set<string>(roots);
+  for (let i = 0; i < order.length; i++) {
+    grid.edges.forEach((e) => {
+      if (e.from !== order[i] && e.to !== order[i]) return;
+      const other = e.from === order[i] ? e.to : e.from;
+      if (reached.has(other)) return;
+      reached.add(other);
+      parents.set(other, order[i]);
+      order.push(other);
+    });
   }
 
+  const affected = new Set<string>(outageNodes);
+  const candidates = [...order, ...Object.keys(after.buses).filter((id) => !reached.has(id))];
+
+  candidates.forEach((nodeId) => {
+    const prior = before.buses[nodeId];
+    const post = after.buses[nodeId];
+    if (affected.has(nodeId) || !prior || !post) return;
+
+    const lostSupply = prior.energized && !post.energized;
+    const stress = post.loading - prior.loading;
+    if (!lostSupply && stress < CASCADE_AFFECTED_LOADING) return;
+
+    const node = updatedNodes[nodeId];
+    const riskTransfer = lostSupply
+      ? Math.max(CASCADE_LOST_SUPPLY_RISK, stress * CASCADE_RISK_GAIN) * severity
+      : Math.min(1, stress) * CASCADE_RISK_GAIN * severity;
+    const newRisk = Math.min(1, node.riskScore + riskTransfer);
+
+    updatedNodes[nodeId] = {
+      ...node,
+      riskScore: newRisk,
+      health: Math.max(0.1, node.health - riskTransfer * 0.2),
+      status: !isInService(node) ? node.status :
+              lostSupply || post.loading > 1 || newRisk > CRITICAL_THRESHOLD ? 'critical' :
+              newRisk > WARNING_THRESHOLD ? 'degraded' : node.status,
+    };
+
+    // Nearest affected ancestor, or the first outage across an island boundary
+    let from = parents.get(nodeId) ?? lineEnds.get(nodeId) ?? roots[0];
+    while (!roots.includes(from) && !affected.has(from)) from = parents.get(from) ?? roots[0];
+
+    affected.add(nodeId);
+    affectedNodes.push(nodeId);
+    propagationPath.push({ from, to: nodeId, timestamp: now, riskTransfer });
+  });
+
+  // Post-contingency electrical state
+  Object.entries(after.buses).forEach(([nodeId, bus]) => {
+    updatedNodes[nodeId] = {
+      ...updatedNodes[nodeId],
+      loadRatio: Math.min(1, bus.loading),
+      voltage: bus.voltage,
+      frequency: bus.frequency,
+    };
+  });
+
   const event: CascadeEvent = {
-    id: `cascade_${Date.now()}`,
-    originNode: originId,
+    id: `cascade_${now.getTime()}`,
+    originNode: roots[0],
     affectedNodes,
     impactScore: affectedNodes.length / Object.keys(nodes).length,
-    startTime: new Date(),
+    startTime: now,
     propagationPath,
     totalDamage: affectedNodes.reduce(
       (sum, id) => sum + (updatedNodes[id].riskScore - nodes[id].riskScore), 
       0
     ),
+    cascadeType: 'electrical',
+    severity,
+    loadShedMW: Math.max(0, after.shedMW - before.shedMW),
+    trippedLines: [...trippedLines],
   };
 
   return { nodes: updatedNodes, event };
@@ -456,6 +627,10 @@ export function autoMitigate(
   let healthGain = 0;
   
   // Apply mitigations based on conditions
+  if (node.status === 'offline') {
+    actions.push('Re-energized and returned to service');
+  }
+
   if (node.riskScore > CRITICAL_THRESHOLD) {
     actions.push('Emergency load shedding');
     riskReduction += 0.2;
@@ -504,7 +679,7 @@ export function autoMitigate(
 // System State
 // ============================================================================
 
-export function getSystemState(nodes: Record<string, Node>): SystemState {
+export function getSystemState(nodes: Record<string, Node>, now: Date = new Date()): SystemState {
   const nodeList = Object.values(nodes);
   const riskScores = nodeList.map((n) => n.riskScore);
   const healthScores = nodeList.map((n) => n.health);
@@ -522,7 +697,7 @@ export function getSystemState(nodes: Record<string, Node>): SystemState {
       .map((n) => n.id),
     totalNodes: nodeList.length,
     onlineNodes: nodeList.filter((n) => n.status !== 'offline').length,
-    timestamp: new Date(),
+    timestamp: now,
   };
 }
 
@@ -15,6 +15,7 @@ export {
   updateNodeState,
   getSystemState,
   simulateCascade,
+  simulateContingency,
   autoMitigate,
   fetchWeatherData,
   createAuditHash,
@@ -22,13 +23,129 @@ export {
   CRITICAL_THRESHOLD,
   WARNING_THRESHOLD,
   type MitigationResult,
+  type SimulationContext,
+  type Contingency,
 } from './SimulationEngine';
 
+// Power Flow
+export {
+  createPowerGrid,
+  solvePowerFlow,
+  edgeId,
+  isGeneration,
+  isInService,
+  generationCapacity,
+  nodeDemand,
+  NOMINAL_FREQUENCY_HZ,
+  NOMINAL_VOLTAGE_KV,
+  type PowerGrid,
+  type BusState,
+  type PowerFlowResult,
+  type PowerFlowOptions,
+} from './PowerFlow';
+
+// Monte Carlo Cascade Risk
+export {
+  CascadeRiskSampler,
+  estimateCascadeRisk,
+  DEFAULT_CASCADE_RISK_OPTIONS,
+  type CascadeRiskOptions,
+} from './MonteCarlo';
+
+// Merkle Batching
+export {
+  canonicalJson,
+  hashLeaf,
+  hashMerkleNodes,
+  buildMerkleTree,
+  getMerkleProof,
+  computeMerkleRoot,
+  verifyMerkleProof,
+  type MerkleTree,
+} from './Merkle';
+
+// Audit Hash Chain
+export {
+  AUDIT_CHAIN_GENESIS,
+  hashAuditChainEntry,
+  verifyAuditChain,
+} from './AuditChain';
+
 // Predictive Engine
 export { PredictiveEngine, default as PredictiveEngineClass } from './PredictiveEngine';
 
+export {
+  OutcomeTracker,
+  OUTCOME_CHECKS,
+  PREDICTION_TYPES,
+  DEFAULT_THERMAL_LIMIT,
+  type OutcomeTrackerOptions,
+  type OutcomeCheck,
+} from './OutcomeTracker';
+
+export {
+  AnomalyDetector,
+  ANOMALY_METRICS,
+  describeAnomaly,
+  isAdverse,
+  strongestAnomaly,
+  type AnomalyDetectorOptions,
+} from './AnomalyDetector';
+
+export {
+  forecastNode,
+  forecastMetric,
+  estimateTimeToFailure,
+  failureThresholds,
+  DEFAULT_FORECAST_OPTIONS,
+  FORECAST_METRICS,
+  LOAD_FAILURE_RATIO,
+  type ForecastOptions,
+} from './Forecaster';
+
+export {
+  createHeuristicProvider,
+  createHttpProvider,
+  createShadowProvider,
+  comparePredictions,
+  parsePredictionResponse,
+  PredictionProviderError,
+  type PredictionProvider,
+  type PredictionRequest,
+  type PredictionComparison,
+  type HttpProviderOptions,
+  type ShadowProviderOptions,
+} from './PredictionProviders';
+
 // Alert Manager
-export { AlertManager, default as AlertManagerClass } from './AlertManager';
+export {
+  AlertManager,
+  default as AlertManagerClass,
+  type AlertManagerOptions,
+  type AlertConfigStorage,
+  type DispatchedActionType,
+} from './AlertManager';
+export {
+  createWebhookDispatcher,
+  createSlackDispatcher,
+  createSmtpDispatcher,
+  renderTemplate,
+  DeliveryError,
+  DEFAULT_ALERT_TEMPLATE,
+  type AlertDispatcher,
+  type WebhookDispatcherOptions,
+  type SlackDispatcherOptions,
+  type SmtpDispatcherOptions,
+} from './AlertDispatchers';
+export {
+  aggregateHistory,
+  collectConditions,
+  compareCondition,
+  evaluateExpression,
+  getRuleExpression,
+  DEFAULT_AGGREGATE_WINDOW,
+  HISTORY_METRICS,
+} from './AlertExpressions';
 
 // Version
 export const VERSION = '1.0.0';
@@ -82,7 +82,10 @@ export interface NodeMetricsHistory {
   loadRatios: number[];
   temperatures: number[];
   cyberHealthScores?: number[];
+  packetLosses?: number[];
   latencies?: number[];
+  tamperSignals?: number[];
+  failedAuthCounts?: number[];
 }
 
 // ============================================================================
@@ -97,6 +100,8 @@ export interface DependencyEdge {
   latency: number;       // ms, communication delay
   bandwidth: number;     // Mbps
   isActive: boolean;
+  capacity?: number;     // MW, power line rating
+  reactance?: number;    // per unit, power line reactance
 }
 
 export type DependencyType = 
@@ -257,7 +262,8 @@ export type PredictionType =
   | 'capacity_breach'
   | 'communication_loss'
   | 'voltage_instability'
-  | 'frequency_deviation';
+  | 'frequency_deviation'
+  | 'anomalous_behavior';     // Deviating from its own baseline
 
 export type PredictionSeverity = 'low' | 'medium' | 'high' | 'critical';
 export type PredictionStatus = 'active' | 'mitigated' | 'expired' | 'occurred';
@@ -305,7 +311,101 @@ export type PatternType =
   | 'thermal_cluster'
   | 'cascading_risk'
   | 'periodic_anomaly'
-  | 'geographic_stress';
+  | 'geographic_stress'
+  | 'behavioral_anomaly'
+  | 'credential_stuffing'     // Failed-auth bursts on several nodes at once
+  | 'latency_degradation'     // Communication degrading across a region
+  | 'tamper_escalation';      // Tamper signals rising
+
+// ============================================================================
+// Anomalies
+// ============================================================================
+
+export type AnomalyMetric = 'riskScore' | 'health' | 'loadRatio' | 'temperature';
+
+/**
+ * A node metric deviating from the node's own baseline
+ */
+export interface NodeAnomaly {
+  nodeId: string;
+  metric: AnomalyMetric;
+  kind: 'spike' | 'shift';     // One-off outlier, or a change point in the level
+  direction: 'up' | 'down';
+  value: number;
+  expected: number;            // Baseline level plus seasonal offset
+  zScore: number;
+  detectedAt: Date;
+}
+
+// ============================================================================
+// Forecasts
+// ============================================================================
+
+export type ForecastMetric = 'riskScore' | 'temperature' | 'loadRatio';
+
+export interface ForecastPoint {
+  hoursAhead: number;
+  time: Date;
+  mean: number;
+  lower: number;               // 95% prediction interval
+  upper: number;
+}
+
+export interface MetricForecast {
+  metric: ForecastMetric;
+  points: ForecastPoint[];
+  trendPerHour: number;        // Current (undamped) trend
+  residualStd: number;         // One-step-ahead error of the fit
+}
+
+/**
+ * First crossing of a failure threshold. The interval runs from where the
+ * upper band crosses to where the lower band does, capped at the horizon.
+ */
+export interface TimeToFailure {
+  hours: number;
+  interval: [number, number];
+  metric: ForecastMetric;
+  threshold: number;
+}
+
+export interface NodeForecast {
+  nodeId: string;
+  generatedAt: Date;
+  horizonHours: number;
+  samples: number;             // History points the fit used
+  metrics: Record<ForecastMetric, MetricForecast>;
+  timeToFailure: TimeToFailure | null;   // null: no crossing within the horizon
+}
+
+// ============================================================================
+// Cascade Risk
+// ============================================================================
+
+/**
+ * Outcome at one percentile across realizations; each measure is ranked
+ * on its own
+ */
+export interface CascadePercentile {
+  percentile: number;
+  affectedNodes: number;
+  loadShedMW: number;
+  damage: number;
+}
+
+export interface CascadeRiskEstimate {
+  originNode: string;
+  realizations: number;
+  seed: number;
+  severity: number;
+  meanAffected: number;
+  expectedDamage: number;
+  expectedLoadShedMW: number;
+  expectedImpactScore: number;
+  affectedDistribution: Array<{ affectedNodes: number; probability: number }>;
+  percentiles: CascadePercentile[];
+  hitProbability: Record<string, number>;   // Downstream nodes, most likely first
+}
 
 // ============================================================================
 // Cascade Events
@@ -323,6 +423,8 @@ export interface CascadeEvent {
   cascadeType?: CascadeType;  // Optional for backward compatibility
   mitigated?: boolean;        // Optional for backward compatibility
   severity?: number;          // Optional for backward compatibility
+  loadShedMW?: number;        // Demand left unserved after the cascade
+  trippedLines?: string[];    // Power edges tripped on overload
 }
 
 export type CascadeType = 
@@ -395,19 +497,36 @@ export interface AccuracyMetrics {
   avgLeadTime: number;    // Hours before event
   byType: Record<PredictionType, TypeAccuracy>;
   
+  confusion?: ConfusionMatrix;
+
   // Rolling metrics (optional for backward compatibility)
   rolling7Day?: {
     accuracy: number;
-    truePositives: number;
-    falsePositives: number;
-    falseNegatives: number;
-    trueNegatives: number;
-  };
+  } & ConfusionMatrix;
   
   // Time-series (optional)
   dailyAccuracy?: Array<{ date: string; accuracy: number; count: number }>;
 }
 
+/**
+ * Every cell counts node-days, so precision, recall and accuracy share one unit
+ */
+export interface ConfusionMatrix {
+  truePositives: number;    // Node-days where a prediction's event materialized
+  falsePositives: number;   // Node-days where a prediction expired and nothing happened
+  falseNegatives: number;   // Node-days with an event no prediction saw coming
+  trueNegatives: number;    // Node-days with neither a prediction nor an event
+}
+
+/**
+ * A node reaching a critical state with no prediction pending for it
+ */
+export interface MissedEvent {
+  nodeId: string;
+  occurredAt: Date;
+  outcome: string;
+}
+
 export interface TypeAccuracy {
   total: number;
   accurate: number;
@@ -431,6 +550,12 @@ export interface Alert {
   acknowledgedAt?: Date;
   resolvedAt?: Date;
   acknowledgedBy?: string;
+  autoResolved?: boolean;
+  deliveries?: AlertDelivery[];
+  configId?: string;
+  groupKey?: string;          // Set on parent alerts that aggregate several subjects
+  escalationLevel?: number;   // Escalation steps applied so far
+  escalatedAt?: Date;
 }
 
 export type AlertType = 
@@ -449,23 +574,87 @@ export interface AlertConfig {
   id: string;
   name: string;
   enabled: boolean;
-  conditions: AlertCondition[];
+  conditions: AlertCondition[];   // Implicit AND, used when no expression is set
+  expression?: AlertExpression;
   actions: AlertAction[];
   cooldownMinutes: number;
+  groupBy?: AlertGrouping;
+  escalation?: EscalationStep[];
   lastTriggered?: Date;
 }
 
+/**
+ * - region: one parent alert per region
+ * - cascade: breaching nodes join an open group they are connected to
+ * - prediction: one parent alert per prediction type
+ */
+export type AlertGrouping = 'region' | 'cascade' | 'prediction';
+
+export interface EscalationStep {
+  afterMinutes: number;       // Since the alert was raised, while still unacknowledged
+  severity?: AlertSeverity;   // Default: one level up
+  actions: AlertAction[];
+}
+
+/**
+ * Planned maintenance: no alerts are raised for matching nodes while active
+ */
+export interface SuppressionWindow {
+  id: string;
+  nodeIds?: string[];
+  region?: string;
+  startsAt: Date;
+  endsAt: Date;
+  reason?: string;
+}
+
 export interface AlertCondition {
   metric: string;
   operator: 'gt' | 'lt' | 'eq' | 'gte' | 'lte';
-  value: number;
+  value: number | string; // Strings only match with 'eq'
+  fn?: AlertAggregate;    // Compare a function of the node's metric history instead
+  window?: number;        // Ticks the function looks back over (default 5)
   duration?: number;      // How long condition must persist (seconds)
+  clearValue?: number;    // Auto-resolve once the value recovers past this (hysteresis)
 }
 
+/**
+ * - delta: change over the window ("rising by more than 2°C over 5 ticks")
+ * - rate: average change per tick over the window
+ * - avg/min/max: over the last `window` samples
+ */
+export type AlertAggregate = 'delta' | 'rate' | 'avg' | 'min' | 'max';
+
+export type AlertExpression =
+  | AlertCondition
+  | { and: AlertExpression[] }
+  | { or: AlertExpression[] }
+  | { not: AlertExpression };
+
 export interface AlertAction {
   type: 'webhook' | 'email' | 'slack' | 'log';
   target: string;
-  template?: string;
+  template?: string;      // {{title}}, {{message}}, {{severity}}, {{nodeIds}}, ...
+}
+
+export type AlertDeliveryStatus = 'pending' | 'delivered' | 'failed' | 'skipped';
+
+export interface AlertDelivery {
+  actionType: AlertAction['type'];
+  target: string;
+  status: AlertDeliveryStatus;
+  attempts: number;
+  lastAttemptAt?: Date;
+  deliveredAt?: Date;
+  error?: string;
+}
+
+export interface DeadLetter {
+  alertId: string;
+  action: AlertAction;
+  attempts: number;
+  error: string;
+  failedAt: Date;
 }
 
 // ============================================================================
@@ -484,6 +673,9 @@ export interface AuditEntry {
     autoMitigated?: boolean;
     [key: string]: unknown;
   };
+  seq?: number;           // Position in the hash chain, from 1
+  prevHash?: string;      // chainHash of the entry before
+  chainHash?: string;
 }
 
 export type AuditEventType = 
@@ -504,6 +696,52 @@ export type AuditEventType =
   | 'incident_closed'
   | 'anchor_created';
 
+/**
+ * One sibling on the path from a leaf to the Merkle root; `position` says
+ * which side of the running hash the sibling goes
+ */
+export interface MerkleProofStep {
+  hash: string;
+  position: 'left' | 'right';
+}
+
+/**
+ * A stored audit entry as the hash chain sees it. `chainHash` commits to
+ * every other field, including the previous entry's chainHash.
+ */
+export interface AuditChainEntry {
+  seq: number;
+  id: string;
+  timestamp: string;
+  type: string;
+  hash: string;
+  actor?: string;
+  dataSummary?: string;
+  prevHash: string;
+  chainHash: string;
+}
+
+/**
+ * gap: entries missing before this one; reorder: entry out of sequence;
+ * modified: fields no longer match its chainHash; broken_link: prevHash
+ * does not match the entry before
+ */
+export type AuditChainBreakReason = 'gap' | 'reorder' | 'modified' | 'broken_link';
+
+export interface AuditChainVerification {
+  valid: boolean;
+  checked: number;            // Entries verified before the first break
+  headSeq: number | null;
+  headHash: string | null;    // chainHash of the last valid entry
+  firstBreak?: {
+    seq: number;
+    id: string;
+    reason: AuditChainBreakReason;
+    expected: string;
+    actual: string;
+  };
+}
+
 // ============================================================================
 // Demo & Storyline
 // ============================================================================
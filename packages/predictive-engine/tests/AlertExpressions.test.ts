@@ -0,0 +1,88 @@
+/**
+ * Tests for AlertExpressions - Rule trees and history functions
+ */
+
+import {
+  aggregateHistory,
+  collectConditions,
+  compareCondition,
+  evaluateExpression,
+  getRuleExpression,
+} from '../src/AlertExpressions';
+import { AlertCondition, AlertExpression, NodeMetricsHistory } from '../src/types';
+
+const hot: AlertCondition = { metric: 'temperature', operator: 'gt', value: 90 };
+const north: AlertCondition = { metric: 'region', operator: 'eq', value: 'North' };
+const loaded: AlertCondition = { metric: 'loadRatio', operator: 'gte', value: 0.9 };
+
+function history(temperatures: number[]): NodeMetricsHistory {
+  return {
+    timestamps: temperatures.map((_, i) => new Date(i * 1000)),
+    riskScores: temperatures.map(() => 0.2),
+    healthScores: temperatures.map(() => 0.9),
+    loadRatios: temperatures.map(() => 0.5),
+    temperatures,
+  };
+}
+
+describe('AlertExpressions', () => {
+  describe('compareCondition', () => {
+    it('should match strings only with eq', () => {
+      expect(compareCondition('cyber_attack', 'eq', 'cyber_attack')).toBe(true);
+      expect(compareCondition('cyber_attack', 'eq', 0)).toBe(false);
+      expect(compareCondition('cyber_attack', 'gt', 0)).toBe(false);
+    });
+
+    it('should compare numbers', () => {
+      expect(compareCondition(91, 'gt', 90)).toBe(true);
+      expect(compareCondition(90, 'gte', 90)).toBe(true);
+      expect(compareCondition(undefined, 'lt', 90)).toBe(false);
+    });
+  });
+
+  describe('evaluateExpression', () => {
+    const expression: AlertExpression = {
+      and: [hot, { or: [north, { not: loaded }] }],
+    };
+
+    it('should collect leaves depth first', () => {
+      expect(collectConditions(expression)).toEqual([hot, north, loaded]);
+    });
+
+    it('should combine AND, OR and NOT', () => {
+      const verdict = (breached: AlertCondition[]) =>
+        evaluateExpression(expression, (c) => breached.includes(c));
+
+      expect(verdict([hot, north, loaded])).toBe(true);
+      expect(verdict([hot])).toBe(true);
+      expect(verdict([hot, loaded])).toBe(false);
+      expect(verdict([north])).toBe(false);
+    });
+
+    it('should AND the conditions of a config without an expression', () => {
+      const config = { id: 'c', name: 'c', enabled: true, conditions: [hot, loaded], actions: [], cooldownMinutes: 0 };
+      expect(getRuleExpression(config)).toEqual({ and: [hot, loaded] });
+    });
+  });
+
+  describe('aggregateHistory', () => {
+    const samples = history([80, 81, 83, 84, 86, 88]);
+
+    it('should measure change over the window', () => {
+      expect(aggregateHistory(samples, 'temperature', 'delta', 5)).toBe(8);
+      expect(aggregateHistory(samples, 'temperature', 'rate', 4)).toBe(1.75);
+    });
+
+    it('should aggregate the last window samples', () => {
+      expect(aggregateHistory(samples, 'temperature', 'avg', 2)).toBe(87);
+      expect(aggregateHistory(samples, 'temperature', 'min', 3)).toBe(84);
+      expect(aggregateHistory(samples, 'temperature', 'max', 6)).toBe(88);
+    });
+
+    it('should be undefined until the history covers the window', () => {
+      expect(aggregateHistory(samples, 'temperature', 'delta', 6)).toBeUndefined();
+      expect(aggregateHistory(samples, 'latency', 'avg', 2)).toBeUndefined();
+      expect(aggregateHistory(undefined, 'temperature', 'avg', 2)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,386 @@
+/**
+ * Tests for AlertManager - Configuration management and persistence
+ */
+
+import { AlertManager, AlertConfigStorage } from '../src/AlertManager';
+import { createWebhookDispatcher } from '../src/AlertDispatchers';
+import { initializeNodes, getSystemState } from '../src/SimulationEngine';
+import { AlertConfig, Node, NodeMetricsHistory } from '../src/types';
+
+function memoryStorage(initial: AlertConfig[] | null = null): AlertConfigStorage & { saved: Map<string, AlertConfig> } {
+  let touched = initial !== null;
+  const saved = new Map((initial ?? []).map((c) => [c.id, c]));
+
+  return {
+    saved,
+    load: () => (touched ? Array.from(saved.values()) : null),
+    save: (config) => {
+      touched = true;
+      saved.set(config.id, JSON.parse(JSON.stringify(config)));
+    },
+    remove: (id) => {
+      touched = true;
+      saved.delete(id);
+    },
+  };
+}
+
+const customConfig: AlertConfig = {
+  id: 'custom_temp',
+  name: 'Hot Transformer',
+  enabled: true,
+  conditions: [{ metric: 'temperature', operator: 'gt', value: 90 }],
+  actions: [{ type: 'log', target: 'system' }],
+  cooldownMinutes: 5,
+};
+
+describe('AlertManager', () => {
+  describe('configuration', () => {
+    it('should load the defaults without storage', () => {
+      const manager = new AlertManager();
+      expect(manager.getConfigurations().length).toBeGreaterThan(0);
+    });
+
+    it('should not share default configs between instances', () => {
+      const first = new AlertManager();
+      const second = new AlertManager();
+      const [config] = first.getConfigurations();
+
+      first.toggleConfiguration(config.id, false);
+
+      expect(second.getConfiguration(config.id)!.enabled).toBe(true);
+    });
+
+    it('should fire a default rule without dead-lettering its actions', async () => {
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+      const manager = new AlertManager(1, {
+        dispatchers: { webhook: createWebhookDispatcher({ hmacKey: 'test-hmac-key' }) },
+      });
+      const nodes = initializeNodes({ seed: 12345, nodeCount: 1 });
+      const [nodeId] = Object.keys(nodes);
+      nodes[nodeId] = { ...nodes[nodeId], riskScore: 0.95 };
+
+      const alerts = await manager.checkSystemStateForAlerts(getSystemState(nodes), nodes);
+
+      expect(alerts.map((a) => a.configId)).toContain('alert_critical_risk');
+      expect(manager.getDeadLetters()).toEqual([]);
+      jest.restoreAllMocks();
+    });
+  });
+
+  describe('storage', () => {
+    it('should write the defaults through on first load', () => {
+      const storage = memoryStorage();
+      const manager = new AlertManager(1, { storage });
+
+      expect(storage.saved.size).toBe(manager.getConfigurations().length);
+    });
+
+    it('should load stored configs instead of the defaults', () => {
+      const manager = new AlertManager(1, { storage: memoryStorage([customConfig]) });
+
+      expect(manager.getConfigurations().map((c) => c.id)).toEqual(['custom_temp']);
+    });
+
+    it('should persist changes across instances', () => {
+      const storage = memoryStorage();
+      const first = new AlertManager(1, { storage });
+      const [defaultConfig] = first.getConfigurations();
+
+      first.setConfiguration(customConfig);
+      first.toggleConfiguration('custom_temp', false);
+      first.removeConfiguration(defaultConfig.id);
+
+      const second = new AlertManager(1, { storage });
+      expect(second.getConfiguration('custom_temp')!.enabled).toBe(false);
+      expect(second.getConfiguration(defaultConfig.id)).toBeUndefined();
+    });
+
+    it('should keep an emptied configuration set empty', () => {
+      const storage = memoryStorage();
+      const first = new AlertManager(1, { storage });
+      first.getConfigurations().forEach((c) => first.removeConfiguration(c.id));
+
+      expect(new AlertManager(1, { storage }).getConfigurations()).toHaveLength(0);
+    });
+  });
+
+  describe('sustained breaches', () => {
+    let now: Date;
+    let manager: AlertManager;
+    let nodes: Record<string, Node>;
+    let nodeId: string;
+
+    const advance = (seconds: number) => {
+      now = new Date(now.getTime() + seconds * 1000);
+    };
+    const check = (temperature: number) => {
+      nodes[nodeId] = { ...nodes[nodeId], temperature };
+      return manager.checkSystemStateForAlerts(getSystemState(nodes), { [nodeId]: nodes[nodeId] });
+    };
+
+    beforeEach(() => {
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+      now = new Date('2024-01-01T00:00:00.000Z');
+      manager = new AlertManager(1, { clock: () => now });
+      manager.getConfigurations().forEach((c) => manager.removeConfiguration(c.id));
+      manager.setConfiguration({
+        ...customConfig,
+        conditions: [{ metric: 'temperature', operator: 'gt', value: 90, duration: 30 }],
+        cooldownMinutes: 0,
+      });
+      nodes = initializeNodes({ seed: 12345, nodeCount: 1 });
+      nodeId = Object.keys(nodes)[0];
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should ignore spikes shorter than the duration', async () => {
+      expect(await check(95)).toHaveLength(0);
+      advance(20);
+      expect(await check(95)).toHaveLength(0);
+      advance(10);
+      expect(await check(85)).toHaveLength(0);
+      advance(30);
+      expect(await check(95)).toHaveLength(0);
+    });
+
+    it('should fire once the breach has persisted for the duration', async () => {
+      await check(95);
+      advance(30);
+      const [alert] = await check(96);
+
+      expect(alert.nodeIds).toEqual([nodeId]);
+      advance(60);
+      expect(await check(97)).toHaveLength(0);
+    });
+
+    it('should auto-resolve only after recovering past the hysteresis band', async () => {
+      await check(95);
+      advance(30);
+      const [alert] = await check(95);
+
+      // 89 is below the threshold but inside the default 5% band (85.5)
+      advance(3);
+      await check(89);
+      expect(alert.status).toBe('active');
+
+      advance(3);
+      await check(85);
+      expect(alert.status).toBe('resolved');
+      expect(alert.autoResolved).toBe(true);
+      expect(alert.resolvedAt).toEqual(now);
+    });
+
+    it('should honour an explicit clear value', async () => {
+      manager.setConfiguration({
+        ...customConfig,
+        conditions: [{ metric: 'temperature', operator: 'gt', value: 90, clearValue: 88 }],
+        cooldownMinutes: 0,
+      });
+
+      const [alert] = await check(95);
+      await check(87);
+
+      expect(alert.status).toBe('resolved');
+    });
+  });
+
+  describe('expressions', () => {
+    let manager: AlertManager;
+    let nodes: Record<string, Node>;
+    let node: Node;
+
+    const setRule = (rule: Partial<AlertConfig>) => {
+      manager.setConfiguration({ ...customConfig, actions: [], cooldownMinutes: 0, ...rule });
+    };
+    const check = (overrides: Partial<Node>, histories?: Map<string, NodeMetricsHistory>) => {
+      const updated = { ...node, ...overrides };
+      return manager.checkSystemStateForAlerts(getSystemState(nodes), { [node.id]: updated }, histories);
+    };
+
+    beforeEach(() => {
+      manager = new AlertManager(1);
+      manager.getConfigurations().forEach((c) => manager.removeConfiguration(c.id));
+      nodes = initializeNodes({ seed: 12345, nodeCount: 1 });
+      node = Object.values(nodes)[0];
+    });
+
+    it('should match string fields and OR/NOT groups', async () => {
+      setRule({
+        conditions: [],
+        expression: {
+          and: [
+            { metric: 'region', operator: 'eq', value: node.region },
+            { or: [
+              { metric: 'tamperSignal', operator: 'gt', value: 0.5 },
+              { not: { metric: 'status', operator: 'eq', value: 'online' } },
+            ] },
+          ],
+        },
+      });
+
+      expect(await check({ status: 'online', tamperSignal: 0.1 })).toHaveLength(0);
+      expect(await check({ status: 'online', tamperSignal: 0.7 })).toHaveLength(1);
+    });
+
+    it('should not apply rules whose metrics the node lacks', async () => {
+      setRule({
+        conditions: [],
+        expression: { not: { metric: 'voltage', operator: 'gt', value: 100 } },
+      });
+
+      expect(await check({ voltage: undefined })).toHaveLength(0);
+      expect(await check({ voltage: 50 })).toHaveLength(1);
+    });
+
+    it('should treat a missing metric as unbreached in OR groups', async () => {
+      setRule({
+        conditions: [],
+        expression: { or: [
+          { metric: 'voltage', operator: 'lt', value: 100 },
+          { metric: 'tamperSignal', operator: 'gt', value: 0.5 },
+        ] },
+      });
+
+      expect(await check({ voltage: undefined, tamperSignal: 0.1 })).toHaveLength(0);
+      expect(await check({ voltage: undefined, tamperSignal: 0.7 })).toHaveLength(1);
+    });
+
+    it('should negate a missing metric as an unbreached condition', async () => {
+      setRule({
+        conditions: [],
+        expression: { and: [
+          { metric: 'tamperSignal', operator: 'gt', value: 0.5 },
+          { not: { metric: 'voltage', operator: 'lt', value: 100 } },
+        ] },
+      });
+
+      expect(await check({ voltage: 50, tamperSignal: 0.7 })).toHaveLength(0);
+      expect(await check({ voltage: undefined, tamperSignal: 0.7 })).toHaveLength(1);
+    });
+
+    it('should evaluate history functions', async () => {
+      setRule({ conditions: [{ metric: 'temperature', fn: 'delta', window: 2, operator: 'gt', value: 2 }] });
+      const histories = (temperatures: number[]) => new Map([[node.id, {
+        timestamps: temperatures.map((_, i) => new Date(i)),
+        riskScores: [],
+        healthScores: [],
+        loadRatios: [],
+        temperatures,
+      }]]);
+
+      expect(await check({}, histories([60, 61, 62]))).toHaveLength(0);
+      expect(await check({})).toHaveLength(0);
+      expect(await check({}, histories([60, 61, 63.5]))).toHaveLength(1);
+    });
+  });
+
+  describe('grouping, escalation and suppression', () => {
+    let now: Date;
+    let manager: AlertManager;
+    let nodes: Record<string, Node>;
+    let ids: string[];
+
+    const hot = (...hotIds: string[]) => {
+      const checked = Object.fromEntries(ids.map((id) => [id, {
+        ...nodes[id],
+        temperature: hotIds.includes(id) ? 95 : 40,
+      }]));
+      return manager.checkSystemStateForAlerts(getSystemState(checked), checked);
+    };
+
+    beforeEach(() => {
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+      now = new Date('2024-01-01T00:00:00.000Z');
+      manager = new AlertManager(1, { clock: () => now });
+      manager.getConfigurations().forEach((c) => manager.removeConfiguration(c.id));
+
+      nodes = initializeNodes({ seed: 12345, nodeCount: 4 });
+      ids = Object.keys(nodes);
+      // Two regions; a-b connected, c-d connected, no links between the pairs
+      ids.forEach((id, i) => {
+        nodes[id] = {
+          ...nodes[id],
+          region: i < 2 ? 'North' : 'South',
+          connections: [ids[i % 2 === 0 ? i + 1 : i - 1]],
+          dependencies: [],
+        };
+      });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should aggregate breaching nodes into one alert per region', async () => {
+      manager.setConfiguration({ ...customConfig, groupBy: 'region' });
+
+      const first = await hot(ids[0], ids[2]);
+      const second = await hot(ids[0], ids[1], ids[2]);
+
+      expect(first).toHaveLength(2);
+      expect(second).toHaveLength(0);
+      const north = manager.getAlerts('active').find((a) => a.title.includes('North'))!;
+      expect(north.nodeIds).toEqual([ids[0], ids[1]]);
+    });
+
+    it('should keep a group open until every member recovers', async () => {
+      manager.setConfiguration({ ...customConfig, groupBy: 'cascade', cooldownMinutes: 0 });
+
+      await hot(ids[0], ids[1]);
+      const [group] = manager.getAlerts('active');
+      expect(group.nodeIds).toEqual([ids[0], ids[1]]);
+
+      await hot(ids[1]);
+      expect(group.status).toBe('active');
+      await hot();
+      expect(group.status).toBe('resolved');
+    });
+
+    it('should escalate unacknowledged alerts', async () => {
+      const page = { type: 'log' as const, target: 'oncall', template: 'ESCALATED {{title}}' };
+      manager.setConfiguration({
+        ...customConfig,
+        escalation: [{ afterMinutes: 10, actions: [page] }, { afterMinutes: 30, severity: 'critical', actions: [page] }],
+      });
+      const [alert] = await hot(ids[0]);
+      const [acknowledged] = await hot(ids[0], ids[1]).then((alerts) => alerts.slice(-1));
+      manager.acknowledgeAlert(acknowledged.id);
+
+      now = new Date(now.getTime() + 9 * 60000);
+      expect(await manager.processEscalations()).toHaveLength(0);
+
+      now = new Date(now.getTime() + 60000);
+      expect(await manager.processEscalations()).toEqual([alert]);
+      expect(alert.severity).toBe('error');
+      expect(console.log).toHaveBeenCalledWith(expect.stringContaining('ESCALATED'));
+
+      now = new Date(now.getTime() + 20 * 60000);
+      await manager.processEscalations();
+      expect(alert).toMatchObject({ severity: 'critical', escalationLevel: 2 });
+      expect(await manager.processEscalations()).toHaveLength(0);
+    });
+
+    it('should silence nodes under maintenance', async () => {
+      manager.setConfiguration(customConfig);
+      manager.addSuppression({
+        id: 'maint_1',
+        region: 'North',
+        startsAt: now,
+        endsAt: new Date(now.getTime() + 3600000),
+        reason: 'Transformer swap',
+      });
+
+      const alerts = await hot(ids[0], ids[2]);
+      expect(alerts.map((a) => a.nodeIds)).toEqual([[ids[2]]]);
+
+      now = new Date(now.getTime() + 3600000);
+      expect(manager.getSuppressions()).toHaveLength(0);
+      expect(await hot(ids[0], ids[2])).toHaveLength(1);
+    });
+  });
+});
+
@@ -0,0 +1,109 @@
+/**
+ * Tests for AnomalyDetector - baselines, spikes, seasonality and change points
+ */
+
+import { AnomalyDetector } from '../src/AnomalyDetector';
+import { PredictiveEngine } from '../src/PredictiveEngine';
+import { SeededRandom } from '../src/SeededRandom';
+import { initializeNodes } from '../src/SimulationEngine';
+import { Node, NodeAnomaly } from '../src/types';
+
+const HOUR_MS = 3600000;
+
+describe('AnomalyDetector', () => {
+  let rng: SeededRandom;
+  let node: Node;
+  let now: Date;
+
+  beforeEach(() => {
+    rng = new SeededRandom(777);
+    const nodes = initializeNodes({ seed: 12345, nodeCount: 1 });
+    node = {
+      ...Object.values(nodes)[0],
+      riskScore: 0.2, health: 0.9, loadRatio: 0.5, temperature: 40,
+    };
+    now = new Date('2024-01-01T00:00:00.000Z');
+  });
+
+  /**
+   * Feed samples one hour apart with small noise around the given
+   * temperature; returns every anomaly reported along the way
+   */
+  const feed = (detector: AnomalyDetector, count: number, temperature: (t: Date) => number) => {
+    const reported: NodeAnomaly[] = [];
+    for (let i = 0; i < count; i++) {
+      now = new Date(now.getTime() + HOUR_MS);
+      node = { ...node, temperature: temperature(now) + rng.nextGaussian(0, 0.3) };
+      reported.push(...detector.observe(node, now));
+    }
+    return reported;
+  };
+
+  it('should stay quiet during warm-up and on normal noise', () => {
+    const detector = new AnomalyDetector();
+
+    expect(feed(detector, 60, () => 40)).toEqual([]);
+    expect(detector.getBaseline(node.id, 'temperature', now)?.expected).toBeCloseTo(40, 0);
+  });
+
+  it('should flag a spike well below global thresholds', () => {
+    const detector = new AnomalyDetector();
+    feed(detector, 60, () => 40);
+
+    node = { ...node, temperature: 46 };
+    const [anomaly] = detector.observe(node, new Date(now.getTime() + HOUR_MS));
+
+    expect(anomaly).toMatchObject({ metric: 'temperature', kind: 'spike', direction: 'up' });
+    expect(anomaly.zScore).toBeGreaterThan(3);
+    expect(detector.getAnomalies(node.id)).toEqual([anomaly]);
+  });
+
+  it('should learn a daily cycle instead of flagging it', () => {
+    // Hourly samples visit each slot once a day, so offsets must learn faster
+    const detector = new AnomalyDetector({ seasonalAlpha: 0.3 });
+    const daily = (t: Date) => 40 + 8 * Math.sin((t.getUTCHours() / 24) * 2 * Math.PI);
+
+    // Two weeks of hourly samples; the afternoon peak is routine by then
+    feed(detector, 14 * 24, daily);
+    expect(feed(detector, 24, daily)).toEqual([]);
+  });
+
+  it('should detect a sustained level shift as a change point', () => {
+    const detector = new AnomalyDetector();
+    feed(detector, 60, () => 40);
+
+    // A step too small to spike, held long enough for CUSUM to notice
+    const steps: string[] = [];
+    for (let i = 0; i < 20; i++) {
+      now = new Date(now.getTime() + HOUR_MS);
+      node = { ...node, temperature: 41.5 + rng.nextGaussian(0, 0.3) };
+      steps.push(...detector.observe(node, now).map((a) => a.kind));
+    }
+
+    expect(steps).toContain('shift');
+  });
+
+  it('should let the engine predict anomalous behavior below thresholds', () => {
+    let clock = new Date('2024-01-01T00:00:00.000Z');
+    const engine = new PredictiveEngine({ seed: 54321, clock: () => clock });
+    const nodes = { [node.id]: { ...node, connections: [] } };
+
+    for (let i = 0; i < 40; i++) {
+      clock = new Date(clock.getTime() + HOUR_MS);
+      nodes[node.id] = { ...nodes[node.id], temperature: 40 + rng.nextGaussian(0, 0.3) };
+      engine.updateHistories([], nodes);
+    }
+    clock = new Date(clock.getTime() + HOUR_MS);
+    nodes[node.id] = { ...nodes[node.id], temperature: 50 };
+    engine.updateHistories([], nodes);
+
+    const [prediction] = engine.generatePredictions(nodes);
+    expect(prediction.type).toBe('anomalous_behavior');
+    expect(prediction.contributingFactors[0].factor).toBe('Behavioral Anomaly');
+    expect(prediction.reasoning).toContain('σ');
+
+    const pattern = engine.analyzePatterns(nodes).find((p) => p.type === 'behavioral_anomaly');
+    expect(pattern?.affectedNodes).toEqual([node.id]);
+    expect(pattern?.description).toContain('behaving unlike itself');
+  });
+});
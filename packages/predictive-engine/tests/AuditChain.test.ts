@@ -0,0 +1,87 @@
+/**
+ * Tests for AuditChain - hash-chained, tamper-evident audit entries
+ */
+
+import { AUDIT_CHAIN_GENESIS, hashAuditChainEntry, verifyAuditChain } from '../src/AuditChain';
+import { AuditChainEntry } from '../src/types';
+
+function buildChain(count: number): AuditChainEntry[] {
+  const entries: AuditChainEntry[] = [];
+  let prevHash = AUDIT_CHAIN_GENESIS;
+
+  for (let seq = 1; seq <= count; seq++) {
+    const link = {
+      seq,
+      id: `audit-${seq}`,
+      timestamp: new Date(Date.UTC(2024, 0, 1, 0, seq)).toISOString(),
+      type: 'cascade_event',
+      hash: `content-${seq}`,
+      dataSummary: JSON.stringify({ affected: seq }),
+      prevHash,
+    };
+    prevHash = hashAuditChainEntry(link);
+    entries.push({ ...link, chainHash: prevHash });
+  }
+
+  return entries;
+}
+
+describe('AuditChain', () => {
+  it('should verify an intact chain and report its head', () => {
+    const chain = buildChain(5);
+    const result = verifyAuditChain(chain);
+
+    expect(result.valid).toBe(true);
+    expect(result.checked).toBe(5);
+    expect(result.headSeq).toBe(5);
+    expect(result.headHash).toBe(chain[4].chainHash);
+    expect(result.firstBreak).toBeUndefined();
+  });
+
+  it('should treat an empty log as valid', () => {
+    expect(verifyAuditChain([])).toEqual({ valid: true, checked: 0, headSeq: null, headHash: null });
+  });
+
+  it('should detect a modified entry', () => {
+    const chain = buildChain(5);
+    chain[2] = { ...chain[2], dataSummary: JSON.stringify({ affected: 0 }) };
+
+    const result = verifyAuditChain(chain);
+
+    expect(result.valid).toBe(false);
+    expect(result.checked).toBe(2);
+    expect(result.headHash).toBe(chain[1].chainHash);
+    expect(result.firstBreak).toMatchObject({ seq: 3, id: 'audit-3', reason: 'modified' });
+  });
+
+  it('should detect a deleted entry as a gap', () => {
+    const chain = buildChain(5);
+    chain.splice(1, 1);
+
+    expect(verifyAuditChain(chain).firstBreak).toMatchObject({ seq: 3, reason: 'gap', expected: '2' });
+  });
+
+  it('should detect swapped or duplicated entries as a reorder', () => {
+    const chain = buildChain(5);
+    [chain[1], chain[2]] = [chain[2], chain[1]];
+
+    expect(verifyAuditChain(chain).firstBreak).toMatchObject({ seq: 3, reason: 'reorder', expected: '2' });
+
+    const duplicated = buildChain(5);
+    duplicated[3] = { ...duplicated[1] };
+    expect(verifyAuditChain(duplicated).firstBreak).toMatchObject({ seq: 2, reason: 'reorder', expected: '4' });
+  });
+
+  it('should detect a rehashed entry that no longer links to its predecessor', () => {
+    const chain = buildChain(4);
+    const forged = { ...chain[2], prevHash: AUDIT_CHAIN_GENESIS };
+    chain[2] = { ...forged, chainHash: hashAuditChainEntry(forged) };
+
+    expect(verifyAuditChain(chain).firstBreak).toMatchObject({
+      seq: 3,
+      reason: 'broken_link',
+      expected: chain[1].chainHash,
+      actual: AUDIT_CHAIN_GENESIS,
+    });
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Tests for Forecaster - damped trends, widening intervals and time to failure
+ */
+
+import { forecastNode } from '../src/Forecaster';
+import { PredictiveEngine } from '../src/PredictiveEngine';
+import { SeededRandom } from '../src/SeededRandom';
+import { initializeNodes } from '../src/SimulationEngine';
+import { Node, NodeMetricsHistory } from '../src/types';
+
+const HOUR_MS = 3600000;
+
+describe('Forecaster', () => {
+  let rng: SeededRandom;
+  let node: Node;
+  const now = new Date('2024-01-03T00:00:00.000Z');
+
+  beforeEach(() => {
+    rng = new SeededRandom(2024);
+    const nodes = initializeNodes({ seed: 12345, nodeCount: 1 });
+    node = { ...Object.values(nodes)[0], thermalLimit: 85 };
+  });
+
+  /**
+   * Hourly history ending at `now`, one value per metric per sample
+   */
+  const history = (
+    count: number,
+    sample: (i: number) => { risk: number; temperature: number; load: number }
+  ): NodeMetricsHistory => {
+    const h: NodeMetricsHistory = {
+      timestamps: [],
+      riskScores: [],
+      healthScores: [],
+      loadRatios: [],
+      temperatures: [],
+    };
+    for (let i = 0; i < count; i++) {
+      const { risk, temperature, load } = sample(i);
+      h.timestamps.push(new Date(now.getTime() - (count - 1 - i) * HOUR_MS));
+      h.riskScores.push(risk);
+      h.healthScores.push(1 - risk);
+      h.loadRatios.push(load);
+      h.temperatures.push(temperature);
+    }
+    return h;
+  };
+
+  const noisy = (sigma: number) => rng.nextGaussian(0, sigma);
+
+  it('should need enough history before forecasting', () => {
+    const flat = () => ({ risk: 0.2, temperature: 40, load: 0.5 });
+
+    expect(forecastNode(node, undefined, now)).toBeNull();
+    expect(forecastNode(node, history(3, flat), now)).toBeNull();
+    expect(forecastNode(node, history(10, flat), now)?.samples).toBe(10);
+  });
+
+  it('should hold a flat series with a narrow band and no failure', () => {
+    const forecast = forecastNode(
+      node,
+      history(48, () => ({ risk: 0.2 + noisy(0.005), temperature: 40 + noisy(0.5), load: 0.5 + noisy(0.01) })),
+      now
+    )!;
+
+    const risk = forecast.metrics.riskScore;
+    expect(risk.points).toHaveLength(49);
+    expect(risk.points[0]).toMatchObject({ hoursAhead: 0, time: now });
+    expect(risk.points[48].mean).toBeCloseTo(0.2, 1);
+    expect(risk.points[48].upper - risk.points[48].lower).toBeLessThan(0.2);
+    expect(forecast.timeToFailure).toBeNull();
+  });
+
+  it('should widen prediction intervals with the horizon', () => {
+    const forecast = forecastNode(
+      node,
+      history(48, (i) => ({ risk: 0.2 + noisy(0.02), temperature: 40 + 0.2 * i + noisy(0.5), load: 0.5 })),
+      now
+    )!;
+
+    const widths = forecast.metrics.temperature.points.map((p) => p.upper - p.lower);
+    expect(widths[0]).toBe(0);
+    for (let i = 1; i < widths.length; i++) {
+      expect(widths[i]).toBeGreaterThanOrEqual(widths[i - 1]);
+    }
+    expect(forecast.metrics.temperature.trendPerHour).toBeGreaterThan(0.05);
+  });
+
+  it('should damp a trend instead of extrapolating it forever', () => {
+    const rising = history(48, (i) => ({ risk: 0.2, temperature: 40 + 0.5 * i, load: 0.5 }));
+    const damped = forecastNode(node, rising, now)!.metrics.temperature.points;
+    const linear = forecastNode(node, rising, now, { dampingPerHour: 1 })!.metrics.temperature.points;
+
+    // 0.5°C/hour for 48 hours would add 24°C; damping caps it near 0.5 * 0.9 / 0.1
+    expect(linear[48].mean - linear[0].mean).toBeCloseTo(24, 0);
+    expect(damped[48].mean - damped[0].mean).toBeLessThan(5);
+  });
+
+  it('should estimate time to failure from the earliest threshold crossing', () => {
+    const forecast = forecastNode(
+      node,
+      history(24, (i) => ({ risk: 0.3 + 0.01 * i + noisy(0.005), temperature: 60 + 1.5 * i + noisy(0.3), load: 0.6 })),
+      now,
+      { dampingPerHour: 1 }
+    )!;
+
+    // Temperature reaches ~94.5°C now and passes 85°C before the risk score nears 0.8
+    expect(forecast.timeToFailure).toMatchObject({ hours: 0, metric: 'temperature', threshold: 85 });
+
+    const cooler = forecastNode(
+      node,
+      history(24, (i) => ({ risk: 0.3 + 0.01 * i + noisy(0.005), temperature: 50 + 0.5 * i + noisy(0.3), load: 0.6 })),
+      now,
+      { dampingPerHour: 1 }
+    )!;
+
+    const ttf = cooler.timeToFailure!;
+    expect(ttf.metric).toBe('riskScore');
+    expect(ttf.hours).toBeGreaterThan(20);
+    expect(ttf.hours).toBeLessThan(35);
+    expect(ttf.interval[0]).toBeLessThanOrEqual(ttf.hours);
+    expect(ttf.interval[1]).toBeGreaterThanOrEqual(ttf.hours);
+  });
+
+  it('should forecast from the engine histories over its prediction horizon', () => {
+    let clock = new Date('2024-01-01T00:00:00.000Z');
+    const engine = new PredictiveEngine({ seed: 54321, clock: () => clock, predictionHorizonHours: 24 });
+    const nodes = { [node.id]: node };
+
+    expect(engine.forecast(node)).toBeNull();
+    for (let i = 0; i < 10; i++) {
+      clock = new Date(clock.getTime() + HOUR_MS);
+      engine.updateHistories([], nodes);
+    }
+
+    const forecast = engine.forecast(node)!;
+    expect(forecast.horizonHours).toBe(24);
+    expect(forecast.generatedAt).toEqual(clock);
+    expect(forecast.metrics.loadRatio.points).toHaveLength(25);
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Tests for Merkle - batching record hashes under one root with inclusion proofs
+ */
+
+import {
+  canonicalJson,
+  hashLeaf,
+  buildMerkleTree,
+  getMerkleProof,
+  computeMerkleRoot,
+  verifyMerkleProof,
+} from '../src/Merkle';
+
+describe('Merkle', () => {
+  const leaves = (count: number) =>
+    Array.from({ length: count }, (_, i) => hashLeaf({ id: `audit-${i}`, type: 'cascade_event' }));
+
+  it('should hash records independently of key order', () => {
+    expect(canonicalJson({ b: 1, a: { d: 2, c: 3 } })).toBe('{"a":{"c":3,"d":2},"b":1}');
+    expect(hashLeaf({ id: 'x', type: 'y' })).toBe(hashLeaf({ type: 'y', id: 'x' }));
+  });
+
+  it('should prove every leaf for even and odd leaf counts', () => {
+    [1, 2, 5, 8, 13].forEach((count) => {
+      const hashes = leaves(count);
+      const tree = buildMerkleTree(hashes);
+
+      hashes.forEach((leaf, i) => {
+        const proof = getMerkleProof(tree, i);
+        expect(computeMerkleRoot(leaf, proof)).toBe(tree.root);
+        expect(verifyMerkleProof(leaf, proof, `0x${tree.root}`)).toBe(true);
+      });
+    });
+  });
+
+  it('should use the leaf itself as the root of a single-leaf tree', () => {
+    const [leaf] = leaves(1);
+    const tree = buildMerkleTree([leaf]);
+
+    expect(tree.root).toBe(leaf);
+    expect(getMerkleProof(tree, 0)).toEqual([]);
+  });
+
+  it('should reject a tampered leaf or a proof for another position', () => {
+    const hashes = leaves(6);
+    const tree = buildMerkleTree(hashes);
+    const proof = getMerkleProof(tree, 2);
+
+    expect(verifyMerkleProof(hashLeaf({ id: 'audit-2', type: 'forged' }), proof, tree.root)).toBe(false);
+    expect(verifyMerkleProof(hashes[3], proof, tree.root)).toBe(false);
+  });
+
+  it('should refuse empty trees and out of range leaves', () => {
+    expect(() => buildMerkleTree([])).toThrow();
+    expect(() => getMerkleProof(buildMerkleTree(leaves(3)), 3)).toThrow();
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Tests for MonteCarlo - seeded cascade realizations and risk summaries
+ */
+
+import { CascadeRiskSampler, estimateCascadeRisk } from '../src/MonteCarlo';
+import { createPowerGrid } from '../src/PowerFlow';
+import { initializeNodes } from '../src/SimulationEngine';
+import { ring } from './helpers/grid';
+
+describe('MonteCarlo', () => {
+  const nodes = initializeNodes({ seed: 42, nodeCount: 40 });
+  const origin = Object.keys(nodes)[0];
+
+  it('should give the same estimate for the same seed however it is batched', () => {
+    const options = { realizations: 60, seed: 9 };
+    const oneShot = estimateCascadeRisk(nodes, origin, options);
+
+    const sampler = new CascadeRiskSampler(nodes, origin, options);
+    while (!sampler.done) sampler.sample(7);
+
+    expect(sampler.completed).toBe(60);
+    expect(sampler.result()).toEqual(oneShot);
+  });
+
+  it('should summarize the distribution of outcomes', () => {
+    const estimate = estimateCascadeRisk(nodes, origin, { realizations: 100, seed: 3 });
+
+    expect(estimate.realizations).toBe(100);
+    expect(estimate.affectedDistribution.reduce((sum, d) => sum + d.probability, 0)).toBeCloseTo(1, 9);
+    expect(estimate.hitProbability[origin]).toBeUndefined();
+    Object.values(estimate.hitProbability).forEach((p) => {
+      expect(p).toBeGreaterThan(0);
+      expect(p).toBeLessThanOrEqual(1);
+    });
+
+    const ps = estimate.percentiles;
+    expect(ps.map((p) => p.percentile)).toEqual([5, 25, 50, 75, 90, 95, 99]);
+    for (let i = 1; i < ps.length; i++) {
+      expect(ps[i].affectedNodes).toBeGreaterThanOrEqual(ps[i - 1].affectedNodes);
+      expect(ps[i].damage).toBeGreaterThanOrEqual(ps[i - 1].damage);
+    }
+  });
+
+  it('should find the downstream nodes a trip always reaches', () => {
+    const { nodes: ringNodes, edges } = ring();
+    const grid = createPowerGrid(ringNodes, edges);
+    const estimate = estimateCascadeRisk(ringNodes, 'A', { realizations: 50 }, grid);
+
+    expect(estimate.hitProbability.B).toBe(1);
+    expect(estimate.hitProbability.L).toBe(1);
+    expect(estimate.expectedLoadShedMW).toBeGreaterThan(0);
+  });
+
+  it('should collapse to a single outcome without demand spread on a deterministic trip', () => {
+    const { nodes: ringNodes, edges } = ring();
+    const grid = createPowerGrid(ringNodes, edges);
+    const estimate = estimateCascadeRisk(ringNodes, 'A', { realizations: 20, demandSigma: 0 }, grid);
+
+    expect(estimate.affectedDistribution).toHaveLength(1);
+    expect(estimate.affectedDistribution[0].probability).toBe(1);
+  });
+
+  it('should reject an unknown origin', () => {
+    expect(() => new CascadeRiskSampler(nodes, 'missing')).toThrow('Origin node missing not found');
+  });
+});
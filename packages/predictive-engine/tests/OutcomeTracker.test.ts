@@ -0,0 +1,200 @@
+/**
+ * Tests for OutcomeTracker - Prediction resolution and honest accuracy
+ */
+
+import { OutcomeTracker } from '../src/OutcomeTracker';
+import { initializeNodes } from '../src/SimulationEngine';
+import { Node, Prediction, PredictionType } from '../src/types';
+
+describe('OutcomeTracker', () => {
+  let now: Date;
+  let tracker: OutcomeTracker;
+  let nodes: Record<string, Node>;
+  let ids: string[];
+
+  const advanceHours = (hours: number) => {
+    now = new Date(now.getTime() + hours * 3600000);
+  };
+  const setNode = (id: string, changes: Partial<Node>) => {
+    nodes[id] = { ...nodes[id], ...changes };
+  };
+  const predict = (nodeId: string, type: PredictionType, hoursToEvent: number): Prediction => ({
+    id: `pred_${nodeId}_${now.getTime()}`,
+    nodeId,
+    nodeName: nodes[nodeId].name,
+    type,
+    probability: 0.8,
+    confidence: 0.7,
+    hoursToEvent,
+    predictedTime: new Date(now.getTime() + hoursToEvent * 3600000),
+    severity: 'high',
+    reasoning: '',
+    contributingFactors: [],
+    suggestedActions: [],
+    createdAt: now,
+    status: 'active',
+  });
+
+  beforeEach(() => {
+    now = new Date('2024-01-01T00:00:00.000Z');
+    tracker = new OutcomeTracker({ clock: () => now });
+    nodes = initializeNodes({ seed: 12345, nodeCount: 4 });
+    ids = Object.keys(nodes);
+    ids.forEach((id) => setNode(id, {
+      status: 'online', health: 0.9, loadRatio: 0.5, temperature: 40, thermalLimit: 80,
+    }));
+    // The tracker has seen every node healthy before any prediction
+    tracker.observe(nodes);
+  });
+
+  it('should report zeros before anything has resolved', () => {
+    const metrics = new OutcomeTracker({ clock: () => now }).getAccuracyMetrics();
+
+    expect(metrics.totalPredictions).toBe(0);
+    expect(metrics.accuracy).toBe(0);
+    expect(metrics.precision).toBe(0);
+    expect(metrics.avgLeadTime).toBe(0);
+    expect(metrics.dailyAccuracy).toEqual([]);
+  });
+
+  it('should mark a prediction occurred when its event materializes', () => {
+    const prediction = predict(ids[0], 'thermal_stress', 6);
+    tracker.track([prediction]);
+
+    advanceHours(4);
+    setNode(ids[0], { temperature: 82 });
+    tracker.observe(nodes);
+
+    expect(prediction.status).toBe('occurred');
+    expect(prediction.wasAccurate).toBe(true);
+    expect(prediction.actualOutcome).toContain('thermal limit');
+    expect(tracker.getAccuracyMetrics().avgLeadTime).toBe(4);
+  });
+
+  it('should expire a prediction once the predicted time and grace have passed', () => {
+    const prediction = predict(ids[0], 'overload', 2);
+    tracker.track([prediction]);
+
+    advanceHours(3);
+    tracker.observe(nodes);
+    expect(prediction.status).toBe('active');
+
+    advanceHours(0.5);
+    tracker.observe(nodes);
+    expect(prediction.status).toBe('expired');
+    expect(prediction.wasAccurate).toBe(false);
+  });
+
+  it('should track one prediction per node and type while pending', () => {
+    const first = predict(ids[0], 'overload', 2);
+    tracker.track([first]);
+    advanceHours(1);
+    tracker.track([predict(ids[0], 'overload', 2)]);
+
+    setNode(ids[0], { loadRatio: 0.97 });
+    tracker.observe(nodes);
+
+    expect(tracker.getResolvedPredictions()).toEqual([first]);
+  });
+
+  it('should build the confusion matrix from outcomes and missed events', () => {
+    tracker.track([predict(ids[0], 'equipment_failure', 6), predict(ids[1], 'overload', 1)]);
+
+    advanceHours(1);
+    setNode(ids[0], { health: 0.1 });
+    setNode(ids[2], { status: 'critical' });
+    tracker.observe(nodes);
+
+    advanceHours(2);
+    tracker.observe(nodes);
+
+    const metrics = tracker.getAccuracyMetrics();
+    expect(metrics.confusion).toEqual({
+      truePositives: 1,
+      falsePositives: 1,
+      falseNegatives: 1,
+      trueNegatives: 1,
+    });
+    expect(metrics.precision).toBe(0.5);
+    expect(metrics.recall).toBe(0.5);
+    expect(metrics.accuracy).toBe(0.5);
+    expect(metrics.byType.equipment_failure).toEqual({ total: 1, accurate: 1, accuracy: 1 });
+    expect(metrics.rolling7Day).toMatchObject({ truePositives: 1, falseNegatives: 1 });
+    expect(metrics.dailyAccuracy).toEqual([{ date: '2024-01-01', accuracy: 0.5, count: 2 }]);
+    expect(tracker.getMissedEvents()).toHaveLength(1);
+  });
+
+  it('should only count events that begin after the prediction was made', () => {
+    setNode(ids[0], { status: 'critical' });
+    advanceHours(1);
+    tracker.observe(nodes);
+
+    const prediction = predict(ids[0], 'cascade_failure', 6);
+    tracker.track([prediction]);
+    advanceHours(1);
+    tracker.observe(nodes);
+    expect(prediction.status).toBe('active');
+
+    setNode(ids[0], { status: 'online' });
+    advanceHours(1);
+    tracker.observe(nodes);
+    setNode(ids[0], { status: 'offline' });
+    advanceHours(1);
+    tracker.observe(nodes);
+    expect(prediction.status).toBe('occurred');
+  });
+
+  it('should not confirm a prediction with a condition held since before tracking began', () => {
+    tracker = new OutcomeTracker({ clock: () => now });
+    setNode(ids[0], { loadRatio: 0.97 });
+    const prediction = predict(ids[0], 'overload', 6);
+    tracker.track([prediction]);
+
+    advanceHours(1);
+    tracker.observe(nodes);
+
+    expect(prediction.status).toBe('active');
+  });
+
+  it('should count every confusion cell in node-days', () => {
+    tracker.track([predict(ids[0], 'overload', 6), predict(ids[0], 'thermal_stress', 6)]);
+
+    advanceHours(1);
+    setNode(ids[0], { loadRatio: 0.97, temperature: 82 });
+    tracker.observe(nodes);
+
+    expect(tracker.getResolvedPredictions()).toHaveLength(2);
+    expect(tracker.getAccuracyMetrics().confusion).toEqual({
+      truePositives: 1,
+      falsePositives: 0,
+      falseNegatives: 0,
+      trueNegatives: ids.length - 1,
+    });
+  });
+
+  it('should count a critical node only once until it recovers', () => {
+    setNode(ids[0], { status: 'critical' });
+    tracker.observe(nodes);
+    tracker.observe(nodes);
+    setNode(ids[0], { status: 'online' });
+    tracker.observe(nodes);
+    setNode(ids[0], { status: 'offline' });
+    tracker.observe(nodes);
+
+    expect(tracker.getMissedEvents()).toHaveLength(2);
+  });
+
+  it('should let operators override outcomes', () => {
+    const prediction = predict(ids[0], 'cascade_failure', 6);
+    const resolved: Prediction[] = [];
+    tracker = new OutcomeTracker({ clock: () => now, onResolved: (p) => resolved.push(p) });
+    tracker.track([prediction]);
+
+    expect(tracker.resolve(prediction.id, false)).toBe(true);
+    expect(prediction.status).toBe('expired');
+    expect(tracker.resolve(prediction.id, true)).toBe(true);
+    expect(prediction.status).toBe('occurred');
+    expect(resolved).toHaveLength(2);
+    expect(tracker.resolve('pred_missing', true)).toBe(false);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Tests for PowerFlow - dispatch, line loading, islanding and N-1 cascades
+ */
+
+import { createPowerGrid, edgeId, solvePowerFlow, NOMINAL_FREQUENCY_HZ } from '../src/PowerFlow';
+import { simulateCascade, simulateContingency, updateNodeState, fetchWeatherData } from '../src/SimulationEngine';
+import { SeededRandom } from '../src/SeededRandom';
+import { now, node, line, ring } from './helpers/grid';
+
+describe('PowerFlow', () => {
+  it('should dispatch generation to meet demand and split flow over parallel paths', () => {
+    const { nodes, edges } = ring();
+    const grid = createPowerGrid(nodes, edges);
+    const flow = solvePowerFlow(nodes, grid);
+
+    expect(grid.baseDemand).toEqual({ L: 100 });
+    expect(flow.islands).toBe(1);
+    expect(flow.shedMW).toBe(0);
+    expect(flow.buses.G.generation).toBeCloseTo(100, 6);
+    expect(flow.buses.L.served).toBeCloseTo(100, 6);
+    expect(flow.flows['G-A']).toBeCloseTo(50, 6);
+    expect(flow.flows['B-L']).toBeCloseTo(50, 6);
+
+    // Derived ratings leave 50% headroom over the base case
+    expect(flow.loading['G-A']).toBeCloseTo(1 / 1.5, 6);
+    expect(flow.buses.A.frequency).toBe(NOMINAL_FREQUENCY_HZ);
+  });
+
+  it('should overload the parallel path deterministically when a node trips', () => {
+    const { nodes, edges } = ring();
+    const grid = createPowerGrid(nodes, edges);
+    const base = solvePowerFlow(nodes, grid);
+    const tripped = solvePowerFlow(nodes, grid, { outages: ['A'] });
+
+    expect(tripped.buses.A.energized).toBe(false);
+    expect(tripped.flows['G-A']).toBeUndefined();
+    expect(tripped.flows['G-B']).toBeCloseTo(100, 6);
+    expect(tripped.loading['B-L']).toBeCloseTo(100 / 75, 6);
+    expect(tripped.buses.B.loading).toBeGreaterThan(1);
+    expect(tripped.buses.B.voltage).toBeLessThan(base.buses.B.voltage);
+    expect(solvePowerFlow(nodes, grid, { outages: ['A'] })).toEqual(tripped);
+  });
+
+  it('should respect explicit line ratings', () => {
+    const { nodes, edges } = ring();
+    const grid = createPowerGrid(nodes, edges.map((e) => ({ ...e, capacity: 200 })));
+    const tripped = solvePowerFlow(nodes, grid, { outages: ['A'] });
+
+    expect(tripped.loading['G-B']).toBeCloseTo(0.5, 6);
+  });
+
+  it('should de-energize islands without generation and shed their demand', () => {
+    const { nodes, edges } = ring({ B: { status: 'offline' } });
+    const grid = createPowerGrid(nodes, edges);
+    const flow = solvePowerFlow(nodes, grid, { trippedLines: ['A-L'] });
+
+    expect(flow.islands).toBe(2);
+    expect(flow.buses.L).toMatchObject({ energized: false, served: 0, voltage: 0, frequency: 0 });
+    expect(flow.shedMW).toBeCloseTo(100, 6);
+  });
+
+  it('should shed load and sag frequency when generation falls short', () => {
+    const { nodes, edges } = ring({ G: { ratedCapacity: 80 } });
+    const flow = solvePowerFlow(nodes, createPowerGrid(nodes, edges));
+
+    expect(flow.shedMW).toBeCloseTo(20, 6);
+    expect(flow.buses.G.loading).toBeGreaterThanOrEqual(1);
+    expect(flow.buses.L.frequency).toBeCloseTo(NOMINAL_FREQUENCY_HZ - 2 * 0.2, 6);
+  });
+
+  it('should leave buses no generator reaches out of the model', () => {
+    const { nodes, edges } = ring();
+    nodes.X = node('X', 'water_pump', 30, 50, 50);
+    nodes.Y = node('Y', 'transformer', 0, 55, 50);
+    const grid = createPowerGrid(nodes, [...edges, line('X', 'Y'), { ...line('L', 'X'), type: 'data' }]);
+
+    expect(grid.edges.map(edgeId)).toEqual(['G-A', 'G-B', 'A-L', 'B-L']);
+    expect(grid.baseDemand.X).toBeUndefined();
+  });
+
+  describe('simulation coupling', () => {
+    it('should trip overloaded lines and shed load when a cascade takes out a path', () => {
+      const { nodes, edges } = ring();
+      const grid = createPowerGrid(nodes, edges);
+      const { nodes: updated, event } = simulateCascade(nodes, 'A', 0.7, {}, { rng: new SeededRandom(1), now, grid });
+
+      expect(updated.A.status).toBe('offline');
+      expect(event.cascadeType).toBe('electrical');
+      expect(event.trippedLines).toEqual(expect.arrayContaining(['G-B', 'B-L']));
+      expect(event.affectedNodes).toEqual(expect.arrayContaining(['A', 'B', 'L']));
+      expect(event.loadShedMW).toBeCloseTo(100, 6);
+      expect(updated.L.status).toBe('critical');
+      expect(updated.L.riskScore).toBeGreaterThan(nodes.L.riskScore);
+      event.propagationPath.forEach((p) => expect(p.riskTransfer).toBeGreaterThan(0));
+    });
+
+    it('should study line and multi-element outages as contingencies', () => {
+      const { nodes, edges } = ring();
+      const grid = createPowerGrid(nodes, edges);
+      const context = { rng: new SeededRandom(1), now, grid };
+
+      const lineOutage = simulateContingency(nodes, { nodes: [], lines: ['G-A'] }, 0.7, {}, context).event;
+      expect(lineOutage.originNode).toBe('G');
+      expect(lineOutage.trippedLines).toEqual(expect.arrayContaining(['G-A', 'G-B', 'B-L']));
+      expect(lineOutage.affectedNodes).toContain('L');
+      expect(lineOutage.loadShedMW).toBeCloseTo(100, 6);
+      expect(lineOutage.propagationPath.every((p) => p.from !== p.to)).toBe(true);
+
+      const n2 = simulateContingency(nodes, { nodes: ['A', 'B'], lines: [] }, 0.7, {}, context);
+      expect(n2.nodes.A.status).toBe('offline');
+      expect(n2.nodes.B.status).toBe('offline');
+      expect(n2.event.loadShedMW).toBeCloseTo(100, 6);
+
+      expect(() => simulateContingency(nodes, { nodes: [], lines: ['A-B'] }, 0.7, {}, context))
+        .toThrow('Outage line A-B not found');
+    });
+
+    it('should drive load, voltage and frequency from the flow each tick', () => {
+      const { nodes, edges } = ring({ A: { status: 'offline' } });
+      const grid = createPowerGrid(ring().nodes, edges);
+      const updated = updateNodeState(nodes, null, fetchWeatherData(new SeededRandom(7)), {}, {
+        rng: new SeededRandom(7), now, grid,
+      });
+
+      expect(updated.A.status).toBe('offline');
+      expect(updated.B.loadRatio).toBe(1);
+      expect(updated.B.voltage).toBeLessThan(230);
+      expect(updated.L.frequency).toBe(NOMINAL_FREQUENCY_HZ);
+      expect(updated.L.powerDraw).not.toBe(nodes.L.powerDraw);
+    });
+  });
+});
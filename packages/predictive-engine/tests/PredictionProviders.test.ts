@@ -0,0 +1,188 @@
+/**
+ * Tests for prediction providers - external model over REST and shadow mode
+ */
+
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { PredictiveEngine } from '../src/PredictiveEngine';
+import {
+  createHeuristicProvider,
+  createHttpProvider,
+  createShadowProvider,
+  comparePredictions,
+  PredictionComparison,
+  PredictionProvider,
+  PredictionRequest,
+} from '../src/PredictionProviders';
+import { initializeNodes } from '../src/SimulationEngine';
+import { Prediction } from '../src/types';
+
+interface Model {
+  url: string;
+  requests: Array<Record<string, unknown>>;
+  server: Server;
+}
+
+/**
+ * Stand-in model server replying with a fixed status and body after a delay
+ */
+async function startModel(status: number, body: unknown, delayMs = 0): Promise<Model> {
+  const requests: Array<Record<string, unknown>> = [];
+  const server = createServer((req, res) => {
+    let text = '';
+    req.on('data', (chunk) => (text += chunk));
+    req.on('end', () => {
+      requests.push(JSON.parse(text));
+      setTimeout(() => {
+        res.statusCode = status;
+        res.end(typeof body === 'string' ? body : JSON.stringify(body));
+      }, delayMs);
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return { url: `http://127.0.0.1:${port}/predict`, requests, server };
+}
+
+function stubProvider(name: string, predictions: Prediction[] | Error): PredictionProvider {
+  return {
+    name,
+    predict: async () => {
+      if (predictions instanceof Error) throw predictions;
+      return predictions;
+    },
+  };
+}
+
+describe('PredictionProviders', () => {
+  const timestamp = new Date('2024-01-01T00:00:00.000Z');
+  let engine: PredictiveEngine;
+  let request: PredictionRequest;
+  let nodeIds: string[];
+  let model: Model | null;
+
+  beforeEach(() => {
+    engine = new PredictiveEngine({ seed: 54321, clock: () => timestamp });
+    const nodes = initializeNodes({ seed: 12345, nodeCount: 10 });
+    engine.updateHistories([], nodes);
+    nodeIds = Object.keys(nodes);
+    request = { timestamp, nodes, histories: engine.nodeHistories };
+    model = null;
+  });
+
+  afterEach(async () => {
+    if (model) await new Promise((resolve) => model!.server.close(resolve));
+  });
+
+  const modelPrediction = (nodeId: string, type = 'overload', probability = 0.8) => ({
+    nodeId,
+    type,
+    probability,
+    hoursToEvent: 6,
+  });
+
+  it('should wrap the heuristic engine', async () => {
+    const node = request.nodes[nodeIds[0]];
+    request.nodes[node.id] = { ...node, riskScore: 0.85, health: 0.4 };
+
+    const predictions = await createHeuristicProvider(engine).predict(request);
+
+    expect(predictions).toEqual(engine.computePredictions(request.nodes));
+    expect(predictions.length).toBeGreaterThan(0);
+    expect(engine.resolvePrediction(predictions[0].id, true)).toBe(false);
+  });
+
+  it('should post node histories and read back predictions', async () => {
+    model = await startModel(200, { predictions: [modelPrediction(nodeIds[0])] });
+    const provider = createHttpProvider({ url: model.url });
+
+    const [prediction] = await provider.predict(request);
+
+    expect(prediction).toMatchObject({
+      nodeId: nodeIds[0],
+      nodeName: request.nodes[nodeIds[0]].name,
+      type: 'overload',
+      probability: 0.8,
+      severity: 'high',
+      status: 'active',
+    });
+    expect(prediction.predictedTime).toEqual(new Date(timestamp.getTime() + 6 * 3600000));
+
+    const [body] = model.requests;
+    expect(body.timestamp).toBe(timestamp.toISOString());
+    expect(body.nodes).toHaveLength(10);
+    expect(Object.keys(body.histories as object)).toEqual(nodeIds);
+  });
+
+  it('should fall back to the heuristic when the model times out', async () => {
+    model = await startModel(200, [], 500);
+    const errors: Error[] = [];
+    const provider = createHttpProvider({
+      url: model.url,
+      timeoutMs: 50,
+      fallback: createHeuristicProvider(engine),
+      onFallback: (error) => errors.push(error),
+    });
+
+    const predictions = await provider.predict(request);
+
+    expect(predictions).toEqual(engine.generatePredictions(request.nodes));
+    expect(errors[0].message).toContain('Timed out');
+  });
+
+  it('should reject malformed responses', async () => {
+    model = await startModel(200, [modelPrediction('node_missing')]);
+    const provider = createHttpProvider({ url: model.url });
+
+    await expect(provider.predict(request)).rejects.toThrow('unknown node node_missing');
+  });
+
+  it('should fall back on HTTP errors', async () => {
+    model = await startModel(503, 'unavailable');
+    const fallback = stubProvider('stub', []);
+    const errors: Error[] = [];
+    const provider = createHttpProvider({ url: model.url, fallback, onFallback: (e) => errors.push(e) });
+
+    await expect(provider.predict(request)).resolves.toEqual([]);
+    expect(errors[0].message).toContain('HTTP 503');
+  });
+
+  it('should compare predictions on node and type', () => {
+    const [a, b, c] = nodeIds;
+    const toPrediction = (raw: ReturnType<typeof modelPrediction>) =>
+      ({ ...raw, id: `${raw.nodeId}_${raw.type}` }) as unknown as Prediction;
+
+    const comparison = comparePredictions(
+      [modelPrediction(a), modelPrediction(b, 'thermal_stress', 0.6)].map(toPrediction),
+      [modelPrediction(a, 'overload', 0.7), modelPrediction(c)].map(toPrediction),
+      { primary: 'heuristic', shadow: 'http' },
+      timestamp
+    );
+
+    expect(comparison.matched).toBe(1);
+    expect(comparison.primaryOnly).toEqual([`${b}:thermal_stress`]);
+    expect(comparison.shadowOnly).toEqual([`${c}:overload`]);
+    expect(comparison.meanProbabilityDelta).toBeCloseTo(0.1);
+    expect(comparison.agreement).toBeCloseTo(1 / 3);
+  });
+
+  it('should serve the primary and record disagreement in shadow mode', async () => {
+    const comparisons: PredictionComparison[] = [];
+    const served = [{ nodeId: nodeIds[0], type: 'overload', probability: 0.9 }] as Prediction[];
+    const provider = createShadowProvider({
+      primary: stubProvider('heuristic', served),
+      shadow: stubProvider('http', new Error('connection refused')),
+      onComparison: (comparison) => comparisons.push(comparison),
+    });
+
+    await expect(provider.predict(request)).resolves.toBe(served);
+    expect(comparisons).toHaveLength(1);
+    expect(comparisons[0]).toMatchObject({
+      primary: 'heuristic',
+      shadow: 'http',
+      primaryCount: 1,
+      shadowCount: 0,
+      error: 'connection refused',
+    });
+  });
+});
@@ -83,6 +83,35 @@ describe('PredictiveEngine', () => {
     });
   });
 
+  describe('fork()', () => {
+    it('should continue from the same histories without sharing them', () => {
+      const now = new Date('2024-01-01T00:00:00.000Z');
+      const source = new PredictiveEngine({ seed: 12345, clock: () => now });
+      nodes[Object.keys(nodes)[0]].riskScore = 0.85;
+      for (let i = 0; i < 10; i++) {
+        source.updateHistories([getSystemState(nodes, now)], nodes);
+      }
+
+      const fork = source.fork();
+      const firstNodeId = Object.keys(nodes)[0];
+
+      expect(fork.nodeHistories.get(firstNodeId)).toEqual(source.nodeHistories.get(firstNodeId));
+      expect(fork.generatePredictions(nodes)).toEqual(source.generatePredictions(nodes));
+
+      fork.updateHistories([getSystemState(nodes, now)], nodes);
+      expect(fork.nodeHistories.get(firstNodeId)!.timestamps.length).toBe(11);
+      expect(source.nodeHistories.get(firstNodeId)!.timestamps.length).toBe(10);
+    });
+
+    it('should use the clock it is given', () => {
+      const later = new Date('2024-06-01T00:00:00.000Z');
+      const fork = engine.fork({ clock: () => later });
+
+      fork.updateHistories([getSystemState(nodes, later)], nodes);
+      expect(fork.nodeHistories.get(Object.keys(nodes)[0])!.timestamps[0]).toEqual(later);
+    });
+  });
+
   describe('analyzePatterns()', () => {
     beforeEach(() => {
       // Build up some history
@@ -215,6 +244,22 @@ describe('PredictiveEngine', () => {
       }
     });
 
+    it('should compute predictions without tracking them', () => {
+      const now = new Date('2024-01-01T00:00:00.000Z');
+      const fixed = engine.fork({ clock: () => now });
+      const nodeId = Object.keys(nodes)[0];
+      nodes[nodeId].riskScore = 0.85;
+      nodes[nodeId].health = 0.4;
+
+      const computed = fixed.computePredictions(nodes);
+      expect(computed.length).toBeGreaterThan(0);
+      expect(fixed.computePredictions(nodes)).toEqual(computed);
+      expect(computed.some((p) => fixed.resolvePrediction(p.id, true))).toBe(false);
+
+      expect(fixed.generatePredictions(nodes)).toEqual(computed);
+      expect(fixed.resolvePrediction(computed[0].id, true)).toBe(true);
+    });
+
     it('should sort predictions by urgency', () => {
       // Create multiple at-risk nodes
       const nodeIds = Object.keys(nodes);
@@ -252,6 +297,97 @@ describe('PredictiveEngine', () => {
     });
   });
 
+  describe('cyber rules', () => {
+    let ids: string[];
+
+    beforeEach(() => {
+      // Calm physical readings so only the cyber rules fire
+      ids = Object.keys(nodes);
+      ids.forEach((id) => {
+        nodes[id] = {
+          ...nodes[id],
+          region: 'North', riskScore: 0.1, health: 0.95, loadRatio: 0.5, temperature: 40, connections: [],
+        };
+      });
+    });
+
+    /**
+     * Record one sample per step, applying that step's cyber readings
+     */
+    const feed = (steps: Array<Record<string, Partial<Node>>>) => {
+      steps.forEach((readings) => {
+        Object.entries(readings).forEach(([id, fields]) => Object.assign(nodes[id], fields));
+        engine.updateHistories([], nodes);
+      });
+    };
+
+    it('should record cyber telemetry in node histories', () => {
+      nodes[ids[0]].latency = 45;
+      nodes[ids[0]].failedAuthCount = 2;
+      engine.updateHistories([], nodes);
+
+      const history = engine.nodeHistories.get(ids[0])!;
+      expect(history.latencies).toEqual([45]);
+      expect(history.failedAuthCounts).toEqual([2]);
+
+      // Nodes without cyber fields read as clean
+      const clean = engine.nodeHistories.get(ids[1])!;
+      expect(clean.cyberHealthScores).toEqual([nodes[ids[1]].cyberHealth ?? 1]);
+      expect(clean.tamperSignals).toEqual([nodes[ids[1]].tamperSignal ?? 0]);
+    });
+
+    it('should flag credential-stuffing bursts', () => {
+      feed([0, 0, 1, 6, 9].map((count) => ({
+        [ids[0]]: { failedAuthCount: count },
+        [ids[1]]: { failedAuthCount: count + 1 },
+      })));
+
+      const pattern = engine.analyzePatterns(nodes).find((p) => p.type === 'credential_stuffing');
+      expect(pattern?.affectedNodes).toEqual([ids[0], ids[1]]);
+
+      const prediction = engine.generatePredictions(nodes).find((p) => p.nodeId === ids[0]);
+      expect(prediction?.type).toBe('cyber_vulnerability');
+      expect(prediction?.reasoning).toContain('9 failed attempts');
+      expect(prediction?.suggestedActions.map((a) => a.action)).toContain('Lock out offending sources and enforce MFA');
+    });
+
+    it('should flag rising latency as communication loss', () => {
+      feed([100, 130, 160, 190, 220].map((latency) => ({
+        [ids[0]]: { latency },
+        [ids[1]]: { latency: latency + 10 },
+      })));
+
+      const pattern = engine.analyzePatterns(nodes).find((p) => p.type === 'latency_degradation');
+      expect(pattern?.affectedNodes).toEqual([ids[0], ids[1]]);
+      expect(pattern?.trend).toBe('escalating');
+
+      const prediction = engine.generatePredictions(nodes).find((p) => p.nodeId === ids[0]);
+      expect(prediction?.type).toBe('communication_loss');
+      expect(prediction?.reasoning).toContain('220ms vs 150ms threshold');
+    });
+
+    it('should flag escalating tamper signals', () => {
+      feed([0.3, 0.45, 0.6, 0.75].map((tamperSignal) => ({ [ids[0]]: { tamperSignal } })));
+
+      const pattern = engine.analyzePatterns(nodes).find((p) => p.type === 'tamper_escalation');
+      expect(pattern?.affectedNodes).toEqual([ids[0]]);
+
+      const prediction = engine.generatePredictions(nodes).find((p) => p.nodeId === ids[0]);
+      expect(prediction?.type).toBe('cyber_vulnerability');
+      expect(prediction?.contributingFactors.map((f) => f.factor)).toContain('Tamper Signal');
+      expect(prediction?.hoursToEvent).toBeLessThan(10);
+    });
+
+    it('should ignore high but steady cyber readings', () => {
+      feed([1, 2, 3, 4, 5].map(() => ({ [ids[0]]: { tamperSignal: 0.6, latency: 200, failedAuthCount: 6 } })));
+
+      const types = engine.analyzePatterns(nodes).map((p) => p.type);
+      expect(types).not.toContain('credential_stuffing');
+      expect(types).not.toContain('tamper_escalation');
+      expect(types).not.toContain('latency_degradation');
+    });
+  });
+
   describe('getSystemHealthScore()', () => {
     it('should return value between 0 and 1', () => {
       const score = engine.getSystemHealthScore(nodes);
@@ -353,5 +489,33 @@ describe('PredictiveEngine', () => {
         // Probabilities may vary slightly due to timing
       });
     });
+
+    it('should produce identical predictions with a fixed clock', () => {
+      const now = new Date('2024-01-01T00:00:00.000Z');
+      const engine1 = new PredictiveEngine({ seed: 99999, clock: () => now });
+      const engine2 = new PredictiveEngine({ seed: 99999, clock: () => now });
+
+      nodes[Object.keys(nodes)[0]].riskScore = 0.85;
+      for (let i = 0; i < 10; i++) {
+        engine1.updateHistories([getSystemState(nodes, now)], nodes);
+        engine2.updateHistories([getSystemState(nodes, now)], nodes);
+      }
+
+      const pred1 = engine1.generatePredictions(nodes);
+      expect(pred1.length).toBeGreaterThan(0);
+      expect(engine2.generatePredictions(nodes)).toEqual(pred1);
+    });
+
+    it('should return the same predictions until history changes', () => {
+      nodes[Object.keys(nodes)[0]].riskScore = 0.85;
+      for (let i = 0; i < 10; i++) {
+        engine.updateHistories([getSystemState(nodes)], nodes);
+      }
+
+      const first = engine.generatePredictions(nodes).map((p) => p.probability);
+      const second = engine.generatePredictions(nodes).map((p) => p.probability);
+
+      expect(second).toEqual(first);
+    });
   });
 });
@@ -35,6 +35,17 @@ describe('SeededRandom', () => {
 
       expect(first).toEqual(second);
     });
+
+    it('should clone from the current position independently', () => {
+      const rng = new SeededRandom(12345);
+      rng.next();
+
+      const copy = rng.clone();
+      const expected = Array.from({ length: 5 }, () => rng.next());
+
+      expect(Array.from({ length: 5 }, () => copy.next())).toEqual(expected);
+      expect(copy.getSeed()).toBe(12345);
+    });
   });
 
   describe('next()', () => {
@@ -14,6 +14,7 @@ import {
   CRITICAL_THRESHOLD,
   WARNING_THRESHOLD,
 } from '../src/SimulationEngine';
+import { SeededRandom } from '../src/SeededRandom';
 import { Node, Threat } from '../src/types';
 
 describe('SimulationEngine', () => {
@@ -167,6 +168,17 @@ describe('SimulationEngine', () => {
 
       expect(updated[nodeId].status).toBe('critical');
     });
+
+    it('should reproduce identical states from a seeded context', () => {
+      const weather = fetchWeatherData(new SeededRandom(7));
+      const now = new Date('2024-01-01T00:00:00.000Z');
+
+      const first = updateNodeState(nodes, null, weather, {}, { rng: new SeededRandom(42), now });
+      const second = updateNodeState(nodes, null, weather, {}, { rng: new SeededRandom(42), now });
+
+      expect(second).toEqual(first);
+      expect(first[Object.keys(first)[0]].lastSeen).toEqual(now);
+    });
   });
 
   describe('getSystemState()', () => {
@@ -241,6 +253,17 @@ describe('SimulationEngine', () => {
       });
     });
 
+    it('should reproduce the same cascade from a seeded context', () => {
+      const originId = Object.keys(nodes)[0];
+      const now = new Date('2024-01-01T00:00:00.000Z');
+
+      const first = simulateCascade(nodes, originId, 0.8, {}, { rng: new SeededRandom(42), now });
+      const second = simulateCascade(nodes, originId, 0.8, {}, { rng: new SeededRandom(42), now });
+
+      expect(second).toEqual(first);
+      expect(first.event.id).toBe(`cascade_${now.getTime()}`);
+    });
+
     it('should throw error for invalid origin', () => {
       expect(() => {
         simulateCascade(nodes, 'invalid_node_id', 0.5);
@@ -0,0 +1,42 @@
+/**
+ * Small hand-built grids shared by the power flow and Monte Carlo tests
+ */
+
+import { DependencyEdge, Node, NodeType } from '../../src/types';
+
+export const now = new Date('2024-01-01T00:00:00.000Z');
+
+export const node = (id: string, type: NodeType, powerDraw: number, x: number, y: number, extra: Partial<Node> = {}): Node => ({
+  id,
+  name: id,
+  type,
+  region: 'North',
+  coordinates: { x, y },
+  riskScore: 0.1,
+  health: 0.95,
+  loadRatio: 0.5,
+  temperature: 40,
+  powerDraw,
+  status: 'online',
+  lastSeen: now,
+  connections: [],
+  ...extra,
+});
+
+export const line = (from: string, to: string, extra: Partial<DependencyEdge> = {}): DependencyEdge => ({
+  from, to, type: 'power', weight: 1, latency: 5, bandwidth: 0, isActive: true, ...extra,
+});
+
+/**
+ * Generator G feeds load L over two equal parallel paths, via A and via B
+ */
+export const ring = (overrides: Record<string, Partial<Node>> = {}) => {
+  const nodes: Record<string, Node> = {
+    G: node('G', 'generator', 40, 0, 10, overrides.G),
+    A: node('A', 'substation', 0, 10, 20, overrides.A),
+    B: node('B', 'substation', 0, 10, 0, overrides.B),
+    L: node('L', 'datacenter', 100, 20, 10, overrides.L),
+  };
+  const edges = [line('G', 'A'), line('G', 'B'), line('A', 'L'), line('B', 'L')];
+  return { nodes, edges };
+};
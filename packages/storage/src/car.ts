@@ -5,6 +5,8 @@
  * CAR files are the preferred format for Web3.Storage uploads.
  */
 
+import { varint } from 'multiformats';
+import { equals } from 'multiformats/bytes';
 import { CID } from 'multiformats/cid';
 import * as raw from 'multiformats/codecs/raw';
 import * as dagCbor from 'multiformats/codecs/json';
@@ -139,6 +141,188 @@ export async function createBlocks(
   return blocks;
 }
 
+/**
+ * Build a single-root CAR holding data as one JSON block
+ */
+export async function createJSONCAR(data: unknown): Promise<CARFile> {
+  const { cid, bytes } = await createSimpleCAR(data);
+  return { roots: [cid], blocks: [{ cid, bytes }] };
+}
+
+// ============================================================================
+// CARv1 Encoding
+// ============================================================================
+
+// The CARv1 header is a DAG-CBOR map { roots: [CID...], version: 1 }. Only
+// the CBOR subset that header uses is handled here.
+const CBOR_UINT = 0;
+const CBOR_BYTES = 2;
+const CBOR_TEXT = 3;
+const CBOR_ARRAY = 4;
+const CBOR_MAP = 5;
+const CBOR_TAG = 6;
+const CBOR_CID_TAG = 42;
+
+function cborHead(major: number, value: number): Uint8Array {
+  if (value < 24) return Uint8Array.of((major << 5) | value);
+  if (value < 0x100) return Uint8Array.of((major << 5) | 24, value);
+  if (value < 0x10000) return Uint8Array.of((major << 5) | 25, value >> 8, value & 0xff);
+  return Uint8Array.of((major << 5) | 26, value >>> 24, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff);
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((size, part) => size + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+function encodeCARHeader(roots: CID[]): Uint8Array {
+  const text = (value: string) => {
+    const bytes = encodeString(value);
+    return concatBytes([cborHead(CBOR_TEXT, bytes.length), bytes]);
+  };
+
+  // DAG-CBOR CID links are tag 42 over the CID bytes with a 0x00 prefix
+  const links = roots.map((cid) => concatBytes([
+    cborHead(CBOR_TAG, CBOR_CID_TAG),
+    cborHead(CBOR_BYTES, cid.bytes.length + 1),
+    Uint8Array.of(0),
+    cid.bytes,
+  ]));
+
+  return concatBytes([
+    cborHead(CBOR_MAP, 2),
+    text('roots'),
+    cborHead(CBOR_ARRAY, roots.length),
+    ...links,
+    text('version'),
+    cborHead(CBOR_UINT, 1),
+  ]);
+}
+
+function decodeCARHeader(bytes: Uint8Array): { roots: CID[]; version: number } {
+  let offset = 0;
+
+  const head = (): [number, number] => {
+    const initial = bytes[offset++];
+    if (initial === undefined) throw new Error('Truncated CAR header');
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+    if (info < 24) return [major, info];
+
+    const size = info === 24 ? 1 : info === 25 ? 2 : info === 26 ? 4 : 0;
+    if (!size || offset + size > bytes.length) throw new Error('Unsupported CBOR length in CAR header');
+    let value = 0;
+    for (let i = 0; i < size; i++) value = value * 256 + bytes[offset++];
+    return [major, value];
+  };
+
+  const item = (): unknown => {
+    const [major, value] = head();
+    switch (major) {
+      case CBOR_UINT:
+        return value;
+      case CBOR_BYTES:
+      case CBOR_TEXT: {
+        const slice = bytes.subarray(offset, offset + value);
+        if (slice.length !== value) throw new Error('Truncated CAR header');
+        offset += value;
+        return major === CBOR_TEXT ? decodeString(slice) : slice;
+      }
+      case CBOR_ARRAY:
+        return Array.from({ length: value }, item);
+      case CBOR_MAP: {
+        const map: Record<string, unknown> = {};
+        for (let i = 0; i < value; i++) {
+          const key = item();
+          if (typeof key !== 'string') throw new Error('CAR header map keys must be strings');
+          map[key] = item();
+        }
+        return map;
+      }
+      case CBOR_TAG: {
+        const link = item();
+        if (value !== CBOR_CID_TAG || !(link instanceof Uint8Array) || link[0] !== 0) {
+          throw new Error('Unsupported CBOR tag in CAR header');
+        }
+        return CID.decode(link.subarray(1));
+      }
+      default:
+        throw new Error(`Unsupported CBOR major type ${major} in CAR header`);
+    }
+  };
+
+  const header = item() as { roots?: unknown; version?: unknown };
+  if (header.version !== 1) {
+    throw new Error(`Unsupported CAR version: ${String(header.version)}`);
+  }
+  if (!Array.isArray(header.roots) || !header.roots.every((root) => root instanceof CID)) {
+    throw new Error('CAR header has no roots');
+  }
+
+  return { roots: header.roots, version: 1 };
+}
+
+function lengthPrefixed(...parts: Uint8Array[]): Uint8Array {
+  const body = concatBytes(parts);
+  const prefix = varint.encodeTo(body.length, new Uint8Array(varint.encodingLength(body.length)));
+  return concatBytes([prefix, body]);
+}
+
+/**
+ * Serialize roots and blocks as a CARv1 file
+ */
+export function encodeCAR(car: CARFile): Uint8Array {
+  return concatBytes([
+    lengthPrefixed(encodeCARHeader(car.roots)),
+    ...car.blocks.map((block) => lengthPrefixed(block.cid.bytes, block.bytes)),
+  ]);
+}
+
+/**
+ * Parse a CARv1 file. Block bytes are not checked against their CIDs;
+ * use verifyBlock for that.
+ */
+export function decodeCAR(bytes: Uint8Array): CARFile {
+  const sections: Uint8Array[] = [];
+
+  let offset = 0;
+  while (offset < bytes.length) {
+    const [length, read] = varint.decode(bytes, offset);
+    const start = offset + read;
+    if (length === 0 || start + length > bytes.length) {
+      throw new Error(`Truncated CAR section at byte ${offset}`);
+    }
+    sections.push(bytes.subarray(start, start + length));
+    offset = start + length;
+  }
+
+  if (sections.length === 0) {
+    throw new Error('Empty CAR file');
+  }
+
+  const { roots } = decodeCARHeader(sections[0]);
+  const blocks = sections.slice(1).map((section) => {
+    const [cid, blockBytes] = CID.decodeFirst(section);
+    return { cid, bytes: blockBytes };
+  });
+
+  return { roots, blocks };
+}
+
+/**
+ * Check that a block's bytes hash to the digest in its CID
+ */
+export async function verifyBlock(block: CARBlock): Promise<boolean> {
+  if (block.cid.multihash.code !== sha256.code) return false;
+  const digest = await sha256.digest(block.bytes);
+  return equals(digest.digest, block.cid.multihash.digest);
+}
+
 // ============================================================================
 // Gateway URL Utilities
 // ============================================================================
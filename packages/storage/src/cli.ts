@@ -0,0 +1,83 @@
+#!/usr/bin/env node
+/**
+ * sentinel-verify - offline verification of anchored evidence
+ *
+ * Prints a signed verification report as JSON. Exits 0 if every check
+ * passed, 1 if any failed, 2 on bad usage or an unreadable bundle.
+ */
+
+import { readFile } from 'fs/promises';
+import { parseArgs } from 'util';
+import { fetchEvidenceCAR, signVerificationReport, verifyEvidence } from './verify.js';
+
+const USAGE = `Usage: sentinel-verify (--car <file> | --cid <cid>) --signature <hex> --contract <address> [options]
+
+  --car <file>          Local CARv1 bundle (with --cid, its root must match)
+  --cid <cid>           Bundle CID; fetched from --gateway when --car is not given
+  --gateway <url>       Trustless IPFS gateway (default: https://w3s.link/ipfs/)
+  --signature <hex>     HMAC signature from the pin result
+  --hmac-key <key>      HMAC key (default: $HMAC_KEY)
+  --rpc <url>           JSON-RPC endpoint (default: $RPC_URL or http://127.0.0.1:8545)
+  --contract <address>  DataAnchor address (default: $CONTRACT_ADDRESS)
+  --signer-key <key>    Sign the report with this private key (default: $VERIFIER_PRIVATE_KEY)
+                        instead of the HMAC key
+  -h, --help            Show this help
+`;
+
+function usageError(message: string): never {
+  process.stderr.write(`${message}\n\n${USAGE}`);
+  process.exit(2);
+}
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      car: { type: 'string' },
+      cid: { type: 'string' },
+      gateway: { type: 'string' },
+      signature: { type: 'string' },
+      'hmac-key': { type: 'string' },
+      rpc: { type: 'string' },
+      contract: { type: 'string' },
+      'signer-key': { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return;
+  }
+
+  const hmacKey = values['hmac-key'] ?? process.env.HMAC_KEY;
+  const contractAddress = values.contract ?? process.env.CONTRACT_ADDRESS;
+  const rpcUrl = values.rpc ?? process.env.RPC_URL ?? 'http://127.0.0.1:8545';
+  const signerKey = values['signer-key'] ?? process.env.VERIFIER_PRIVATE_KEY;
+
+  if (!values.car && !values.cid) usageError('Provide --car or --cid');
+  if (!values.signature) usageError('Provide --signature');
+  if (!hmacKey) usageError('Provide --hmac-key or set HMAC_KEY');
+  if (!contractAddress) usageError('Provide --contract or set CONTRACT_ADDRESS');
+
+  const car = values.car
+    ? new Uint8Array(await readFile(values.car))
+    : await fetchEvidenceCAR(values.cid!, values.gateway);
+
+  const report = await verifyEvidence({
+    car,
+    expectedCid: values.cid,
+    hmacKey,
+    signature: values.signature,
+    rpcUrl,
+    contractAddress,
+  });
+
+  const signed = await signVerificationReport(report, { hmacKey, signerKey });
+  process.stdout.write(`${JSON.stringify(signed, null, 2)}\n`);
+  process.exitCode = report.valid ? 0 : 1;
+}
+
+main().catch((error) => {
+  process.stderr.write(`Verification failed: ${error instanceof Error ? error.message : String(error)}\n`);
+  process.exit(2);
+});
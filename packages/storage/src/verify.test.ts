@@ -0,0 +1,156 @@
+/**
+ * Evidence Verification Tests
+ *
+ * The on-chain suite runs against a local Hardhat node with DataAnchor
+ * deployed, and is skipped unless HARDHAT_E2E=true:
+ *
+ *   cd packages/contracts && npx hardhat node
+ *   cd packages/contracts && npm run deploy:local
+ *   HARDHAT_E2E=true CONTRACT_ADDRESS=<DataAnchor address> npx vitest run verify
+ */
+
+import { randomUUID } from 'crypto';
+import { describe, it, expect, beforeAll } from 'vitest';
+import { Contract, JsonRpcProvider, Wallet } from 'ethers';
+import { createStorageService } from './index.js';
+import { createJSONCAR, decodeCAR, encodeCAR, verifyBlock } from './car.js';
+import {
+  signVerificationReport,
+  verifyEvidence,
+  verifyReportSignature,
+  type EvidenceVerificationReport,
+} from './verify.js';
+
+const testHmacKey = 'test-hmac-key-for-sentinel-grid-testing';
+
+// Hardhat account #0, funded on every local node
+const HARDHAT_PRIVATE_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const RPC_URL = process.env.RPC_URL ?? 'http://127.0.0.1:8545';
+
+const incident = {
+  incidentId: 'INC-0001',
+  severity: 'critical',
+  affectedNodes: 12,
+  summary: 'Cascade from substation N004',
+};
+
+describe('CAR encoding', () => {
+  it('should round-trip roots and blocks through CARv1 bytes', async () => {
+    const car = await createJSONCAR(incident);
+    const decoded = decodeCAR(encodeCAR(car));
+
+    expect(decoded.roots.map(String)).toEqual(car.roots.map(String));
+    expect(decoded.blocks).toHaveLength(1);
+    expect(decoded.blocks[0].cid.equals(car.roots[0])).toBe(true);
+    expect(new TextDecoder().decode(decoded.blocks[0].bytes)).toBe(JSON.stringify(incident));
+    expect(await verifyBlock(decoded.blocks[0])).toBe(true);
+  });
+
+  it('should detect a block whose bytes no longer match its CID', async () => {
+    const car = await createJSONCAR(incident);
+    const tampered = { ...car.blocks[0], bytes: new TextEncoder().encode(JSON.stringify({ ...incident, severity: 'low' })) };
+
+    expect(await verifyBlock(tampered)).toBe(false);
+  });
+
+  it('should reject truncated and malformed CAR files', async () => {
+    const bytes = encodeCAR(await createJSONCAR(incident));
+
+    expect(() => decodeCAR(new Uint8Array())).toThrow('Empty CAR file');
+    expect(() => decodeCAR(bytes.subarray(0, bytes.length - 5))).toThrow('Truncated CAR section');
+    expect(() => decodeCAR(Uint8Array.of(1, 0xa0))).toThrow('Unsupported CAR version');
+  });
+});
+
+describe('signVerificationReport', () => {
+  const report: EvidenceVerificationReport = {
+    cid: 'bagaaiera',
+    payloadHash: 'a'.repeat(64),
+    checks: { blocks: true, signature: true, anchored: true, cidMatches: true },
+    anchor: null,
+    valid: true,
+    errors: [],
+    verifiedAt: '2024-01-01T00:00:00.000Z',
+  };
+
+  it('should HMAC-sign the report when no signer key is given', async () => {
+    const signed = await signVerificationReport(report, { hmacKey: testHmacKey });
+
+    expect(signed.signature.algorithm).toBe('hmac-sha256');
+    expect(verifyReportSignature(signed, testHmacKey)).toBe(true);
+    expect(verifyReportSignature(signed, 'other-key')).toBe(false);
+    expect(verifyReportSignature(signed)).toBe(false);
+  });
+
+  it('should sign with EIP-191 so the verifier address can be recovered', async () => {
+    const signed = await signVerificationReport(report, { hmacKey: testHmacKey, signerKey: HARDHAT_PRIVATE_KEY });
+
+    expect(signed.signature.algorithm).toBe('eip191');
+    expect(signed.signature.signer).toBe(new Wallet(HARDHAT_PRIVATE_KEY).address);
+    expect(verifyReportSignature(signed)).toBe(true);
+
+    const altered = { ...signed, report: { ...report, valid: false } };
+    expect(verifyReportSignature(altered)).toBe(false);
+  });
+});
+
+const describeE2E = process.env.HARDHAT_E2E === 'true' ? describe : describe.skip;
+
+describeE2E('verifyEvidence against a local Hardhat node', () => {
+  const storage = createStorageService({ hmacKey: testHmacKey, providerOrder: ['mock'] });
+  const payload = { ...incident, incidentId: `INC-${randomUUID()}` };
+  let contractAddress: string;
+  let car: Uint8Array;
+  let cid: string;
+  let signature: string;
+
+  beforeAll(async () => {
+    if (!process.env.CONTRACT_ADDRESS) {
+      throw new Error('Set CONTRACT_ADDRESS to the DataAnchor address from npm run deploy:local');
+    }
+    contractAddress = process.env.CONTRACT_ADDRESS;
+
+    const pin = await storage.pin(payload);
+    signature = pin.signature;
+
+    const bundle = await createJSONCAR(payload);
+    car = encodeCAR(bundle);
+    cid = bundle.roots[0].toString();
+
+    const provider = new JsonRpcProvider(RPC_URL);
+    const dataAnchor = new Contract(
+      contractAddress,
+      ['function anchor(bytes32 payloadHash, string calldata ipfsCid) external returns (uint256)'],
+      new Wallet(HARDHAT_PRIVATE_KEY, provider)
+    );
+    // The backend's anchor scheduler anchors the same pin.sha256
+    await (await dataAnchor.anchor(`0x${pin.sha256}`, cid)).wait();
+    provider.destroy();
+  });
+
+  it('should pass every check for an anchored bundle', async () => {
+    const report = await verifyEvidence({ car, expectedCid: cid, hmacKey: testHmacKey, signature, rpcUrl: RPC_URL, contractAddress });
+
+    expect(report.errors).toEqual([]);
+    expect(report.valid).toBe(true);
+    expect(report.payloadHash).toBe(storage.computeHash(payload));
+    expect(report.anchor).toMatchObject({ chainId: 31337, ipfsCid: cid });
+  });
+
+  it('should fail the signature check with the wrong key', async () => {
+    const report = await verifyEvidence({ car, hmacKey: 'other-key', signature, rpcUrl: RPC_URL, contractAddress });
+
+    expect(report.valid).toBe(false);
+    expect(report.checks).toEqual({ blocks: true, signature: false, anchored: true, cidMatches: true });
+  });
+
+  it('should report a modified payload as not anchored', async () => {
+    const forged = encodeCAR(await createJSONCAR({ ...payload, severity: 'low' }));
+    const report = await verifyEvidence({ car: forged, hmacKey: testHmacKey, signature, rpcUrl: RPC_URL, contractAddress });
+
+    expect(report.valid).toBe(false);
+    expect(report.checks.signature).toBe(false);
+    expect(report.checks.anchored).toBe(false);
+    expect(report.anchor).toBeNull();
+  });
+});
@@ -0,0 +1,275 @@
+/**
+ * Offline evidence verification
+ *
+ * Checks an anchored evidence bundle without the Sentinel Grid backend:
+ * the CAR's blocks against their CIDs, the payload hash and HMAC signature
+ * the way StorageService.pin produced them, and the DataAnchor record the
+ * hash was anchored under.
+ */
+
+import { Contract, JsonRpcProvider, Wallet, verifyMessage } from 'ethers';
+import * as raw from 'multiformats/codecs/raw';
+import * as json from 'multiformats/codecs/json';
+import { StorageService } from './index.js';
+import { decodeCAR, decodeJSON, getGatewayURL, verifyBlock, type CARFile } from './car.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Inputs for verifyEvidence
+ */
+export interface EvidenceVerificationOptions {
+  /** CARv1 bytes whose first root block is the pinned payload */
+  car: Uint8Array;
+  /** CID the bundle is expected to have, e.g. the one it was fetched by */
+  expectedCid?: string;
+  /** HMAC key the payload hash was signed with */
+  hmacKey: string;
+  /** HMAC signature from the pin result */
+  signature: string;
+  /** JSON-RPC endpoint of the chain the anchor lives on */
+  rpcUrl: string;
+  /** DataAnchor contract address */
+  contractAddress: string;
+}
+
+/**
+ * On-chain DataAnchor record
+ */
+export interface OnChainAnchor {
+  chainId: number;
+  contractAddress: string;
+  ipfsCid: string;
+  timestamp: string;
+  submitter: string;
+}
+
+/**
+ * Outcome of every check, in the order they run
+ */
+export interface EvidenceVerificationReport {
+  cid: string;
+  payloadHash: string;
+  checks: {
+    /** Every block hashes to its CID (and the root matches expectedCid) */
+    blocks: boolean;
+    /** HMAC of the payload hash matches the signature */
+    signature: boolean;
+    /** DataAnchor.verify reports the payload hash as anchored */
+    anchored: boolean;
+    /** The anchor's ipfsCid is this bundle's root CID */
+    cidMatches: boolean;
+  };
+  anchor: OnChainAnchor | null;
+  valid: boolean;
+  errors: string[];
+  verifiedAt: string;
+}
+
+/**
+ * Report plus a signature over its JSON
+ */
+export interface SignedVerificationReport {
+  report: EvidenceVerificationReport;
+  signature: {
+    /** hmac-sha256 with the HMAC key, or EIP-191 with the verifier's wallet */
+    algorithm: 'hmac-sha256' | 'eip191';
+    value: string;
+    signer?: string;
+  };
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DATA_ANCHOR_ABI = [
+  'function verify(bytes32 payloadHash) external view returns (bool exists, uint256 timestamp, address submitter)',
+  'function getAnchor(bytes32 payloadHash) external view returns (tuple(bytes32 payloadHash, string ipfsCid, uint256 timestamp, address submitter))',
+];
+
+const DEFAULT_FETCH_TIMEOUT = 30000;
+
+// ============================================================================
+// Bundle Loading
+// ============================================================================
+
+/**
+ * Fetch a CID as a CAR from a trustless IPFS gateway
+ */
+export async function fetchEvidenceCAR(
+  cid: string,
+  gateway?: string,
+  timeout: number = DEFAULT_FETCH_TIMEOUT
+): Promise<Uint8Array> {
+  const response = await fetch(`${getGatewayURL(cid, gateway)}?format=car`, {
+    headers: { Accept: 'application/vnd.ipld.car' },
+    signal: AbortSignal.timeout(timeout),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Gateway returned ${response.status} for ${cid}`);
+  }
+
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+/**
+ * Decode the payload held in the CAR's root block
+ */
+function readRootPayload(car: CARFile): Record<string, unknown> {
+  const root = car.roots[0];
+  const block = car.blocks.find((b) => b.cid.equals(root));
+
+  if (!block) {
+    throw new Error(`CAR does not contain its root block ${root}`);
+  }
+  if (root.code !== json.code && root.code !== raw.code) {
+    throw new Error(`Root block codec 0x${root.code.toString(16)} is not JSON`);
+  }
+
+  const payload = decodeJSON(block.bytes);
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+    throw new Error('Root block is not a JSON object');
+  }
+
+  return payload as Record<string, unknown>;
+}
+
+// ============================================================================
+// Verification
+// ============================================================================
+
+/**
+ * Look up a payload hash on DataAnchor. getAnchor reverts for unknown
+ * hashes, so it is only called once verify says the anchor exists.
+ */
+async function lookupAnchor(
+  rpcUrl: string,
+  contractAddress: string,
+  payloadHash: string
+): Promise<OnChainAnchor | null> {
+  const provider = new JsonRpcProvider(rpcUrl, undefined, { staticNetwork: true });
+
+  try {
+    const chainId = Number(await provider.send('eth_chainId', []));
+    const dataAnchor = new Contract(contractAddress, DATA_ANCHOR_ABI, provider);
+    const hash32 = `0x${payloadHash}`;
+
+    const [exists] = await dataAnchor.verify(hash32);
+    if (!exists) return null;
+
+    const anchor = await dataAnchor.getAnchor(hash32);
+    return {
+      chainId,
+      contractAddress,
+      ipfsCid: anchor.ipfsCid,
+      timestamp: new Date(Number(anchor.timestamp) * 1000).toISOString(),
+      submitter: anchor.submitter,
+    };
+  } finally {
+    provider.destroy();
+  }
+}
+
+/**
+ * Run every check against a bundle. Failed checks are reported rather
+ * than thrown; only an unreadable CAR or unreachable RPC endpoint throws.
+ */
+export async function verifyEvidence(options: EvidenceVerificationOptions): Promise<EvidenceVerificationReport> {
+  const errors: string[] = [];
+  const car = decodeCAR(options.car);
+  const cid = car.roots[0].toString();
+
+  let blocks = true;
+  for (const block of car.blocks) {
+    if (!(await verifyBlock(block))) {
+      blocks = false;
+      errors.push(`Block ${block.cid} does not match its CID`);
+    }
+  }
+  if (options.expectedCid && options.expectedCid !== cid) {
+    blocks = false;
+    errors.push(`CAR root ${cid} is not the expected CID ${options.expectedCid}`);
+  }
+
+  // Same hash and HMAC StorageService.pin records for a payload
+  const storage = new StorageService({ hmacKey: options.hmacKey });
+  const payloadHash = storage.computeHash(readRootPayload(car));
+  const signature = storage.verifySignature(payloadHash, options.signature);
+  if (!signature) {
+    errors.push('HMAC signature does not match the payload hash');
+  }
+
+  const anchor = await lookupAnchor(options.rpcUrl, options.contractAddress, payloadHash);
+  if (!anchor) {
+    errors.push(`Payload hash ${payloadHash} is not anchored on ${options.contractAddress}`);
+  }
+
+  const cidMatches = anchor?.ipfsCid === cid;
+  if (anchor && !cidMatches) {
+    errors.push(`Anchored CID ${anchor.ipfsCid} does not match bundle CID ${cid}`);
+  }
+
+  return {
+    cid,
+    payloadHash,
+    checks: { blocks, signature, anchored: anchor !== null, cidMatches },
+    anchor,
+    valid: errors.length === 0,
+    errors,
+    verifiedAt: new Date().toISOString(),
+  };
+}
+
+// ============================================================================
+// Report Signing
+// ============================================================================
+
+/**
+ * Sign the report's JSON. With a private key the signature is EIP-191 and
+ * anyone can recover the verifier's address; otherwise it is an HMAC
+ * under the bundle's key.
+ */
+export async function signVerificationReport(
+  report: EvidenceVerificationReport,
+  keys: { hmacKey: string; signerKey?: string }
+): Promise<SignedVerificationReport> {
+  const message = JSON.stringify(report);
+
+  if (keys.signerKey) {
+    const wallet = new Wallet(keys.signerKey);
+    return {
+      report,
+      signature: { algorithm: 'eip191', value: await wallet.signMessage(message), signer: wallet.address },
+    };
+  }
+
+  return {
+    report,
+    signature: {
+      algorithm: 'hmac-sha256',
+      value: new StorageService({ hmacKey: keys.hmacKey }).sign(message),
+    },
+  };
+}
+
+/**
+ * Check a signed report. HMAC reports need the key they were signed with.
+ */
+export function verifyReportSignature(signed: SignedVerificationReport, hmacKey?: string): boolean {
+  const message = JSON.stringify(signed.report);
+
+  if (signed.signature.algorithm === 'eip191') {
+    try {
+      return verifyMessage(message, signed.signature.value) === signed.signature.signer;
+    } catch {
+      return false;
+    }
+  }
+
+  if (!hmacKey) return false;
+  return new StorageService({ hmacKey }).verifySignature(message, signed.signature.value);
+}